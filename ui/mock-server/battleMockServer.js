@@ -0,0 +1,375 @@
+// Local stand-in for the battle backend, so the UI runs offline.
+// Implements the contract of src/services/BattleApiClient.ts on the port the dev server proxies to:
+//
+//   npm run mock-server        (PORT=8001 npm run mock-server to use another port)
+//
+// State lives in memory and resets on restart. Real-time sync (see battleSyncServer.js) is served
+// from the same port at ws://localhost:PORT/ws/battle.
+import http from 'http';
+import { createBattleSync } from './battleSyncServer.js';
+
+const PORT = Number(process.env.PORT) || 8000;
+
+const GRID_WIDTH = 20;
+const GRID_HEIGHT = 20;
+const SIGHT_RADIUS = 10; // Cells
+const MOVEMENT_BUDGET = 6; // Cells per move (30 ft)
+
+// IsometricDirection values (see IsometricSpriteManager)
+const NORTH = 0;
+const SOUTH = 2;
+
+// Grid: floor everywhere, and a short brick wall with a gap in the middle of the map
+function createGrid() {
+  const tiles = {};
+  for (let x = 0; x < GRID_WIDTH; x++) {
+    for (let y = 0; y < GRID_HEIGHT; y++) {
+      tiles[`${x},${y},0`] = {
+        uuid: `tile_${x}_${y}_0`,
+        name: 'Floor',
+        position: [x, y],
+        walkable: true,
+        visible: true,
+        sprite_name: 'Floor_01',
+        z_level: 0,
+        sprite_direction: SOUTH,
+        tile_type: 'floor',
+        snap_position: 'above'
+      };
+    }
+  }
+
+  const walls = {};
+  for (let y = 6; y < 14; y++) {
+    if (y === 10) continue; // Doorway
+    const uuid = `wall_10_${y}_0_${NORTH}`;
+    // Keyed like getWallKey in src/utils/wallIndexUtils.ts (NORTH walls are already canonical)
+    walls[`10,${y},0,${NORTH}||${NORTH}`] = {
+      uuid,
+      name: 'Brick Wall',
+      position: [10, y],
+      z_level: 0,
+      wall_direction: NORTH,
+      sprite_name: null,
+      sprite_direction: NORTH,
+      wall_type: 'brick',
+      blocks_movement: true,
+      visible: true,
+      snap_position: 'above'
+    };
+  }
+
+  return { width: GRID_WIDTH, height: GRID_HEIGHT, tiles, walls };
+}
+
+function createEntities() {
+  const entity = (uuid, name, position, hp, ac, spriteName) => ({
+    uuid,
+    name,
+    current_hp: hp,
+    max_hp: hp,
+    armor_class: ac,
+    target_entity_uuid: undefined,
+    position,
+    sprite_name: spriteName
+  });
+
+  return {
+    'mock-hero': entity('mock-hero', 'Hero', [5, 10], 30, 16, 'Knight'),
+    'mock-goblin-1': entity('mock-goblin-1', 'Goblin', [14, 8], 7, 13, 'Goblin'),
+    'mock-goblin-2': entity('mock-goblin-2', 'Goblin Archer', [15, 12], 7, 12, 'Goblin')
+  };
+}
+
+const state = {
+  grid: createGrid(),
+  entities: createEntities(),
+  eventCount: 0
+};
+
+// Movement rules
+
+const key = (x, y) => `${x},${y}`;
+const inBounds = (x, y) => x >= 0 && y >= 0 && x < state.grid.width && y < state.grid.height;
+
+function isOccupied(x, y, ignoreUuid) {
+  return Object.values(state.entities).some(entity =>
+    entity.uuid !== ignoreUuid && entity.current_hp > 0 && entity.position[0] === x && entity.position[1] === y);
+}
+
+function isCellWalkable(x, y, ignoreUuid) {
+  const tile = state.grid.tiles[`${x},${y},0`];
+  return inBounds(x, y) && !!tile && tile.walkable && !isOccupied(x, y, ignoreUuid);
+}
+
+// Edge walls (the N edge of (x, y) is the S edge of (x - 1, y))
+function isEdgeBlocked(fromX, fromY, toX, toY) {
+  return Object.values(state.grid.walls).some(wall => {
+    if (!wall.blocks_movement || wall.z_level !== 0) return false;
+    const [wx, wy] = wall.position;
+    if (wall.wall_direction === NORTH) {
+      return (fromY === wy && toY === wy) && ((fromX === wx && toX === wx - 1) || (fromX === wx - 1 && toX === wx));
+    }
+    if (wall.wall_direction === SOUTH) {
+      return (fromY === wy && toY === wy) && ((fromX === wx && toX === wx + 1) || (fromX === wx + 1 && toX === wx));
+    }
+    const dy = wall.wall_direction === 1 ? -1 : 1; // EAST = y - 1, WEST = y + 1
+    return (fromX === wx && toX === wx) && ((fromY === wy && toY === wy + dy) || (fromY === wy + dy && toY === wy));
+  });
+}
+
+function canStep(fromX, fromY, toX, toY, uuid) {
+  if (!isCellWalkable(toX, toY, uuid)) return false;
+  if (fromX !== toX && fromY !== toY) {
+    // Diagonals may not cut a corner through a wall
+    return !isEdgeBlocked(fromX, fromY, toX, fromY) && !isEdgeBlocked(toX, fromY, toX, toY) &&
+      !isEdgeBlocked(fromX, fromY, fromX, toY) && !isEdgeBlocked(fromX, toY, toX, toY);
+  }
+  return !isEdgeBlocked(fromX, fromY, toX, toY);
+}
+
+// Orthogonal steps first so straight lines stay straight
+const STEPS = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+// Breadth-first paths (8 directions) to every cell reachable within the movement budget
+function computePaths(entity) {
+  const [startX, startY] = entity.position;
+  const paths = { [key(startX, startY)]: [[startX, startY]] };
+  let frontier = [[startX, startY]];
+
+  for (let step = 0; step < MOVEMENT_BUDGET; step++) {
+    const next = [];
+    frontier.forEach(([x, y]) => {
+      STEPS.forEach(([dx, dy]) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (paths[key(nx, ny)] || !canStep(x, y, nx, ny, entity.uuid)) return;
+        paths[key(nx, ny)] = [...paths[key(x, y)], [nx, ny]];
+        next.push([nx, ny]);
+      });
+    });
+    frontier = next;
+  }
+  return paths;
+}
+
+function computeSenses(entity, position = entity.position) {
+  const viewer = { ...entity, position };
+  const [px, py] = position;
+  const visible = {};
+  const walkable = {};
+  const seen = [];
+
+  for (let x = 0; x < state.grid.width; x++) {
+    for (let y = 0; y < state.grid.height; y++) {
+      const isVisible = Math.hypot(x - px, y - py) <= SIGHT_RADIUS;
+      visible[key(x, y)] = isVisible;
+      walkable[key(x, y)] = isCellWalkable(x, y, entity.uuid);
+      if (isVisible) seen.push([x, y]);
+    }
+  }
+
+  const entities = {};
+  Object.values(state.entities).forEach(other => {
+    if (visible[key(other.position[0], other.position[1])]) {
+      entities[other.uuid] = other.position;
+    }
+  });
+
+  return {
+    entities,
+    visible,
+    walkable,
+    paths: computePaths(viewer),
+    extra_senses: [],
+    position,
+    seen
+  };
+}
+
+function toSummary(entity) {
+  return { ...entity, senses: computeSenses(entity) };
+}
+
+function createEvent(type, sourceUuid, targetUuid, extra = {}) {
+  state.eventCount += 1;
+  return {
+    uuid: `mock-event-${state.eventCount}`,
+    type,
+    source_entity_uuid: sourceUuid,
+    target_entity_uuid: targetUuid,
+    timestamp: new Date().toISOString(),
+    ...extra
+  };
+}
+
+// Connected sync clients see REST-driven changes too
+const sync = createBattleSync(state, toSummary);
+
+const rollDie = (sides) => 1 + Math.floor(Math.random() * sides);
+
+// Route handlers (return [status, body])
+
+function handleMove(entity, body) {
+  const position = body?.position;
+  if (!Array.isArray(position) || position.length !== 2) {
+    return [422, { detail: 'position must be [x, y]' }];
+  }
+
+  const path = computePaths(entity)[key(position[0], position[1])];
+  if (!path) {
+    return [400, { detail: `Cannot reach (${position[0]}, ${position[1]}) this turn` }];
+  }
+
+  const from = entity.position;
+  entity.position = [position[0], position[1]];
+
+  const pathSenses = {};
+  if (body.include_path_senses !== false) {
+    path.forEach(step => { pathSenses[key(step[0], step[1])] = computeSenses(entity, step); });
+  }
+
+  sync.broadcast({ entities: { [entity.uuid]: toSummary(entity) } });
+
+  return [200, {
+    event: createEvent('movement', entity.uuid, undefined, { from, to: entity.position, path }),
+    entity: toSummary(entity),
+    path_senses: pathSenses
+  }];
+}
+
+function handleAttack(attacker, body) {
+  const target = state.entities[body?.target_uuid];
+  if (!target) {
+    return [404, { detail: `Target ${body?.target_uuid} not found` }];
+  }
+  if (target.current_hp <= 0) {
+    return [400, { detail: `${target.name} is already down` }];
+  }
+  if (Math.max(Math.abs(target.position[0] - attacker.position[0]), Math.abs(target.position[1] - attacker.position[1])) > 1) {
+    return [400, { detail: `${target.name} is out of reach` }];
+  }
+
+  const attackBonus = 5;
+  const attackRoll = rollDie(20);
+  const attackTotal = attackRoll + attackBonus;
+  const targetAc = target.armor_class ?? 10;
+  const outcome = attackRoll === 20 ? 'Crit' : (attackRoll !== 1 && attackTotal >= targetAc ? 'Hit' : 'Miss');
+
+  const damageRolls = [];
+  if (outcome !== 'Miss') {
+    damageRolls.push(rollDie(8));
+    if (outcome === 'Crit') damageRolls.push(rollDie(8));
+    damageRolls.push(3); // Strength modifier
+  }
+  const totalDamage = damageRolls.reduce((sum, roll) => sum + roll, 0);
+
+  attacker.target_entity_uuid = target.uuid;
+  target.current_hp = Math.max(0, target.current_hp - totalDamage);
+  sync.broadcast({ entities: { [attacker.uuid]: toSummary(attacker), [target.uuid]: toSummary(target) } });
+
+  return [200, {
+    event: createEvent('attack', attacker.uuid, target.uuid, { target_hp_after: target.current_hp }),
+    metadata: {
+      weapon_slot: body.weapon_slot ?? 'MAIN_HAND',
+      attack_roll: attackRoll,
+      attack_total: attackTotal,
+      target_ac: targetAc,
+      attack_outcome: outcome,
+      damage_rolls: outcome === 'Miss' ? [] : damageRolls,
+      total_damage: totalDamage,
+      damage_types: outcome === 'Miss' ? [] : ['slashing']
+    }
+  }];
+}
+
+function route(method, pathname, body) {
+  if (method === 'GET' && pathname === '/api/grid') {
+    return [200, state.grid];
+  }
+  if (method === 'GET' && pathname === '/api/entities') {
+    return [200, Object.values(state.entities).map(toSummary)];
+  }
+
+  const match = pathname.match(/^\/api\/entities\/([^/]+)(?:\/(senses|move|attack))?$/);
+  if (!match) {
+    return [404, { detail: `No route for ${method} ${pathname}` }];
+  }
+
+  const entity = state.entities[decodeURIComponent(match[1])];
+  if (!entity) {
+    return [404, { detail: `Entity ${decodeURIComponent(match[1])} not found` }];
+  }
+
+  const action = match[2];
+  if (method === 'GET' && !action) return [200, toSummary(entity)];
+  if (method === 'GET' && action === 'senses') return [200, computeSenses(entity)];
+  if (method === 'POST' && action === 'move') return handleMove(entity, body);
+  if (method === 'POST' && action === 'attack') return handleAttack(entity, body);
+  return [405, { detail: `${method} not allowed on ${pathname}` }];
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk.toString();
+    });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+export function createBattleMockServer() {
+  const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      send(res, 204);
+      return;
+    }
+
+    try {
+      const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+      const body = req.method === 'POST' ? await readBody(req) : null;
+      const [status, responseBody] = route(req.method, pathname, body);
+      console.log(`[BattleMockServer] ${req.method} ${pathname} -> ${status}`);
+      send(res, status, responseBody);
+    } catch (error) {
+      console.error('[BattleMockServer] Request error:', error);
+      send(res, error instanceof SyntaxError ? 400 : 500, { detail: error.message });
+    }
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+    if (pathname === '/ws/battle') {
+      sync.handleUpgrade(req, socket);
+    } else {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    }
+  });
+
+  return server;
+}
+
+// Only listen when run directly, so other scripts can import the server
+if (import.meta.url === `file://${process.argv[1]}`) {
+  createBattleMockServer().listen(PORT, () => {
+    console.log(`[BattleMockServer] Listening on http://localhost:${PORT}`);
+  });
+}
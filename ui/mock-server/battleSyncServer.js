@@ -0,0 +1,106 @@
+// Real-time sync hub for the mock backend (protocol: SyncClientMessage / SyncServerMessage in battlemap_types.ts).
+// Clients get a full snapshot on hello/resync; every accepted edit bumps seq and is broadcast to all
+// clients (including the sender, tagged with its clientId as origin).
+import { acceptWebSocket } from './webSocket.js';
+
+const COLLECTIONS = ['tiles', 'walls', 'entities'];
+
+/**
+ * @param state       Shared mock state ({ grid: { tiles, walls, ... }, entities })
+ * @param toSummary   Turns a stored entity into the EntitySummary sent to clients
+ */
+export function createBattleSync(state, toSummary) {
+  const clients = new Set();
+  let seq = 0;
+
+  const send = (client, message) => client.send(JSON.stringify(message));
+
+  const sendSnapshot = (client) => {
+    send(client, {
+      type: 'snapshot',
+      seq,
+      grid: state.grid,
+      entities: Object.values(state.entities).map(toSummary)
+    });
+  };
+
+  // Bump seq and send a diff to every client
+  const broadcast = (diff, origin = null) => {
+    seq += 1;
+    const message = JSON.stringify({ type: 'diff', seq, origin, diff });
+    clients.forEach(client => client.send(message));
+  };
+
+  // Apply a client's edit to the shared state and pass it on
+  const applyEdit = (diff, origin) => {
+    const accepted = {};
+    COLLECTIONS.forEach(collection => {
+      const changes = diff?.[collection];
+      if (!changes || typeof changes !== 'object') return;
+
+      const target = collection === 'entities' ? state.entities : state.grid[collection];
+      accepted[collection] = {};
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          if (collection === 'entities') {
+            // Senses are derived from the state, so they aren't stored
+            const { senses, ...entity } = value;
+            target[key] = entity;
+            accepted[collection][key] = toSummary(entity);
+          } else {
+            target[key] = value;
+            accepted[collection][key] = value;
+          }
+        } else {
+          delete target[key];
+          accepted[collection][key] = null;
+        }
+      });
+    });
+
+    if (Object.keys(accepted).length > 0) {
+      broadcast(accepted, origin);
+    }
+  };
+
+  const handleMessage = (client, raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      console.warn('[BattleSyncServer] Ignoring malformed message');
+      return;
+    }
+
+    if (message.type === 'hello' || message.type === 'resync') {
+      client.clientId = message.clientId;
+      console.log(`[BattleSyncServer] ${message.type} from ${message.clientId}, sending snapshot #${seq}`);
+      sendSnapshot(client);
+    } else if (message.type === 'edit') {
+      applyEdit(message.diff, message.clientId ?? null);
+    }
+  };
+
+  return {
+    /**
+     * Accept an HTTP upgrade as a sync client
+     */
+    handleUpgrade(req, socket) {
+      const client = acceptWebSocket(req, socket);
+      if (!client) return;
+
+      clients.add(client);
+      console.log(`[BattleSyncServer] Client connected (${clients.size} total)`);
+
+      client.on('message', raw => handleMessage(client, raw));
+      client.on('close', () => {
+        clients.delete(client);
+        console.log(`[BattleSyncServer] Client ${client.clientId ?? '?'} disconnected (${clients.size} total)`);
+      });
+    },
+
+    broadcast,
+
+    clientCount: () => clients.size
+  };
+}
@@ -0,0 +1,225 @@
+// Local relay for collaborative map editing (protocol: CollabClientMessage / CollabServerMessage in battlemap_types.ts):
+//
+//   npm run collab-relay        (PORT=8002 npm run collab-relay to use another port)
+//
+// The relay forwards edits, cursors and soft locks between clients. It also keeps every surviving
+// value of every key (same multi-value register rule as the clients) so late joiners can be sent
+// the current map, conflicts included. Locks are only stored and forwarded; clients enforce them.
+import http from 'http';
+import { acceptWebSocket } from './webSocket.js';
+
+const PORT = Number(process.env.PORT) || 8001;
+
+// Session state (resets on restart)
+const session = {
+  gridSize: null, // Set by the first user to join
+  registers: { tiles: new Map(), walls: new Map() }, // key -> { values: CollabOp[], superseded: Set of stamp ids }
+  users: new Map(), // clientId -> CollabUser
+  presences: new Map(), // clientId -> CollabPresence
+  locks: new Map() // lockId -> CollabLock
+};
+const clients = new Set();
+
+// Same rule as applyOpToRegister in src/utils/crdtUtils.ts
+function getStampId(stamp) {
+  return `${stamp.lamport}:${stamp.clientId}`;
+}
+
+function applyOpToRegister(registers, op) {
+  const register = registers.get(op.key) ?? { values: [], superseded: new Set() };
+  registers.set(op.key, register);
+
+  (op.supersedes ?? []).forEach(stamp => register.superseded.add(getStampId(stamp)));
+  register.values = register.values.filter(value => !register.superseded.has(getStampId(value.stamp)));
+  const id = getStampId(op.stamp);
+  if (!register.superseded.has(id) && !register.values.some(value => getStampId(value.stamp) === id)) {
+    register.values.push(op);
+  }
+}
+
+function getSurvivingOps() {
+  return [...session.registers.tiles.values(), ...session.registers.walls.values()]
+    .flatMap(register => register.values);
+}
+
+// Shape checks for client messages (anything else is ignored, never allowed to throw)
+const isObject = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isFiniteNumber = value => typeof value === 'number' && Number.isFinite(value);
+
+function isValidUser(user) {
+  return isObject(user) && typeof user.clientId === 'string' && user.clientId !== '' &&
+    typeof user.name === 'string' && isFiniteNumber(user.color);
+}
+
+function isValidGridSize(gridSize) {
+  return isObject(gridSize) && isFiniteNumber(gridSize.width) && isFiniteNumber(gridSize.height);
+}
+
+function isValidStamp(stamp) {
+  return isObject(stamp) && isFiniteNumber(stamp.lamport) && typeof stamp.clientId === 'string';
+}
+
+function isValidOp(op) {
+  return isObject(op) && (op.collection === 'tiles' || op.collection === 'walls') && typeof op.key === 'string' &&
+    (op.value === null || isObject(op.value)) && isValidStamp(op.stamp) &&
+    (op.supersedes === undefined || (Array.isArray(op.supersedes) && op.supersedes.every(isValidStamp)));
+}
+
+function isValidLock(lock) {
+  const region = lock?.region;
+  return isObject(lock) && typeof lock.lockId === 'string' && typeof lock.clientId === 'string' && isFiniteNumber(lock.ttlMs) &&
+    isObject(region) && ['minX', 'minY', 'maxX', 'maxY'].every(field => isFiniteNumber(region[field])) &&
+    (region.zLevel === null || isFiniteNumber(region.zLevel));
+}
+
+function isValidMessage(message) {
+  if (!isObject(message)) return false;
+  switch (message.type) {
+    case 'join': return isValidUser(message.user) && isValidGridSize(message.gridSize);
+    case 'ops': return Array.isArray(message.ops);
+    case 'presence': return isObject(message.presence);
+    case 'lock': return isValidLock(message.lock);
+    case 'unlock': return typeof message.lockId === 'string';
+    default: return false;
+  }
+}
+
+function send(client, message) {
+  client.send(JSON.stringify(message));
+}
+
+// Send to every joined client except the sender
+function broadcast(message, except = null) {
+  const text = JSON.stringify(message);
+  clients.forEach(client => {
+    if (client !== except && client.user) client.send(text);
+  });
+}
+
+function handleJoin(client, message) {
+  client.user = message.user;
+  session.users.set(message.user.clientId, message.user);
+  if (!session.gridSize) {
+    session.gridSize = message.gridSize;
+  }
+
+  send(client, {
+    type: 'welcome',
+    ops: getSurvivingOps(),
+    gridSize: session.gridSize,
+    users: [...session.users.values()],
+    presences: Object.fromEntries(session.presences),
+    locks: [...session.locks.values()]
+  });
+  broadcast({ type: 'join', user: message.user }, client);
+  console.log(`[CollabRelay] ${message.user.name} (${message.user.clientId}) joined, ${session.users.size} in session`);
+}
+
+function handleOps(client, message) {
+  const ops = message.ops.filter(isValidOp);
+  if (ops.length < message.ops.length) {
+    console.warn(`[CollabRelay] Ignoring ${message.ops.length - ops.length} malformed ops from ${client.user.name}`);
+  }
+  if (ops.length === 0) return;
+
+  ops.forEach(op => {
+    const registers = session.registers[op.collection];
+    if (registers) applyOpToRegister(registers, op);
+  });
+  // Forward everything: clients apply the same rule, so replaced ops are simply ignored there
+  broadcast({ type: 'ops', clientId: client.user.clientId, ops }, client);
+}
+
+function handleLeave(client) {
+  if (!client.user) return;
+  const { clientId, name } = client.user;
+
+  // The user may have rejoined on a new socket before this one closed: that session isn't ours to end
+  if (session.users.get(clientId) !== client.user) return;
+
+  session.users.delete(clientId);
+  session.presences.delete(clientId);
+  [...session.locks.values()]
+    .filter(lock => lock.clientId === clientId)
+    .forEach(lock => session.locks.delete(lock.lockId));
+
+  broadcast({ type: 'leave', clientId }, client);
+  console.log(`[CollabRelay] ${name} left, ${session.users.size} in session`);
+}
+
+function handleMessage(client, raw) {
+  let message;
+  try {
+    message = JSON.parse(raw);
+  } catch (error) {
+    console.warn('[CollabRelay] Ignoring malformed message');
+    return;
+  }
+  if (!isValidMessage(message)) {
+    console.warn(`[CollabRelay] Ignoring invalid ${isObject(message) ? `"${message.type}" ` : ''}message`);
+    return;
+  }
+
+  if (message.type === 'join') {
+    handleJoin(client, message);
+    return;
+  }
+  if (!client.user) return; // Everything else needs a joined user
+
+  switch (message.type) {
+    case 'ops':
+      handleOps(client, message);
+      break;
+    case 'presence':
+      session.presences.set(client.user.clientId, message.presence);
+      broadcast({ type: 'presence', clientId: client.user.clientId, presence: message.presence }, client);
+      break;
+    case 'lock':
+      session.locks.set(message.lock.lockId, message.lock);
+      broadcast({ type: 'lock', lock: message.lock }, client);
+      break;
+    case 'unlock':
+      session.locks.delete(message.lockId);
+      broadcast({ type: 'unlock', lockId: message.lockId }, client);
+      break;
+  }
+}
+
+export function createCollabRelayServer() {
+  const server = http.createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      users: [...session.users.values()].map(user => user.name),
+      tiles: session.registers.tiles.size,
+      walls: session.registers.walls.size,
+      locks: session.locks.size
+    }));
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+    if (pathname !== '/collab') {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+
+    const client = acceptWebSocket(req, socket);
+    if (!client) return;
+
+    clients.add(client);
+    client.on('message', raw => handleMessage(client, raw));
+    client.on('close', () => {
+      clients.delete(client);
+      handleLeave(client);
+    });
+  });
+
+  return server;
+}
+
+// Only listen when run directly, so other scripts can import the server
+if (import.meta.url === `file://${process.argv[1]}`) {
+  createCollabRelayServer().listen(PORT, () => {
+    console.log(`[CollabRelay] Listening on ws://localhost:${PORT}/collab`);
+  });
+}
@@ -0,0 +1,137 @@
+// Minimal WebSocket (RFC 6455) server side, enough for the dev stand-in servers:
+// unfragmented text messages, ping/pong and close. Not meant for production traffic.
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xA;
+
+// Build an unmasked server frame
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode; // FIN + opcode
+  return Buffer.concat([header, payload]);
+}
+
+// Parse one frame from the start of the buffer; null while it is still incomplete
+function decodeFrame(buffer) {
+  if (buffer.length < 2) return null;
+
+  const opcode = buffer[0] & 0x0F;
+  const isMasked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7F;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  const maskOffset = offset;
+  if (isMasked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (isMasked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+  }
+  return { opcode, payload, frameLength: offset + length };
+}
+
+/**
+ * One accepted connection; emits 'message' (string) and 'close'
+ */
+class WebSocketConnection extends EventEmitter {
+  constructor(socket) {
+    super();
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.isOpen = true;
+
+    socket.on('data', chunk => this.handleData(chunk));
+    socket.on('close', () => this.handleClose());
+    socket.on('error', () => this.handleClose());
+  }
+
+  send(text) {
+    if (!this.isOpen) return;
+    this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+  }
+
+  close() {
+    if (!this.isOpen) return;
+    this.socket.write(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+    this.socket.end();
+    this.handleClose();
+  }
+
+  handleData(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let frame;
+    while ((frame = decodeFrame(this.buffer))) {
+      this.buffer = this.buffer.subarray(frame.frameLength);
+
+      if (frame.opcode === OPCODE_TEXT) {
+        this.emit('message', frame.payload.toString('utf8'));
+      } else if (frame.opcode === OPCODE_PING) {
+        this.socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+      } else if (frame.opcode === OPCODE_CLOSE) {
+        this.close();
+        return;
+      }
+    }
+  }
+
+  handleClose() {
+    if (!this.isOpen) return;
+    this.isOpen = false;
+    this.emit('close');
+  }
+}
+
+/**
+ * Complete the handshake for an HTTP 'upgrade' request
+ * @returns The connection, or null if the request was not a valid WebSocket upgrade
+ */
+export function acceptWebSocket(req, socket) {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = crypto.createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+  return new WebSocketConnection(socket);
+}
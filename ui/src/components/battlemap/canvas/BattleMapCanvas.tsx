@@ -1,7 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Box, Typography, Button, Alert } from '@mui/material';
 import { useGrid, useMapControls, useTileEditor } from '../../../hooks/battlemap';
-import { battlemapStore, battlemapActions } from '../../../store';
+import { battlemapStore, battlemapActions, historyActions } from '../../../store';
 import { useSnapshot } from 'valtio';
 import { CanvasControls } from './CanvasControls';
 import { gameManager } from '../../../game';
@@ -67,6 +67,7 @@ const BattleMapCanvas: React.FC = () => {
         console.log('[BattleMapCanvas] Initializing local grid and sample tiles');
         battlemapActions.initializeLocalGrid(30, 20);
         battlemapActions.generateSampleTiles();
+        historyActions.clear(); // The starting map shouldn't be undoable
         localGridInitialized.current = true;
       }
       
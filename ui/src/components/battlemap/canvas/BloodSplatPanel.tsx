@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Slider,
+  Switch,
+  TextField,
+  FormControlLabel
+} from '@mui/material';
+import { useSnapshot } from 'valtio';
+import { battlemapStore, effectStore, effectActions } from '../../../store';
+import { BloodSplatDirection, BloodSplatSettings } from '../../../types/battlemap_types';
+
+// Numeric settings shown as sliders: [key, label, min, max, step]
+const BLOOD_SPLAT_SLIDERS: Array<[keyof BloodSplatSettings, string, number, number, number]> = [
+  ['upDownOffset', 'Up/Down', -1, 2, 0.05],
+  ['forwardBackwardOffset', 'Fwd/Back', -1, 1, 0.05],
+  ['frontFacingUpDownOffset', 'Front Up/Down', -1, 1, 0.05],
+  ['frontFacingForwardBackwardOffset', 'Front Fwd/Back', -1, 1, 0.05],
+  ['backFacingUpDownOffset', 'Back Up/Down', -1, 1, 0.05],
+  ['backFacingForwardBackwardOffset', 'Back Fwd/Back', -1, 1, 0.05],
+  ['sprayIntensity', 'Intensity', 0, 2, 0.05],
+  ['sprayRandomness', 'Randomness', 0, 1, 0.05],
+  ['maxTravelDistance', 'Travel', 0, 4, 0.1],
+  ['spreadMultiplier', 'Spread', 0, 5, 0.1],
+  ['stageDelayMs', 'Stage Delay', 0, 200, 5],
+  ['dropletDelayMs', 'Droplet Delay', 0, 100, 5],
+  ['scale', 'Scale', 0.1, 3, 0.05],
+  ['alpha', 'Alpha', 0, 1, 0.05]
+];
+
+const DIRECTION_TABS: Array<[BloodSplatDirection, string]> = [
+  [BloodSplatDirection.AWAY_FROM_ATTACKER, '💨 Away'],
+  [BloodSplatDirection.TOWARD_ATTACKER, '↩️ Toward']
+];
+
+/**
+ * Live tuning for the directional blood splat sprays (saved to localStorage)
+ * Test buttons splat a defender in the middle of the map from the front and from behind
+ */
+const BloodSplatPanel: React.FC = () => {
+  const effectSnap = useSnapshot(effectStore);
+  const gridSnap = useSnapshot(battlemapStore.grid);
+  const [direction, setDirection] = useState<BloodSplatDirection>(BloodSplatDirection.AWAY_FROM_ATTACKER);
+
+  const settings = direction === BloodSplatDirection.TOWARD_ATTACKER
+    ? effectSnap.bloodSplatConfig.towardAttacker
+    : effectSnap.bloodSplatConfig.awayFromAttacker;
+
+  const update = (updates: Partial<BloodSplatSettings>) => {
+    effectActions.updateBloodSplatSettings(direction, updates);
+  };
+
+  const handleTest = (attackerInFront: boolean) => {
+    const defender: [number, number] = [Math.floor(gridSnap.width / 2), Math.floor(gridSnap.height / 2)];
+    const attacker: [number, number] = attackerInFront
+      ? [defender[0] + 1, defender[1] + 1]
+      : [defender[0] - 1, defender[1] - 1];
+    effectActions.spawnBloodSplat(attacker, defender);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        {DIRECTION_TABS.map(([tabDirection, label]) => (
+          <Button
+            key={tabDirection}
+            variant={direction === tabDirection ? 'contained' : 'outlined'}
+            size="small"
+            onClick={() => setDirection(tabDirection)}
+            sx={{ flex: 1, fontSize: '0.65rem' }}
+          >
+            {label}
+          </Button>
+        ))}
+      </Box>
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={settings.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            size="small"
+          />
+        }
+        label={<Typography variant="caption">🩸 Spray enabled</Typography>}
+      />
+
+      {BLOOD_SPLAT_SLIDERS.map(([key, label, min, max, step]) => (
+        <Box key={key} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="caption" sx={{ minWidth: '85px', fontSize: '0.65rem' }}>{label}</Typography>
+          <Slider
+            value={settings[key] as number}
+            min={min}
+            max={max}
+            step={step}
+            size="small"
+            disabled={!settings.enabled}
+            onChange={(_event, value) => update({ [key]: value as number })}
+            sx={{ flex: 1, color: '#E53935' }}
+          />
+          <Typography variant="caption" sx={{ minWidth: '32px', textAlign: 'right', fontSize: '0.65rem' }}>
+            {(settings[key] as number).toFixed(step < 1 ? 2 : 0)}
+          </Typography>
+        </Box>
+      ))}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="caption" sx={{ minWidth: '85px', fontSize: '0.65rem' }}>Droplets/Stage</Typography>
+        {Array.from({ length: settings.stageCount }).map((_, stage) => (
+          <TextField
+            key={stage}
+            type="number"
+            value={settings.dropletsPerStage[stage] ?? 0}
+            onChange={(e) => {
+              const value = parseInt(e.target.value);
+              if (isNaN(value) || value < 0) return;
+              const dropletsPerStage = Array.from({ length: settings.stageCount }, (_unused, i) => settings.dropletsPerStage[i] ?? 0);
+              dropletsPerStage[stage] = value;
+              update({ dropletsPerStage });
+            }}
+            disabled={!settings.enabled}
+            size="small"
+            sx={{ width: '52px', '& .MuiInputBase-input': { color: 'white', fontSize: '0.7rem', padding: '2px 6px' } }}
+            inputProps={{ min: 0, max: 30 }}
+          />
+        ))}
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button variant="outlined" size="small" onClick={() => handleTest(true)} sx={{ flex: 1, fontSize: '0.65rem' }}>
+          🧪 Hit Front
+        </Button>
+        <Button variant="outlined" size="small" onClick={() => handleTest(false)} sx={{ flex: 1, fontSize: '0.65rem' }}>
+          🧪 Hit Back
+        </Button>
+        <Button variant="outlined" size="small" color="warning" onClick={() => effectActions.resetBloodSplatConfig()} sx={{ fontSize: '0.65rem' }}>
+          ↺
+        </Button>
+      </Box>
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem' }}>
+        💡 Forward/back offsets are in tiles, up/down offsets in tile widths on screen (they scale with zoom). Front/Back offsets apply when the defender faces toward/away from the camera.
+      </Typography>
+    </Box>
+  );
+};
+
+export default BloodSplatPanel;
@@ -1,5 +1,5 @@
-import React, { useCallback } from 'react';
-import { Box, Paper, IconButton, Tooltip, Divider, Typography } from '@mui/material';
+import React, { useCallback, useState } from 'react';
+import { Box, Paper, IconButton, Tooltip, Divider, Typography, Tabs, Tab } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import RemoveIcon from '@mui/icons-material/Remove';
 import RestartAltIcon from '@mui/icons-material/RestartAlt';
@@ -13,6 +13,7 @@ import ImageIcon from '@mui/icons-material/Image';
 import HideImageIcon from '@mui/icons-material/HideImage';
 import { useMapControls, useTileEditor } from '../../../hooks/battlemap';
 import IsometricSpriteSelector from './IsometricSpriteSelector';
+import StampLibraryPanel from './StampLibraryPanel';
 import IsometricConfigurationPanel from './IsometricConfigurationPanel';
 import { battlemapStore } from '../../../store';
 import { useSnapshot } from 'valtio';
@@ -47,6 +48,9 @@ export const CanvasControls: React.FC = () => {
   // This avoids re-renders when offset changes during WASD movement
   const hoveredCellSnap = useSnapshot(battlemapStore.view.hoveredCell);
   
+  // NEW: Left editor panel tab (sprites or prefab stamps)
+  const [leftPanelTab, setLeftPanelTab] = useState<'sprites' | 'stamps'>('sprites');
+  
   const handleEditToggle = useCallback(() => {
     console.log('[CanvasControls] Edit button clicked, current state:', { isEditing });
     
@@ -205,7 +209,24 @@ export const CanvasControls: React.FC = () => {
             left: 16,
             zIndex: 1000
           }}>
-            <IsometricSpriteSelector isLocked={isLocked} />
+            <Tabs
+              value={leftPanelTab}
+              onChange={(_, value) => setLeftPanelTab(value)}
+              variant="fullWidth"
+              sx={{ 
+                backgroundColor: 'rgba(0, 0, 0, 0.9)', 
+                minHeight: 36,
+                '& .MuiTab-root': { color: 'rgba(255,255,255,0.7)', minHeight: 36, fontSize: '0.75rem' },
+                '& .Mui-selected': { color: '#FFC107' }
+              }}
+            >
+              <Tab value="sprites" label="🎨 Sprites" />
+              <Tab value="stamps" label="🧩 Stamps" />
+            </Tabs>
+            {leftPanelTab === 'sprites' 
+              ? <IsometricSpriteSelector isLocked={isLocked} />
+              : <StampLibraryPanel isLocked={isLocked} />
+            }
           </Box>
           
           {/* Configuration Panel with Utils - Right Side */}
@@ -0,0 +1,153 @@
+import React from 'react';
+import { Box, Typography, TextField, Button, Chip } from '@mui/material';
+import { useSnapshot } from 'valtio';
+import { collabStore, collabActions, COLLAB_USER_COLORS, CollabConflictOption } from '../../../store';
+import { collaborationManager } from '../../../services/CollaborationManager';
+import { SyncConnectionStatus } from '../../../types/battlemap_types';
+
+const STATUS_COLORS: Record<SyncConnectionStatus, 'default' | 'warning' | 'success'> = {
+  disconnected: 'default',
+  connecting: 'warning',
+  reconnecting: 'warning',
+  connected: 'success'
+};
+
+const toCss = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+// Short label for one value of a conflict
+const describeOption = (option: CollabConflictOption) =>
+  option.value ? (option.value.sprite_name ?? option.value.name) : 'deleted';
+
+/**
+ * Join a shared editing session: name, cursor color, relay connection and who else is editing
+ * Only subscribes to the collab store
+ */
+const CollabPanel: React.FC = () => {
+  const snap = useSnapshot(collabStore);
+  const isActive = snap.status !== 'disconnected';
+  const users = Object.values(snap.users);
+  const conflicts = Object.values(snap.conflicts);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <TextField
+        label="Your Name"
+        value={snap.userName}
+        onChange={(e) => collabActions.setUserName(e.target.value)}
+        disabled={isActive}
+        size="small"
+        sx={{ '& .MuiInputBase-input': { color: 'white', fontSize: '0.75rem' }, '& .MuiInputLabel-root': { color: 'rgba(255,255,255,0.7)' } }}
+      />
+
+      <Box sx={{ display: 'flex', gap: 0.5 }}>
+        {COLLAB_USER_COLORS.map(color => (
+          <Box
+            key={color}
+            onClick={() => !isActive && collabActions.setUserColor(color)}
+            sx={{
+              width: 18,
+              height: 18,
+              borderRadius: '50%',
+              backgroundColor: toCss(color),
+              border: snap.userColor === color ? '2px solid white' : '2px solid transparent',
+              cursor: isActive ? 'default' : 'pointer',
+              opacity: isActive && snap.userColor !== color ? 0.4 : 1
+            }}
+          />
+        ))}
+      </Box>
+
+      <TextField
+        label="Relay"
+        value={snap.url}
+        onChange={(e) => collabActions.setUrl(e.target.value)}
+        disabled={isActive}
+        size="small"
+        sx={{ '& .MuiInputBase-input': { color: 'white', fontSize: '0.75rem' }, '& .MuiInputLabel-root': { color: 'rgba(255,255,255,0.7)' } }}
+      />
+
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+        <Button
+          variant={isActive ? 'outlined' : 'contained'}
+          color={isActive ? 'warning' : 'primary'}
+          size="small"
+          onClick={() => isActive ? collaborationManager.disconnect() : collaborationManager.connect(snap.url)}
+          disabled={!snap.userName.trim()}
+          sx={{ flex: 1, fontSize: '0.7rem' }}
+        >
+          {isActive ? '⏹️ Leave' : '👥 Join'}
+        </Button>
+        <Button
+          variant="text"
+          size="small"
+          onClick={() => collabActions.resetUrl()}
+          disabled={isActive}
+          sx={{ fontSize: '0.7rem' }}
+        >
+          ↺
+        </Button>
+        <Chip label={snap.status} color={STATUS_COLORS[snap.status]} size="small" sx={{ fontSize: '0.65rem' }} />
+      </Box>
+
+      {snap.status === 'connected' && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+          {users.length === 0 ? (
+            <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.65rem' }}>
+              Nobody else here yet
+            </Typography>
+          ) : users.map(user => (
+            <Box key={user.clientId} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Box sx={{ width: 10, height: 10, borderRadius: '50%', backgroundColor: toCss(user.color) }} />
+              <Typography variant="caption" sx={{ color: 'white', fontSize: '0.7rem', flex: 1 }}>
+                {user.name}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.65rem' }}>
+                {snap.presences[user.clientId] ? `Z${snap.presences[user.clientId].activeZLayer}` : '—'}
+              </Typography>
+            </Box>
+          ))}
+        </Box>
+      )}
+      {conflicts.length > 0 && isActive && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+          <Typography variant="caption" sx={{ color: '#FF9800', fontSize: '0.7rem' }}>
+            ⚠️ Conflicts ({conflicts.length})
+          </Typography>
+          {conflicts.map(conflict => (
+            <Box key={conflict.id} sx={{ display: 'flex', alignItems: 'center', gap: 0.5, flexWrap: 'wrap' }}>
+              <Typography variant="caption" sx={{ color: 'white', fontSize: '0.65rem', flex: 1 }}>
+                {conflict.collection === 'tiles' ? 'Tile' : 'Wall'} {conflict.cell ? `(${conflict.cell.x}, ${conflict.cell.y}) Z${conflict.cell.z}` : ''}
+              </Typography>
+              {conflict.options.map(option => (
+                <Button
+                  key={option.stampId}
+                  variant="outlined"
+                  size="small"
+                  onClick={() => collaborationManager.resolveConflict(conflict.id, option.stampId)}
+                  sx={{ fontSize: '0.6rem', py: 0, minWidth: 0 }}
+                >
+                  Keep {option.userName}'s: {describeOption(option)}
+                </Button>
+              ))}
+            </Box>
+          ))}
+        </Box>
+      )}
+      {snap.warning && isActive && (
+        <Typography
+          variant="caption"
+          onClick={() => collabActions.setWarning(null)}
+          sx={{ color: '#FF9800', fontSize: '0.65rem', cursor: 'pointer' }}
+        >
+          ⚠️ {snap.warning}
+        </Typography>
+      )}
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem' }}>
+        💡 Selecting an area locks it for others. Edits made at the same time to the same cell are listed as conflicts until one is kept. Start a local relay with npm run collab-relay.
+      </Typography>
+    </Box>
+  );
+};
+
+export default CollabPanel;
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  List,
+  ListItemButton,
+  ListItemText
+} from '@mui/material';
+import { useSnapshot } from 'valtio';
+import { battlemapActions, historyStore, historyActions, MIN_HISTORY_DEPTH, MAX_HISTORY_DEPTH } from '../../../store';
+
+interface EditHistoryPanelProps {
+  isLocked: boolean;
+}
+
+/**
+ * Undo/redo history list for the tile editor
+ * Only subscribes to the history store, never to grid contents
+ */
+const EditHistoryPanel: React.FC<EditHistoryPanelProps> = ({ isLocked }) => {
+  const historySnap = useSnapshot(historyStore);
+  const { undoStack, redoStack, settings } = historySnap;
+
+  // Depth being typed; only applied on blur/Enter since lowering the depth trims the undo stack for good
+  const [depthDraft, setDepthDraft] = useState(String(settings.maxDepth));
+  useEffect(() => {
+    setDepthDraft(String(settings.maxDepth));
+  }, [settings.maxDepth]);
+
+  const commitDepthDraft = () => {
+    const depth = Number(depthDraft);
+    if (depthDraft.trim() === '' || !Number.isInteger(depth) || depth < MIN_HISTORY_DEPTH || depth > MAX_HISTORY_DEPTH) {
+      setDepthDraft(String(historyStore.settings.maxDepth));
+      return;
+    }
+    if (depth !== historyStore.settings.maxDepth) {
+      historyActions.setMaxDepth(depth);
+    }
+  };
+
+  // Undo until the clicked step is the most recent applied one
+  const handleJumpToUndoEntry = (entryId: number) => {
+    if (isLocked) return;
+    while (historyStore.undoStack.length > 0 && historyStore.undoStack[historyStore.undoStack.length - 1].id !== entryId) {
+      battlemapActions.undo();
+    }
+  };
+
+  // Redo until the clicked step has been re-applied
+  const handleJumpToRedoEntry = (entryId: number) => {
+    if (isLocked) return;
+    while (historyStore.redoStack.length > 0) {
+      const next = historyStore.redoStack[historyStore.redoStack.length - 1];
+      battlemapActions.redo();
+      if (next.id === entryId) break;
+    }
+  };
+
+  const formatTime = (timestamp: number): string => new Date(timestamp).toLocaleTimeString();
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      {/* Undo/Redo buttons */}
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button
+          variant="outlined"
+          onClick={() => battlemapActions.undo()}
+          disabled={isLocked || undoStack.length === 0}
+          size="small"
+          sx={{ flex: 1, fontSize: '0.7rem' }}
+        >
+          ↩️ Undo
+        </Button>
+        <Button
+          variant="outlined"
+          onClick={() => battlemapActions.redo()}
+          disabled={isLocked || redoStack.length === 0}
+          size="small"
+          sx={{ flex: 1, fontSize: '0.7rem' }}
+        >
+          ↪️ Redo
+        </Button>
+      </Box>
+
+      {/* History depth */}
+      <TextField
+        label="History Depth"
+        type="number"
+        value={depthDraft}
+        onChange={(e) => setDepthDraft(e.target.value)}
+        onBlur={commitDepthDraft}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitDepthDraft();
+        }}
+        disabled={isLocked}
+        size="small"
+        inputProps={{ min: MIN_HISTORY_DEPTH, max: MAX_HISTORY_DEPTH }}
+        sx={{ '& .MuiInputBase-input': { color: 'white' }, '& .MuiInputLabel-root': { color: 'rgba(255,255,255,0.7)' } }}
+      />
+
+      {/* History list (newest first, undone steps dimmed on top) */}
+      <Box sx={{ maxHeight: '160px', overflow: 'auto', border: '1px solid rgba(255,255,255,0.2)', borderRadius: 1 }}>
+        {undoStack.length === 0 && redoStack.length === 0 ? (
+          <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', display: 'block', p: 1 }}>
+            No edits yet
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {redoStack.map(entry => (
+              <ListItemButton
+                key={entry.id}
+                onClick={() => handleJumpToRedoEntry(entry.id)}
+                disabled={isLocked}
+                sx={{ opacity: 0.4, py: 0 }}
+              >
+                <ListItemText
+                  primary={`${entry.label} (${entry.changes.length})`}
+                  secondary={formatTime(entry.timestamp)}
+                  primaryTypographyProps={{ fontSize: '0.7rem', sx: { textDecoration: 'line-through' } }}
+                  secondaryTypographyProps={{ fontSize: '0.6rem', color: 'rgba(255,255,255,0.5)' }}
+                />
+              </ListItemButton>
+            ))}
+            {[...undoStack].reverse().map((entry, index) => (
+              <ListItemButton
+                key={entry.id}
+                onClick={() => handleJumpToUndoEntry(entry.id)}
+                disabled={isLocked}
+                selected={index === 0}
+                sx={{ py: 0 }}
+              >
+                <ListItemText
+                  primary={`${entry.label} (${entry.changes.length})`}
+                  secondary={formatTime(entry.timestamp)}
+                  primaryTypographyProps={{ fontSize: '0.7rem' }}
+                  secondaryTypographyProps={{ fontSize: '0.6rem', color: 'rgba(255,255,255,0.5)' }}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+      </Box>
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem' }}>
+        💡 Ctrl+Z to undo, Ctrl+Shift+Z to redo. Click a step to jump to it.
+      </Typography>
+    </Box>
+  );
+};
+
+export default EditHistoryPanel;
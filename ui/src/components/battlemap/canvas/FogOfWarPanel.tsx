@@ -0,0 +1,121 @@
+import React from 'react';
+import { Box, Typography, Button, Switch, Checkbox, Chip, FormControlLabel } from '@mui/material';
+import { useSnapshot } from 'valtio';
+import { entityStore, entityActions, fogStore, fogActions } from '../../../store';
+import { FogViewerMode } from '../../../types/battlemap_types';
+
+const VIEWER_MODE_TABS: Array<[FogViewerMode, string]> = [
+  ['selected', '👤 Selected'],
+  ['party', '👥 Party']
+];
+
+/**
+ * Fog of war controls: whose senses drive the fog, and the DM reveal toggle
+ */
+const FogOfWarPanel: React.FC = () => {
+  const fogSnap = useSnapshot(fogStore);
+  const entitySnap = useSnapshot(entityStore);
+  const entities = Object.values(entitySnap.entities);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={fogSnap.isEnabled}
+            onChange={(e) => fogActions.setEnabled(e.target.checked)}
+            size="small"
+          />
+        }
+        label={<Typography variant="caption">🌫️ Fog enabled</Typography>}
+      />
+      <FormControlLabel
+        control={
+          <Switch
+            checked={fogSnap.revealAll}
+            onChange={(e) => fogActions.setRevealAll(e.target.checked)}
+            disabled={!fogSnap.isEnabled}
+            size="small"
+          />
+        }
+        label={<Typography variant="caption">🧙 DM: reveal all</Typography>}
+      />
+
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        {VIEWER_MODE_TABS.map(([mode, label]) => (
+          <Button
+            key={mode}
+            variant={fogSnap.viewerMode === mode ? 'contained' : 'outlined'}
+            size="small"
+            onClick={() => fogActions.setViewerMode(mode)}
+            disabled={!fogSnap.isEnabled}
+            sx={{ flex: 1, fontSize: '0.65rem' }}
+          >
+            {label}
+          </Button>
+        ))}
+      </Box>
+
+      {entities.length === 0 ? (
+        <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.65rem' }}>
+          No entities loaded
+        </Typography>
+      ) : entities.map(entity => (
+        <Box key={entity.uuid} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          {fogSnap.viewerMode === 'party' ? (
+            <Checkbox
+              checked={fogSnap.partyIds.includes(entity.uuid)}
+              onChange={() => fogActions.togglePartyMember(entity.uuid)}
+              disabled={!fogSnap.isEnabled}
+              size="small"
+              sx={{ p: 0.25 }}
+            />
+          ) : (
+            <Button
+              variant={entitySnap.selectedEntityId === entity.uuid ? 'contained' : 'text'}
+              size="small"
+              onClick={() => entityActions.setSelectedEntity(entitySnap.selectedEntityId === entity.uuid ? null : entity.uuid)}
+              disabled={!fogSnap.isEnabled}
+              sx={{ minWidth: 0, px: 0.75, fontSize: '0.7rem' }}
+            >
+              👁️
+            </Button>
+          )}
+          <Typography variant="caption" sx={{ color: 'white', fontSize: '0.7rem', flex: 1 }}>
+            {entity.name}
+          </Typography>
+          <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.65rem' }}>
+            ({entity.position[0]}, {entity.position[1]})
+          </Typography>
+        </Box>
+      ))}
+
+      {fogSnap.isEnabled && (
+        <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.65rem' }}>
+          {fogSnap.viewerIds.length === 0
+            ? 'No viewer - the whole map is shown'
+            : `${fogSnap.visibleCells.size} cells visible · ${fogSnap.exploredCells.size} explored`}
+        </Typography>
+      )}
+      {fogSnap.extraSenses.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+          {fogSnap.extraSenses.map(sense => (
+            <Chip key={sense} label={sense} size="small" color="info" sx={{ fontSize: '0.6rem' }} />
+          ))}
+        </Box>
+      )}
+
+      <Button
+        variant="outlined"
+        size="small"
+        onClick={() => fogActions.clearExplored()}
+        disabled={!fogSnap.isEnabled}
+        sx={{ fontSize: '0.65rem' }}
+      >
+        🧽 Forget Explored
+      </Button>
+    </Box>
+  );
+};
+
+export default FogOfWarPanel;
@@ -24,6 +24,18 @@ import { isometricSpriteManager, IsometricDirection } from '../../../game/manage
 import { useTileEditor } from '../../../hooks/battlemap';
 import { getCanvasBoundingBox } from 'pixi.js';
 import { spriteConfigurationManager } from '../../../services/SpriteConfigurationManager';
+import MapFileControls from './MapFileControls';
+import EditHistoryPanel from './EditHistoryPanel';
+import SelectionPanel from './SelectionPanel';
+import RenderBenchmarkPanel from './RenderBenchmarkPanel';
+import BloodSplatPanel from './BloodSplatPanel';
+import SyncPanel from './SyncPanel';
+import CollabPanel from './CollabPanel';
+import FogOfWarPanel from './FogOfWarPanel';
+import LineOfSightPanel from './LineOfSightPanel';
+import PathfindingPanel from './PathfindingPanel';
+import LightingPanel from './LightingPanel';
+import OcclusionPanel from './OcclusionPanel';
 
 interface IsometricConfigurationPanelProps {
   isLocked: boolean;
@@ -1124,6 +1136,114 @@ const IsometricConfigurationPanel: React.FC<IsometricConfigurationPanelProps> =
         </Box>
       </Box>
 
+      {/* NEW: Map Files */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        🗺️ Map Files
+      </Typography>
+
+      <Box sx={{ mb: 2 }}>
+        <MapFileControls isLocked={isLocked} />
+      </Box>
+
+      {/* NEW: Real-time Sync */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        🔗 Live Sync
+      </Typography>
+
+      <Box sx={{ mb: 2 }}>
+        <SyncPanel />
+      </Box>
+
+      {/* NEW: Collaborative Editing */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        👥 Collaboration
+      </Typography>
+
+      <Box sx={{ mb: 2 }}>
+        <CollabPanel />
+      </Box>
+
+      {/* NEW: Fog of War */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        🌫️ Fog of War
+      </Typography>
+
+      <Box sx={{ mb: 2 }}>
+        <FogOfWarPanel />
+      </Box>
+
+      {/* NEW: Line of Sight Preview */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        👁️ Line of Sight
+      </Typography>
+
+      <Box sx={{ mb: 2 }}>
+        <LineOfSightPanel />
+      </Box>
+
+      {/* NEW: Path Preview */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        🧭 Pathfinding
+      </Typography>
+
+      <Box sx={{ mb: 2 }}>
+        <PathfindingPanel />
+      </Box>
+
+      {/* NEW: Lighting */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        💡 Lighting
+      </Typography>
+
+      <Box sx={{ mb: 2 }}>
+        <LightingPanel />
+      </Box>
+
+      {/* NEW: Occlusion Fade */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        👻 Occlusion
+      </Typography>
+
+      <Box sx={{ mb: 2 }}>
+        <OcclusionPanel />
+      </Box>
+
+      {/* NEW: Edit History */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        🕘 Edit History
+      </Typography>
+
+      <Box sx={{ mb: 2 }}>
+        <EditHistoryPanel isLocked={isLocked} />
+      </Box>
+
+      {/* NEW: Selection & Clipboard */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        ✂️ Selection & Clipboard
+      </Typography>
+
+      <Box sx={{ mb: 2 }}>
+        <SelectionPanel isLocked={isLocked} />
+      </Box>
+
+      {/* NEW: Render Benchmark */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        ⏱️ Render Benchmark
+      </Typography>
+
+      <Box sx={{ mb: 2 }}>
+        <RenderBenchmarkPanel isLocked={isLocked} />
+      </Box>
+
+      {/* NEW: Blood Splat Tuning */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        🩸 Blood Splats
+      </Typography>
+
+      <Box sx={{ mb: 2 }}>
+        <BloodSplatPanel />
+      </Box>
+
       <Divider sx={{ borderColor: 'rgba(255,255,255,0.3)', my: 2 }} />
 
       {/* Global Controls */}
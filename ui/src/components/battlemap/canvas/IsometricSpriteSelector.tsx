@@ -23,13 +23,14 @@ import {
   West as WestIcon
 } from '@mui/icons-material';
 import { useSnapshot } from 'valtio';
-import { battlemapStore, battlemapActions } from '../../../store';
+import { battlemapStore, battlemapActions, PaintTool, WallTool } from '../../../store';
 import { 
   isometricSpriteManager, 
   IsometricDirection, 
   SpriteCategory 
 } from '../../../game/managers/IsometricSpriteManager';
 import { Texture } from 'pixi.js';
+import { autoTileManager } from '../../../services/AutoTileManager';
 
 interface IsometricSpriteSelectorProps {
   isLocked: boolean;
@@ -231,6 +232,7 @@ const IsometricSpriteSelector: React.FC<IsometricSpriteSelectorProps> = ({ isLoc
   // Local state
   const [availableSprites, setAvailableSprites] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [autoTileRuleSetCount, setAutoTileRuleSetCount] = useState<number | null>(null);
   
   // Current selections
   const selectedSprite = isometricEditor.selectedSpriteName;
@@ -291,6 +293,38 @@ const IsometricSpriteSelector: React.FC<IsometricSpriteSelectorProps> = ({ isLoc
     }
   };
 
+  // NEW: Paint tool change handler (block mode only)
+  const handlePaintToolChange = (tool: PaintTool) => {
+    if (isLocked) return;
+    battlemapActions.setPaintTool(tool);
+  };
+
+  // NEW: Wall tool change handlers (wall mode only)
+  const handleWallToolChange = (tool: WallTool) => {
+    if (isLocked) return;
+    battlemapActions.setWallTool(tool);
+  };
+
+  const handleWallRunAutoCloseChange = (enabled: boolean) => {
+    if (isLocked) return;
+    battlemapActions.setWallRunAutoClose(enabled);
+  };
+
+  // NEW: Auto-tiling (directional mode) - rules are loaded the first time it is enabled
+  const handleAutoTileChange = async (enabled: boolean) => {
+    if (isLocked) return;
+    battlemapActions.setDirectionalMode(enabled);
+    if (enabled && !autoTileManager.isLoaded()) {
+      setAutoTileRuleSetCount(await autoTileManager.loadRules());
+    }
+  };
+
+  const handleReloadAutoTileRules = async () => {
+    setAutoTileRuleSetCount(await autoTileManager.loadRules());
+  };
+
+  const selectedAutoTileFamily = autoTileManager.getRuleSetForSprite(selectedSprite)?.family;
+
   // NEW: Wall/Block mode toggle handler
   const handleModeToggle = () => {
     if (isLocked) return;
@@ -390,11 +424,149 @@ const IsometricSpriteSelector: React.FC<IsometricSpriteSelectorProps> = ({ isLoc
         }}>
           {isWallMode 
             ? '🔄 Direction the wall sprite faces (independent of placement edge)'
-            : '🔄 Use Z/X keys for quick rotation while editing'
+            : '🔄 Use Z/X keys for quick rotation while editing (Shift+Z/X turns the camera)'
           }
         </Typography>
       </Box>
 
+      {/* NEW: Paint Tool Controls - blocks only */}
+      {!isWallMode && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="subtitle2" gutterBottom sx={{ color: '#00BCD4' }}>
+            🖌️ Paint Tool:
+          </Typography>
+          
+          <ToggleButtonGroup
+            value={isometricEditor.paintTool}
+            exclusive
+            onChange={(_, value) => value !== null && handlePaintToolChange(value)}
+            size="small"
+            disabled={isLocked}
+            sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}
+          >
+            <ToggleButton value={PaintTool.BRUSH} sx={{ color: 'white', fontSize: '0.65rem' }}>
+              🖌️ Brush
+            </ToggleButton>
+            <ToggleButton value={PaintTool.RECTANGLE} sx={{ color: 'white', fontSize: '0.65rem' }}>
+              ⬛ Rect
+            </ToggleButton>
+            <ToggleButton value={PaintTool.RECTANGLE_OUTLINE} sx={{ color: 'white', fontSize: '0.65rem' }}>
+              ⬜ Outline
+            </ToggleButton>
+            <ToggleButton value={PaintTool.LINE} sx={{ color: 'white', fontSize: '0.65rem' }}>
+              📏 Line
+            </ToggleButton>
+            <ToggleButton value={PaintTool.FLOOD_FILL} sx={{ color: 'white', fontSize: '0.65rem' }}>
+              🪣 Fill
+            </ToggleButton>
+          </ToggleButtonGroup>
+          
+          <Typography variant="caption" sx={{ 
+            color: '#00BCD4', 
+            fontSize: '0.65rem', 
+            display: 'block', 
+            mt: 0.5 
+          }}>
+            {isometricEditor.paintTool === PaintTool.BRUSH
+              ? '🔄 Click or drag to paint cell by cell (uses brush size)'
+              : isometricEditor.paintTool === PaintTool.FLOOD_FILL
+                ? '🔄 Fills connected cells with the same sprite on the active layer'
+                : '🔄 Drag to preview, release to place. Middle-drag erases'
+            }
+          </Typography>
+          
+          <Box sx={{ display: 'flex', alignItems: 'center', mt: 1 }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={isometricEditor.isDirectionalMode}
+                  onChange={(e) => handleAutoTileChange(e.target.checked)}
+                  disabled={isLocked}
+                  size="small"
+                />
+              }
+              label={
+                <Typography variant="caption" sx={{ fontSize: '0.7rem' }}>
+                  🧩 Auto-tile (pick variant & direction from neighbours)
+                </Typography>
+              }
+              sx={{ flex: 1 }}
+            />
+            {isometricEditor.isDirectionalMode && (
+              <Button size="small" variant="text" onClick={handleReloadAutoTileRules} sx={{ fontSize: '0.6rem', minWidth: 0 }}>
+                🔄 Rules
+              </Button>
+            )}
+          </Box>
+          
+          {isometricEditor.isDirectionalMode && (
+            <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.6rem', display: 'block' }}>
+              {autoTileRuleSetCount !== null && `${autoTileRuleSetCount} rule sets loaded • `}
+              {selectedAutoTileFamily
+                ? `Selected sprite uses family "${selectedAutoTileFamily}"`
+                : 'Selected sprite has no auto-tile rules (placed as-is)'
+              }
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      {/* NEW: Wall Tool Controls - walls only */}
+      {isWallMode && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="subtitle2" gutterBottom sx={{ color: '#00BCD4' }}>
+            🧱 Wall Tool:
+          </Typography>
+          
+          <ToggleButtonGroup
+            value={isometricEditor.wallTool}
+            exclusive
+            onChange={(_, value) => value !== null && handleWallToolChange(value)}
+            size="small"
+            disabled={isLocked}
+            sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}
+          >
+            <ToggleButton value={WallTool.SINGLE} sx={{ color: 'white', fontSize: '0.65rem' }}>
+              📍 Single Edge
+            </ToggleButton>
+            <ToggleButton value={WallTool.RUN} sx={{ color: 'white', fontSize: '0.65rem' }}>
+              📐 Wall Run
+            </ToggleButton>
+          </ToggleButtonGroup>
+          
+          {isometricEditor.wallTool === WallTool.RUN && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={isometricEditor.wallRunAutoClose}
+                  onChange={(e) => handleWallRunAutoCloseChange(e.target.checked)}
+                  disabled={isLocked}
+                  size="small"
+                />
+              }
+              label={
+                <Typography variant="caption" sx={{ fontSize: '0.7rem' }}>
+                  🏠 Auto-close into room (fills floor with last block sprite)
+                </Typography>
+              }
+              sx={{ mt: 0.5 }}
+            />
+          )}
+          
+          <Typography variant="caption" sx={{ 
+            color: '#00BCD4', 
+            fontSize: '0.65rem', 
+            display: 'block', 
+            mt: 0.5 
+          }}>
+            {isometricEditor.wallTool === WallTool.SINGLE
+              ? '🔄 Click an edge to place one wall (Z/X picks the edge)'
+              : '🔄 Drag from corner to corner, release to place. Middle-drag erases'
+            }
+          </Typography>
+        </Box>
+      )}
+
       {/* Current Selection Display */}
       {selectedSprite && (
         <Box sx={{ mb: 2, p: 1, border: '1px solid #FFC107', borderRadius: 1 }}>
@@ -0,0 +1,147 @@
+import React from 'react';
+import { Box, Typography, Button, Chip, Slider, Switch, FormControlLabel, IconButton } from '@mui/material';
+import { useSnapshot } from 'valtio';
+import { lightingStore, lightingActions, LIGHT_PRESETS } from '../../../store';
+import { LightLevel } from '../../../types/battlemap_types';
+
+const AMBIENT_TABS: Array<[LightLevel, string]> = [
+  ['bright', '☀️ Daylight'],
+  ['dim', '🌗 Dim'],
+  ['dark', '🌑 Darkness']
+];
+
+const LIGHT_COLORS = [0xFFB347, 0xFFD27F, 0xFF7A33, 0xFFFFFF, 0x9FD8FF, 0x8CFF9E, 0xD08CFF];
+
+const toCssColor = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+/**
+ * Lighting controls: ambient level, settings for new lights, placement toggle and the placed lights
+ */
+const LightingPanel: React.FC = () => {
+  const lightingSnap = useSnapshot(lightingStore);
+  const draft = lightingSnap.draft;
+  const lights = Object.values(lightingSnap.lights);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        {AMBIENT_TABS.map(([level, label]) => (
+          <Button
+            key={level}
+            variant={lightingSnap.ambientLight === level ? 'contained' : 'outlined'}
+            size="small"
+            onClick={() => lightingActions.setAmbientLight(level)}
+            sx={{ flex: 1, fontSize: '0.65rem' }}
+          >
+            {label}
+          </Button>
+        ))}
+      </Box>
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={lightingSnap.isPlacing}
+            onChange={(e) => lightingActions.setPlacing(e.target.checked)}
+            size="small"
+          />
+        }
+        label={<Typography variant="caption">🔦 Place lights</Typography>}
+      />
+
+      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+        {Object.entries(LIGHT_PRESETS).map(([key, preset]) => (
+          <Chip
+            key={key}
+            label={preset.name}
+            size="small"
+            color={draft.name === preset.name ? 'primary' : 'default'}
+            onClick={() => lightingActions.setDraft(preset)}
+            sx={{ fontSize: '0.65rem' }}
+          />
+        ))}
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="caption" sx={{ minWidth: '85px', fontSize: '0.65rem' }}>
+          Bright: {draft.bright_radius * 5} ft
+        </Typography>
+        <Slider
+          value={draft.bright_radius}
+          min={0}
+          max={12}
+          step={1}
+          size="small"
+          onChange={(_event, value) => lightingActions.setDraft({ bright_radius: value as number })}
+        />
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="caption" sx={{ minWidth: '85px', fontSize: '0.65rem' }}>
+          Dim: +{draft.dim_radius * 5} ft
+        </Typography>
+        <Slider
+          value={draft.dim_radius}
+          min={0}
+          max={12}
+          step={1}
+          size="small"
+          onChange={(_event, value) => lightingActions.setDraft({ dim_radius: value as number })}
+        />
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="caption" sx={{ minWidth: '85px', fontSize: '0.65rem' }}>
+          Flicker: {Math.round(draft.flicker * 100)}%
+        </Typography>
+        <Slider
+          value={draft.flicker}
+          min={0}
+          max={1}
+          step={0.05}
+          size="small"
+          onChange={(_event, value) => lightingActions.setDraft({ flicker: value as number })}
+        />
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 0.5 }}>
+        {LIGHT_COLORS.map(color => (
+          <Box
+            key={color}
+            onClick={() => lightingActions.setDraft({ color })}
+            sx={{
+              width: 18,
+              height: 18,
+              borderRadius: '50%',
+              cursor: 'pointer',
+              backgroundColor: toCssColor(color),
+              border: draft.color === color ? '2px solid #FFC107' : '2px solid rgba(255,255,255,0.2)'
+            }}
+          />
+        ))}
+      </Box>
+
+      {lights.length === 0 ? (
+        <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.65rem' }}>
+          No lights placed
+        </Typography>
+      ) : lights.map(light => (
+        <Box key={light.uuid} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <Box sx={{ width: 10, height: 10, borderRadius: '50%', backgroundColor: toCssColor(light.color) }} />
+          <Typography variant="caption" sx={{ flex: 1, fontSize: '0.65rem' }}>
+            {light.name} ({light.position[0]}, {light.position[1]}, Z:{light.z_level}) · {light.bright_radius * 5}/{light.dim_radius * 5} ft
+          </Typography>
+          <IconButton size="small" onClick={() => lightingActions.removeLight(light.uuid)} sx={{ p: 0.25, fontSize: '0.7rem' }}>
+            🗑️
+          </IconButton>
+        </Box>
+      ))}
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem' }}>
+        💡 In edit mode, left click places a light and middle click removes one. Walls and raised blocks cast shadows; in dim light or darkness the fog only shows what viewers can make out (darkvision sees 60 ft into darkness).
+      </Typography>
+    </Box>
+  );
+};
+
+export default LightingPanel;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Box, Typography, Slider, Switch, FormControlLabel } from '@mui/material';
+import { useSnapshot } from 'valtio';
+import { battlemapStore, battlemapActions } from '../../../store';
+
+/**
+ * Line of sight preview: shows what the hovered cell can see while editing
+ * Only subscribes to the view settings it shows
+ */
+const LineOfSightPanel: React.FC = () => {
+  const viewSnap = useSnapshot(battlemapStore.view);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={viewSnap.isLineOfSightPreviewEnabled}
+            onChange={(e) => battlemapActions.setLineOfSightPreviewEnabled(e.target.checked)}
+            size="small"
+          />
+        }
+        label={<Typography variant="caption">👁️ Preview from hovered cell</Typography>}
+      />
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="caption" sx={{ minWidth: '85px', fontSize: '0.65rem' }}>
+          Radius: {viewSnap.lineOfSightRadius}
+        </Typography>
+        <Slider
+          value={viewSnap.lineOfSightRadius}
+          min={1}
+          max={40}
+          step={1}
+          size="small"
+          disabled={!viewSnap.isLineOfSightPreviewEnabled}
+          onChange={(_event, value) => battlemapActions.setLineOfSightRadius(value as number)}
+        />
+      </Box>
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem' }}>
+        💡 Walls that block movement, non-walkable tiles and blocks above the viewer's level cut off sight.
+      </Typography>
+    </Box>
+  );
+};
+
+export default LineOfSightPanel;
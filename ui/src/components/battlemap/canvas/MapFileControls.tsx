@@ -0,0 +1,132 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Alert
+} from '@mui/material';
+import { useSnapshot } from 'valtio';
+import { battlemapStore } from '../../../store';
+import { mapPersistenceManager } from '../../../services/MapPersistenceManager';
+import { MapListEntry } from '../../../types/battlemap_types';
+
+interface MapFileControlsProps {
+  isLocked: boolean;
+}
+
+/**
+ * Save/load controls for whole-map JSON documents
+ * Only subscribes to loading/error status, not grid contents
+ */
+const MapFileControls: React.FC<MapFileControlsProps> = ({ isLocked }) => {
+  const snap = useSnapshot(battlemapStore);
+  const isBusy = snap.loading;
+  const error = snap.error;
+
+  // Local state
+  const [mapName, setMapName] = useState('untitled');
+  const [savedMaps, setSavedMaps] = useState<MapListEntry[]>([]);
+  const [selectedMap, setSelectedMap] = useState('');
+
+  const refreshMapList = useCallback(async () => {
+    const maps = await mapPersistenceManager.listMaps();
+    setSavedMaps(maps);
+    console.log(`[MapFileControls] Found ${maps.length} saved maps`);
+  }, []);
+
+  useEffect(() => {
+    refreshMapList();
+  }, [refreshMapList]);
+
+  const handleSave = async () => {
+    if (isLocked || !mapName.trim()) return;
+
+    const success = await mapPersistenceManager.saveMap(mapName.trim());
+    if (success) {
+      await refreshMapList();
+    }
+  };
+
+  const handleLoad = async () => {
+    if (isLocked || !selectedMap) return;
+
+    const success = await mapPersistenceManager.loadMap(selectedMap);
+    if (success) {
+      setMapName(selectedMap);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      {/* Save */}
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <TextField
+          label="Map Name"
+          value={mapName}
+          onChange={(e) => setMapName(e.target.value)}
+          disabled={isLocked || isBusy}
+          size="small"
+          sx={{ flex: 1, '& .MuiInputBase-input': { color: 'white' }, '& .MuiInputLabel-root': { color: 'rgba(255,255,255,0.7)' } }}
+        />
+        <Button
+          variant="outlined"
+          onClick={handleSave}
+          disabled={isLocked || isBusy || !mapName.trim()}
+          size="small"
+          sx={{ fontSize: '0.7rem', borderColor: '#4CAF50', color: '#4CAF50' }}
+        >
+          💾 Save
+        </Button>
+      </Box>
+
+      {/* Load */}
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <FormControl size="small" sx={{ flex: 1 }}>
+          <InputLabel sx={{ color: 'rgba(255,255,255,0.7)' }}>Saved Maps</InputLabel>
+          <Select
+            value={selectedMap}
+            label="Saved Maps"
+            onChange={(e) => setSelectedMap(e.target.value as string)}
+            onOpen={refreshMapList}
+            disabled={isLocked || isBusy}
+            sx={{ color: 'white' }}
+          >
+            {savedMaps.map(map => (
+              <MenuItem key={map.name} value={map.name}>
+                {map.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Button
+          variant="outlined"
+          onClick={handleLoad}
+          disabled={isLocked || isBusy || !selectedMap}
+          size="small"
+          sx={{ fontSize: '0.7rem', borderColor: '#2196F3', color: '#2196F3' }}
+        >
+          📂 Load
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ py: 0 }}>
+          <Typography variant="caption" sx={{ fontSize: '0.65rem' }}>
+            {error}
+          </Typography>
+        </Alert>
+      )}
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem' }}>
+        💡 Maps saved to: /public/maps/{mapName.trim() || '...'}.json
+      </Typography>
+    </Box>
+  );
+};
+
+export default MapFileControls;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Box, Typography, Button, Slider } from '@mui/material';
+import { useSnapshot } from 'valtio';
+import { battlemapStore, battlemapActions } from '../../../store';
+import { OcclusionMode } from '../../../types/battlemap_types';
+
+const OCCLUSION_MODE_TABS: Array<[OcclusionMode, string]> = [
+  ['off', '🚫 Off'],
+  ['fade', '👻 Fade'],
+  ['cutaway', '✂️ Cut-away']
+];
+
+/**
+ * Occlusion controls: how sprites in front of the hovered cell or selected entity get out of the way
+ */
+const OcclusionPanel: React.FC = () => {
+  const viewSnap = useSnapshot(battlemapStore.view);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        {OCCLUSION_MODE_TABS.map(([mode, label]) => (
+          <Button
+            key={mode}
+            variant={viewSnap.occlusionMode === mode ? 'contained' : 'outlined'}
+            size="small"
+            onClick={() => battlemapActions.setOcclusionMode(mode)}
+            sx={{ flex: 1, fontSize: '0.65rem' }}
+          >
+            {label}
+          </Button>
+        ))}
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="caption" sx={{ minWidth: '85px', fontSize: '0.65rem' }}>
+          Opacity: {Math.round(viewSnap.occlusionAlpha * 100)}%
+        </Typography>
+        <Slider
+          value={viewSnap.occlusionAlpha}
+          min={0}
+          max={1}
+          step={0.05}
+          size="small"
+          disabled={viewSnap.occlusionMode === 'off'}
+          onChange={(_event, value) => battlemapActions.setOcclusionAlpha(value as number)}
+        />
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="caption" sx={{ minWidth: '85px', fontSize: '0.65rem' }}>
+          Radius: {viewSnap.occlusionRadius} cells
+        </Typography>
+        <Slider
+          value={viewSnap.occlusionRadius}
+          min={1}
+          max={10}
+          step={1}
+          size="small"
+          disabled={viewSnap.occlusionMode === 'off'}
+          onChange={(_event, value) => battlemapActions.setOcclusionRadius(value as number)}
+        />
+      </Box>
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem' }}>
+        💡 Walls and upper-layer blocks in front of the hovered cell or the selected entity fade out. Cut-away lowers those walls to stubs instead.
+      </Typography>
+    </Box>
+  );
+};
+
+export default OcclusionPanel;
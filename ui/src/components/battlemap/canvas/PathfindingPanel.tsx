@@ -0,0 +1,86 @@
+import React from 'react';
+import { Box, Typography, Button, Chip, Slider, Switch, FormControlLabel } from '@mui/material';
+import { useSnapshot } from 'valtio';
+import { battlemapStore, battlemapActions, entityStore, entityActions } from '../../../store';
+import { DiagonalMovementRule } from '../../../types/battlemap_types';
+
+const DIAGONAL_RULE_TABS: Array<[DiagonalMovementRule, string]> = [
+  ['five', '↗️ 5 ft'],
+  ['alternating', '↗️ 5-10-5 ft']
+];
+
+/**
+ * Path preview: pick the moving entity, its movement budget and the diagonal rule,
+ * then hover a destination to see the path
+ */
+const PathfindingPanel: React.FC = () => {
+  const viewSnap = useSnapshot(battlemapStore.view);
+  const entitySnap = useSnapshot(entityStore);
+  const entities = Object.values(entitySnap.entities);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={viewSnap.isPathPreviewEnabled}
+            onChange={(e) => battlemapActions.setPathPreviewEnabled(e.target.checked)}
+            size="small"
+          />
+        }
+        label={<Typography variant="caption">🧭 Preview path to hovered cell</Typography>}
+      />
+
+      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+        {entities.length === 0 ? (
+          <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.65rem' }}>
+            No entities loaded
+          </Typography>
+        ) : entities.map(entity => (
+          <Chip
+            key={entity.uuid}
+            label={entity.name}
+            size="small"
+            color={entitySnap.selectedEntityId === entity.uuid ? 'primary' : 'default'}
+            onClick={() => entityActions.setSelectedEntity(entitySnap.selectedEntityId === entity.uuid ? null : entity.uuid)}
+            sx={{ fontSize: '0.65rem' }}
+          />
+        ))}
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="caption" sx={{ minWidth: '85px', fontSize: '0.65rem' }}>
+          Movement: {viewSnap.movementBudgetFeet} ft
+        </Typography>
+        <Slider
+          value={viewSnap.movementBudgetFeet}
+          min={0}
+          max={120}
+          step={5}
+          size="small"
+          onChange={(_event, value) => battlemapActions.setMovementBudgetFeet(value as number)}
+        />
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        {DIAGONAL_RULE_TABS.map(([rule, label]) => (
+          <Button
+            key={rule}
+            variant={viewSnap.diagonalMovementRule === rule ? 'contained' : 'outlined'}
+            size="small"
+            onClick={() => battlemapActions.setDiagonalMovementRule(rule)}
+            sx={{ flex: 1, fontSize: '0.65rem' }}
+          >
+            {label}
+          </Button>
+        ))}
+      </Box>
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem' }}>
+        💡 Paths avoid blocking walls, non-walkable tiles and other entities, and never cut corners.
+      </Typography>
+    </Box>
+  );
+};
+
+export default PathfindingPanel;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Switch,
+  FormControlLabel
+} from '@mui/material';
+import { useSnapshot } from 'valtio';
+import { battlemapStore, battlemapActions } from '../../../store';
+import { renderBenchmarkManager, PanBenchmarkResult } from '../../../services/RenderBenchmarkManager';
+
+interface RenderBenchmarkPanelProps {
+  isLocked: boolean;
+}
+
+const BENCHMARK_MAP_SIZES = [64, 128, 256];
+
+/**
+ * Benchmark map generator and pan benchmark for the chunked tile renderer
+ * Compare results with chunk culling on and off
+ */
+const RenderBenchmarkPanel: React.FC<RenderBenchmarkPanelProps> = ({ isLocked }) => {
+  const viewSnap = useSnapshot(battlemapStore.view);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<PanBenchmarkResult | null>(null);
+
+  const handleGenerate = (size: number) => {
+    if (isLocked) return;
+    battlemapActions.generateBenchmarkMap(size);
+    setResult(null);
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    const benchmarkResult = await renderBenchmarkManager.runPanBenchmark();
+    setResult(benchmarkResult);
+    setIsRunning(false);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        {BENCHMARK_MAP_SIZES.map(size => (
+          <Button
+            key={size}
+            variant="outlined"
+            size="small"
+            onClick={() => handleGenerate(size)}
+            disabled={isLocked || isRunning}
+            sx={{ flex: 1, fontSize: '0.65rem', minWidth: 0 }}
+          >
+            🏗️ {size}²
+          </Button>
+        ))}
+      </Box>
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={viewSnap.isChunkCullingEnabled}
+            onChange={(e) => battlemapActions.setChunkCullingEnabled(e.target.checked)}
+            size="small"
+          />
+        }
+        label={<Typography variant="caption">✂️ Cull off-screen chunks</Typography>}
+      />
+
+      <Button variant="contained" size="small" onClick={handleRun} disabled={isRunning}>
+        {isRunning ? '⏳ Panning...' : '⏱️ Run Pan Benchmark'}
+      </Button>
+
+      {result && (
+        <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.8)', fontSize: '0.65rem' }}>
+          {result.frames} frames • avg {result.averageFrameMs.toFixed(1)}ms • max {result.maxFrameMs.toFixed(1)}ms • {result.slowFrames} slow
+          {result.chunkStats && (
+            <>
+              <br />
+              Chunks: {result.chunkStats.visibleChunks}/{result.chunkStats.totalChunks} visible • {result.chunkStats.spriteCount} sprites drawn
+              <br />
+              Last rebuild: {result.chunkStats.lastRebuiltChunks} chunks in {result.chunkStats.lastRebuildMs.toFixed(1)}ms
+            </>
+          )}
+        </Typography>
+      )}
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem' }}>
+        💡 Benchmark maps use the last selected block and wall sprites. Slow frames take longer than 33ms.
+      </Typography>
+    </Box>
+  );
+};
+
+export default RenderBenchmarkPanel;
@@ -0,0 +1,129 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Switch,
+  FormControlLabel,
+  ToggleButton
+} from '@mui/material';
+import { useSnapshot } from 'valtio';
+import { selectionStore, selectionActions } from '../../../store';
+
+interface SelectionPanelProps {
+  isLocked: boolean;
+}
+
+/**
+ * Marquee selection and clipboard controls for the tile editor
+ * Only subscribes to the selection store, never to grid contents
+ */
+const SelectionPanel: React.FC<SelectionPanelProps> = ({ isLocked }) => {
+  const selectionSnap = useSnapshot(selectionStore);
+  const { isSelectMode, allLayers, selection, clipboard, paste } = selectionSnap;
+
+  const hasSelection = selection !== null;
+  const selectionSize = selection
+    ? `${Math.abs(selection.endX - selection.startX) + 1}x${Math.abs(selection.endY - selection.startY) + 1}`
+    : null;
+
+  const buttonSx = { flex: 1, fontSize: '0.7rem', minWidth: 0 };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      {/* Mode and layer scope */}
+      <FormControlLabel
+        control={
+          <Switch
+            checked={isSelectMode}
+            onChange={(e) => selectionActions.setSelectMode(e.target.checked)}
+            disabled={isLocked}
+            size="small"
+          />
+        }
+        label={<Typography variant="caption">⬚ Select Mode (drag to select)</Typography>}
+      />
+      <FormControlLabel
+        control={
+          <Switch
+            checked={allLayers}
+            onChange={(e) => selectionActions.setAllLayers(e.target.checked)}
+            disabled={isLocked}
+            size="small"
+          />
+        }
+        label={<Typography variant="caption">📚 All Z Layers</Typography>}
+      />
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.7)', fontSize: '0.65rem' }}>
+        {hasSelection ? `Selection: ${selectionSize} cells` : 'No selection'}
+        {clipboard ? ` • Clipboard: ${clipboard.tiles.length} tiles, ${clipboard.walls.length} walls` : ''}
+      </Typography>
+
+      {/* Clipboard operations */}
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button variant="outlined" size="small" sx={buttonSx} disabled={isLocked || !hasSelection} onClick={() => selectionActions.copySelection()}>
+          📋 Copy
+        </Button>
+        <Button variant="outlined" size="small" sx={buttonSx} disabled={isLocked || !hasSelection} onClick={() => selectionActions.cutSelection()}>
+          ✂️ Cut
+        </Button>
+        <Button variant="outlined" size="small" sx={buttonSx} disabled={isLocked || !clipboard} onClick={() => selectionActions.startPaste()}>
+          📥 Paste
+        </Button>
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button variant="outlined" size="small" sx={buttonSx} disabled={isLocked || !hasSelection} onClick={() => selectionActions.startMove()}>
+          ✋ Move
+        </Button>
+        <Button variant="outlined" color="error" size="small" sx={buttonSx} disabled={isLocked || !hasSelection} onClick={() => selectionActions.deleteSelection()}>
+          🗑️ Delete
+        </Button>
+      </Box>
+
+      {/* Paste transform (only while the ghost is active) */}
+      {paste.active && (
+        <Box sx={{ p: 1, border: '1px solid #4CAF50', borderRadius: 1, display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <Typography variant="caption" sx={{ color: '#4CAF50' }}>
+            {paste.isMove ? '✋ Moving selection' : '📥 Pasting'} • Rotation: {paste.rotation * 90}°
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button variant="outlined" size="small" sx={buttonSx} onClick={() => selectionActions.rotatePaste(-1)}>
+              ↺ Z
+            </Button>
+            <Button variant="outlined" size="small" sx={buttonSx} onClick={() => selectionActions.rotatePaste(1)}>
+              ↻ X
+            </Button>
+            <ToggleButton
+              value="mirrorX"
+              selected={paste.mirrorX}
+              onChange={() => selectionActions.setPasteMirrorX(!paste.mirrorX)}
+              size="small"
+              sx={{ ...buttonSx, color: 'white' }}
+            >
+              ⇋ X
+            </ToggleButton>
+            <ToggleButton
+              value="mirrorY"
+              selected={paste.mirrorY}
+              onChange={() => selectionActions.setPasteMirrorY(!paste.mirrorY)}
+              size="small"
+              sx={{ ...buttonSx, color: 'white' }}
+            >
+              ⇋ Y
+            </ToggleButton>
+          </Box>
+          <Button variant="outlined" color="warning" size="small" onClick={() => selectionActions.cancelPaste()}>
+            Cancel (Esc)
+          </Button>
+        </Box>
+      )}
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem' }}>
+        💡 Ctrl+C/X/V to copy, cut and paste. Z/X rotate the paste, click to place, Esc cancels, Del clears the selection.
+      </Typography>
+    </Box>
+  );
+};
+
+export default SelectionPanel;
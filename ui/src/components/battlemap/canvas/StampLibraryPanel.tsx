@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+  IconButton,
+  Alert
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useSnapshot } from 'valtio';
+import { battlemapStore, selectionStore } from '../../../store';
+import { prefabManager } from '../../../services/PrefabManager';
+import { PrefabListEntry } from '../../../types/battlemap_types';
+
+interface StampLibraryPanelProps {
+  isLocked: boolean;
+}
+
+/**
+ * Prefab (stamp) library: save the current selection as a prefab and stamp saved prefabs
+ * Stamping reuses the selection paste ghost, so Z/X rotation and the active Z layer apply
+ */
+const StampLibraryPanel: React.FC<StampLibraryPanelProps> = ({ isLocked }) => {
+  const snap = useSnapshot(battlemapStore);
+  const selectionSnap = useSnapshot(selectionStore);
+  const isBusy = snap.loading;
+  const error = snap.error;
+  const hasSelection = selectionSnap.selection !== null;
+  const activePrefab = selectionSnap.paste.active ? selectionSnap.paste.contents?.name : undefined;
+
+  // Local state
+  const [prefabName, setPrefabName] = useState('');
+  const [anchorX, setAnchorX] = useState(0);
+  const [anchorY, setAnchorY] = useState(0);
+  const [prefabs, setPrefabs] = useState<PrefabListEntry[]>([]);
+
+  const refreshPrefabList = useCallback(async () => {
+    const list = await prefabManager.listPrefabs();
+    setPrefabs(list);
+    console.log(`[StampLibraryPanel] Found ${list.length} prefabs`);
+  }, []);
+
+  useEffect(() => {
+    refreshPrefabList();
+  }, [refreshPrefabList]);
+
+  const handleSave = async () => {
+    if (isLocked || !prefabName.trim()) return;
+
+    const success = await prefabManager.savePrefab(prefabName.trim(), { x: anchorX, y: anchorY });
+    if (success) {
+      await refreshPrefabList();
+    }
+  };
+
+  const handleStamp = async (name: string) => {
+    if (isLocked) return;
+    await prefabManager.stampPrefab(name);
+  };
+
+  const handleDelete = async (name: string) => {
+    if (isLocked) return;
+
+    const success = await prefabManager.deletePrefab(name);
+    if (success) {
+      await refreshPrefabList();
+    }
+  };
+
+  const inputSx = { '& .MuiInputBase-input': { color: 'white' }, '& .MuiInputLabel-root': { color: 'rgba(255,255,255,0.7)' } };
+
+  return (
+    <Paper sx={{
+      p: 2,
+      backgroundColor: 'rgba(0, 0, 0, 0.9)',
+      color: 'white',
+      maxHeight: '70vh',
+      overflow: 'auto',
+      minWidth: '300px'
+    }}>
+      {isLocked && (
+        <Typography variant="body2" color="warning.main" sx={{ mb: 2 }}>
+          ⚠️ Unlock the map to use stamps
+        </Typography>
+      )}
+
+      {/* Save selection as prefab */}
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+          💾 Save Selection as Prefab:
+        </Typography>
+
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <TextField
+            label="Prefab Name"
+            value={prefabName}
+            onChange={(e) => setPrefabName(e.target.value)}
+            disabled={isLocked || isBusy}
+            size="small"
+            sx={inputSx}
+          />
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <TextField
+              label="Anchor X"
+              type="number"
+              value={anchorX}
+              onChange={(e) => setAnchorX(Math.max(0, parseInt(e.target.value, 10) || 0))}
+              disabled={isLocked || isBusy}
+              size="small"
+              inputProps={{ min: 0 }}
+              sx={{ flex: 1, ...inputSx }}
+            />
+            <TextField
+              label="Anchor Y"
+              type="number"
+              value={anchorY}
+              onChange={(e) => setAnchorY(Math.max(0, parseInt(e.target.value, 10) || 0))}
+              disabled={isLocked || isBusy}
+              size="small"
+              inputProps={{ min: 0 }}
+              sx={{ flex: 1, ...inputSx }}
+            />
+          </Box>
+          <Button
+            variant="outlined"
+            onClick={handleSave}
+            disabled={isLocked || isBusy || !hasSelection || !prefabName.trim()}
+            size="small"
+            sx={{ fontSize: '0.7rem', borderColor: '#4CAF50', color: '#4CAF50' }}
+          >
+            💾 Save Prefab
+          </Button>
+          <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem' }}>
+            {hasSelection
+              ? '💡 Anchor is the cell (from the top corner) that sits under the cursor when stamping'
+              : '💡 Use Select Mode in the configuration panel to pick a region first'
+            }
+          </Typography>
+        </Box>
+      </Box>
+
+      {/* Prefab list */}
+      <Typography variant="subtitle2" gutterBottom sx={{ color: '#FFC107' }}>
+        🧩 Prefabs:
+      </Typography>
+
+      <Box sx={{ maxHeight: '300px', overflow: 'auto', border: '1px solid rgba(255,255,255,0.2)', borderRadius: 1, mb: 1 }}>
+        {prefabs.length === 0 ? (
+          <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', display: 'block', p: 1 }}>
+            No prefabs saved yet
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {prefabs.map(prefab => (
+              <ListItem
+                key={prefab.name}
+                sx={{ py: 0, backgroundColor: activePrefab === prefab.name ? 'rgba(76, 175, 80, 0.2)' : 'transparent' }}
+                secondaryAction={
+                  <IconButton edge="end" size="small" onClick={() => handleDelete(prefab.name)} disabled={isLocked} sx={{ color: 'rgba(255,255,255,0.6)' }}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                }
+              >
+                <ListItemText
+                  primary={prefab.name}
+                  secondary={new Date(prefab.lastModified).toLocaleString()}
+                  primaryTypographyProps={{ fontSize: '0.75rem' }}
+                  secondaryTypographyProps={{ fontSize: '0.6rem', color: 'rgba(255,255,255,0.5)' }}
+                />
+                <Button
+                  size="small"
+                  variant="outlined"
+                  onClick={() => handleStamp(prefab.name)}
+                  disabled={isLocked || isBusy}
+                  sx={{ fontSize: '0.65rem', mr: 2, minWidth: 0 }}
+                >
+                  🧩 Stamp
+                </Button>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Box>
+
+      <Button variant="text" size="small" onClick={refreshPrefabList} sx={{ fontSize: '0.65rem' }}>
+        🔄 Refresh
+      </Button>
+
+      {error && (
+        <Alert severity="error" sx={{ py: 0, mt: 1 }}>
+          <Typography variant="caption" sx={{ fontSize: '0.65rem' }}>
+            {error}
+          </Typography>
+        </Alert>
+      )}
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem', display: 'block', mt: 1 }}>
+        💡 While stamping: Z/X rotate, click places on the active Z layer, Esc cancels.
+      </Typography>
+    </Paper>
+  );
+};
+
+export default StampLibraryPanel;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Box, Typography, TextField, Button, Chip } from '@mui/material';
+import { useSnapshot } from 'valtio';
+import { syncStore, syncActions } from '../../../store';
+import { battleSyncManager } from '../../../services/BattleSyncManager';
+import { SyncConnectionStatus } from '../../../types/battlemap_types';
+
+const STATUS_COLORS: Record<SyncConnectionStatus, 'default' | 'warning' | 'success'> = {
+  disconnected: 'default',
+  connecting: 'warning',
+  reconnecting: 'warning',
+  connected: 'success'
+};
+
+/**
+ * Connect the editor to a battle sync server so tiles, walls and entities stay shared
+ * Only subscribes to the sync store
+ */
+const SyncPanel: React.FC = () => {
+  const snap = useSnapshot(syncStore);
+  const isActive = snap.status !== 'disconnected';
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <TextField
+        label="Sync Server"
+        value={snap.url}
+        onChange={(e) => syncActions.setUrl(e.target.value)}
+        disabled={isActive}
+        size="small"
+        sx={{ '& .MuiInputBase-input': { color: 'white', fontSize: '0.75rem' }, '& .MuiInputLabel-root': { color: 'rgba(255,255,255,0.7)' } }}
+      />
+
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+        <Button
+          variant={isActive ? 'outlined' : 'contained'}
+          color={isActive ? 'warning' : 'primary'}
+          size="small"
+          onClick={() => isActive ? battleSyncManager.disconnect() : battleSyncManager.connect(snap.url)}
+          sx={{ flex: 1, fontSize: '0.7rem' }}
+        >
+          {isActive ? '⏹️ Disconnect' : '🔗 Connect'}
+        </Button>
+        <Button
+          variant="text"
+          size="small"
+          onClick={() => syncActions.resetUrl()}
+          disabled={isActive}
+          sx={{ fontSize: '0.7rem' }}
+        >
+          ↺
+        </Button>
+        <Chip label={snap.status} color={STATUS_COLORS[snap.status]} size="small" sx={{ fontSize: '0.65rem' }} />
+      </Box>
+
+      {snap.status === 'connected' && (
+        <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.65rem' }}>
+          #{snap.lastSeq} applied
+        </Typography>
+      )}
+      {snap.lastError && isActive && (
+        <Typography variant="caption" sx={{ color: '#FF9800', fontSize: '0.65rem' }}>
+          ⚠️ {snap.lastError}
+        </Typography>
+      )}
+
+      <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.6rem' }}>
+        💡 Connecting replaces the local map with the server's. Start a local server with npm run mock-server.
+      </Typography>
+    </Box>
+  );
+};
+
+export default SyncPanel;
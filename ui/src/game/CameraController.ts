@@ -0,0 +1,366 @@
+import { Ticker } from 'pixi.js';
+import { battlemapStore, battlemapActions, MIN_ZOOM, MAX_ZOOM } from '../store';
+import { battlemapEngine } from './BattlemapEngine';
+import { ENTITY_PANEL_WIDTH } from '../constants/layout';
+import { calculateIsometricGridOffset, gridToIsometric } from '../utils/isometricUtils';
+
+// Animation lengths (ms)
+const FOCUS_DURATION_MS = 450;
+const ZOOM_DURATION_MS = 200;
+
+// Zoom factor per pixel of wheel scroll (trackpad pinches arrive as ctrl+wheel with small deltas)
+const WHEEL_ZOOM_SENSITIVITY = 0.0015;
+const PINCH_WHEEL_ZOOM_SENSITIVITY = 0.01;
+
+// A focus target counts as on screen when it is at least this far (px) inside the map area
+const ONSCREEN_MARGIN = 80;
+
+/**
+ * Position in the isometric world at zoom 1, relative to the grid origin (gridToIsometric with the unzoomed tile size)
+ * Unlike screen positions and view offsets these don't change with zoom or pan
+ */
+interface WorldPoint {
+  x: number;
+  y: number;
+}
+
+interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * One camera animation: zoom eases between two levels while either the world point in the middle of the map area
+ * pans, or an anchor point stays under the same screen position (zooming toward the cursor)
+ */
+interface CameraTween {
+  startTime: number;
+  durationMs: number;
+  ease: (t: number) => number;
+  fromZoom: number;
+  toZoom: number;
+  fromCenter: WorldPoint;
+  toCenter: WorldPoint;
+  anchor: { world: WorldPoint; screen: ScreenPoint } | null;
+}
+
+/**
+ * Options for focusCamera
+ */
+export interface FocusCameraOptions {
+  animate?: boolean; // Default true
+  durationMs?: number;
+  zoom?: number; // Also zoom to this level (default: keep the zoom)
+  onlyIfOffscreen?: boolean; // Leave the camera alone when the target is already well inside the view
+}
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+const easeInOutCubic = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+/**
+ * CameraController - Eased camera moves on the PixiJS ticker: zoom toward the cursor (wheel) or the
+ * gesture centre (pinch), animated zoom buttons and reset, and focusCamera() for panning to a cell
+ * The camera is still just view.zoomLevel and view.offset; this only decides how they change over time
+ */
+export class CameraController {
+  private ticker: Ticker | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private tween: CameraTween | null = null;
+
+  // Touch pointers on the canvas and the pinch they form (anchor = world point between the fingers)
+  private touches: Map<number, ScreenPoint> = new Map();
+  private pinch: { startDistance: number; startZoom: number; anchor: WorldPoint } | null = null;
+
+  /**
+   * Initialize the camera controller
+   */
+  initialize(ticker: Ticker, canvas: HTMLCanvasElement | null): void {
+    this.ticker = ticker;
+    this.ticker.add(this.updateCamera, this);
+
+    this.canvas = canvas;
+    if (canvas) {
+      canvas.style.touchAction = 'none'; // Pinches zoom the map, not the page
+      canvas.addEventListener('wheel', this.handleWheel, { passive: false });
+      canvas.addEventListener('pointerdown', this.handleTouchDown);
+      canvas.addEventListener('pointermove', this.handleTouchMove);
+      canvas.addEventListener('pointerup', this.handleTouchUp);
+      canvas.addEventListener('pointercancel', this.handleTouchUp);
+    }
+    console.log('[CameraController] Initialized with PixiJS ticker');
+  }
+
+  /**
+   * Smoothly pan so a cell (or a fractional grid position) sits in the middle of the map area
+   * @param gridX Grid X (fractional positions such as moving entities are fine)
+   * @param gridY Grid Y
+   * @param zLevel Z layer to look at (raised layers are drawn higher up)
+   */
+  focusCamera(gridX: number, gridY: number, zLevel: number = 0, options: FocusCameraOptions = {}): void {
+    const target = this.gridToWorld(gridX, gridY, zLevel);
+    const zoom = clampZoom(options.zoom ?? battlemapStore.view.zoomLevel);
+
+    if (options.onlyIfOffscreen && this.isWorldPointOnScreen(target)) return;
+
+    if (options.animate === false) {
+      this.tween = null;
+      this.applyCamera(zoom, target);
+      return;
+    }
+
+    this.startTween({
+      durationMs: options.durationMs ?? FOCUS_DURATION_MS,
+      ease: easeInOutCubic,
+      toZoom: zoom,
+      toCenter: target,
+      anchor: null
+    });
+  }
+
+  /**
+   * Zoom keeping the world point under a screen position where it is
+   * @param screenX Canvas X of the point to zoom toward (e.g. the cursor)
+   * @param screenY Canvas Y
+   */
+  zoomAt(screenX: number, screenY: number, zoom: number, animate: boolean = true): void {
+    const screen = { x: screenX, y: screenY };
+    const anchor = { world: this.screenToWorld(screen), screen };
+    const toZoom = clampZoom(zoom);
+
+    if (!animate) {
+      this.tween = null;
+      this.applyAnchoredZoom(toZoom, anchor.world, screen);
+      return;
+    }
+
+    this.startTween({ durationMs: ZOOM_DURATION_MS, ease: easeOutCubic, toZoom, toCenter: this.getCenterWorld(), anchor });
+  }
+
+  /**
+   * Zoom toward the middle of the map area (zoom buttons)
+   */
+  zoomTo(zoom: number): void {
+    const center = this.getMapAreaCenter();
+    this.zoomAt(center.x, center.y, zoom);
+  }
+
+  /**
+   * Zoom level the camera is heading for (the current one when it isn't zooming)
+   */
+  getTargetZoom(): number {
+    return this.tween ? this.tween.toZoom : battlemapStore.view.zoomLevel;
+  }
+
+  /**
+   * Ease back to zoom 1 and no pan offset
+   */
+  resetCamera(): void {
+    const origin = this.getGridOrigin(1);
+    const center = this.getMapAreaCenter();
+    this.startTween({
+      durationMs: FOCUS_DURATION_MS,
+      ease: easeInOutCubic,
+      toZoom: 1,
+      toCenter: { x: center.x - origin.x, y: center.y - origin.y },
+      anchor: null
+    });
+  }
+
+  /**
+   * Stop any camera animation where it is
+   */
+  stop(): void {
+    this.tween = null;
+  }
+
+  private startTween(tween: Omit<CameraTween, 'startTime' | 'fromZoom' | 'fromCenter'>): void {
+    this.tween = {
+      ...tween,
+      startTime: performance.now(),
+      fromZoom: battlemapStore.view.zoomLevel,
+      fromCenter: this.getCenterWorld()
+    };
+  }
+
+  /**
+   * Advance the camera animation (called by ticker)
+   */
+  private updateCamera = (): void => {
+    const tween = this.tween;
+    if (!tween) return;
+
+    // WASD takes over the camera
+    if (battlemapStore.view.wasd_moving) {
+      this.tween = null;
+      return;
+    }
+
+    const progress = tween.durationMs > 0 ? Math.min(1, (performance.now() - tween.startTime) / tween.durationMs) : 1;
+    const eased = tween.ease(progress);
+    // Geometric zoom steps feel even at every zoom level
+    const zoom = tween.fromZoom * Math.pow(tween.toZoom / tween.fromZoom, eased);
+
+    if (tween.anchor) {
+      this.applyAnchoredZoom(zoom, tween.anchor.world, tween.anchor.screen);
+    } else {
+      this.applyCamera(zoom, {
+        x: tween.fromCenter.x + (tween.toCenter.x - tween.fromCenter.x) * eased,
+        y: tween.fromCenter.y + (tween.toCenter.y - tween.fromCenter.y) * eased
+      });
+    }
+
+    if (progress >= 1) {
+      this.tween = null;
+    }
+  };
+
+  /**
+   * Set zoom and pan so a world point sits in the middle of the map area
+   */
+  private applyCamera(zoom: number, center: WorldPoint): void {
+    this.applyAnchoredZoom(zoom, center, this.getMapAreaCenter());
+  }
+
+  /**
+   * Set zoom and pan so a world point sits at a screen position
+   */
+  private applyAnchoredZoom(zoom: number, world: WorldPoint, screen: ScreenPoint): void {
+    const clampedZoom = clampZoom(zoom);
+    const origin = this.getGridOrigin(clampedZoom);
+    battlemapActions.setZoomLevel(clampedZoom);
+    battlemapActions.setOffset(screen.x - world.x * clampedZoom - origin.x, screen.y - world.y * clampedZoom - origin.y);
+  }
+
+  /**
+   * Screen position of the grid origin at a zoom level with no pan offset (the offset adds on linearly)
+   */
+  private getGridOrigin(zoom: number): ScreenPoint {
+    const { grid, view } = battlemapStore;
+    const { width, height } = battlemapEngine.containerSize;
+    const { offsetX, offsetY } = calculateIsometricGridOffset(
+      width, height, grid.width, grid.height, view.gridDiamondWidth, 0, 0, ENTITY_PANEL_WIDTH, zoom
+    );
+    return { x: offsetX, y: offsetY };
+  }
+
+  private getMapAreaCenter(): ScreenPoint {
+    const { width, height } = battlemapEngine.containerSize;
+    return { x: ENTITY_PANEL_WIDTH + (width - ENTITY_PANEL_WIDTH) / 2, y: height / 2 };
+  }
+
+  private screenToWorld(screen: ScreenPoint): WorldPoint {
+    const { zoomLevel, offset } = battlemapStore.view;
+    const origin = this.getGridOrigin(zoomLevel);
+    return {
+      x: (screen.x - origin.x - offset.x) / zoomLevel,
+      y: (screen.y - origin.y - offset.y) / zoomLevel
+    };
+  }
+
+  private getCenterWorld(): WorldPoint {
+    return this.screenToWorld(this.getMapAreaCenter());
+  }
+
+  private gridToWorld(gridX: number, gridY: number, zLevel: number): WorldPoint {
+    const { isoX, isoY } = gridToIsometric(gridX, gridY, battlemapStore.view.gridDiamondWidth);
+    const layerConfig = battlemapActions.getAllZLayerConfigs()[zLevel];
+    return { x: isoX, y: isoY - (layerConfig?.verticalOffset ?? 0) };
+  }
+
+  private isWorldPointOnScreen(world: WorldPoint): boolean {
+    const { zoomLevel, offset } = battlemapStore.view;
+    const { width, height } = battlemapEngine.containerSize;
+    const origin = this.getGridOrigin(zoomLevel);
+    const screenX = origin.x + offset.x + world.x * zoomLevel;
+    const screenY = origin.y + offset.y + world.y * zoomLevel;
+    return screenX >= ENTITY_PANEL_WIDTH + ONSCREEN_MARGIN && screenX <= width - ONSCREEN_MARGIN &&
+      screenY >= ONSCREEN_MARGIN && screenY <= height - ONSCREEN_MARGIN;
+  }
+
+  /**
+   * Canvas-relative position of a DOM mouse/pointer event
+   */
+  private getCanvasPoint(event: MouseEvent): ScreenPoint {
+    const rect = this.canvas?.getBoundingClientRect();
+    return { x: event.clientX - (rect?.left ?? 0), y: event.clientY - (rect?.top ?? 0) };
+  }
+
+  /**
+   * Wheel zooms toward the cursor; successive notches build on the zoom already heading in
+   */
+  private handleWheel = (event: WheelEvent): void => {
+    event.preventDefault();
+    if (battlemapStore.controls.isLocked) return;
+
+    const point = this.getCanvasPoint(event);
+    const pixels = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY;
+    if (event.ctrlKey) {
+      // Trackpad pinch: follow the fingers without easing
+      this.zoomAt(point.x, point.y, battlemapStore.view.zoomLevel * Math.exp(-pixels * PINCH_WHEEL_ZOOM_SENSITIVITY), false);
+    } else {
+      this.zoomAt(point.x, point.y, this.getTargetZoom() * Math.exp(-pixels * WHEEL_ZOOM_SENSITIVITY));
+    }
+  };
+
+  private handleTouchDown = (event: PointerEvent): void => {
+    if (event.pointerType !== 'touch') return;
+    this.touches.set(event.pointerId, this.getCanvasPoint(event));
+    if (this.touches.size === 2 && !battlemapStore.controls.isLocked) {
+      const [first, second] = Array.from(this.touches.values());
+      this.tween = null;
+      this.pinch = {
+        startDistance: Math.max(1, Math.hypot(second.x - first.x, second.y - first.y)),
+        startZoom: battlemapStore.view.zoomLevel,
+        anchor: this.screenToWorld({ x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 })
+      };
+    }
+  };
+
+  /**
+   * Pinch: zoom by the change in finger distance, keeping the pinched point between the fingers (so it pans too)
+   */
+  private handleTouchMove = (event: PointerEvent): void => {
+    if (event.pointerType !== 'touch' || !this.touches.has(event.pointerId)) return;
+    this.touches.set(event.pointerId, this.getCanvasPoint(event));
+    if (!this.pinch || this.touches.size < 2) return;
+
+    const [first, second] = Array.from(this.touches.values());
+    const distance = Math.hypot(second.x - first.x, second.y - first.y);
+    const zoom = this.pinch.startZoom * (distance / this.pinch.startDistance);
+    this.applyAnchoredZoom(zoom, this.pinch.anchor, { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 });
+  };
+
+  private handleTouchUp = (event: PointerEvent): void => {
+    if (event.pointerType !== 'touch') return;
+    this.touches.delete(event.pointerId);
+    if (this.touches.size < 2) {
+      this.pinch = null;
+    }
+  };
+
+  /**
+   * Destroy the camera controller
+   */
+  destroy(): void {
+    this.ticker?.remove(this.updateCamera, this);
+    this.ticker = null;
+
+    if (this.canvas) {
+      this.canvas.removeEventListener('wheel', this.handleWheel);
+      this.canvas.removeEventListener('pointerdown', this.handleTouchDown);
+      this.canvas.removeEventListener('pointermove', this.handleTouchMove);
+      this.canvas.removeEventListener('pointerup', this.handleTouchUp);
+      this.canvas.removeEventListener('pointercancel', this.handleTouchUp);
+      this.canvas = null;
+    }
+
+    this.tween = null;
+    this.touches.clear();
+    this.pinch = null;
+  }
+}
+
+// Create and export a singleton instance (focusCamera is used by attack playback and the minimap)
+export const cameraController = new CameraController();
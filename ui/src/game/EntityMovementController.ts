@@ -0,0 +1,153 @@
+import { Ticker, UPDATE_PRIORITY } from 'pixi.js';
+import { entityStore, entityActions } from '../store';
+import { MovementState, VisualPosition, toVisualPosition } from '../types/battlemap_types';
+import { getPathProgress, interpolatePosition } from '../utils/entityMovementUtils';
+
+// Resync: farther than this (cells) snaps instead of tweening; tweens run at this speed (cells per second)
+const RESYNC_SNAP_DISTANCE = 3;
+const RESYNC_SPEED = 6;
+
+/**
+ * Tween back to the server position after a rejected move
+ */
+interface ResyncTween {
+  from: VisualPosition;
+  startTime: number;
+  durationMs: number;
+}
+
+/**
+ * EntityMovementController plays the path movements in entityStore.movements
+ * Sub-cell positions are kept here (read by the entity renderer every frame);
+ * the store is only written when a cell is passed, a path ends or a resync starts/ends
+ */
+export class EntityMovementController {
+  private ticker: Ticker | null = null;
+  private livePositions: Map<string, VisualPosition> = new Map();
+  private resyncs: Map<string, ResyncTween> = new Map();
+
+  /**
+   * Initialize the movement controller
+   */
+  initialize(ticker: Ticker): void {
+    this.ticker = ticker;
+    // Run before the renderers so entity sprites use this frame's positions
+    this.ticker.add(this.updateMovements, this, UPDATE_PRIORITY.HIGH);
+    console.log('[EntityMovementController] Initialized with PixiJS ticker');
+  }
+
+  /**
+   * Current tweened position of a moving or resyncing entity (null when it isn't moving)
+   */
+  getLivePosition(entityId: string): VisualPosition | null {
+    return this.livePositions.get(entityId) ?? null;
+  }
+
+  /**
+   * Where an entity is drawn: tweened position (moving/resyncing), then its visual position, then the server position
+   */
+  getDisplayPosition(entityId: string): VisualPosition | null {
+    const live = this.livePositions.get(entityId);
+    if (live) return live;
+    const visualPosition = entityStore.spriteMappings[entityId]?.visualPosition;
+    if (visualPosition) return visualPosition;
+    const entity = entityStore.entities[entityId];
+    return entity ? toVisualPosition(entity.position) : null;
+  }
+
+  /**
+   * Advance every movement and resync (called by ticker)
+   */
+  private updateMovements = (): void => {
+    const now = performance.now();
+
+    Object.values(entityStore.movements).forEach(movement => {
+      const entityId = movement.entityId;
+      if (!entityStore.entities[entityId]) {
+        this.livePositions.delete(entityId);
+        return;
+      }
+
+      // Rejected by the server: head back from wherever the entity is now
+      if (movement.isServerApproved === false) {
+        const from = this.livePositions.get(entityId) ?? toVisualPosition(movement.path[movement.currentPathIndex]);
+        entityActions.startResync(entityId, from);
+        return;
+      }
+
+      const progress = getPathProgress(movement.path, now - movement.startTime, movement.movementSpeed);
+      if (progress.finished) {
+        this.livePositions.delete(entityId);
+        entityActions.finishMovement(entityId);
+        return;
+      }
+
+      this.livePositions.set(entityId, progress.position);
+      if (progress.segmentIndex !== movement.currentPathIndex) {
+        entityActions.advanceMovement(entityId, progress.segmentIndex);
+      }
+    });
+
+    // Resyncs can also start from the store (a move rejected after its path already ended)
+    Object.values(entityStore.spriteMappings).forEach(mapping => {
+      if (mapping.movementState === MovementState.RESYNCING && !this.resyncs.has(mapping.entityId)) {
+        this.startResyncTween(mapping.entityId, mapping.visualPosition);
+      }
+    });
+
+    this.resyncs.forEach((resync, entityId) => {
+      const entity = entityStore.entities[entityId];
+      const mapping = entityStore.spriteMappings[entityId];
+      // Dropped, or taken over by a new movement
+      if (!entity || mapping?.movementState !== MovementState.RESYNCING) {
+        this.resyncs.delete(entityId);
+        if (!entityStore.movements[entityId]) this.livePositions.delete(entityId);
+        return;
+      }
+
+      const t = resync.durationMs > 0 ? (now - resync.startTime) / resync.durationMs : 1;
+      if (t >= 1) {
+        this.resyncs.delete(entityId);
+        this.livePositions.delete(entityId);
+        entityActions.finishResync(entityId);
+        return;
+      }
+      this.livePositions.set(entityId, interpolatePosition(resync.from, toVisualPosition(entity.position), t));
+    });
+  };
+
+  /**
+   * Reconcile with the authoritative position: tween back when close, snap when far
+   */
+  private startResyncTween(entityId: string, from: VisualPosition | undefined): void {
+    const entity = entityStore.entities[entityId];
+    if (!entity) return;
+
+    const distance = from ? Math.hypot(entity.position[0] - from.x, entity.position[1] - from.y) : 0;
+    if (!from || distance > RESYNC_SNAP_DISTANCE || distance === 0) {
+      this.livePositions.delete(entityId);
+      entityActions.finishResync(entityId);
+      console.log(`[EntityMovementController] Snapped ${entityId} to server position (${distance.toFixed(1)} cells off)`);
+      return;
+    }
+
+    this.resyncs.set(entityId, { from, startTime: performance.now(), durationMs: (distance / RESYNC_SPEED) * 1000 });
+    this.livePositions.set(entityId, from);
+  }
+
+  /**
+   * Destroy the movement controller
+   */
+  destroy(): void {
+    if (this.ticker) {
+      this.ticker.remove(this.updateMovements, this);
+    }
+    this.ticker = null;
+    this.livePositions.clear();
+    this.resyncs.clear();
+    console.log('[EntityMovementController] Destroyed');
+  }
+}
+
+// Create and export a singleton instance (the entity renderer reads live positions from it)
+export const entityMovementController = new EntityMovementController();
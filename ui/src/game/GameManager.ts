@@ -4,13 +4,26 @@ import { battlemapEngine } from './BattlemapEngine';
 import { IsometricGridRenderer } from './renderers/IsometricGridRenderer';
 // import { TileRenderer } from './renderers/TileRenderer';
 import { IsometricTileRenderer } from './renderers/IsometricTileRenderer';
+import { PaintPreviewRenderer } from './renderers/PaintPreviewRenderer';
+import { SelectionRenderer } from './renderers/SelectionRenderer';
 // import { EntityRenderer } from './renderers/EntityRenderer';
-// import { IsometricEntityRenderer } from './renderers/IsometricEntityRenderer';
-// import { EffectRenderer } from './renderers/EffectRenderer';
+import { IsometricEntityRenderer } from './renderers/IsometricEntityRenderer';
+import { EffectRenderer } from './renderers/EffectRenderer';
+import { FloatingTextRenderer } from './renderers/FloatingTextRenderer';
+import { PresenceRenderer } from './renderers/PresenceRenderer';
+import { LineOfSightRenderer } from './renderers/LineOfSightRenderer';
+import { PathPreviewRenderer } from './renderers/PathPreviewRenderer';
+import { LightingRenderer } from './renderers/LightingRenderer';
+import { MinimapRenderer } from './renderers/MinimapRenderer';
 // import { InteractionsManager } from './InteractionsManager';
 import { IsometricInteractionsManager } from './IsometricInteractionsManager';
 import { MovementController } from './MapMovementController';
+import { entityMovementController } from './EntityMovementController';
+import { cameraController } from './CameraController';
 import { isometricSpriteManager } from './managers/IsometricSpriteManager';
+import { entitySpriteManager } from './managers/EntitySpriteManager';
+import { fogOfWarManager } from '../services/FogOfWarManager';
+import { lightingManager } from '../services/LightingManager';
 
 /**
  * GameManager is the main entry point for the isometric tile editor
@@ -23,6 +36,16 @@ export class GameManager {
   // Component references - enhanced for isometric sprite editing
   private tileRenderer: IsometricTileRenderer = new IsometricTileRenderer();
   private gridRenderer: IsometricGridRenderer = new IsometricGridRenderer();
+  private paintPreviewRenderer: PaintPreviewRenderer = new PaintPreviewRenderer();
+  private selectionRenderer: SelectionRenderer = new SelectionRenderer();
+  private entityRenderer: IsometricEntityRenderer = new IsometricEntityRenderer();
+  private effectRenderer: EffectRenderer = new EffectRenderer();
+  private floatingTextRenderer: FloatingTextRenderer = new FloatingTextRenderer();
+  private presenceRenderer: PresenceRenderer = new PresenceRenderer();
+  private lineOfSightRenderer: LineOfSightRenderer = new LineOfSightRenderer();
+  private pathPreviewRenderer: PathPreviewRenderer = new PathPreviewRenderer();
+  private lightingRenderer: LightingRenderer = new LightingRenderer();
+  private minimapRenderer: MinimapRenderer = new MinimapRenderer();
   private interactionsManager: IsometricInteractionsManager = new IsometricInteractionsManager();
   private movementController: MovementController = new MovementController();
   
@@ -87,19 +110,52 @@ export class GameManager {
     // Initialize renderers
     this.tileRenderer.initialize(battlemapEngine);
     this.gridRenderer.initialize(battlemapEngine);
+    this.paintPreviewRenderer.initialize(battlemapEngine);
+    this.selectionRenderer.initialize(battlemapEngine);
     
     // Register renderers with the engine
     battlemapEngine.registerRenderer('tiles', this.tileRenderer);
     battlemapEngine.registerRenderer('grid', this.gridRenderer);
+    battlemapEngine.registerRenderer('paintPreview', this.paintPreviewRenderer);
+    battlemapEngine.registerRenderer('selection', this.selectionRenderer);
+    
+    // Entities and effects depth-sort inside the tile renderer's chunks, so they are set up once 'tiles' is registered
+    this.entityRenderer.initialize(battlemapEngine);
+    battlemapEngine.registerRenderer('entities', this.entityRenderer);
+    this.effectRenderer.initialize(battlemapEngine);
+    battlemapEngine.registerRenderer('effects', this.effectRenderer);
+    this.floatingTextRenderer.initialize(battlemapEngine);
+    battlemapEngine.registerRenderer('floatingText', this.floatingTextRenderer);
+    this.presenceRenderer.initialize(battlemapEngine);
+    battlemapEngine.registerRenderer('presence', this.presenceRenderer);
+    this.lineOfSightRenderer.initialize(battlemapEngine);
+    battlemapEngine.registerRenderer('lineOfSight', this.lineOfSightRenderer);
+    this.pathPreviewRenderer.initialize(battlemapEngine);
+    battlemapEngine.registerRenderer('pathPreview', this.pathPreviewRenderer);
+    this.lightingRenderer.initialize(battlemapEngine);
+    battlemapEngine.registerRenderer('lighting', this.lightingRenderer);
     
     // Initialize interactions (needs to be after renderers for proper layering)
     this.interactionsManager.initialize(battlemapEngine);
     
+    // Minimap goes on the UI layer after the interaction hit area, so its clicks reach it first
+    this.minimapRenderer.initialize(battlemapEngine);
+    battlemapEngine.registerRenderer('minimap', this.minimapRenderer);
+    
     // Initialize movement controller
     if (battlemapEngine.app) {
       this.movementController.initialize(battlemapEngine.app.ticker);
+      entityMovementController.initialize(battlemapEngine.app.ticker);
+      // NEW: Wheel/pinch zoom toward the cursor and eased camera moves
+      cameraController.initialize(battlemapEngine.app.ticker, battlemapEngine.app.canvas);
     }
     
+    // Lighting first: the fog of war reads its light levels
+    lightingManager.initialize();
+    
+    // Fog of war follows the viewers' senses
+    fogOfWarManager.initialize();
+    
     // Perform initial render
     battlemapEngine.renderAll();
     
@@ -118,6 +174,7 @@ export class GameManager {
    */
   stopMovement(): void {
     this.movementController.stop();
+    cameraController.stop();
   }
   
   /**
@@ -140,10 +197,25 @@ export class GameManager {
     
     // Destroy sprite manager
     isometricSpriteManager.destroy();
+    entitySpriteManager.destroy();
     
     // Destroy components in reverse order
+    fogOfWarManager.destroy();
+    lightingManager.destroy();
+    cameraController.destroy();
+    entityMovementController.destroy();
     this.movementController.destroy();
+    this.minimapRenderer.destroy();
     this.interactionsManager.destroy();
+    this.lightingRenderer.destroy();
+    this.pathPreviewRenderer.destroy();
+    this.lineOfSightRenderer.destroy();
+    this.presenceRenderer.destroy();
+    this.floatingTextRenderer.destroy();
+    this.effectRenderer.destroy();
+    this.entityRenderer.destroy();
+    this.selectionRenderer.destroy();
+    this.paintPreviewRenderer.destroy();
     this.gridRenderer.destroy();
     this.tileRenderer.destroy();
     
@@ -1,10 +1,15 @@
 import { Graphics, FederatedPointerEvent, Container } from 'pixi.js';
-import { battlemapStore, battlemapActions } from '../store';
+import { battlemapStore, battlemapActions, historyActions, PaintTool, WallTool, selectionStore, selectionActions, lightingStore, lightingActions } from '../store';
 import { BattlemapEngine, LayerName } from './BattlemapEngine';
 import { TileSummary, WallSummary } from '../types/battlemap_types';
 import { Position } from '../types/common';
 import { IsometricGridRenderer } from './renderers/IsometricGridRenderer';
 import { IsometricDirection } from './managers/IsometricSpriteManager';
+import { PaintPreviewRenderer } from './renderers/PaintPreviewRenderer';
+import { GridCell, GridVertex, WallEdge, getRectangleCells, getLineCells, getFloodFillCells, getWallRunEdges, getRoomEdges } from '../utils/paintToolUtils';
+import { IsometricRenderingUtils } from './renderers/utils/IsometricRenderingUtils';
+import { fromViewDirection } from '../utils/isometricUtils';
+import { autoTileManager } from '../services/AutoTileManager';
 
 // Define minimum width of entity panel
 const ENTITY_PANEL_WIDTH = 250;
@@ -42,6 +47,26 @@ export class IsometricInteractionsManager {
   private dragStartPosition: { x: number; y: number } | null = null;
   private lastDragGridPosition: { x: number; y: number } | null = null;
   
+  // NEW: Whether a history transaction is open for the current stroke
+  private strokeTransaction: { id: number; label: string } | null = null; // History transaction of the current drag stroke
+  
+  // NEW: Shape tool state (rectangle/line drag and flood fill hover)
+  private paintPreviewRenderer: PaintPreviewRenderer | null = null;
+  private shapeStart: GridCell | null = null;
+  private shapeEnd: GridCell | null = null;
+  private shapeErase: boolean = false;
+  private shapeSnapPosition: 'above' | 'below' = 'above';
+  private lastPreviewCell: GridCell | null = null;
+  
+  // NEW: Wall-run tool state (vertex-to-vertex drag)
+  private wallRunStart: GridVertex | null = null;
+  private wallRunEnd: GridVertex | null = null;
+  private wallRunErase: boolean = false;
+  private wallRunSnapPosition: 'above' | 'below' = 'above';
+  
+  // NEW: Marquee selection drag state
+  private isMarqueeDragging: boolean = false;
+  
   /**
    * Initialize the interactions manager
    */
@@ -58,6 +83,9 @@ export class IsometricInteractionsManager {
       console.error('[IsometricInteractionsManager] Could not find IsometricGridRenderer - coordinate conversion will not work');
     }
     
+    // Get reference to the paint preview renderer for shape tool ghosts
+    this.paintPreviewRenderer = engine.getRenderer<PaintPreviewRenderer>('paintPreview') || null;
+    
     // Create hit area for event handling
     this.createHitArea();
     
@@ -116,11 +144,8 @@ export class IsometricInteractionsManager {
    * Set up keyboard shortcuts for layer switching and other controls
    */
   private setupKeyboardShortcuts(): void {
-    // Set up keyboard event listener for layer switching (1-9), sprite rotation (Z/X), and mode toggle (Q)
+    // Set up keyboard event listener for layer switching (1-9), sprite rotation (Z/X), mode toggle (Q), undo/redo (Ctrl+Z / Ctrl+Shift+Z) and clipboard (Ctrl+C/X/V)
     this.keyDownHandler = (event: KeyboardEvent) => {
-      // Skip if modifier keys are pressed or controls are locked
-      if (event.ctrlKey || event.altKey || event.metaKey || battlemapStore.controls.isLocked) return;
-      
       // NEW: Skip if user is typing in any input field or textarea
       const activeElement = document.activeElement;
       if (activeElement && (
@@ -134,6 +159,36 @@ export class IsometricInteractionsManager {
       
       const key = event.key.toLowerCase();
       
+      // NEW: Handle undo/redo with Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS, Ctrl+Y also redoes)
+      if ((event.ctrlKey || event.metaKey) && !event.altKey && (key === 'z' || key === 'y')) {
+        if (battlemapStore.controls.isLocked) return;
+        event.preventDefault();
+        
+        if (key === 'y' || event.shiftKey) {
+          battlemapActions.redo();
+        } else {
+          battlemapActions.undo();
+        }
+        return;
+      }
+      
+      // NEW: Clipboard with Ctrl+C / Ctrl+X / Ctrl+V (Cmd on macOS)
+      if ((event.ctrlKey || event.metaKey) && !event.altKey && (key === 'c' || key === 'x' || key === 'v')) {
+        if (battlemapStore.controls.isLocked) return;
+        
+        const handled = key === 'c' ? selectionActions.copySelection()
+          : key === 'x' ? selectionActions.cutSelection()
+          : selectionActions.startPaste();
+        if (handled) {
+          event.preventDefault();
+          console.log(`[IsometricInteractionsManager] Clipboard shortcut: Ctrl+${key.toUpperCase()}`);
+        }
+        return;
+      }
+      
+      // Skip if modifier keys are pressed or controls are locked
+      if (event.ctrlKey || event.altKey || event.metaKey || battlemapStore.controls.isLocked) return;
+      
       // Handle layer switching with number keys 1-9
       if (/^[1-9]$/.test(key)) {
         const layerIndex = parseInt(key, 10) - 1; // Convert to 0-based index
@@ -146,6 +201,20 @@ export class IsometricInteractionsManager {
         }
       }
       
+      // NEW: Shift+Z/X turn the camera (the map turns left/right on screen)
+      else if ((key === 'z' || key === 'x') && event.shiftKey) {
+        event.preventDefault();
+        battlemapActions.rotateCamera(key === 'z' ? -1 : 1);
+        console.log(`[IsometricInteractionsManager] Rotated camera ${key === 'z' ? 'left' : 'right'} to ${battlemapStore.view.cameraRotation * 90}°`);
+      }
+      
+      // NEW: Z/X rotate the paste ghost while pasting or moving
+      else if ((key === 'z' || key === 'x') && selectionStore.paste.active) {
+        event.preventDefault();
+        selectionActions.rotatePaste(key === 'z' ? -1 : 1);
+        console.log(`[IsometricInteractionsManager] Rotated paste ${key === 'z' ? 'left' : 'right'} to ${selectionStore.paste.rotation * 90}°`);
+      }
+      
       // Handle sprite rotation with Z/X keys
       else if (key === 'z' || key === 'x') {
         const isWallMode = battlemapStore.controls.isometricEditor.wallMode;
@@ -182,10 +251,30 @@ export class IsometricInteractionsManager {
         const newMode = !battlemapStore.controls.isometricEditor.wallMode;
         console.log(`[IsometricInteractionsManager] Q: Toggled to ${newMode ? 'Wall' : 'Block'} Mode`);
       }
+      
+      // NEW: M shows/hides the minimap
+      else if (key === 'm') {
+        battlemapActions.toggleMinimap();
+      }
+      
+      // NEW: Escape drops the paste ghost first, then the selection
+      else if (key === 'escape') {
+        if (selectionStore.paste.active) {
+          selectionActions.cancelPaste();
+        } else {
+          selectionActions.clearSelection();
+        }
+      }
+      
+      // NEW: Delete/Backspace clears everything inside the selection
+      else if ((key === 'delete' || key === 'backspace') && selectionStore.selection) {
+        event.preventDefault();
+        selectionActions.deleteSelection();
+      }
     };
     
     window.addEventListener('keydown', this.keyDownHandler);
-    console.log('[IsometricInteractionsManager] Keyboard shortcuts set up (1-9 for layers, Z/X for sprite rotation, Q for mode toggle)');
+    console.log('[IsometricInteractionsManager] Keyboard shortcuts set up (1-9 for layers, Z/X for sprite rotation, Q for mode toggle, Ctrl+Z/Ctrl+Shift+Z for undo/redo, Ctrl+C/X/V for clipboard)');
   }
   
   /**
@@ -241,7 +330,8 @@ export class IsometricInteractionsManager {
     
     // For now, use a simple rotation based on current wall placement direction
     // This lets the user control which edge via the UI controls
-    return battlemapStore.controls.isometricEditor.wallPlacementDirection;
+    // NEW: The picked edge is the side as seen on screen, so it turns with the camera
+    return fromViewDirection(battlemapStore.controls.isometricEditor.wallPlacementDirection);
   }
   
   /**
@@ -273,12 +363,42 @@ export class IsometricInteractionsManager {
     if (snap.controls.isEditing && !snap.controls.isLocked) {
       const isWallMode = snap.controls.isometricEditor.wallMode;
       
+      // NEW: Paste ghost and marquee selection take over the pointer from the paint tools
+      if (selectionStore.paste.active || selectionStore.isSelectMode) {
+        this.handleSelectionPointerDown(mouseX, mouseY, isMiddleClick, isRightClick);
+        return;
+      }
+      
+      // NEW: Light placement takes over the pointer too (left places, middle removes)
+      if (lightingStore.isPlacing) {
+        this.handleLightPointerDown(mouseX, mouseY, isMiddleClick, isRightClick);
+        return;
+      }
+      
+      // NEW: Wall runs snap to grid vertices rather than cells
+      if (isWallMode && snap.controls.isometricEditor.wallTool === WallTool.RUN) {
+        this.handleWallRunDown(mouseX, mouseY, isMiddleClick, isRightClick);
+        return;
+      }
+      
       // Use the same coordinate system for both walls and blocks
       const gridResult = this.isometricGridRenderer?.screenToGrid(mouseX, mouseY);
       if (!gridResult || !gridResult.inBounds) return;
       
       const { gridX, gridY } = gridResult;
       
+      // NEW: Shape and fill tools (block mode only) commit as one batch instead of painting per cell
+      const paintTool = snap.controls.isometricEditor.paintTool;
+      if (!isWallMode && paintTool !== PaintTool.BRUSH) {
+        this.handleShapeToolDown(gridX, gridY, paintTool, isMiddleClick, isRightClick);
+        return;
+      }
+      
+      // NEW: Everything painted or erased until pointer up becomes one undoable step
+      this.beginStrokeTransaction(isWallMode
+        ? (isMiddleClick ? 'Erase walls' : 'Paint walls')
+        : (isMiddleClick ? 'Erase tiles' : 'Paint tiles'));
+      
       if (isWallMode) {
         // WALL MODE: Determine which edge and handle wall placement
         const wallEdge = this.determineWallEdge(mouseX, mouseY, gridX, gridY);
@@ -332,6 +452,34 @@ export class IsometricInteractionsManager {
     }
   }
   
+  /**
+   * Open a history transaction so a whole drag stroke undoes in one step
+   */
+  private beginStrokeTransaction(label: string): void {
+    this.endStrokeTransaction();
+    this.strokeTransaction = { id: historyActions.beginTransaction(label), label };
+  }
+  
+  /**
+   * Reopen the stroke's transaction if something closed it mid-drag (e.g. Ctrl+Z), so the rest of
+   * the stroke still undoes in one step
+   */
+  private resumeStrokeTransaction(): void {
+    if (!this.strokeTransaction || historyActions.isTransactionOpen(this.strokeTransaction.id)) return;
+    this.strokeTransaction = { ...this.strokeTransaction, id: historyActions.beginTransaction(this.strokeTransaction.label) };
+  }
+  
+  /**
+   * Close the current stroke's history transaction (if any, and only if it is still ours to close)
+   */
+  private endStrokeTransaction(): void {
+    if (!this.strokeTransaction) return;
+    if (historyActions.isTransactionOpen(this.strokeTransaction.id)) {
+      historyActions.endTransaction();
+    }
+    this.strokeTransaction = null;
+  }
+  
   /**
    * Handle wall editing (placement)
    */
@@ -344,19 +492,8 @@ export class IsometricInteractionsManager {
     }
     
     // Create wall object
-    const newWall: WallSummary = {
-      uuid: `wall_${gridX}_${gridY}_${isometricEditor.selectedZLevel}_${edge}_${Date.now()}`,
-      name: isometricEditor.selectedSpriteName,
-      position: [gridX, gridY] as const,
-      z_level: isometricEditor.selectedZLevel,
-      wall_direction: edge, // Which edge the wall is on
-      sprite_name: isometricEditor.selectedSpriteName,
-      sprite_direction: isometricEditor.wallSpriteDirection, // Which way the wall sprite faces
-      wall_type: isometricEditor.selectedWallType,
-      blocks_movement: this.getWallBlocksMovement(isometricEditor.selectedSpriteName),
-      visible: true,
-      snap_position: snapPosition,
-    };
+    const newWall = this.createWall({ x: gridX, y: gridY, direction: edge }, snapPosition);
+    if (!newWall) return;
     
     battlemapActions.addWall(newWall);
     console.log(`[IsometricInteractionsManager] Created wall at (${gridX}, ${gridY}, Z:${isometricEditor.selectedZLevel}, Edge:${edge}) with sprite: ${isometricEditor.selectedSpriteName}`);
@@ -391,6 +528,7 @@ export class IsometricInteractionsManager {
   private handlePointerMove(event: FederatedPointerEvent): void {
     const mouseX = event.global.x;
     const mouseY = event.global.y;
+    this.resumeStrokeTransaction();
     
     const snap = battlemapStore;
     const isWallMode = snap.controls.isometricEditor.wallMode;
@@ -403,6 +541,19 @@ export class IsometricInteractionsManager {
       battlemapActions.setHoveredCell(-1, -1);
     }
     
+    // NEW: Keep the shape tool ghost in sync with the cursor
+    this.updateShapePreview(gridResult?.inBounds ? { x: gridResult.gridX, y: gridResult.gridY } : null);
+    
+    // NEW: Keep the marquee and paste ghost following the cursor
+    if (gridResult?.inBounds) {
+      this.updateSelectionDrag(gridResult.gridX, gridResult.gridY);
+    }
+    
+    // NEW: Keep the wall-run ghost following the nearest vertex
+    if (this.wallRunStart) {
+      this.updateWallRunPreview(mouseX, mouseY);
+    }
+    
     if (isWallMode) {
       // WALL MODE: Handle wall drag operations
       if (this.isMiddleClickDragging && gridResult?.inBounds && snap.controls.isEditing && !snap.controls.isLocked) {
@@ -469,6 +620,9 @@ export class IsometricInteractionsManager {
    * Handle pointer up events (stop drag painting)
    */
   private handlePointerUp(event: FederatedPointerEvent): void {
+    // NEW: Finish a marquee drag
+    this.isMarqueeDragging = false;
+    
     if (this.isDragging) {
       this.isDragging = false;
       this.dragStartPosition = null;
@@ -482,6 +636,18 @@ export class IsometricInteractionsManager {
       this.lastDragGridPosition = null;
       console.log('[IsometricInteractionsManager] Stopped middle-click drag deletion');
     }
+    
+    this.endStrokeTransaction();
+    
+    // NEW: Commit a pending rectangle/line drag
+    if (this.shapeStart) {
+      this.commitShapeDrag();
+    }
+    
+    // NEW: Commit a pending wall run
+    if (this.wallRunStart) {
+      this.commitWallRun();
+    }
   }
 
   /**
@@ -503,10 +669,397 @@ export class IsometricInteractionsManager {
       console.log('[IsometricInteractionsManager] Stopped middle-click drag deletion (mouse left area)');
     }
     
+    this.endStrokeTransaction();
+    
+    // NEW: Leaving the canvas cancels a pending shape drag
+    this.cancelShapeTool();
+    this.cancelWallRun();
+    this.isMarqueeDragging = false;
+    
     // Clear hover highlight
     battlemapActions.setHoveredCell(-1, -1);
   }
   
+  /**
+   * Handle pointer down for the rectangle, line and flood fill tools
+   */
+  private handleShapeToolDown(gridX: number, gridY: number, paintTool: PaintTool, isMiddleClick: boolean, isRightClick: boolean): void {
+    const erase = isMiddleClick || battlemapStore.controls.selectedTileType === 'erase';
+    const snapPosition: 'above' | 'below' = isRightClick ? 'below' : 'above';
+    
+    if (!erase && !battlemapStore.controls.isometricEditor.selectedSpriteName) {
+      console.warn('[IsometricInteractionsManager] No sprite selected - cannot use paint tool. Please select a sprite first.');
+      return;
+    }
+    
+    if (paintTool === PaintTool.FLOOD_FILL) {
+      // Flood fill commits immediately - its preview was already shown on hover
+      const cells = this.getFloodFillRegion(gridX, gridY);
+      this.commitCells(cells, erase, snapPosition, erase ? 'Flood erase' : 'Flood fill');
+      this.paintPreviewRenderer?.clearPreview();
+      this.lastPreviewCell = null;
+      return;
+    }
+    
+    // Rectangle/line: remember the anchor and wait for pointer up
+    this.shapeStart = { x: gridX, y: gridY };
+    this.shapeEnd = { x: gridX, y: gridY };
+    this.shapeErase = erase;
+    this.shapeSnapPosition = snapPosition;
+    this.paintPreviewRenderer?.setPreview(this.getShapeCells(paintTool), battlemapStore.controls.isometricEditor.selectedZLevel, erase ? 'erase' : 'paint');
+    console.log(`[IsometricInteractionsManager] Started ${paintTool} at (${gridX}, ${gridY})`);
+  }
+  
+  /**
+   * Update the ghost preview for the active shape tool as the cursor moves
+   */
+  private updateShapePreview(cell: GridCell | null): void {
+    const controls = battlemapStore.controls;
+    const paintTool = controls.isometricEditor.paintTool;
+    const isSelecting = selectionStore.isSelectMode || selectionStore.paste.active;
+    const isShapeToolActive = controls.isEditing && !controls.isLocked && !controls.isometricEditor.wallMode && !isSelecting && paintTool !== PaintTool.BRUSH;
+    
+    if (!isShapeToolActive || !cell) {
+      // Keep an in-progress drag anchored; just drop the hover ghost
+      if (!this.shapeStart && this.lastPreviewCell) {
+        this.paintPreviewRenderer?.clearPreview();
+        this.lastPreviewCell = null;
+      }
+      return;
+    }
+    
+    // Only recompute when the hovered cell changes
+    if (this.lastPreviewCell && this.lastPreviewCell.x === cell.x && this.lastPreviewCell.y === cell.y) return;
+    this.lastPreviewCell = cell;
+    
+    const zLevel = controls.isometricEditor.selectedZLevel;
+    
+    if (this.shapeStart) {
+      this.shapeEnd = cell;
+      this.paintPreviewRenderer?.setPreview(this.getShapeCells(paintTool), zLevel, this.shapeErase ? 'erase' : 'paint');
+    } else if (paintTool === PaintTool.FLOOD_FILL) {
+      const erase = controls.selectedTileType === 'erase';
+      this.paintPreviewRenderer?.setPreview(this.getFloodFillRegion(cell.x, cell.y), zLevel, erase ? 'erase' : 'paint');
+    }
+  }
+  
+  /**
+   * Cells covered by the current rectangle/line drag
+   */
+  private getShapeCells(paintTool: PaintTool): GridCell[] {
+    if (!this.shapeStart || !this.shapeEnd) return [];
+    const { x: startX, y: startY } = this.shapeStart;
+    const { x: endX, y: endY } = this.shapeEnd;
+    
+    switch (paintTool) {
+      case PaintTool.RECTANGLE:
+        return getRectangleCells(startX, startY, endX, endY, true);
+      case PaintTool.RECTANGLE_OUTLINE:
+        return getRectangleCells(startX, startY, endX, endY, false);
+      case PaintTool.LINE:
+        return getLineCells(startX, startY, endX, endY);
+      default:
+        return [];
+    }
+  }
+  
+  /**
+   * Contiguous same-sprite region on the active Z layer
+   */
+  private getFloodFillRegion(gridX: number, gridY: number): GridCell[] {
+    const snap = battlemapStore;
+    return getFloodFillCells(
+      gridX, gridY,
+      snap.controls.isometricEditor.selectedZLevel,
+      snap.grid.tiles,
+      snap.grid.width,
+      snap.grid.height
+    );
+  }
+  
+  /**
+   * Commit the pending rectangle/line drag as a single batch
+   */
+  private commitShapeDrag(): void {
+    const paintTool = battlemapStore.controls.isometricEditor.paintTool;
+    const cells = this.getShapeCells(paintTool);
+    const label = paintTool === PaintTool.LINE ? 'line' : 'rectangle';
+    
+    this.commitCells(cells, this.shapeErase, this.shapeSnapPosition, this.shapeErase ? `Erase ${label}` : `Paint ${label}`);
+    this.cancelShapeTool();
+  }
+  
+  /**
+   * Drop any pending shape drag and its ghost preview
+   */
+  private cancelShapeTool(): void {
+    this.shapeStart = null;
+    this.shapeEnd = null;
+    this.lastPreviewCell = null;
+    this.paintPreviewRenderer?.clearPreview();
+  }
+  
+  /**
+   * NEW: Handle pointer down while placing lights
+   * Left click places a light with the draft settings on the cell's standing level, middle click removes the lights there
+   */
+  private handleLightPointerDown(mouseX: number, mouseY: number, isMiddleClick: boolean, isRightClick: boolean): void {
+    if (isRightClick) return;
+    
+    const gridResult = this.isometricGridRenderer?.screenToGrid(mouseX, mouseY);
+    if (!gridResult || !gridResult.inBounds) return;
+    const { gridX, gridY } = gridResult;
+    
+    if (isMiddleClick) {
+      lightingActions.removeLightsAt(gridX, gridY);
+      return;
+    }
+    
+    const draft = lightingStore.draft;
+    lightingActions.addLight({
+      uuid: `light_${gridX}_${gridY}_${Date.now()}`,
+      name: draft.name,
+      position: [gridX, gridY],
+      z_level: IsometricRenderingUtils.getStandingZLevel(gridX, gridY),
+      bright_radius: draft.bright_radius,
+      dim_radius: draft.dim_radius,
+      color: draft.color,
+      flicker: draft.flicker
+    });
+  }
+  
+  /**
+   * Handle pointer down while selecting or pasting
+   * Paste: left/right click places the ghost, middle click cancels. Select: left drag draws the marquee
+   */
+  private handleSelectionPointerDown(mouseX: number, mouseY: number, isMiddleClick: boolean, isRightClick: boolean): void {
+    const gridResult = this.isometricGridRenderer?.screenToGrid(mouseX, mouseY);
+    
+    if (selectionStore.paste.active) {
+      if (isMiddleClick) {
+        selectionActions.cancelPaste();
+      } else if (gridResult?.inBounds) {
+        selectionActions.setPasteAnchor(gridResult.gridX, gridResult.gridY);
+        selectionActions.commitPaste();
+      }
+      return;
+    }
+    
+    if (isMiddleClick || isRightClick) {
+      selectionActions.clearSelection();
+      return;
+    }
+    
+    if (!gridResult?.inBounds) return;
+    
+    const { gridX, gridY } = gridResult;
+    selectionActions.setSelection({ startX: gridX, startY: gridY, endX: gridX, endY: gridY });
+    this.isMarqueeDragging = true;
+    console.log(`[IsometricInteractionsManager] Started marquee selection at (${gridX}, ${gridY})`);
+  }
+  
+  /**
+   * Grow the marquee or move the paste ghost to the hovered cell
+   */
+  private updateSelectionDrag(gridX: number, gridY: number): void {
+    if (selectionStore.paste.active) {
+      const anchor = selectionStore.paste.anchor;
+      if (!anchor || anchor.x !== gridX || anchor.y !== gridY) {
+        selectionActions.setPasteAnchor(gridX, gridY);
+      }
+      return;
+    }
+    
+    const selection = selectionStore.selection;
+    if (this.isMarqueeDragging && selection && (selection.endX !== gridX || selection.endY !== gridY)) {
+      selectionActions.setSelection({ ...selection, endX: gridX, endY: gridY });
+    }
+  }
+  
+  /**
+   * Handle pointer down for the wall-run tool: anchor the run at the nearest vertex
+   */
+  private handleWallRunDown(mouseX: number, mouseY: number, isMiddleClick: boolean, isRightClick: boolean): void {
+    if (!isMiddleClick && !battlemapStore.controls.isometricEditor.selectedSpriteName) {
+      console.warn('[IsometricInteractionsManager] No sprite selected for wall placement. Please select a wall sprite first.');
+      return;
+    }
+    
+    const vertexResult = IsometricRenderingUtils.screenToGridVertex(mouseX, mouseY, this.engine);
+    if (!vertexResult.inBounds) return;
+    
+    this.wallRunStart = { x: vertexResult.vertexX, y: vertexResult.vertexY };
+    this.wallRunEnd = { ...this.wallRunStart };
+    this.wallRunErase = isMiddleClick;
+    this.wallRunSnapPosition = isRightClick ? 'below' : 'above';
+    this.paintPreviewRenderer?.clearPreview();
+    console.log(`[IsometricInteractionsManager] Started wall run at vertex (${this.wallRunStart.x}, ${this.wallRunStart.y})`);
+  }
+  
+  /**
+   * Move the end of the pending wall run to the vertex under the cursor
+   */
+  private updateWallRunPreview(mouseX: number, mouseY: number): void {
+    const vertexResult = IsometricRenderingUtils.screenToGridVertex(mouseX, mouseY, this.engine);
+    const vertex = { x: vertexResult.vertexX, y: vertexResult.vertexY };
+    
+    // Only recompute when the snapped vertex changes
+    if (this.wallRunEnd && this.wallRunEnd.x === vertex.x && this.wallRunEnd.y === vertex.y) return;
+    this.wallRunEnd = vertex;
+    
+    const { edges, cells } = this.getWallRunShape();
+    this.paintPreviewRenderer?.setPreview(
+      cells,
+      battlemapStore.controls.isometricEditor.selectedZLevel,
+      this.wallRunErase ? 'erase' : 'paint',
+      edges
+    );
+  }
+  
+  /**
+   * Edges (and room floor cells when auto-close is on) covered by the pending wall run
+   */
+  private getWallRunShape(): { edges: WallEdge[]; cells: GridCell[] } {
+    if (!this.wallRunStart || !this.wallRunEnd) return { edges: [], cells: [] };
+    const { width, height } = battlemapStore.grid;
+    
+    // Auto-close turns a diagonal drag into a room; straight drags stay plain runs
+    if (battlemapStore.controls.isometricEditor.wallRunAutoClose &&
+        this.wallRunStart.x !== this.wallRunEnd.x && this.wallRunStart.y !== this.wallRunEnd.y) {
+      const room = getRoomEdges(this.wallRunStart, this.wallRunEnd, width, height);
+      // Erasing a room only removes its walls, never the floor
+      return this.wallRunErase ? { edges: room.edges, cells: [] } : room;
+    }
+    
+    return { edges: getWallRunEdges(this.wallRunStart, this.wallRunEnd, width, height), cells: [] };
+  }
+  
+  /**
+   * Commit the pending wall run (and room floor) as a single undoable step
+   */
+  private commitWallRun(): void {
+    const { edges, cells } = this.getWallRunShape();
+    const zLevel = battlemapStore.controls.isometricEditor.selectedZLevel;
+    
+    if (edges.length > 0) {
+      if (this.wallRunErase) {
+        battlemapActions.removeWalls(edges, zLevel, 'Erase wall run');
+      } else {
+        const isRoom = cells.length > 0;
+        const label = isRoom ? 'Draw room' : 'Draw wall run';
+        
+        historyActions.beginTransaction(label);
+        const walls = edges
+          .map(edge => this.createWall(edge, this.wallRunSnapPosition))
+          .filter((wall): wall is WallSummary => wall !== null);
+        battlemapActions.addWalls(walls, label);
+        if (isRoom) {
+          this.fillRoomFloor(cells, label);
+        }
+        historyActions.endTransaction();
+      }
+      
+      console.log(`[IsometricInteractionsManager] ${this.wallRunErase ? 'Erased' : 'Placed'} wall run: ${edges.length} edges, ${cells.length} floor cells at Z:${zLevel}`);
+    }
+    
+    this.cancelWallRun();
+  }
+  
+  /**
+   * Fill a closed room with the last used block sprite
+   */
+  private fillRoomFloor(cells: GridCell[], label: string): void {
+    const floorSprite = battlemapStore.controls.isometricEditor.lastSelectedBlockSprite;
+    if (!floorSprite) {
+      console.warn('[IsometricInteractionsManager] No block sprite remembered - room placed without a floor. Select a floor in Block Mode first.');
+      return;
+    }
+    
+    const tiles = cells
+      .map(({ x, y }) => this.createTile(x, y, 'above', floorSprite))
+      .filter((tile): tile is TileSummary => tile !== null);
+    battlemapActions.addIsometricTiles(tiles, label);
+    this.applyAutoTile(cells);
+  }
+  
+  /**
+   * Drop any pending wall run and its ghost preview
+   */
+  private cancelWallRun(): void {
+    if (!this.wallRunStart) return;
+    this.wallRunStart = null;
+    this.wallRunEnd = null;
+    this.paintPreviewRenderer?.clearPreview();
+  }
+  
+  /**
+   * Build a wall for the selected sprite on a cell edge
+   */
+  private createWall(edge: WallEdge, snapPosition: 'above' | 'below'): WallSummary | null {
+    const isometricEditor = battlemapStore.controls.isometricEditor;
+    if (!isometricEditor.selectedSpriteName) return null;
+    
+    return {
+      uuid: `wall_${edge.x}_${edge.y}_${isometricEditor.selectedZLevel}_${edge.direction}_${Date.now()}`,
+      name: isometricEditor.selectedSpriteName,
+      position: [edge.x, edge.y] as const,
+      z_level: isometricEditor.selectedZLevel,
+      wall_direction: edge.direction, // Which edge the wall is on
+      sprite_name: isometricEditor.selectedSpriteName,
+      sprite_direction: fromViewDirection(isometricEditor.wallSpriteDirection), // Which way the wall sprite faces (picked as seen on screen)
+      wall_type: isometricEditor.selectedWallType,
+      blocks_movement: this.getWallBlocksMovement(isometricEditor.selectedSpriteName),
+      visible: true,
+      snap_position: snapPosition,
+    };
+  }
+  
+  /**
+   * Place or erase tiles on all given cells in one store update
+   */
+  private commitCells(cells: GridCell[], erase: boolean, snapPosition: 'above' | 'below', label: string): void {
+    const zLevel = battlemapStore.controls.isometricEditor.selectedZLevel;
+    const inBoundsCells = cells.filter(({ x, y }) => 
+      x >= 0 && y >= 0 && x < battlemapStore.grid.width && y < battlemapStore.grid.height
+    );
+    
+    // Auto-tile updates join the same undo step as the shape itself
+    historyActions.beginTransaction(label);
+    if (erase) {
+      battlemapActions.removeIsometricTiles(inBoundsCells.map(({ x, y }) => ({ x, y, z: zLevel })), label);
+    } else {
+      const tiles = inBoundsCells
+        .map(({ x, y }) => this.createTile(x, y, snapPosition))
+        .filter((tile): tile is TileSummary => tile !== null);
+      battlemapActions.addIsometricTiles(tiles, label);
+    }
+    this.applyAutoTile(inBoundsCells);
+    historyActions.endTransaction();
+    
+    console.log(`[IsometricInteractionsManager] ${label}: ${inBoundsCells.length} cells at Z:${zLevel}`);
+  }
+  
+  /**
+   * Build a tile for the selected (or given) sprite at a grid cell
+   */
+  private createTile(gridX: number, gridY: number, snapPosition: 'above' | 'below', spriteName: string | null = battlemapStore.controls.isometricEditor.selectedSpriteName): TileSummary | null {
+    const isometricEditor = battlemapStore.controls.isometricEditor;
+    if (!spriteName) return null;
+    
+    return {
+      uuid: `tile_${gridX}_${gridY}_${isometricEditor.selectedZLevel}_${Date.now()}`,
+      name: spriteName,
+      position: [gridX, gridY] as const,
+      walkable: this.getSpriteWalkable(spriteName),
+      visible: true,
+      sprite_name: spriteName,
+      z_level: isometricEditor.selectedZLevel,
+      sprite_direction: fromViewDirection(isometricEditor.selectedSpriteDirection), // Picked as seen on screen
+      tile_type: this.getSpriteTileType(spriteName),
+      snap_position: snapPosition,
+    };
+  }
+  
   /**
    * Handle tile editing - isometric sprite system only
    */
@@ -521,6 +1074,7 @@ export class IsometricInteractionsManager {
       if (selectedTileType === 'erase') {
         // Delete tile at the selected Z level
         battlemapActions.removeIsometricTile(gridX, gridY, isometricEditor.selectedZLevel);
+        this.applyAutoTile([{ x: gridX, y: gridY }]);
         console.log(`[IsometricInteractionsManager] Deleted tile at (${gridX}, ${gridY}, Z:${isometricEditor.selectedZLevel})`);
       } else {
         // Always require an isometric sprite to be selected
@@ -552,6 +1106,7 @@ export class IsometricInteractionsManager {
     // Handle brush size for multi-tile painting
     const brushSize = isometricEditor.brushSize;
     const halfBrush = Math.floor(brushSize / 2);
+    const placedCells: GridCell[] = [];
 
     for (let dx = -halfBrush; dx <= halfBrush; dx++) {
       for (let dy = -halfBrush; dy <= halfBrush; dy++) {
@@ -564,23 +1119,16 @@ export class IsometricInteractionsManager {
       }
       
         // Create isometric tile
-        const newTile: TileSummary = {
-          uuid: `tile_${targetX}_${targetY}_${isometricEditor.selectedZLevel}_${Date.now()}`,
-          name: isometricEditor.selectedSpriteName,
-          position: [targetX, targetY] as const,
-          walkable: this.getSpriteWalkable(isometricEditor.selectedSpriteName),
-          visible: true,
-          sprite_name: isometricEditor.selectedSpriteName,
-          z_level: isometricEditor.selectedZLevel,
-          sprite_direction: isometricEditor.selectedSpriteDirection,
-          tile_type: this.getSpriteTileType(isometricEditor.selectedSpriteName),
-          snap_position: snapPosition,
-        };
+        const newTile = this.createTile(targetX, targetY, snapPosition);
+        if (!newTile) continue;
 
         battlemapActions.addIsometricTile(newTile);
+        placedCells.push({ x: targetX, y: targetY });
         console.log(`[IsometricInteractionsManager] Created isometric tile at (${targetX}, ${targetY}, Z:${isometricEditor.selectedZLevel}) with sprite: ${isometricEditor.selectedSpriteName}`);
       }
     }
+    
+    this.applyAutoTile(placedCells);
   }
 
   /**
@@ -591,9 +1139,21 @@ export class IsometricInteractionsManager {
     
     // Delete tile at the active Z level
     battlemapActions.removeIsometricTile(gridX, gridY, isometricEditor.selectedZLevel);
+    this.applyAutoTile([{ x: gridX, y: gridY }]);
     console.log(`[IsometricInteractionsManager] Middle-click deleted tile at (${gridX}, ${gridY}, Z:${isometricEditor.selectedZLevel})`);
       }
       
+  /**
+   * Re-evaluate auto-tile rules around changed cells on the active layer (directional mode only)
+   */
+  private applyAutoTile(cells: GridCell[]): void {
+    const isometricEditor = battlemapStore.controls.isometricEditor;
+    if (!isometricEditor.isDirectionalMode || cells.length === 0) return;
+    
+    autoTileManager.applyAround(cells, isometricEditor.selectedZLevel);
+  }
+      
+
   /**
    * Get walkable state based on sprite name
    */
@@ -635,6 +1195,9 @@ export class IsometricInteractionsManager {
       this.contextMenuHandler = null;
     }
     
+    // Close any open stroke so it isn't left dangling in the history
+    this.endStrokeTransaction();
+    
     // Remove keyboard handler
     if (this.keyDownHandler) {
       window.removeEventListener('keydown', this.keyDownHandler);
@@ -655,5 +1218,6 @@ export class IsometricInteractionsManager {
     this.engine = null;
     this.layer = null;
     this.isometricGridRenderer = null;
+    this.paintPreviewRenderer = null;
   }
 } 
\ No newline at end of file
@@ -5,8 +5,18 @@ export { gameManager } from './GameManager';
 // Renderers
 export { IsometricGridRenderer } from './renderers/IsometricGridRenderer';
 export { IsometricTileRenderer } from './renderers/IsometricTileRenderer';
+export { IsometricEntityRenderer } from './renderers/IsometricEntityRenderer';
+export { EffectRenderer } from './renderers/EffectRenderer';
+export { FloatingTextRenderer } from './renderers/FloatingTextRenderer';
+export { PresenceRenderer } from './renderers/PresenceRenderer';
+export { LineOfSightRenderer } from './renderers/LineOfSightRenderer';
+export { PathPreviewRenderer } from './renderers/PathPreviewRenderer';
+export { LightingRenderer } from './renderers/LightingRenderer';
+export { MinimapRenderer } from './renderers/MinimapRenderer';
 
 // User interaction and movement
 export { IsometricInteractionsManager } from './IsometricInteractionsManager';
 
-export { MovementController } from './MapMovementController'; 
\ No newline at end of file
+export { MovementController } from './MapMovementController';
+export { entityMovementController } from './EntityMovementController';
+export { cameraController } from './CameraController'; 
\ No newline at end of file
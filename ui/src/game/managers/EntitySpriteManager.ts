@@ -0,0 +1,112 @@
+import { Assets, Spritesheet, Texture } from 'pixi.js';
+import { AnimationState, Direction } from '../../types/battlemap_types';
+
+// Loaded animation sheet for one sprite folder + animation
+interface EntityAnimationSheet {
+  spritesheet: Spritesheet;
+  framesByDirection: Map<Direction, Texture[]>;
+}
+
+/**
+ * EntitySpriteManager loads the animated, 8-directional entity sheets
+ * Each animation is a Pixi spritesheet at /assets/entities/<spriteFolder>/<AnimationState>.json
+ * whose `animations` are keyed by Direction (N, NE, E, SE, S, SW, W, NW)
+ */
+export class EntitySpriteManager {
+  private sheets: Map<string, EntityAnimationSheet> = new Map();
+  private pendingLoads: Map<string, Promise<EntityAnimationSheet | null>> = new Map();
+  private failedSheets: Set<string> = new Set();
+
+  // Base path for entity sprite folders
+  private readonly basePath = '/assets/entities';
+
+  private getSheetKey(spriteFolder: string, animation: AnimationState): string {
+    return `${spriteFolder}/${animation}`;
+  }
+
+  /**
+   * Load an animation sheet (concurrent calls share one request, failures are not retried)
+   */
+  async loadAnimation(spriteFolder: string, animation: AnimationState): Promise<boolean> {
+    const key = this.getSheetKey(spriteFolder, animation);
+    if (this.sheets.has(key)) return true;
+    if (this.failedSheets.has(key)) return false;
+
+    let pending = this.pendingLoads.get(key);
+    if (!pending) {
+      pending = this.loadSheet(spriteFolder, animation);
+      this.pendingLoads.set(key, pending);
+    }
+
+    const sheet = await pending;
+    this.pendingLoads.delete(key);
+    return !!sheet;
+  }
+
+  private async loadSheet(spriteFolder: string, animation: AnimationState): Promise<EntityAnimationSheet | null> {
+    const key = this.getSheetKey(spriteFolder, animation);
+    const path = `${this.basePath}/${spriteFolder}/${animation}.json`;
+
+    try {
+      const spritesheet = await Assets.load<Spritesheet>(path);
+      const framesByDirection = new Map<Direction, Texture[]>();
+
+      Object.values(Direction).forEach(direction => {
+        const frames = spritesheet.animations?.[direction];
+        if (frames && frames.length > 0) {
+          framesByDirection.set(direction, frames);
+        }
+      });
+
+      if (framesByDirection.size === 0) {
+        throw new Error('Sheet has no directional animations');
+      }
+
+      const sheet: EntityAnimationSheet = { spritesheet, framesByDirection };
+      this.sheets.set(key, sheet);
+      console.log(`[EntitySpriteManager] Loaded ${key} (${framesByDirection.size} directions)`);
+      return sheet;
+    } catch (error) {
+      console.warn(`[EntitySpriteManager] Failed to load ${path}:`, error);
+      this.failedSheets.add(key);
+      return null;
+    }
+  }
+
+  isAnimationLoaded(spriteFolder: string, animation: AnimationState): boolean {
+    return this.sheets.has(this.getSheetKey(spriteFolder, animation));
+  }
+
+  /**
+   * Frames for an animation facing a direction
+   * Falls back to S, then to any direction the sheet has, so partial sheets still render
+   */
+  getAnimationFrames(spriteFolder: string, animation: AnimationState, direction: Direction): Texture[] | null {
+    const sheet = this.sheets.get(this.getSheetKey(spriteFolder, animation));
+    if (!sheet) return null;
+
+    return sheet.framesByDirection.get(direction)
+      ?? sheet.framesByDirection.get(Direction.S)
+      ?? sheet.framesByDirection.values().next().value
+      ?? null;
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    console.log('[EntitySpriteManager] Destroying entity sprite manager...');
+
+    this.sheets.forEach((_sheet, key) => {
+      const [spriteFolder, animation] = key.split('/');
+      Assets.unload(`${this.basePath}/${spriteFolder}/${animation}.json`).catch(() => {});
+    });
+
+    this.sheets.clear();
+    this.pendingLoads.clear();
+    this.failedSheets.clear();
+  }
+}
+
+// Create and export a singleton instance
+export const entitySpriteManager = new EntitySpriteManager();
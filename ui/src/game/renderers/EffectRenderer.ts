@@ -0,0 +1,272 @@
+import { AnimatedSprite, Assets, Container, Spritesheet, Texture, Ticker } from 'pixi.js';
+import { subscribe } from 'valtio';
+import { battlemapStore, battlemapActions, effectStore, effectActions, entityStore } from '../../store';
+import {
+  EffectAnimation,
+  EffectCategory,
+  EffectType,
+  VisualPosition,
+  getEffectPath,
+  getDefaultEffectDuration
+} from '../../types/battlemap_types';
+import { AbstractRenderer } from './BaseRenderer';
+import { LayerName } from '../BattlemapEngine';
+import { gridToIsometric } from '../../utils/isometricUtils';
+import { getIsometricDepth } from '../../utils/bloodSplatUtils';
+import { IsometricTileRenderer } from './IsometricTileRenderer';
+import { IsometricRenderingUtils } from './utils/IsometricRenderingUtils';
+import { entityMovementController } from '../EntityMovementController';
+
+/**
+ * Per-effect sprite
+ */
+interface EffectSpriteState {
+  effectId: string;
+  sprite: AnimatedSprite;
+  isLoaded: boolean;
+}
+
+/**
+ * EffectRenderer plays the effects in effectStore as animated sprites
+ * 'below' effects sort just behind entities inside the tile chunks (falling back to the below_effects layer),
+ * 'above' effects draw over everything on the above_effects layer
+ */
+export class EffectRenderer extends AbstractRenderer {
+  // The main container holds 'above' effects
+  get layerName(): LayerName { return 'above_effects'; }
+
+  // Effects expire, follow entities and animate every frame
+  protected needsTickerUpdate: boolean = true;
+
+  // 'below' effects while the tile chunks aren't available
+  private belowContainer: Container = new Container();
+
+  private effectSprites: Map<string, EffectSpriteState> = new Map();
+  private tileRenderer: IsometricTileRenderer | null = null;
+
+  // Loaded frames per effect type (Assets caches the sheets themselves)
+  private effectFrames: Map<EffectType, Texture[]> = new Map();
+  private pendingLoads: Map<EffectType, Promise<Texture[] | null>> = new Map();
+  private failedEffects: Set<EffectType> = new Set();
+
+  /**
+   * Initialize the renderer
+   */
+  initialize(engine: any): void {
+    super.initialize(engine);
+
+    engine.getLayer('below_effects')?.addChild(this.belowContainer);
+    this.tileRenderer = engine.getRenderer('tiles') ?? null;
+
+    this.addSubscription(subscribe(effectStore, () => {
+      this.render();
+    }));
+
+    console.log('[EffectRenderer] Initialized');
+  }
+
+  /**
+   * Create sprites for new effects and drop sprites of removed ones (called on store changes)
+   */
+  render(): void {
+    if (!this.isEngineReady()) return;
+    this.incrementRenderCount();
+
+    Array.from(this.effectSprites.keys()).forEach(effectId => {
+      if (!effectStore.effects[effectId]) {
+        this.removeEffectSprite(effectId);
+      }
+    });
+
+    Object.values(effectStore.effects).forEach(effect => {
+      if (!this.effectSprites.has(effect.effectId)) {
+        this.createEffectSprite(effect);
+      }
+    });
+
+    this.logRenderSummary(`${this.effectSprites.size} effects`);
+  }
+
+  private createEffectSprite(effect: EffectAnimation): void {
+    const sprite = new AnimatedSprite([Texture.EMPTY]);
+    sprite.autoUpdate = false; // Driven by the engine ticker in update()
+    sprite.visible = false; // Until the sheet is loaded
+    sprite.anchor.set(0.5, 0.5);
+    sprite.label = effect.effectId;
+
+    const state: EffectSpriteState = { effectId: effect.effectId, sprite, isLoaded: false };
+    this.effectSprites.set(effect.effectId, state);
+    this.container.addChild(sprite);
+
+    this.loadEffectFrames(effect.effectType).then(frames => {
+      // The effect may have ended while loading; without frames it still expires on time
+      if (!frames || this.effectSprites.get(effect.effectId) !== state) return;
+      this.startAnimation(state, effect, frames);
+    });
+  }
+
+  /**
+   * Start playback so a temporary effect plays exactly once over its duration
+   */
+  private startAnimation(state: EffectSpriteState, effect: EffectAnimation, frames: Texture[]): void {
+    const sprite = state.sprite;
+    const isTemporary = effect.category === EffectCategory.TEMPORARY;
+    const durationMs = effect.duration ?? getDefaultEffectDuration(effect.effectType);
+
+    sprite.textures = frames;
+    sprite.loop = !isTemporary;
+    sprite.animationSpeed = frames.length / (Math.max(50, durationMs) / 1000 * 60);
+    sprite.alpha = effect.alpha ?? 1.0;
+
+    // Sheets may define per-frame anchors; otherwise effects are centered on their position
+    const defaultAnchor = frames[0].defaultAnchor;
+    if (defaultAnchor && (defaultAnchor.x !== 0 || defaultAnchor.y !== 0)) {
+      sprite.updateAnchor = true;
+      sprite.anchor.set(defaultAnchor.x, defaultAnchor.y);
+    }
+
+    // Catch up if the sheet arrived after the effect started
+    const elapsedFrames = Math.floor((performance.now() - effect.startTime) / 1000 * 60 * sprite.animationSpeed);
+    const startFrame = isTemporary ? Math.min(frames.length - 1, elapsedFrames) : elapsedFrames % frames.length;
+    sprite.gotoAndPlay(startFrame);
+    sprite.visible = true;
+    state.isLoaded = true;
+  }
+
+  /**
+   * Load an effect sheet from getEffectPath (frames in sheet order, or its first animation)
+   */
+  private async loadEffectFrames(effectType: EffectType): Promise<Texture[] | null> {
+    const cached = this.effectFrames.get(effectType);
+    if (cached) return cached;
+    if (this.failedEffects.has(effectType)) return null;
+
+    let pending = this.pendingLoads.get(effectType);
+    if (!pending) {
+      pending = (async () => {
+        try {
+          const sheet = await Assets.load<Spritesheet>(getEffectPath(effectType));
+          const animations = Object.values(sheet.animations ?? {});
+          const frames = animations.length > 0 ? animations[0] : Object.values(sheet.textures);
+          if (frames.length === 0) throw new Error('Sheet has no frames');
+
+          this.effectFrames.set(effectType, frames);
+          console.log(`[EffectRenderer] Loaded effect ${effectType} (${frames.length} frames)`);
+          return frames;
+        } catch (error) {
+          console.warn(`[EffectRenderer] Failed to load effect ${effectType}:`, error);
+          this.failedEffects.add(effectType);
+          return null;
+        } finally {
+          this.pendingLoads.delete(effectType);
+        }
+      })();
+      this.pendingLoads.set(effectType, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Expire, follow and place every effect (called every frame)
+   */
+  update(ticker: Ticker): void {
+    if (!this.engine || this.effectSprites.size === 0) return;
+
+    const now = performance.now();
+    const snap = battlemapStore;
+    const layoutOffset = this.tileRenderer?.getLayoutIsometricOffset();
+    const liveOffset = IsometricRenderingUtils.calculateIsometricGridOffset(this.engine);
+    const zLayerConfigs = battlemapActions.getAllZLayerConfigs();
+
+    this.effectSprites.forEach(state => {
+      const effect = effectStore.effects[state.effectId];
+      if (!effect) return;
+
+      // Temporary effects (and attached ones given a duration) end on time, loaded or not
+      if (effect.duration !== undefined && effect.category !== EffectCategory.PERMANENT &&
+          now - effect.startTime >= effect.duration) {
+        effectActions.removeEffect(effect.effectId);
+        return;
+      }
+
+      const position = this.getEffectPosition(effect);
+      if (!position) {
+        // Attached entity is gone
+        effectActions.removeEffect(effect.effectId);
+        return;
+      }
+
+      const sprite = state.sprite;
+      if (state.isLoaded) {
+        sprite.update(ticker);
+      }
+
+      const zLevel = IsometricRenderingUtils.getStandingZLevel(position.x, position.y);
+      let isInChunk = false;
+      if (this.getEffectLayer(effect) === 'below') {
+        isInChunk = this.tileRenderer?.placeDynamicSprite(sprite, position.x, position.y, zLevel, 'below') ?? false;
+        if (!isInChunk && sprite.parent !== this.belowContainer) {
+          this.belowContainer.addChild(sprite);
+        }
+      } else if (sprite.parent !== this.container) {
+        this.tileRenderer?.removeDynamicSprite(sprite);
+        this.container.addChild(sprite);
+      }
+
+      const offset = isInChunk && layoutOffset ? layoutOffset : liveOffset;
+      const { isoX, isoY } = gridToIsometric(position.x, position.y, offset.tileSize);
+      sprite.x = offset.offsetX + isoX + (effect.offsetX ?? 0) * snap.view.zoomLevel;
+      sprite.y = offset.offsetY + isoY + (effect.offsetY ?? 0) * snap.view.zoomLevel
+        - zLayerConfigs[zLevel].verticalOffset * snap.view.zoomLevel;
+      sprite.scale.set((effect.scale ?? 1.0) * snap.view.spriteScale * snap.view.zoomLevel);
+      sprite.alpha = effect.alpha ?? 1.0;
+    });
+  }
+
+  /**
+   * Grid position of an effect; attached effects follow their entity (null once it is gone)
+   */
+  private getEffectPosition(effect: EffectAnimation): VisualPosition | null {
+    if (!effect.attachedToEntityId) return effect.position;
+    if (!entityStore.entities[effect.attachedToEntityId]) return null;
+    return entityMovementController.getDisplayPosition(effect.attachedToEntityId);
+  }
+
+  /**
+   * layerHint wins; hits with attacker/defender positions spray away from the attacker
+   * (behind the defender when the attacker is nearer the camera); everything else draws above
+   */
+  private getEffectLayer(effect: EffectAnimation): 'below' | 'above' {
+    if (effect.layerHint) return effect.layerHint;
+
+    if (effect.attackerPosition && effect.defenderPosition) {
+      return getIsometricDepth(effect.attackerPosition) > getIsometricDepth(effect.defenderPosition) ? 'below' : 'above';
+    }
+    return 'above';
+  }
+
+  private removeEffectSprite(effectId: string): void {
+    const state = this.effectSprites.get(effectId);
+    if (!state) return;
+
+    this.tileRenderer?.removeDynamicSprite(state.sprite);
+    state.sprite.destroy();
+    this.effectSprites.delete(effectId);
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    Array.from(this.effectSprites.keys()).forEach(effectId => this.removeEffectSprite(effectId));
+    this.effectFrames.clear();
+    this.pendingLoads.clear();
+    this.failedEffects.clear();
+    this.tileRenderer = null;
+
+    this.belowContainer.removeFromParent();
+    this.belowContainer.destroy({ children: true });
+
+    super.destroy();
+  }
+}
@@ -0,0 +1,155 @@
+import { Container, Graphics, Text, Ticker } from 'pixi.js';
+import { subscribe } from 'valtio';
+import { battlemapStore, battlemapActions, effectStore, effectActions } from '../../store';
+import { FloatingText } from '../../store/effectStore';
+import { AbstractRenderer } from './BaseRenderer';
+import { LayerName } from '../BattlemapEngine';
+import { gridToIsometric } from '../../utils/isometricUtils';
+import { IsometricRenderingUtils } from './utils/IsometricRenderingUtils';
+import { entityMovementController } from '../EntityMovementController';
+
+// How far damage numbers rise over their lifetime (px at zoom 1)
+const DAMAGE_RISE_DISTANCE = 40;
+// Floating text sits this many diamond widths above the ground (roughly head height)
+const TEXT_HEIGHT_ABOVE_GROUND = 1.0;
+// Fraction of the lifetime spent fading out
+const FADE_OUT_FRACTION = 0.3;
+
+/**
+ * Display object for one floating text
+ */
+interface FloatingTextSprite {
+  id: string;
+  container: Container;
+}
+
+/**
+ * FloatingTextRenderer draws damage numbers and roll breakdown tooltips over the map
+ * Damage numbers rise and fade; tooltips hold still on a dark panel and fade at the end
+ */
+export class FloatingTextRenderer extends AbstractRenderer {
+  // Specify which layer this renderer belongs to
+  get layerName(): LayerName { return 'ui'; }
+
+  // Texts rise, follow entities and fade every frame
+  protected needsTickerUpdate: boolean = true;
+
+  private textSprites: Map<string, FloatingTextSprite> = new Map();
+
+  /**
+   * Initialize the renderer
+   */
+  initialize(engine: any): void {
+    super.initialize(engine);
+
+    this.addSubscription(subscribe(effectStore, () => {
+      this.render();
+    }));
+
+    console.log('[FloatingTextRenderer] Initialized');
+  }
+
+  /**
+   * Create display objects for new texts and drop removed ones (called on store changes)
+   */
+  render(): void {
+    if (!this.isEngineReady()) return;
+    this.incrementRenderCount();
+
+    Array.from(this.textSprites.keys()).forEach(id => {
+      if (!effectStore.floatingTexts[id]) {
+        this.removeTextSprite(id);
+      }
+    });
+
+    Object.values(effectStore.floatingTexts).forEach(floatingText => {
+      if (!this.textSprites.has(floatingText.id)) {
+        this.createTextSprite(floatingText);
+      }
+    });
+  }
+
+  private createTextSprite(floatingText: FloatingText): void {
+    const container = new Container();
+    const isTooltip = floatingText.kind === 'tooltip';
+
+    const text = new Text({
+      text: floatingText.text,
+      style: {
+        fontFamily: 'Arial',
+        fontSize: isTooltip ? 12 : 22,
+        fontWeight: 'bold',
+        fill: floatingText.color,
+        stroke: { color: 0x000000, width: isTooltip ? 0 : 4 },
+        align: 'center',
+        lineHeight: isTooltip ? 16 : undefined
+      }
+    });
+    text.anchor.set(0.5, 1);
+
+    if (isTooltip) {
+      // Dark panel behind the breakdown
+      const padding = 6;
+      const background = new Graphics()
+        .roundRect(-text.width / 2 - padding, -text.height - padding, text.width + padding * 2, text.height + padding * 2, 4)
+        .fill({ color: 0x000000, alpha: 0.75 })
+        .stroke({ color: floatingText.color, width: 1, alpha: 0.8 });
+      container.addChild(background);
+    }
+    container.addChild(text);
+
+    this.container.addChild(container);
+    this.textSprites.set(floatingText.id, { id: floatingText.id, container });
+  }
+
+  /**
+   * Animate, place and expire texts (called every frame)
+   */
+  update(_ticker: Ticker): void {
+    if (!this.engine || this.textSprites.size === 0) return;
+
+    const now = performance.now();
+    const snap = battlemapStore;
+    const offset = IsometricRenderingUtils.calculateIsometricGridOffset(this.engine);
+    const zLayerConfigs = battlemapActions.getAllZLayerConfigs();
+
+    this.textSprites.forEach(({ id, container }) => {
+      const floatingText = effectStore.floatingTexts[id];
+      if (!floatingText) return;
+
+      const progress = (now - floatingText.startTime) / floatingText.duration;
+      if (progress >= 1) {
+        effectActions.removeFloatingText(id);
+        return;
+      }
+
+      const position = (floatingText.entityId && entityMovementController.getDisplayPosition(floatingText.entityId))
+        || floatingText.position;
+      const zLevel = IsometricRenderingUtils.getStandingZLevel(position.x, position.y);
+      const { isoX, isoY } = gridToIsometric(position.x, position.y, offset.tileSize);
+
+      const rise = floatingText.kind === 'damage' ? progress * DAMAGE_RISE_DISTANCE : 0;
+      container.x = offset.offsetX + isoX;
+      container.y = offset.offsetY + isoY
+        - (zLayerConfigs[zLevel].verticalOffset + TEXT_HEIGHT_ABOVE_GROUND * snap.view.gridDiamondWidth + rise) * snap.view.zoomLevel;
+      container.scale.set(floatingText.scale * Math.max(0.6, snap.view.zoomLevel));
+      container.alpha = progress > 1 - FADE_OUT_FRACTION ? (1 - progress) / FADE_OUT_FRACTION : 1;
+    });
+  }
+
+  private removeTextSprite(id: string): void {
+    const textSprite = this.textSprites.get(id);
+    if (!textSprite) return;
+
+    textSprite.container.destroy({ children: true });
+    this.textSprites.delete(id);
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    Array.from(this.textSprites.keys()).forEach(id => this.removeTextSprite(id));
+    super.destroy();
+  }
+}
@@ -0,0 +1,274 @@
+import { AnimatedSprite, Texture, Ticker } from 'pixi.js';
+import { subscribe } from 'valtio';
+import { battlemapStore, battlemapActions, entityStore, entityActions, fogActions, lightingActions } from '../../store';
+import { AnimationState, Direction, EntitySpriteMapping, toVisualPosition } from '../../types/battlemap_types';
+import { AbstractRenderer } from './BaseRenderer';
+import { LayerName } from '../BattlemapEngine';
+import { gridToIsometric, rotateGridPoint, toViewEntityDirection } from '../../utils/isometricUtils';
+import { entitySpriteManager } from '../managers/EntitySpriteManager';
+import { IsometricTileRenderer } from './IsometricTileRenderer';
+import { entityMovementController } from '../EntityMovementController';
+import { IsometricRenderingUtils } from './utils/IsometricRenderingUtils';
+import { StoreChangeDetectionUtils } from './utils/StoreChangeDetectionUtils';
+
+// Animations that play once, then hand back to the idle animation (DIE holds its last frame)
+const ONE_SHOT_ANIMATIONS: ReadonlySet<AnimationState> = new Set<AnimationState>([
+  AnimationState.ATTACK1,
+  AnimationState.ATTACK2,
+  AnimationState.ATTACK3,
+  AnimationState.TAKE_DAMAGE,
+  AnimationState.DIE
+]);
+
+// Default seconds for one pass through an animation
+const DEFAULT_ANIMATION_DURATION_SECONDS = 1.0;
+
+/**
+ * Per-entity sprite and what is currently applied to it
+ */
+interface EntitySpriteState {
+  entityId: string;
+  sprite: AnimatedSprite;
+  spriteFolder: string;
+  animation: AnimationState | null;
+  direction: Direction | null;
+  durationSeconds: number;
+}
+
+/**
+ * IsometricEntityRenderer draws entities as animated, 8-directional sprites
+ * Sprites are handed to the tile renderer's chunks so they depth-sort with tiles and walls;
+ * while chunks aren't in use they fall back to this renderer's own container on the entities layer
+ */
+export class IsometricEntityRenderer extends AbstractRenderer {
+  // Specify which layer this renderer belongs to
+  get layerName(): LayerName { return 'entities'; }
+
+  // Positions are updated every frame (animations and smooth movement)
+  protected needsTickerUpdate: boolean = true;
+
+  private entitySprites: Map<string, EntitySpriteState> = new Map();
+  private tileRenderer: IsometricTileRenderer | null = null;
+
+  // Change detection against the entity store
+  private lastEntityData: Map<string, string> = new Map();
+  private lastMappingData: Map<string, string> = new Map();
+
+  /**
+   * Initialize the renderer
+   */
+  initialize(engine: any): void {
+    super.initialize(engine);
+
+    // Must be initialized after the tile renderer is registered
+    this.tileRenderer = engine.getRenderer('tiles') ?? null;
+    if (!this.tileRenderer) {
+      console.warn('[IsometricEntityRenderer] Tile renderer not registered, entities will not depth-sort with tiles');
+    }
+
+    this.container.sortableChildren = true;
+
+    this.addSubscription(subscribe(entityStore, () => {
+      this.render();
+    }));
+
+    console.log('[IsometricEntityRenderer] Initialized');
+  }
+
+  /**
+   * Sync sprites with the entity store (called on store changes)
+   */
+  render(): void {
+    if (!this.isEngineReady()) return;
+    this.incrementRenderCount();
+
+    const entityChanges = StoreChangeDetectionUtils.hasEntitiesChanged(entityStore.entities, this.lastEntityData);
+    const mappingChanges = StoreChangeDetectionUtils.hasSpriteMappingsChanged(entityStore.spriteMappings, this.lastMappingData);
+    if (!entityChanges.hasChanges && !mappingChanges.hasChanges) return;
+
+    const changedIds = new Set([...entityChanges.changedEntityIds, ...mappingChanges.changedMappingIds]);
+    changedIds.forEach(entityId => this.syncEntity(entityId));
+
+    this.logRenderSummary(`${this.entitySprites.size} entities`);
+  }
+
+  /**
+   * Create, update or remove the sprite of one entity
+   */
+  private syncEntity(entityId: string): void {
+    const entity = entityStore.entities[entityId];
+    const mapping = entityStore.spriteMappings[entityId];
+
+    if (!entity || !mapping) {
+      this.removeEntitySprite(entityId);
+      return;
+    }
+
+    let state = this.entitySprites.get(entityId);
+    if (state && state.spriteFolder !== mapping.spriteFolder) {
+      this.removeEntitySprite(entityId);
+      state = undefined;
+    }
+
+    if (!state) {
+      const sprite = new AnimatedSprite([Texture.EMPTY]);
+      sprite.autoUpdate = false; // Driven by the engine ticker in update()
+      sprite.visible = false; // Until the first animation is loaded
+      sprite.label = `entity_${entityId}`;
+      state = {
+        entityId,
+        sprite,
+        spriteFolder: mapping.spriteFolder,
+        animation: null,
+        direction: null,
+        durationSeconds: DEFAULT_ANIMATION_DURATION_SECONDS
+      };
+      this.entitySprites.set(entityId, state);
+      this.container.addChild(sprite);
+    }
+
+    this.applyAnimation(state, mapping);
+  }
+
+  /**
+   * Apply the mapping's animation and direction, loading the sheet first if needed
+   */
+  private applyAnimation(state: EntitySpriteState, mapping: EntitySpriteMapping): void {
+    const animation = mapping.currentAnimation;
+    // Sheets are drawn for screen facings, so the camera rotation turns the entity's facing with the map
+    const direction = toViewEntityDirection(mapping.currentDirection);
+    const durationSeconds = mapping.animationDurationSeconds ?? DEFAULT_ANIMATION_DURATION_SECONDS;
+
+    if (!entitySpriteManager.isAnimationLoaded(mapping.spriteFolder, animation)) {
+      entitySpriteManager.loadAnimation(mapping.spriteFolder, animation).then(loaded => {
+        // Re-read the mapping: it may have changed (or the entity left) while loading
+        const latest = entityStore.spriteMappings[state.entityId];
+        if (loaded && latest && this.entitySprites.get(state.entityId) === state) {
+          this.applyAnimation(state, latest);
+        }
+      });
+      return;
+    }
+
+    // Preload the idle animation so one-shot animations can hand back without a gap
+    if (mapping.idleAnimation !== animation) {
+      entitySpriteManager.loadAnimation(mapping.spriteFolder, mapping.idleAnimation);
+    }
+
+    if (state.animation === animation && state.direction === direction && state.durationSeconds === durationSeconds) {
+      return;
+    }
+
+    const frames = entitySpriteManager.getAnimationFrames(mapping.spriteFolder, animation, direction);
+    if (!frames) return;
+
+    const sprite = state.sprite;
+    // Turning while looping keeps the animation phase, a new animation starts from its first frame
+    const isSameAnimation = state.animation === animation;
+    const startFrame = isSameAnimation ? sprite.currentFrame % frames.length : 0;
+    const isOneShot = ONE_SHOT_ANIMATIONS.has(animation);
+
+    sprite.textures = frames;
+    sprite.loop = !isOneShot;
+    sprite.animationSpeed = frames.length / (Math.max(0.05, durationSeconds) * 60);
+    sprite.onComplete = isOneShot && animation !== AnimationState.DIE
+      ? () => entityActions.setEntityAnimation(state.entityId, entityStore.spriteMappings[state.entityId]?.idleAnimation ?? AnimationState.IDLE)
+      : undefined;
+
+    // Sheets may define per-frame anchors; otherwise the feet are at the bottom center of the frame
+    const defaultAnchor = frames[0].defaultAnchor;
+    if (defaultAnchor && (defaultAnchor.x !== 0 || defaultAnchor.y !== 0)) {
+      sprite.updateAnchor = true;
+      sprite.anchor.set(defaultAnchor.x, defaultAnchor.y);
+    } else {
+      sprite.updateAnchor = false;
+      sprite.anchor.set(0.5, 1);
+    }
+
+    sprite.gotoAndPlay(startFrame);
+    sprite.visible = true;
+
+    state.animation = animation;
+    state.direction = direction;
+    state.durationSeconds = durationSeconds;
+  }
+
+  /**
+   * Advance animations and place every entity (called every frame)
+   */
+  update(ticker: Ticker): void {
+    if (!this.engine || this.entitySprites.size === 0) return;
+
+    const snap = battlemapStore;
+    const layoutOffset = this.tileRenderer?.getLayoutIsometricOffset();
+    const liveOffset = IsometricRenderingUtils.calculateIsometricGridOffset(this.engine);
+    const zLayerConfigs = battlemapActions.getAllZLayerConfigs();
+
+    this.entitySprites.forEach(state => {
+      const entity = entityStore.entities[state.entityId];
+      const mapping = entityStore.spriteMappings[state.entityId];
+      if (!entity || !mapping) return;
+
+      // Facing changes mid-move and camera turns are not store-change renders (see hasSpriteMappingsChanged), so pick them up here
+      if (state.direction !== toViewEntityDirection(mapping.currentDirection) &&
+          entitySpriteManager.isAnimationLoaded(mapping.spriteFolder, mapping.currentAnimation)) {
+        this.applyAnimation(state, mapping);
+      }
+
+      const sprite = state.sprite;
+      sprite.update(ticker);
+
+      const position = entityMovementController.getDisplayPosition(state.entityId) ?? toVisualPosition(entity.position);
+      const zLevel = IsometricRenderingUtils.getStandingZLevel(position.x, position.y);
+
+      const isInChunk = this.tileRenderer?.placeDynamicSprite(sprite, position.x, position.y, zLevel) ?? false;
+      if (!isInChunk && sprite.parent !== this.container) {
+        this.container.addChild(sprite);
+      }
+
+      // Feet at the center of the cell's diamond on the standing Z layer
+      const offset = isInChunk && layoutOffset ? layoutOffset : liveOffset;
+      const { isoX, isoY } = gridToIsometric(position.x, position.y, offset.tileSize);
+      sprite.x = offset.offsetX + isoX;
+      sprite.y = offset.offsetY + isoY - zLayerConfigs[zLevel].verticalOffset * snap.view.zoomLevel;
+      if (!isInChunk) {
+        // View Y first, then view X, like the chunk sprites
+        const view = rotateGridPoint(position.x, position.y);
+        sprite.zIndex = view.y * Math.max(snap.grid.width, snap.grid.height) + view.x;
+      }
+
+      const scale = (mapping.scale ?? 1.0) * snap.view.spriteScale * snap.view.zoomLevel;
+      sprite.scale.set(scale);
+
+      // Lit like the cell they stand on
+      const cellX = Math.round(position.x);
+      const cellY = Math.round(position.y);
+      sprite.tint = lightingActions.getCellTint(cellX, cellY);
+
+      // Fog of war: only entities standing in sight are drawn (explored cells don't show who is there now)
+      sprite.renderable = fogActions.getCellState(cellX, cellY) === 'visible';
+    });
+  }
+
+  private removeEntitySprite(entityId: string): void {
+    const state = this.entitySprites.get(entityId);
+    if (!state) return;
+
+    this.tileRenderer?.removeDynamicSprite(state.sprite);
+    state.sprite.onComplete = undefined;
+    state.sprite.destroy();
+    this.entitySprites.delete(entityId);
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    Array.from(this.entitySprites.keys()).forEach(entityId => this.removeEntitySprite(entityId));
+    this.lastEntityData.clear();
+    this.lastMappingData.clear();
+    this.tileRenderer = null;
+
+    super.destroy();
+  }
+}
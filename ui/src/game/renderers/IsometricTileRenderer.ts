@@ -1,13 +1,16 @@
-import { Graphics, Sprite, Container, Texture } from 'pixi.js';
+import { Graphics, Sprite, Container, Texture, Rectangle } from 'pixi.js';
 import { getCanvasBoundingBox } from 'pixi.js';
-import { battlemapStore, battlemapActions, Z_LAYER_CONFIG, LayerVisibilityMode } from '../../store';
-import { TileSummary, WallSummary } from '../../types/battlemap_types';
+import { battlemapStore, battlemapActions, Z_LAYER_CONFIG, LayerVisibilityMode, fogStore, fogActions, lightingStore, lightingActions, entityStore } from '../../store';
+import { FogCellState, TileSummary, WallSummary } from '../../types/battlemap_types';
 import { AbstractRenderer } from './BaseRenderer';
-import { subscribe } from 'valtio';
+import { subscribe, getVersion } from 'valtio';
 import { LayerName } from '../BattlemapEngine';
-import { gridToIsometric, calculateIsometricGridOffset, getWallEdgePosition, getWallSpriteAnchor } from '../../utils/isometricUtils';
+import { gridToIsometric, calculateIsometricGridOffset, getWallEdgePosition, getWallSpriteAnchor, rotateGridPoint, toViewDirection } from '../../utils/isometricUtils';
 import { ENTITY_PANEL_WIDTH } from '../../constants/layout';
 import { isometricSpriteManager, IsometricDirection } from '../managers/IsometricSpriteManager';
+import { getBestFogState, getFogCellState, getWallFogCells, multiplyTint } from '../../utils/fogUtils';
+import { getBrightestTint } from '../../utils/lightingUtils';
+import { IsometricRenderingUtils } from './utils/IsometricRenderingUtils';
 
 /**
  * Unified sprite object for rendering both tiles and walls
@@ -23,6 +26,88 @@ interface RenderableSprite {
   wall_direction?: IsometricDirection; // Only for walls
 }
 
+// NEW: Chunked rendering - cells per chunk side (per Z level)
+const CHUNK_SIZE = 16;
+// Extra screen margin (px) before a chunk is culled, so tall sprites don't pop at the edges
+const CHUNK_CULL_MARGIN = 64;
+
+// Draw order slots inside one cell: tile, back walls (N, E), dynamic sprites, front walls (S, W)
+const DEPTH_SLOTS_PER_CELL = 7;
+const TILE_DEPTH_SLOT = 0;
+const WALL_DEPTH_SLOTS: Record<IsometricDirection, number> = {
+  [IsometricDirection.NORTH]: 1,
+  [IsometricDirection.EAST]: 2,
+  [IsometricDirection.SOUTH]: 5,
+  [IsometricDirection.WEST]: 6
+};
+
+// NEW: Fog of war - explored cells out of sight are darkened with this tint (stacked on the layer tint)
+const FOG_SEEN_TINT = 0x5A5A6E;
+const FOG_SEEN_FALLBACK_ALPHA = 0.25;
+
+// NEW: Occlusion cut-away - share of a wall's height (from the bottom) left standing as a stub
+const CUTAWAY_STUB_FRACTION = 0.3;
+
+/**
+ * Fog, lighting and occlusion bookkeeping for one chunk sprite: the cells it belongs to and its look without any of them
+ */
+interface SpriteFogInfo {
+  cells: [number, number][];
+  baseTint: number;
+  baseAlpha: number;
+  zLevel: number;
+  isWall: boolean;
+  isOccluded: boolean;
+  cutaway: { texture: Texture; anchorY: number } | null; // Full wall to restore while it is cut down to a stub
+}
+
+/**
+ * NEW: A cell whose view is kept clear of sprites in front of it (hovered cell or selected entity)
+ */
+interface OcclusionFocus {
+  x: number;
+  y: number;
+  zLevel: number;
+}
+
+/**
+ * Where a dynamic sprite sorts inside its cell: ground effects go just behind entities
+ */
+export type DynamicSpriteOrder = 'below' | 'entity';
+const DYNAMIC_DEPTH_SLOTS: Record<DynamicSpriteOrder, number> = {
+  below: 3,
+  entity: 4
+};
+
+/**
+ * A CHUNK_SIZE x CHUNK_SIZE block of cells on one Z level
+ * Sprites are built once (relative to the layout offset) and only rebuilt when the chunk's contents change
+ */
+interface TileChunk {
+  key: string;
+  zLevel: number;
+  chunkX: number;
+  chunkY: number;
+  container: Container;
+  sprites: Sprite[];
+  spriteFog: SpriteFogInfo[]; // Parallel to sprites
+  fallbackGraphics: Graphics | null; // Diamonds for tiles whose texture is missing
+  bounds: { minX: number; minY: number; maxX: number; maxY: number } | null; // In tilesContainer space
+  dirty: boolean;
+  dynamicSprites: Set<Container>; // Sprites owned by other renderers (entities), kept across rebuilds
+}
+
+/**
+ * Chunk render statistics (exposed through window.__tileRenderStats for the benchmark panel)
+ */
+export interface TileChunkStats {
+  totalChunks: number;
+  visibleChunks: number;
+  spriteCount: number;
+  lastRebuiltChunks: number;
+  lastRebuildMs: number;
+}
+
 /**
  * Enhanced IsometricTileRenderer for rendering actual isometric sprites
  * Supports multi-Z-axis rendering, 4-directional sprites, and proper depth sorting
@@ -44,10 +129,22 @@ export class IsometricTileRenderer extends AbstractRenderer {
   
   // Sprite pool for efficient rendering
   private spritePool: Sprite[] = [];
-  private activeTileSprites: Map<string, Sprite> = new Map();
-  private activeWallSprites: Map<string, Sprite> = new Map();
   
-  // Flag to track when tiles/walls need to be redrawn
+  // NEW: Chunks per Z level, and the tile/wall keys each chunk contains
+  private chunks: Map<string, TileChunk> = new Map();
+  private zLevelContainers: Map<number, Container> = new Map();
+  private chunkTileKeys: Map<string, Set<string>> = new Map();
+  private chunkWallKeys: Map<string, Set<string>> = new Map();
+  private dynamicSpriteChunks: Map<Container, TileChunk> = new Map();
+  
+  // Chunk sprites are positioned for this view offset; panning only moves tilesContainer
+  private layoutOffset = { x: 0, y: 0 };
+  private lastLayoutHash: string = '';
+  private lastTilesVersion: number | undefined = undefined;
+  private lastWallsVersion: number | undefined = undefined;
+  private chunkStats: TileChunkStats = { totalChunks: 0, visibleChunks: 0, spriteCount: 0, lastRebuiltChunks: 0, lastRebuildMs: 0 };
+  
+  // Flag to track when tiles/walls need to be redrawn (fallback rendering only)
   private tilesNeedUpdate: boolean = true;
   private wallsNeedUpdate: boolean = true;
   
@@ -63,6 +160,11 @@ export class IsometricTileRenderer extends AbstractRenderer {
   // Track sprite type settings changes (for both tiles and walls)
   private lastSpriteTypeSettingsHash: string = '';
   private lastWallPositioningSettingsHash: string = '';
+  
+  // NEW: Occlusion fade - chunks with faded/cut sprites and what the last pass was based on
+  private occludedChunks: Set<TileChunk> = new Set();
+  private lastOcclusionKey: string = '';
+  private stubTextures: Map<Texture, Texture> = new Map();
 
   /**
    * Initialize the renderer
@@ -71,6 +173,8 @@ export class IsometricTileRenderer extends AbstractRenderer {
     super.initialize(engine);
     
     // Set up container hierarchy - sprites first, then fallback graphics
+    // Z level containers are ordered by zIndex (lower Z renders first)
+    this.tilesContainer.sortableChildren = true;
     this.container.addChild(this.tilesContainer);
     this.container.addChild(this.fallbackGraphics);
     
@@ -80,9 +184,10 @@ export class IsometricTileRenderer extends AbstractRenderer {
     // Initialize sprite assets
     this.initializeSprites();
     
-    // Initial tile and wall data
-    this.tilesRef = {...battlemapStore.grid.tiles};
-    this.wallsRef = {...battlemapStore.grid.walls};
+    // Initial tile and wall data (diffing against empty records fills the chunks)
+    this.tilesRef = {};
+    this.wallsRef = {};
+    this.syncGridChanges(true);
     
     // Initialize last states
     this.updateLastKnownStates();
@@ -136,107 +241,221 @@ export class IsometricTileRenderer extends AbstractRenderer {
     // Subscribe to the root store for broader reactivity
     this.addSubscription(subscribe(battlemapStore, () => {
       // console.log('[IsometricTileRenderer] Store changed, checking for relevant changes');
-      
-      const hasTileChanges = this.hasTilesChanged(battlemapStore.grid.tiles);
-      const hasWallChanges = this.hasWallsChanged(battlemapStore.grid.walls);
-      
-      if (hasTileChanges) {
-          this.tilesRef = {...battlemapStore.grid.tiles};
-          this.tilesNeedUpdate = true;
-      }
-      
-      if (hasWallChanges) {
-        this.wallsRef = {...battlemapStore.grid.walls};
-        this.wallsNeedUpdate = true;
-      }
-      
+      this.syncGridChanges(false);
       this.render();
     }));
     
+    // NEW: Fog changes only retint/hide sprites, no chunk rebuilds
+    this.addSubscription(subscribe(fogStore, () => {
+      this.applyShadingToChunks();
+    }));
+    
+    // NEW: So do new light levels (placement settings in the same store are ignored)
+    this.addSubscription(subscribe(lightingStore, ops => {
+      if (ops.some(op => ['cellTints', 'ambientLight'].includes(String(op[1][0])))) {
+        this.applyShadingToChunks();
+      }
+    }));
+    
+    // NEW: The selected entity keeps sprites in front of it faded too
+    this.addSubscription(subscribe(entityStore, () => {
+      this.applyOcclusion();
+    }));
+    
     // Also set up a manual render trigger that can be called from outside
     (window as any).__forceTileRender = () => {
       // console.log('[IsometricTileRenderer] Manual render trigger called');
-      this.tilesNeedUpdate = true;
-      this.wallsNeedUpdate = true;
+      this.syncGridChanges(true);
       this.render();
     };
+    
+    // NEW: Chunk statistics for the render benchmark
+    (window as any).__tileRenderStats = (): TileChunkStats => ({ ...this.chunkStats });
   }
   
   /**
-   * Check if the tiles have significantly changed to warrant a re-render
+   * Diff the store's tiles and walls against our references and mark the affected chunks dirty
+   * Skips the diff entirely when Valtio reports no change to the tile/wall records (e.g. while panning)
    */
-  private hasTilesChanged(newTiles: Record<string, TileSummary>): boolean {
-    // Quick check: different number of tiles
-    if (Object.keys(this.tilesRef).length !== Object.keys(newTiles).length) {
-      return true;
+  private syncGridChanges(force: boolean): void {
+    const tilesVersion = getVersion(battlemapStore.grid.tiles);
+    const wallsVersion = getVersion(battlemapStore.grid.walls);
+    
+    if (force || tilesVersion !== this.lastTilesVersion) {
+      const newTiles = battlemapStore.grid.tiles;
+      if (this.markChangedChunks(this.tilesRef, newTiles, this.chunkTileKeys, (a, b) => this.hasTileChanged(a, b))) {
+        this.tilesRef = {...newTiles};
+        this.tilesNeedUpdate = true;
+      }
+      this.lastTilesVersion = tilesVersion;
     }
     
-    // Check each tile for changes
-    for (const key in newTiles) {
-      const oldTile = this.tilesRef[key];
-      const newTile = newTiles[key];
-      
-      // New tile that didn't exist before
-      if (!oldTile) {
-        return true;
+    if (force || wallsVersion !== this.lastWallsVersion) {
+      const newWalls = battlemapStore.grid.walls;
+      if (this.markChangedChunks(this.wallsRef, newWalls, this.chunkWallKeys, (a, b) => this.hasWallChanged(a, b))) {
+        this.wallsRef = {...newWalls};
+        this.wallsNeedUpdate = true;
       }
+      this.lastWallsVersion = wallsVersion;
+    }
+  }
+  
+  /**
+   * Compare two records, move changed keys between chunk buckets and mark those chunks dirty
+   * @returns true if anything changed
+   */
+  private markChangedChunks<T extends TileSummary | WallSummary>(
+    oldRecord: Record<string, T>,
+    newRecord: Record<string, T>,
+    buckets: Map<string, Set<string>>,
+    hasChanged: (oldItem: T, newItem: T) => boolean
+  ): boolean {
+    let changed = false;
+    
+    for (const key in newRecord) {
+      const oldItem = oldRecord[key];
+      const newItem = newRecord[key];
+      if (oldItem && !hasChanged(oldItem, newItem)) continue;
       
-      // Check for sprite changes - FIXED: Include snap_position
-      if (oldTile.sprite_name !== newTile.sprite_name ||
-          oldTile.sprite_direction !== newTile.sprite_direction ||
-          oldTile.z_level !== newTile.z_level ||
-          oldTile.snap_position !== newTile.snap_position) { // FIXED: Added snap_position check
-        return true;
-      }
+      if (oldItem) this.removeFromChunk(buckets, key, oldItem);
+      this.addToChunk(buckets, key, newItem);
+      changed = true;
     }
     
-    // Check for removed tiles
-    for (const key in this.tilesRef) {
-      if (!newTiles[key]) {
-        return true;
+    for (const key in oldRecord) {
+      if (!newRecord[key]) {
+        this.removeFromChunk(buckets, key, oldRecord[key]);
+        changed = true;
       }
     }
     
-    return false;
+    return changed;
+  }
+  
+  /**
+   * Check if a tile changed in a way that affects rendering
+   */
+  private hasTileChanged(oldTile: TileSummary, newTile: TileSummary): boolean {
+    // Check for sprite changes - FIXED: Include snap_position
+    return oldTile.sprite_name !== newTile.sprite_name ||
+      oldTile.sprite_direction !== newTile.sprite_direction ||
+      oldTile.z_level !== newTile.z_level ||
+      oldTile.position[0] !== newTile.position[0] ||
+      oldTile.position[1] !== newTile.position[1] ||
+      oldTile.snap_position !== newTile.snap_position; // FIXED: Added snap_position check
+  }
+  
+  /**
+   * Check if a wall changed in a way that affects rendering
+   */
+  private hasWallChanged(oldWall: WallSummary, newWall: WallSummary): boolean {
+    return oldWall.sprite_name !== newWall.sprite_name ||
+      oldWall.sprite_direction !== newWall.sprite_direction ||
+      oldWall.wall_direction !== newWall.wall_direction ||
+      oldWall.z_level !== newWall.z_level ||
+      oldWall.position[0] !== newWall.position[0] ||
+      oldWall.position[1] !== newWall.position[1] ||
+      oldWall.snap_position !== newWall.snap_position;
   }
   
   /**
-   * Check if the walls have significantly changed to warrant a re-render
+   * Chunk key for a cell on a Z level
    */
-  private hasWallsChanged(newWalls: Record<string, WallSummary>): boolean {
-    // Quick check: different number of walls
-    if (Object.keys(this.wallsRef).length !== Object.keys(newWalls).length) {
-      return true;
+  private getChunkKey(x: number, y: number, zLevel: number): string {
+    return `${zLevel}:${Math.floor(x / CHUNK_SIZE)},${Math.floor(y / CHUNK_SIZE)}`;
+  }
+  
+  private addToChunk(buckets: Map<string, Set<string>>, key: string, item: TileSummary | WallSummary): void {
+    const chunkKey = this.getChunkKey(item.position[0], item.position[1], item.z_level);
+    let bucket = buckets.get(chunkKey);
+    if (!bucket) {
+      bucket = new Set();
+      buckets.set(chunkKey, bucket);
     }
-    
-    // Check each wall for changes
-    for (const key in newWalls) {
-      const oldWall = this.wallsRef[key];
-      const newWall = newWalls[key];
-      
-      // New wall that didn't exist before
-      if (!oldWall) {
-        return true;
-      }
-      
-      // Check for sprite changes
-      if (oldWall.sprite_name !== newWall.sprite_name ||
-          oldWall.sprite_direction !== newWall.sprite_direction ||
-          oldWall.wall_direction !== newWall.wall_direction ||
-          oldWall.z_level !== newWall.z_level ||
-          oldWall.snap_position !== newWall.snap_position) {
-        return true;
-      }
+    bucket.add(key);
+    this.getOrCreateChunk(chunkKey, item.position[0], item.position[1], item.z_level).dirty = true;
+  }
+  
+  private removeFromChunk(buckets: Map<string, Set<string>>, key: string, item: TileSummary | WallSummary): void {
+    const chunkKey = this.getChunkKey(item.position[0], item.position[1], item.z_level);
+    const bucket = buckets.get(chunkKey);
+    if (bucket) {
+      bucket.delete(key);
+      if (bucket.size === 0) buckets.delete(chunkKey);
     }
+    const chunk = this.chunks.get(chunkKey);
+    if (chunk) chunk.dirty = true;
+  }
+  
+  /**
+   * Get (or lazily create) the chunk for a cell, inside its Z level container
+   */
+  private getOrCreateChunk(chunkKey: string, x: number, y: number, zLevel: number): TileChunk {
+    const existing = this.chunks.get(chunkKey);
+    if (existing) return existing;
     
-    // Check for removed walls
-    for (const key in this.wallsRef) {
-      if (!newWalls[key]) {
-        return true;
-      }
+    let zContainer = this.zLevelContainers.get(zLevel);
+    if (!zContainer) {
+      zContainer = new Container();
+      zContainer.sortableChildren = true;
+      zContainer.zIndex = zLevel;
+      this.tilesContainer.addChild(zContainer);
+      this.zLevelContainers.set(zLevel, zContainer);
     }
     
-    return false;
+    const chunkX = Math.floor(x / CHUNK_SIZE);
+    const chunkY = Math.floor(y / CHUNK_SIZE);
+    const chunk: TileChunk = {
+      key: chunkKey,
+      zLevel,
+      chunkX,
+      chunkY,
+      container: new Container(),
+      sprites: [],
+      spriteFog: [],
+      fallbackGraphics: null,
+      bounds: null,
+      dirty: true,
+      dynamicSprites: new Set()
+    };
+    
+    // Same back-to-front order as single sprites: Y first, then X
+    // Inside a chunk, sprites are ordered by getCellDepth so dynamic sprites can slot in between
+    chunk.container.zIndex = this.getChunkDepth(chunk);
+    chunk.container.sortableChildren = true;
+    zContainer.addChild(chunk.container);
+    this.chunks.set(chunkKey, chunk);
+    return chunk;
+  }
+  
+  /**
+   * zIndex of a chunk inside its Z level (view Y first, then view X)
+   * Chunks rotate with the camera as whole squares, so their order follows the rotated chunk coordinates
+   */
+  private getChunkDepth(chunk: TileChunk): number {
+    const view = rotateGridPoint(chunk.chunkX, chunk.chunkY);
+    return view.y * 100000 + view.x;
+  }
+  
+  /**
+   * zIndex of a cell slot inside its chunk (view Y first, then view X, matching compareSpriteDepth)
+   */
+  private getCellDepth(chunk: TileChunk, x: number, y: number, slot: number): number {
+    const [localX, localY] = this.getViewLocalCell(x - chunk.chunkX * CHUNK_SIZE, y - chunk.chunkY * CHUNK_SIZE);
+    return (localY * CHUNK_SIZE + localX) * DEPTH_SLOTS_PER_CELL + slot;
+  }
+  
+  /**
+   * NEW: Cell position inside its chunk as seen with the camera rotation (both 0..CHUNK_SIZE - 1)
+   */
+  private getViewLocalCell(localX: number, localY: number): [number, number] {
+    const last = CHUNK_SIZE - 1;
+    switch (battlemapStore.view.cameraRotation) {
+      case 1: return [last - localY, localX];
+      case 2: return [last - localX, last - localY];
+      case 3: return [localY, last - localX];
+      default: return [localX, localY];
+    }
   }
   
   /**
@@ -254,6 +473,7 @@ export class IsometricTileRenderer extends AbstractRenderer {
    */
   private returnSpriteToPool(sprite: Sprite): void {
     sprite.visible = false;
+    sprite.tint = 0xFFFFFF; // Fog may have darkened it
     sprite.texture = null as any; // Clear texture reference
     sprite.removeFromParent();
     this.spritePool.push(sprite);
@@ -344,13 +564,15 @@ export class IsometricTileRenderer extends AbstractRenderer {
         return a.z_level - b.z_level;
       }
       
-      // Then sort by isometric depth (Y then X for proper back-to-front rendering)
-      if (a.position[1] !== b.position[1]) {
-        return a.position[1] - b.position[1];
+      // Then sort by isometric depth (view Y then view X for proper back-to-front rendering)
+      const viewA = rotateGridPoint(a.position[0], a.position[1]);
+      const viewB = rotateGridPoint(b.position[0], b.position[1]);
+      if (viewA.y !== viewB.y) {
+        return viewA.y - viewB.y;
       }
       
-      if (a.position[0] !== b.position[0]) {
-      return a.position[0] - b.position[0];
+      if (viewA.x !== viewB.x) {
+        return viewA.x - viewB.x;
       }
       
       // If position is the same, walls render after tiles (walls on top)
@@ -360,11 +582,8 @@ export class IsometricTileRenderer extends AbstractRenderer {
       
       // For walls: basic edge sorting (user will handle detailed positioning)
       if (a.type === 'wall' && b.type === 'wall') {
-        const wallA = a as unknown as WallSummary;
-        const wallB = b as unknown as WallSummary;
-        
-        // Simple edge ordering: North -> East -> South -> West
-        return wallA.wall_direction - wallB.wall_direction;
+        // Simple edge ordering on screen: North -> East -> South -> West
+        return toViewDirection(a.wall_direction!) - toViewDirection(b.wall_direction!);
       }
       
       return 0;
@@ -398,6 +617,15 @@ export class IsometricTileRenderer extends AbstractRenderer {
       return;
     }
     
+    // NEW: Sprite rendering goes through chunks - pans only move the container, edits rebuild their chunks
+    if (this.spritesLoaded) {
+      this.renderChunks();
+      this.tilesNeedUpdate = false;
+      this.wallsNeedUpdate = false;
+      this.updateLastKnownStates();
+      return;
+    }
+    
     // Check for various changes that require re-rendering
     const hasPositionChanged = 
       this.lastOffset.x !== battlemapStore.view.offset.x || 
@@ -426,11 +654,7 @@ export class IsometricTileRenderer extends AbstractRenderer {
       
       // console.log('[IsometricTileRenderer] Triggering sprite re-render due to changes');
       
-      if (this.spritesLoaded) {
-        this.renderSpritesWithTextures();
-      } else {
-        this.renderFallbackSprites();
-      }
+      this.renderFallbackSprites();
       
       this.tilesNeedUpdate = false;
       this.wallsNeedUpdate = false;
@@ -441,95 +665,452 @@ export class IsometricTileRenderer extends AbstractRenderer {
   }
   
   /**
-   * Render tiles and walls using actual isometric sprites
+   * Render tiles and walls through chunks
+   * Layout changes (zoom, scale, sizes, layer modes, sprite settings) rebuild every chunk;
+   * otherwise only dirty chunks are rebuilt and panning just translates the tiles container
    */
-  private renderSpritesWithTextures(): void {
-    // Clear existing sprites
-    this.clearAllTiles(); // This already clears both tiles and walls
+  private renderChunks(): void {
+    const snap = battlemapStore;
     
-    // Get and sort visible tiles
-    const visibleTiles = this.getVisibleTiles();
-    const visibleWalls = this.getVisibleWalls();
+    const layoutHash = this.getLayoutHash();
+    if (layoutHash !== this.lastLayoutHash) {
+      this.lastLayoutHash = layoutHash;
+      this.layoutOffset = { x: snap.view.offset.x, y: snap.view.offset.y };
+      this.fallbackGraphics.clear();
+      this.chunks.forEach(chunk => {
+        chunk.dirty = true;
+        chunk.container.zIndex = this.getChunkDepth(chunk); // The camera may have rotated
+      });
+    }
     
-    // Combine tiles and walls for unified depth sorting
-    const allSprites = [
-      ...visibleTiles.map(tile => ({ ...tile, type: 'tile' as const })),
-      ...visibleWalls.map(wall => ({ ...wall, type: 'wall' as const }))
-    ];
+    // Sprites are laid out for layoutOffset, so rebuilt chunks line up with the ones left untouched
+    const isometricOffset = calculateIsometricGridOffset(
+      this.engine?.containerSize?.width || 0,
+      this.engine?.containerSize?.height || 0,
+      snap.grid.width,
+      snap.grid.height,
+      snap.view.gridDiamondWidth,
+      this.layoutOffset.x,
+      this.layoutOffset.y,
+      ENTITY_PANEL_WIDTH,
+      snap.view.zoomLevel // Include zoom level
+    );
     
-    // Sort by depth (IMPROVED logic for walls)
-    const sortedSprites = allSprites.sort((a, b) => {
-      // First sort by Z level (lower Z renders first)
-      if (a.z_level !== b.z_level) {
-        return a.z_level - b.z_level;
-      }
-      
-      // Then sort by isometric depth (Y then X for proper back-to-front rendering)
-      if (a.position[1] !== b.position[1]) {
-        return a.position[1] - b.position[1];
-      }
-      
-      if (a.position[0] !== b.position[0]) {
-        return a.position[0] - b.position[0];
-      }
-      
-      // If position is the same, walls render after tiles (walls on top)
-      if (a.type !== b.type) {
-        return a.type === 'tile' ? -1 : 1;
-      }
-      
-      // For walls: basic edge sorting (user will handle detailed positioning)
-      if (a.type === 'wall' && b.type === 'wall') {
-        const wallA = a as unknown as WallSummary;
-        const wallB = b as unknown as WallSummary;
-        
-        // Simple edge ordering: North -> East -> South -> West
-        return wallA.wall_direction - wallB.wall_direction;
-      }
-      
-      return 0;
+    const rebuildStart = performance.now();
+    let rebuiltChunks = 0;
+    this.chunks.forEach(chunk => {
+      if (!chunk.dirty) return;
+      this.rebuildChunk(chunk, isometricOffset);
+      rebuiltChunks++;
+    });
+    
+    if (rebuiltChunks > 0) {
+      this.chunkStats.lastRebuiltChunks = rebuiltChunks;
+      this.chunkStats.lastRebuildMs = performance.now() - rebuildStart;
+      console.log(`[IsometricTileRenderer] Rebuilt ${rebuiltChunks}/${this.chunks.size} chunks in ${this.chunkStats.lastRebuildMs.toFixed(1)}ms`);
+    }
+    
+    // INVISIBLE mode only shows the active layer
+    this.zLevelContainers.forEach((zContainer, zLevel) => {
+      zContainer.visible = snap.view.layerVisibilityMode !== LayerVisibilityMode.INVISIBLE || zLevel === snap.view.activeZLayer;
     });
     
-    // Get grid offset and sizes using dynamic grid diamond width WITH ZOOM
+    this.tilesContainer.position.set(snap.view.offset.x - this.layoutOffset.x, snap.view.offset.y - this.layoutOffset.y);
+    this.updateChunkCulling();
+    this.applyOcclusion();
+  }
+  
+  /**
+   * NEW: Grid offset that chunk sprites are laid out with
+   * Dynamic sprites placed with placeDynamicSprite must be positioned with this, not the live view offset
+   */
+  getLayoutIsometricOffset(): ReturnType<typeof calculateIsometricGridOffset> {
     const snap = battlemapStore;
-    const isometricOffset = calculateIsometricGridOffset(
+    return calculateIsometricGridOffset(
       this.engine?.containerSize?.width || 0,
       this.engine?.containerSize?.height || 0,
       snap.grid.width,
       snap.grid.height,
       snap.view.gridDiamondWidth,
-      snap.view.offset.x,
-      snap.view.offset.y,
+      this.layoutOffset.x,
+      this.layoutOffset.y,
       ENTITY_PANEL_WIDTH,
-      snap.view.zoomLevel // Include zoom level
+      snap.view.zoomLevel
     );
+  }
 
-    // Render each sprite
-    sortedSprites.forEach(spriteData => {
+  /**
+   * NEW: Put a sprite owned by another renderer (e.g. an entity) into the chunk of a cell,
+   * so it draws after the cell's tile and back walls (N, E) and before its front walls (S, W)
+   * Fractional positions (mid-move) sort with the nearest cell
+   * @returns false while chunks aren't in use (sprites not loaded or tiles hidden) - the caller draws it itself
+   */
+  placeDynamicSprite(sprite: Container, gridX: number, gridY: number, zLevel: number, order: DynamicSpriteOrder = 'entity'): boolean {
+    if (!this.spritesLoaded || !battlemapStore.controls.isTilesVisible) {
+      this.removeDynamicSprite(sprite);
+      return false;
+    }
+
+    const cellX = Math.round(gridX);
+    const cellY = Math.round(gridY);
+    const chunkKey = this.getChunkKey(cellX, cellY, zLevel);
+
+    const previousChunk = this.dynamicSpriteChunks.get(sprite);
+    if (previousChunk?.key !== chunkKey) {
+      this.removeDynamicSprite(sprite);
+      const chunk = this.getOrCreateChunk(chunkKey, cellX, cellY, zLevel);
+      chunk.dynamicSprites.add(sprite);
+      chunk.container.addChild(sprite);
+      this.dynamicSpriteChunks.set(sprite, chunk);
+    }
+
+    const chunk = this.dynamicSpriteChunks.get(sprite)!;
+    const depth = this.getCellDepth(chunk, cellX, cellY, DYNAMIC_DEPTH_SLOTS[order]);
+    if (sprite.zIndex !== depth) {
+      sprite.zIndex = depth;
+    }
+    return true;
+  }
+
+  /**
+   * NEW: Take a dynamic sprite out of its chunk (the sprite itself is left to its owner)
+   */
+  removeDynamicSprite(sprite: Container): void {
+    const chunk = this.dynamicSpriteChunks.get(sprite);
+    if (!chunk) return;
+
+    this.dynamicSpriteChunks.delete(sprite);
+    chunk.dynamicSprites.delete(sprite);
+    if (sprite.parent === chunk.container) {
+      sprite.removeFromParent();
+    }
+
+    // A chunk that only existed for dynamic sprites goes away with the last one
+    if (chunk.dynamicSprites.size === 0 && !this.chunkTileKeys.has(chunk.key) && !this.chunkWallKeys.has(chunk.key)) {
+      this.destroyChunk(chunk);
+    }
+  }
+
+  /**
+   * Everything that moves or restyles sprites other than panning
+   */
+  private getLayoutHash(): string {
+    const { view, grid } = battlemapStore;
+    return JSON.stringify([
+      this.engine?.containerSize?.width || 0,
+      this.engine?.containerSize?.height || 0,
+      grid.width,
+      grid.height,
+      view.gridDiamondWidth,
+      view.zoomLevel,
+      view.cameraRotation,
+      view.spriteScale,
+      view.zLayerHeights.map(layer => [layer.verticalOffset, layer.color]),
+      view.layerVisibilityMode,
+      view.activeZLayer,
+      JSON.stringify(battlemapStore.controls.isometricEditor.spriteTypeSettings),
+      JSON.stringify(battlemapStore.controls.isometricEditor.wallPositioningSettings)
+    ]);
+  }
+  
+  /**
+   * Rebuild one chunk's sprites from its tiles and walls, sorted by depth
+   */
+  private rebuildChunk(chunk: TileChunk, isometricOffset: any): void {
+    this.clearChunk(chunk);
+    chunk.dirty = false;
+    
+    const tileKeys = this.chunkTileKeys.get(chunk.key);
+    const wallKeys = this.chunkWallKeys.get(chunk.key);
+    
+    // Drop chunks that no longer hold anything
+    if (!tileKeys && !wallKeys && chunk.dynamicSprites.size === 0) {
+      this.destroyChunk(chunk);
+      return;
+    }
+    
+    const chunkSprites = [
+      ...Array.from(tileKeys ?? []).map(key => ({ ...this.tilesRef[key], type: 'tile' as const })),
+      ...Array.from(wallKeys ?? []).map(key => ({ ...this.wallsRef[key], type: 'wall' as const }))
+    ].sort((a, b) => this.compareSpriteDepth(a, b));
+    
+    chunkSprites.forEach(spriteData => {
       if (spriteData.type === 'wall') {
-        this.renderSingleWall(spriteData as WallSummary, isometricOffset);
+        this.renderSingleWall(spriteData as WallSummary, isometricOffset, chunk);
       } else {
-        this.renderSingleTile(spriteData as TileSummary, isometricOffset);
+        this.renderSingleTile(spriteData as TileSummary, isometricOffset, chunk);
       }
     });
-
-    // console.log('[IsometricTileRenderer] Rendered', sortedSprites.length, 'sprites (', visibleTiles.length, 'tiles +', visibleWalls.length, 'walls)');
+    
+    // Cache bounds for culling (chunk containers sit at the origin of tilesContainer)
+    if (chunk.sprites.length > 0 || chunk.fallbackGraphics) {
+      const bounds = chunk.container.getLocalBounds();
+      chunk.bounds = { minX: bounds.minX, minY: bounds.minY, maxX: bounds.maxX, maxY: bounds.maxY };
+    }
+    
+    // Bounds are taken with every sprite shown, so fog never changes culling
+    this.applyChunkShading(chunk);
+    
+    // Fresh sprites start unfaded; the next occlusion pass has to look at them again
+    this.lastOcclusionKey = '';
+  }
+  
+  /**
+   * NEW: Re-apply lighting and fog of war to every chunk
+   * Sprites are only retinted or hidden; chunks with fallback diamonds are rebuilt (their fog is drawn in)
+   */
+  private applyShadingToChunks(): void {
+    let hasFallbackChunks = false;
+    this.chunks.forEach(chunk => {
+      if (chunk.fallbackGraphics) {
+        chunk.dirty = true;
+        hasFallbackChunks = true;
+      }
+      this.applyChunkShading(chunk);
+    });
+    if (hasFallbackChunks) {
+      this.render();
+    }
+  }
+  
+  /**
+   * Tint sprites by the light on their cells, hide never-seen sprites and darken explored ones that are out of sight
+   */
+  private applyChunkShading(chunk: TileChunk): void {
+    const isFogActive = fogActions.isFogActive();
+    const isLightingActive = lightingActions.isLightingActive();
+    const visibleCells = fogStore.visibleCells;
+    const exploredCells = fogStore.exploredCells;
+    
+    chunk.sprites.forEach((sprite, index) => {
+      const fog = chunk.spriteFog[index];
+      if (!fog) return;
+      
+      const state: FogCellState = isFogActive
+        ? getBestFogState(fog.cells.map(([x, y]) => getFogCellState(x, y, visibleCells, exploredCells)))
+        : 'visible';
+      const litTint = isLightingActive
+        ? multiplyTint(fog.baseTint, getBrightestTint(fog.cells.map(([x, y]) => lightingActions.getCellTint(x, y))))
+        : fog.baseTint;
+      sprite.visible = state !== 'hidden';
+      sprite.tint = state === 'seen' ? multiplyTint(litTint, FOG_SEEN_TINT) : litTint;
+    });
+  }
+  
+  /**
+   * NEW: Cells whose view is kept clear - the hovered cell on the active layer and the selected entity where it stands
+   */
+  private getOcclusionFocuses(): OcclusionFocus[] {
+    const { view, grid } = battlemapStore;
+    const focuses: OcclusionFocus[] = [];
+    
+    const { x, y } = view.hoveredCell;
+    if (x >= 0 && y >= 0 && x < grid.width && y < grid.height) {
+      focuses.push({ x, y, zLevel: view.activeZLayer });
+    }
+    
+    const selected = entityStore.selectedEntityId ? entityStore.entities[entityStore.selectedEntityId] : undefined;
+    if (selected) {
+      const [entityX, entityY] = selected.position;
+      focuses.push({ x: entityX, y: entityY, zLevel: IsometricRenderingUtils.getStandingZLevel(entityX, entityY) });
+    }
+    return focuses;
+  }
+  
+  /**
+   * NEW: Whether a sprite covers a focus cell on screen
+   * Walls count when they stand on the focus level or above and on its near side in view depth (so not its own back
+   * edges); tiles only above the focus level, since every level up lifts a tile about one row further back
+   */
+  private isOccluding(info: SpriteFogInfo, focus: OcclusionFocus, radius: number): boolean {
+    if (info.zLevel < focus.zLevel || (!info.isWall && info.zLevel === focus.zLevel)) return false;
+    
+    const focusView = rotateGridPoint(focus.x, focus.y);
+    const lift = info.zLevel - focus.zLevel;
+    let nearestDistance = Infinity;
+    let nearestDepth = Infinity;
+    info.cells.forEach(([x, y]) => {
+      const view = rotateGridPoint(x, y);
+      nearestDistance = Math.min(nearestDistance, Math.hypot(x - focus.x, y - focus.y));
+      nearestDepth = Math.min(nearestDepth, view.x + view.y);
+    });
+    return nearestDistance <= radius && nearestDepth + lift >= focusView.x + focusView.y;
+  }
+  
+  /**
+   * NEW: Fade sprites in front of the hovered cell and the selected entity (cut-away mode drops walls to stubs instead)
+   * Only chunks near a focus are looked at; the previous pass's sprites are restored first
+   */
+  private applyOcclusion(): void {
+    const view = battlemapStore.view;
+    const focuses = view.occlusionMode === 'off' ? [] : this.getOcclusionFocuses();
+    const key = JSON.stringify([focuses, view.occlusionMode, view.occlusionAlpha, view.occlusionRadius, view.cameraRotation]);
+    if (key === this.lastOcclusionKey) return;
+    this.lastOcclusionKey = key;
+    
+    this.occludedChunks.forEach(chunk => {
+      chunk.sprites.forEach((sprite, index) => {
+        const info = chunk.spriteFog[index];
+        if (info?.isOccluded) this.restoreOccludedSprite(sprite, info);
+      });
+    });
+    this.occludedChunks.clear();
+    if (focuses.length === 0) return;
+    
+    const radius = view.occlusionRadius;
+    this.chunks.forEach(chunk => {
+      const minX = chunk.chunkX * CHUNK_SIZE;
+      const minY = chunk.chunkY * CHUNK_SIZE;
+      const isNearFocus = focuses.some(focus =>
+        chunk.zLevel >= focus.zLevel &&
+        focus.x >= minX - radius - 1 && focus.x <= minX + CHUNK_SIZE + radius &&
+        focus.y >= minY - radius - 1 && focus.y <= minY + CHUNK_SIZE + radius
+      );
+      if (!isNearFocus) return;
+      
+      chunk.sprites.forEach((sprite, index) => {
+        const info = chunk.spriteFog[index];
+        if (!info || !focuses.some(focus => this.isOccluding(info, focus, radius))) return;
+        
+        info.isOccluded = true;
+        if (view.occlusionMode === 'cutaway' && info.isWall && sprite.texture) {
+          this.cutWallToStub(sprite, info);
+        } else {
+          sprite.alpha = Math.min(info.baseAlpha, view.occlusionAlpha);
+        }
+        this.occludedChunks.add(chunk);
+      });
+    });
+  }
+  
+  /**
+   * NEW: Swap a wall for its bottom part, keeping its base where it was
+   */
+  private cutWallToStub(sprite: Sprite, info: SpriteFogInfo): void {
+    const texture = sprite.texture;
+    let stub = this.stubTextures.get(texture);
+    if (!stub) {
+      const frame = texture.frame;
+      const stubHeight = Math.max(1, Math.round(frame.height * CUTAWAY_STUB_FRACTION));
+      stub = new Texture({
+        source: texture.source,
+        frame: new Rectangle(frame.x, frame.y + frame.height - stubHeight, frame.width, stubHeight)
+      });
+      this.stubTextures.set(texture, stub);
+    }
+    
+    info.cutaway = { texture, anchorY: sprite.anchor.y };
+    const cutHeight = texture.frame.height - stub.frame.height;
+    sprite.texture = stub;
+    sprite.anchor.y = (info.cutaway.anchorY * texture.frame.height - cutHeight) / stub.frame.height;
+  }
+  
+  private restoreOccludedSprite(sprite: Sprite, info: SpriteFogInfo): void {
+    if (info.cutaway) {
+      sprite.texture = info.cutaway.texture;
+      sprite.anchor.y = info.cutaway.anchorY;
+      info.cutaway = null;
+    }
+    sprite.alpha = info.baseAlpha;
+    info.isOccluded = false;
+  }
+  
+  /**
+   * Hide chunks whose cached bounds fall outside the camera rect
+   */
+  private updateChunkCulling(): void {
+    const viewWidth = this.engine?.containerSize?.width || 0;
+    const viewHeight = this.engine?.containerSize?.height || 0;
+    const shiftX = this.tilesContainer.x;
+    const shiftY = this.tilesContainer.y;
+    const isCullingEnabled = battlemapStore.view.isChunkCullingEnabled;
+    
+    let visibleChunks = 0;
+    let spriteCount = 0;
+    this.chunks.forEach(chunk => {
+      const bounds = chunk.bounds;
+      // Chunks holding dynamic sprites stay visible: those sprites move without updating the bounds
+      const isOnScreen = chunk.dynamicSprites.size > 0 || (!!bounds && (!isCullingEnabled || (
+        bounds.maxX + shiftX >= -CHUNK_CULL_MARGIN &&
+        bounds.minX + shiftX <= viewWidth + CHUNK_CULL_MARGIN &&
+        bounds.maxY + shiftY >= -CHUNK_CULL_MARGIN &&
+        bounds.minY + shiftY <= viewHeight + CHUNK_CULL_MARGIN
+      )));
+      
+      chunk.container.visible = isOnScreen;
+      if (isOnScreen && this.zLevelContainers.get(chunk.zLevel)?.visible) {
+        visibleChunks++;
+        spriteCount += chunk.sprites.length;
+      }
+    });
+    
+    this.chunkStats.totalChunks = this.chunks.size;
+    this.chunkStats.visibleChunks = visibleChunks;
+    this.chunkStats.spriteCount = spriteCount;
+  }
+  
+  /**
+   * Depth order for tiles and walls: Z, then view Y, then view X, tiles before walls, walls N -> E -> S -> W on screen
+   */
+  private compareSpriteDepth(
+    a: (TileSummary | WallSummary) & { type: 'tile' | 'wall' },
+    b: (TileSummary | WallSummary) & { type: 'tile' | 'wall' }
+  ): number {
+    // First sort by Z level (lower Z renders first)
+    if (a.z_level !== b.z_level) {
+      return a.z_level - b.z_level;
+    }
+    
+    // Then sort by isometric depth (view Y then view X for proper back-to-front rendering)
+    const viewA = rotateGridPoint(a.position[0], a.position[1]);
+    const viewB = rotateGridPoint(b.position[0], b.position[1]);
+    if (viewA.y !== viewB.y) {
+      return viewA.y - viewB.y;
+    }
+    
+    if (viewA.x !== viewB.x) {
+      return viewA.x - viewB.x;
+    }
+    
+    // If position is the same, walls render after tiles (walls on top)
+    if (a.type !== b.type) {
+      return a.type === 'tile' ? -1 : 1;
+    }
+    
+    // For walls: basic edge sorting (user will handle detailed positioning)
+    if (a.type === 'wall' && b.type === 'wall') {
+      const wallA = a as unknown as WallSummary;
+      const wallB = b as unknown as WallSummary;
+      
+      // Simple edge ordering on screen: North -> East -> South -> West
+      return toViewDirection(wallA.wall_direction) - toViewDirection(wallB.wall_direction);
+    }
+    
+    return 0;
   }
 
   /**
    * Render a single tile with sprite (existing method - keep unchanged)
    */
-  private renderSingleTile(tile: TileSummary, isometricOffset: any): void {
-    const [gridX, gridY] = tile.position;
-    const tileKey = `${gridX},${gridY},${tile.z_level}`;
+  private renderSingleTile(gridTile: TileSummary, isometricOffset: any, chunk: TileChunk): void {
+    const [gridX, gridY] = gridTile.position;
+    // NEW: Frames and per-direction settings follow the facing as seen under the camera rotation
+    const tile: TileSummary = { ...gridTile, sprite_direction: toViewDirection(gridTile.sprite_direction) };
 
     // Get sprite texture
     const spriteName = tile.sprite_name || 'Floor_01';
     const texture = isometricSpriteManager.getSpriteTexture(spriteName, tile.sprite_direction);
 
     if (!texture) {
-      // Fallback to colored diamond if sprite not available
-      this.renderFallbackTile(tile, isometricOffset);
+      // Fallback to colored diamond if sprite not available (fog is drawn into the diamond)
+      const fogState = fogActions.getCellState(gridX, gridY);
+      if (fogState === 'hidden') return;
+      if (!chunk.fallbackGraphics) {
+        chunk.fallbackGraphics = new Graphics();
+        chunk.fallbackGraphics.zIndex = -1;
+        chunk.container.addChild(chunk.fallbackGraphics);
+      }
+      this.renderFallbackTile(tile, isometricOffset, chunk.fallbackGraphics, fogState === 'seen' ? FOG_SEEN_FALLBACK_ALPHA : undefined);
       return;
     }
 
@@ -558,10 +1139,15 @@ export class IsometricTileRenderer extends AbstractRenderer {
     // Apply positioning adjustments using per-sprite settings
     this.applyTilePositioning(sprite, tile, spriteName, snap);
 
-    // Set visibility and add to container
+    // Set visibility and add to the chunk
+    sprite.zIndex = this.getCellDepth(chunk, gridX, gridY, TILE_DEPTH_SLOT);
     sprite.visible = true;
-    this.tilesContainer.addChild(sprite);
-    this.activeTileSprites.set(tileKey, sprite);
+    chunk.container.addChild(sprite);
+    chunk.sprites.push(sprite);
+    chunk.spriteFog.push({
+      cells: [[gridX, gridY]], baseTint: sprite.tint, baseAlpha: sprite.alpha,
+      zLevel: gridTile.z_level, isWall: false, isOccluded: false, cutaway: null
+    });
   }
 
   /**
@@ -664,9 +1250,14 @@ export class IsometricTileRenderer extends AbstractRenderer {
   /**
    * Render a single wall with sprite (new method - uses edge positioning)
    */
-  private renderSingleWall(wall: WallSummary, isometricOffset: any): void {
-    const [gridX, gridY] = wall.position;
-    const wallKey = wall.uuid; // Use wall UUID as key to support multiple walls per edge
+  private renderSingleWall(gridWall: WallSummary, isometricOffset: any, chunk: TileChunk): void {
+    const [gridX, gridY] = gridWall.position;
+    // NEW: Edge, anchor, frame, offsets and depth slot all follow the sides as seen under the camera rotation
+    const wall: WallSummary = {
+      ...gridWall,
+      wall_direction: toViewDirection(gridWall.wall_direction),
+      sprite_direction: toViewDirection(gridWall.sprite_direction)
+    };
 
     // Get sprite texture
     const spriteName = wall.sprite_name || 'Floor_01';
@@ -700,10 +1291,15 @@ export class IsometricTileRenderer extends AbstractRenderer {
     // Apply wall positioning (uses same system as tiles now)
     this.applyWallPositioning(sprite, wall, spriteName, snap);
 
-    // Set visibility and add to container
+    // Set visibility and add to the chunk
+    sprite.zIndex = this.getCellDepth(chunk, gridX, gridY, WALL_DEPTH_SLOTS[wall.wall_direction]);
     sprite.visible = true;
-    this.tilesContainer.addChild(sprite);
-    this.activeWallSprites.set(wallKey, sprite);
+    chunk.container.addChild(sprite);
+    chunk.sprites.push(sprite);
+    chunk.spriteFog.push({
+      cells: getWallFogCells(gridWall), baseTint: sprite.tint, baseAlpha: sprite.alpha,
+      zLevel: gridWall.z_level, isWall: true, isOccluded: false, cutaway: null
+    });
   }
 
   /**
@@ -1004,7 +1600,7 @@ export class IsometricTileRenderer extends AbstractRenderer {
   /**
    * Render fallback colored diamond for tiles without sprites
    */
-  private renderFallbackTile(tile: TileSummary, isometricOffset: any): void {
+  private renderFallbackTile(tile: TileSummary, isometricOffset: any, graphics: Graphics = this.fallbackGraphics, fillAlpha: number = 0.6): void {
     const [gridX, gridY] = tile.position;
 
     // Convert grid position to isometric coordinates using dynamic grid width
@@ -1038,16 +1634,16 @@ export class IsometricTileRenderer extends AbstractRenderer {
     const leftY = centerY;
 
     // Get tile color based on type
-    const tileColor = this.getTileColor(tile);
+    const tileColor = IsometricRenderingUtils.getTileColor(tile);
 
     // Draw diamond tile
-    this.fallbackGraphics
+    graphics
       .moveTo(topX, topY)
       .lineTo(rightX, rightY)
       .lineTo(bottomX, bottomY)
       .lineTo(leftX, leftY)
       .lineTo(topX, topY)
-      .fill({ color: tileColor, alpha: 0.6 })
+      .fill({ color: tileColor, alpha: fillAlpha })
       .stroke({ color: 0x333333, width: 1, alpha: 0.8 });
   }
 
@@ -1097,47 +1693,62 @@ export class IsometricTileRenderer extends AbstractRenderer {
    * Clear all sprites and return them to pool
    */
   private clearAllTiles(): void {
-    // Return tile sprites to pool
-    this.activeTileSprites.forEach(sprite => {
-      this.tilesContainer.removeChild(sprite);
-      this.returnSpriteToPool(sprite);
+    // Return every chunk's sprites to the pool; chunks rebuild on the next render
+    this.chunks.forEach(chunk => {
+      this.clearChunk(chunk);
+      chunk.dirty = true;
     });
-    this.activeTileSprites.clear();
-
-    // Return wall sprites to pool
-    this.activeWallSprites.forEach(sprite => {
-      this.tilesContainer.removeChild(sprite);
-      this.returnSpriteToPool(sprite);
-    });
-    this.activeWallSprites.clear();
 
     // Clear fallback graphics
     this.fallbackGraphics.clear();
   }
 
   /**
-   * Get color for tile based on type - simplified for local editor
+   * Return a chunk's sprites to the pool and drop its fallback graphics
    */
-  private getTileColor(tile: TileSummary): number {
-    // Color based on tile type
-    switch (tile.tile_type) {
-      case 'floor':
-        return 0xD4A574; // Light brown
-      case 'wall':
-        return 0x666666; // Gray
-      case 'decoration':
-        return 0x7ED321; // Green
-      default:
-        return tile.walkable ? 0x7ED321 : 0x666666;
+  private clearChunk(chunk: TileChunk): void {
+    chunk.sprites.forEach(sprite => this.returnSpriteToPool(sprite));
+    chunk.sprites = [];
+    chunk.spriteFog = [];
+    if (chunk.fallbackGraphics) {
+      this.destroyGraphics(chunk.fallbackGraphics, 'chunk fallbackGraphics');
+      chunk.fallbackGraphics = null;
     }
+    chunk.bounds = null;
   }
-  
+
+  /**
+   * Remove an empty chunk (and its Z level container once that is empty too)
+   */
+  private destroyChunk(chunk: TileChunk): void {
+    // Dynamic sprites belong to their renderers, so detach them instead of destroying them
+    chunk.dynamicSprites.forEach(sprite => {
+      sprite.removeFromParent();
+      this.dynamicSpriteChunks.delete(sprite);
+    });
+    chunk.container.destroy({ children: true });
+    this.chunks.delete(chunk.key);
+
+    const zContainer = this.zLevelContainers.get(chunk.zLevel);
+    if (zContainer && zContainer.children.length === 0) {
+      zContainer.destroy();
+      this.zLevelContainers.delete(chunk.zLevel);
+    }
+  }
+
   /**
    * Clean up resources
    */
   destroy(): void {
     // Clear all tiles
     this.clearAllTiles();
+    this.chunks.clear();
+    this.zLevelContainers.clear();
+    this.chunkTileKeys.clear();
+    this.chunkWallKeys.clear();
+    this.dynamicSpriteChunks.forEach((_chunk, sprite) => sprite.removeFromParent());
+    this.dynamicSpriteChunks.clear();
+    delete (window as any).__tileRenderStats;
     
     // Clean up sprite pool
     this.spritePool.forEach(sprite => {
@@ -1147,6 +1758,11 @@ export class IsometricTileRenderer extends AbstractRenderer {
     });
     this.spritePool = [];
     
+    // NEW: Stub textures share their source with the sprite sheets, so only the stubs themselves go
+    this.stubTextures.forEach(stub => stub.destroy(false));
+    this.stubTextures.clear();
+    this.occludedChunks.clear();
+    
     // Use base class graphics cleanup
     this.destroyGraphics(this.fallbackGraphics, 'fallbackGraphics');
     
@@ -0,0 +1,143 @@
+import { Graphics, Ticker } from 'pixi.js';
+import { subscribe } from 'valtio';
+import { battlemapStore, battlemapActions, fogStore, fogActions, lightingStore, lightingActions } from '../../store';
+import { AbstractRenderer } from './BaseRenderer';
+import { LayerName } from '../BattlemapEngine';
+import { GRID_STROKE_WIDTH } from '../../constants/layout';
+import { IsometricRenderingUtils } from './utils/IsometricRenderingUtils';
+
+// Glow alpha at the light itself (fades with each cell's strength)
+const GLOW_ALPHA = 0.3;
+
+// Light marker shown while placing lights
+const MARKER_ALPHA = 0.9;
+
+/**
+ * LightingRenderer - Coloured glow around each light, flickering for torches and fires
+ * The tiles, walls and entities are tinted by their renderers; this only adds the glow on top of the floor,
+ * plus markers on the lights while they are being placed
+ */
+export class LightingRenderer extends AbstractRenderer {
+  get layerName(): LayerName { return 'below_effects'; }
+
+  // Flicker animates every frame
+  protected needsTickerUpdate: boolean = true;
+
+  // One glow per light so flicker only changes its alpha
+  private glowGraphics: Map<string, Graphics> = new Map();
+  private markerGraphics = new Graphics();
+  private elapsedSeconds = 0;
+
+  initialize(engine: any): void {
+    super.initialize(engine);
+
+    // Overlay must never swallow pointer events meant for the interaction hit area
+    this.container.eventMode = 'none';
+    this.container.addChild(this.markerGraphics);
+
+    this.addSubscription(subscribe(lightingStore, () => {
+      this.render();
+    }));
+
+    // Pan, zoom, rotation and Z layer offsets
+    this.addSubscription(subscribe(battlemapStore.view, () => {
+      if (lightingActions.isLightingActive() || lightingStore.isPlacing) this.render();
+    }));
+
+    // Glow never gives away what is under the fog
+    this.addSubscription(subscribe(fogStore, () => {
+      if (lightingActions.isLightingActive()) this.render();
+    }));
+  }
+
+  render(): void {
+    this.markerGraphics.clear();
+    if (!this.isEngineReady()) return;
+
+    this.incrementRenderCount();
+    const lights = lightingStore.lights;
+    const isLightingActive = lightingActions.isLightingActive();
+    const zLayerConfigs = battlemapActions.getAllZLayerConfigs();
+    const zOffsetOf = (x: number, y: number) => zLayerConfigs[IsometricRenderingUtils.getStandingZLevel(x, y)]?.verticalOffset ?? 0;
+
+    // Drop glows of removed lights (and all of them in daylight)
+    Array.from(this.glowGraphics.keys()).forEach(uuid => {
+      if (!lights[uuid] || !isLightingActive) this.removeGlow(uuid);
+    });
+
+    Object.values(lights).forEach(light => {
+      if (!isLightingActive) return;
+
+      let graphics = this.glowGraphics.get(light.uuid);
+      if (!graphics) {
+        graphics = new Graphics();
+        graphics.blendMode = 'add';
+        this.container.addChildAt(graphics, 0);
+        this.glowGraphics.set(light.uuid, graphics);
+      }
+      graphics.clear();
+
+      const cells = lightingStore.litCells.get(light.uuid) ?? [];
+      cells.forEach(cell => {
+        if (fogActions.getCellState(cell.x, cell.y) === 'hidden') return;
+        IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+          graphics!,
+          [{ x: cell.x, y: cell.y, zOffset: zOffsetOf(cell.x, cell.y) }],
+          this.engine,
+          { color: light.color, alpha: GLOW_ALPHA * cell.strength * (cell.level === 'bright' ? 1 : 0.5) }
+        );
+      });
+    });
+
+    if (lightingStore.isPlacing) {
+      Object.values(lights).forEach(light => {
+        const [x, y] = light.position;
+        IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+          this.markerGraphics,
+          [{ x, y, zOffset: zOffsetOf(x, y) }],
+          this.engine,
+          { color: light.color, alpha: 0.35 },
+          { color: light.color, width: GRID_STROKE_WIDTH * 2, alpha: MARKER_ALPHA }
+        );
+      });
+    }
+  }
+
+  /**
+   * Flicker: each light's glow wavers by its own flicker amount
+   */
+  update(ticker: Ticker): void {
+    if (this.glowGraphics.size === 0) return;
+    this.elapsedSeconds += ticker.deltaMS / 1000;
+
+    this.glowGraphics.forEach((graphics, uuid) => {
+      const light = lightingStore.lights[uuid];
+      if (!light || light.flicker <= 0) {
+        graphics.alpha = 1;
+        return;
+      }
+      // Two out-of-step waves per light (phase from its position) read as an uneven flame
+      const phase = light.position[0] * 1.7 + light.position[1] * 2.3;
+      const t = this.elapsedSeconds;
+      const noise = (Math.sin(t * 7.3 + phase) + Math.sin(t * 12.9 + phase * 0.7)) / 4 + 0.5; // 0..1
+      graphics.alpha = 1 - light.flicker * 0.6 * noise;
+    });
+  }
+
+  private removeGlow(uuid: string): void {
+    const graphics = this.glowGraphics.get(uuid);
+    if (!graphics) return;
+    this.destroyGraphics(graphics);
+    this.glowGraphics.delete(uuid);
+  }
+
+  private clearGlows(): void {
+    Array.from(this.glowGraphics.keys()).forEach(uuid => this.removeGlow(uuid));
+  }
+
+  destroy(): void {
+    this.clearGlows();
+    this.destroyGraphics(this.markerGraphics);
+    super.destroy();
+  }
+}
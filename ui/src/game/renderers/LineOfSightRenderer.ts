@@ -0,0 +1,107 @@
+import { Graphics } from 'pixi.js';
+import { subscribe, getVersion, snapshot } from 'valtio';
+import { battlemapStore, battlemapActions } from '../../store';
+import { AbstractRenderer } from './BaseRenderer';
+import { LayerName } from '../BattlemapEngine';
+import { GRID_STROKE_WIDTH } from '../../constants/layout';
+import { IsometricRenderingUtils } from './utils/IsometricRenderingUtils';
+import { computeLineOfSight } from '../../utils/lineOfSightUtils';
+
+// Line of sight overlay colors
+const VISIBLE_COLOR = 0x4CAF50;
+const BLOCKED_COLOR = 0x000000;
+const ORIGIN_COLOR = 0x00E5FF;
+
+/**
+ * LineOfSightRenderer - Debug overlay of what the hovered cell can see
+ * Visible cells are tinted green, occluded cells within the sight radius are darkened
+ */
+export class LineOfSightRenderer extends AbstractRenderer {
+  get layerName(): LayerName { return 'ui'; }
+
+  private losGraphics = new Graphics();
+
+  // Visibility is only recomputed when the origin, radius or grid contents change (not on pan/zoom)
+  private cachedKey = '';
+  private cachedVisible: Record<string, boolean> = {};
+
+  initialize(engine: any): void {
+    super.initialize(engine);
+
+    // Overlay must never swallow pointer events meant for the interaction hit area
+    this.container.eventMode = 'none';
+    this.container.addChild(this.losGraphics);
+
+    // Hover, pan, zoom, radius and the toggle itself
+    this.addSubscription(subscribe(battlemapStore.view, () => {
+      this.render();
+    }));
+
+    this.addSubscription(subscribe(battlemapStore.grid, () => {
+      if (battlemapStore.view.isLineOfSightPreviewEnabled) {
+        this.render();
+      }
+    }));
+  }
+
+  render(): void {
+    this.losGraphics.clear();
+
+    const { isLineOfSightPreviewEnabled, hoveredCell, lineOfSightRadius } = battlemapStore.view;
+    if (!this.isEngineReady() || !isLineOfSightPreviewEnabled) return;
+
+    const { width, height } = battlemapStore.grid;
+    if (hoveredCell.x < 0 || hoveredCell.y < 0 || hoveredCell.x >= width || hoveredCell.y >= height) return;
+
+    this.incrementRenderCount();
+    const visible = this.getVisibility(hoveredCell.x, hoveredCell.y, lineOfSightRadius);
+    const zLayerConfigs = battlemapActions.getAllZLayerConfigs();
+
+    const visibleCells: Array<{ x: number; y: number; zOffset: number }> = [];
+    const blockedCells: Array<{ x: number; y: number; zOffset: number }> = [];
+    const minX = Math.max(0, hoveredCell.x - lineOfSightRadius);
+    const maxX = Math.min(width - 1, hoveredCell.x + lineOfSightRadius);
+    const minY = Math.max(0, hoveredCell.y - lineOfSightRadius);
+    const maxY = Math.min(height - 1, hoveredCell.y + lineOfSightRadius);
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        if (Math.hypot(x - hoveredCell.x, y - hoveredCell.y) > lineOfSightRadius) continue;
+        const zOffset = zLayerConfigs[IsometricRenderingUtils.getStandingZLevel(x, y)]?.verticalOffset ?? 0;
+        (visible[`${x},${y}`] ? visibleCells : blockedCells).push({ x, y, zOffset });
+      }
+    }
+
+    IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+      this.losGraphics, blockedCells, this.engine, { color: BLOCKED_COLOR, alpha: 0.35 }
+    );
+    IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+      this.losGraphics, visibleCells, this.engine, { color: VISIBLE_COLOR, alpha: 0.18 }
+    );
+
+    const originZ = IsometricRenderingUtils.getStandingZLevel(hoveredCell.x, hoveredCell.y);
+    IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+      this.losGraphics,
+      [{ x: hoveredCell.x, y: hoveredCell.y, zOffset: zLayerConfigs[originZ]?.verticalOffset ?? 0 }],
+      this.engine,
+      undefined,
+      { color: ORIGIN_COLOR, width: GRID_STROKE_WIDTH * 2, alpha: 1.0 }
+    );
+  }
+
+  private getVisibility(x: number, y: number, radius: number): Record<string, boolean> {
+    const grid = battlemapStore.grid;
+    const key = [x, y, radius, grid.width, grid.height, getVersion(grid.tiles), getVersion(grid.walls)].join('|');
+    if (key !== this.cachedKey) {
+      this.cachedKey = key;
+      // Snapshots are cached per version, so repeated hovers don't walk the proxied records
+      this.cachedVisible = computeLineOfSight(snapshot(grid), [x, y], { radius });
+    }
+    return this.cachedVisible;
+  }
+
+  destroy(): void {
+    this.destroyGraphics(this.losGraphics);
+    super.destroy();
+  }
+}
@@ -0,0 +1,386 @@
+import { Container, FederatedPointerEvent, Graphics, Rectangle, RenderTexture, Sprite, Text } from 'pixi.js';
+import { subscribe, getVersion, snapshot } from 'valtio';
+import { battlemapStore, battlemapActions, fogStore, fogActions, Z_LAYER_CONFIG } from '../../store';
+import { TileSummary, WallSummary } from '../../types/battlemap_types';
+import { AbstractRenderer } from './BaseRenderer';
+import { LayerName } from '../BattlemapEngine';
+import { ENTITY_PANEL_WIDTH } from '../../constants/layout';
+import { gridToIsometric, isometricToGridPoint, toViewDirection } from '../../utils/isometricUtils';
+import { getWallFogCells, multiplyTint } from '../../utils/fogUtils';
+import { IsometricDirection } from '../managers/IsometricSpriteManager';
+import { IsometricRenderingUtils } from './utils/IsometricRenderingUtils';
+import { cameraController } from '../CameraController';
+
+// Largest map image (px) and its place in the bottom-right corner
+const MINIMAP_MAX_WIDTH = 220;
+const MINIMAP_MAX_HEIGHT = 140;
+const MINIMAP_PADDING = 6;
+const MINIMAP_MARGIN = 12;
+
+// Map colours
+const EMPTY_CELL_COLOR = 0x2A2A2A;
+const WALL_COLOR = 0xF0F0F0;
+const VIEWPORT_COLOR = 0xFFC107;
+const FOG_SEEN_TINT = 0x5A5A6E;
+
+// More changed cells than this redraw the whole map instead
+const MAX_INCREMENTAL_CELLS = 500;
+
+/**
+ * MinimapRenderer - Overview of the whole map with the camera's viewport, click or drag to move the camera
+ * The map is drawn once into a render texture (flat, in the current camera rotation) and afterwards only the
+ * cells whose tiles or walls changed are drawn over; the viewport rectangle is redrawn on every view change
+ */
+export class MinimapRenderer extends AbstractRenderer {
+  get layerName(): LayerName { return 'ui'; }
+
+  private frameGraphics = new Graphics();
+  private mapSprite = new Sprite();
+  private viewportGraphics = new Graphics();
+  private label = new Text({
+    text: '🗺️ Minimap · M hides',
+    style: { fontFamily: 'Arial', fontSize: 10, fill: 0xFFFFFF }
+  });
+
+  // Scratch container drawn into the render texture (never on stage)
+  private drawContainer = new Container();
+  private drawGraphics = new Graphics();
+  private mapTexture: RenderTexture | null = null;
+
+  // Map image layout: cell size and where the grid origin sits in the image
+  private miniTileSize = 1;
+  private originX = 0;
+  private originY = 0;
+  private layoutKey = '';
+
+  // What the image currently shows
+  private drawnTiles: Readonly<Record<string, TileSummary>> | null = null;
+  private drawnWalls: Readonly<Record<string, WallSummary>> | null = null;
+  private drawnTilesVersion: number | undefined;
+  private drawnWallsVersion: number | undefined;
+  private drawnFogKey: unknown[] = [];
+
+  private isDragging = false;
+
+  initialize(engine: any): void {
+    super.initialize(engine);
+
+    this.drawContainer.addChild(this.drawGraphics);
+    this.container.addChild(this.frameGraphics);
+    this.container.addChild(this.mapSprite);
+    this.container.addChild(this.viewportGraphics);
+    this.container.addChild(this.label);
+    this.mapSprite.position.set(MINIMAP_PADDING, MINIMAP_PADDING);
+    this.viewportGraphics.position.set(MINIMAP_PADDING, MINIMAP_PADDING);
+
+    // Unlike the other overlays the minimap takes the pointer, above the interaction hit area
+    this.container.eventMode = 'static';
+    this.container.cursor = 'pointer';
+    this.container.on('pointerdown', this.handlePointerDown, this);
+    this.container.on('globalpointermove', this.handlePointerMove, this);
+    this.container.on('pointerup', this.stopDragging, this);
+    this.container.on('pointerupoutside', this.stopDragging, this);
+
+    // Tiles and walls
+    this.addSubscription(subscribe(battlemapStore.grid, () => {
+      this.render();
+    }));
+
+    // Pan, zoom, rotation and visibility
+    this.addSubscription(subscribe(battlemapStore.view, () => {
+      this.render();
+    }));
+
+    this.addSubscription(subscribe(fogStore, () => {
+      this.render();
+    }));
+  }
+
+  render(): void {
+    if (!this.isEngineReady() || !this.engine?.app || !battlemapStore.view.isMinimapVisible || battlemapStore.grid.width === 0) {
+      this.container.visible = false;
+      this.isDragging = false;
+      return;
+    }
+    this.container.visible = true;
+
+    this.incrementRenderCount();
+    this.syncMapTexture();
+    this.layoutWidget();
+    this.drawViewport();
+  }
+
+  /**
+   * Bring the map image up to date: full redraw on layout or fog changes, otherwise only changed cells
+   */
+  private syncMapTexture(): void {
+    const grid = battlemapStore.grid;
+    const layoutKey = [grid.width, grid.height, battlemapStore.view.cameraRotation].join('|');
+    const fogKey = [fogActions.isFogActive(), fogStore.visibleCells, fogStore.exploredCells];
+    const isFogChanged = fogKey.some((value, index) => value !== this.drawnFogKey[index]);
+
+    if (layoutKey !== this.layoutKey || !this.mapTexture) {
+      this.layoutKey = layoutKey;
+      this.createMapTexture();
+      this.redrawAll();
+      return;
+    }
+
+    if (isFogChanged) {
+      this.redrawAll();
+      return;
+    }
+
+    const tilesVersion = getVersion(grid.tiles);
+    const wallsVersion = getVersion(grid.walls);
+    if (tilesVersion === this.drawnTilesVersion && wallsVersion === this.drawnWallsVersion) return;
+
+    // Snapshots keep unchanged records identical, so comparing by reference finds the edits
+    const tiles = snapshot(grid.tiles);
+    const walls = snapshot(grid.walls);
+    const changedCells = new Set<string>();
+    this.collectChangedCells(this.drawnTiles, tiles, tile => [[tile.position[0], tile.position[1]]], changedCells);
+    this.collectChangedCells(this.drawnWalls, walls, wall => getWallFogCells(wall), changedCells);
+
+    if (changedCells.size > MAX_INCREMENTAL_CELLS) {
+      this.redrawAll();
+      return;
+    }
+
+    this.drawGraphics.clear();
+    changedCells.forEach(key => {
+      const [x, y] = key.split(',').map(Number);
+      if (x >= 0 && y >= 0 && x < grid.width && y < grid.height) this.drawCell(x, y);
+    });
+    changedCells.forEach(key => {
+      const [x, y] = key.split(',').map(Number);
+      this.drawCellWalls(x, y);
+    });
+    this.renderToTexture(false);
+    this.markDrawn(tiles, walls);
+  }
+
+  private collectChangedCells<T>(
+    previous: Readonly<Record<string, T>> | null,
+    current: Readonly<Record<string, T>>,
+    getCells: (item: T) => [number, number][],
+    changedCells: Set<string>
+  ): void {
+    const addCells = (item: T) => getCells(item).forEach(([x, y]) => changedCells.add(`${x},${y}`));
+    Object.keys(current).forEach(key => {
+      const before = previous?.[key];
+      if (before === current[key]) return;
+      if (before) addCells(before);
+      addCells(current[key]);
+    });
+    if (previous) {
+      Object.keys(previous).forEach(key => {
+        if (!(key in current)) addCells(previous[key]);
+      });
+    }
+  }
+
+  /**
+   * Size the image so the whole grid fits the minimap, for the current camera rotation
+   */
+  private createMapTexture(): void {
+    const { width, height } = battlemapStore.grid;
+    // A w x h grid spans (w + h) half-tiles across and (w + h) quarter-tiles down in every rotation
+    this.miniTileSize = Math.min((MINIMAP_MAX_WIDTH * 2) / (width + height), (MINIMAP_MAX_HEIGHT * 4) / (width + height));
+
+    const corners = [[0, 0], [width - 1, 0], [0, height - 1], [width - 1, height - 1]]
+      .map(([x, y]) => gridToIsometric(x, y, this.miniTileSize));
+    const minX = Math.min(...corners.map(corner => corner.isoX));
+    const maxX = Math.max(...corners.map(corner => corner.isoX));
+    const minY = Math.min(...corners.map(corner => corner.isoY));
+    const maxY = Math.max(...corners.map(corner => corner.isoY));
+    this.originX = -minX + this.miniTileSize / 2;
+    this.originY = -minY + this.miniTileSize / 4;
+
+    const previousTexture = this.mapTexture;
+    this.mapTexture = RenderTexture.create({
+      width: Math.max(1, Math.ceil(maxX - minX + this.miniTileSize)),
+      height: Math.max(1, Math.ceil(maxY - minY + this.miniTileSize / 2))
+    });
+    this.mapSprite.texture = this.mapTexture;
+    previousTexture?.destroy(true);
+  }
+
+  private redrawAll(): void {
+    const grid = battlemapStore.grid;
+    this.drawGraphics.clear();
+    for (let x = 0; x < grid.width; x++) {
+      for (let y = 0; y < grid.height; y++) {
+        this.drawCell(x, y);
+      }
+    }
+    Object.values(grid.walls).forEach(wall => this.drawWall(wall));
+    this.renderToTexture(true);
+    this.markDrawn(snapshot(grid.tiles), snapshot(grid.walls));
+  }
+
+  private markDrawn(tiles: Readonly<Record<string, TileSummary>>, walls: Readonly<Record<string, WallSummary>>): void {
+    this.drawnTiles = tiles;
+    this.drawnWalls = walls;
+    this.drawnTilesVersion = getVersion(battlemapStore.grid.tiles);
+    this.drawnWallsVersion = getVersion(battlemapStore.grid.walls);
+    this.drawnFogKey = [fogActions.isFogActive(), fogStore.visibleCells, fogStore.exploredCells];
+  }
+
+  private renderToTexture(clear: boolean): void {
+    if (!this.mapTexture || !this.engine?.app) return;
+    this.engine.app.renderer.render({ container: this.drawContainer, target: this.mapTexture, clear });
+    this.drawGraphics.clear();
+  }
+
+  /**
+   * Diamond of one cell in the colour of its highest tile (never-seen cells stay empty under fog)
+   */
+  private drawCell(x: number, y: number): void {
+    const fogState = fogActions.getCellState(x, y);
+    let color = EMPTY_CELL_COLOR;
+    if (fogState !== 'hidden') {
+      for (let z = Z_LAYER_CONFIG.maxLayers - 1; z >= 0; z--) {
+        const tile = battlemapStore.grid.tiles[`${x},${y},${z}`];
+        if (tile) {
+          color = IsometricRenderingUtils.getTileColor(tile);
+          break;
+        }
+      }
+      if (fogState === 'seen') color = multiplyTint(color, FOG_SEEN_TINT);
+    }
+
+    const { centerX, centerY, halfWidth, halfHeight } = this.getCellDiamond(x, y);
+    this.drawGraphics
+      .poly([
+        centerX, centerY - halfHeight,
+        centerX + halfWidth, centerY,
+        centerX, centerY + halfHeight,
+        centerX - halfWidth, centerY
+      ])
+      .fill({ color });
+  }
+
+  private drawCellWalls(x: number, y: number): void {
+    for (let z = 0; z < Z_LAYER_CONFIG.maxLayers; z++) {
+      battlemapActions.getWallsAtPosition(x, y, z).forEach(wall => this.drawWall(wall));
+    }
+  }
+
+  /**
+   * Line along the side of the cell the wall is on, as seen under the camera rotation
+   */
+  private drawWall(wall: WallSummary): void {
+    if (getWallFogCells(wall).every(([x, y]) => fogActions.getCellState(x, y) === 'hidden')) return;
+
+    const { centerX, centerY, halfWidth, halfHeight } = this.getCellDiamond(wall.position[0], wall.position[1]);
+    const top = [centerX, centerY - halfHeight];
+    const right = [centerX + halfWidth, centerY];
+    const bottom = [centerX, centerY + halfHeight];
+    const left = [centerX - halfWidth, centerY];
+    const [from, to] = {
+      [IsometricDirection.NORTH]: [left, top],
+      [IsometricDirection.EAST]: [top, right],
+      [IsometricDirection.SOUTH]: [right, bottom],
+      [IsometricDirection.WEST]: [bottom, left]
+    }[toViewDirection(wall.wall_direction)];
+
+    this.drawGraphics
+      .moveTo(from[0], from[1])
+      .lineTo(to[0], to[1])
+      .stroke({ color: WALL_COLOR, width: Math.max(1, this.miniTileSize / 8), alpha: wall.blocks_movement ? 1 : 0.5 });
+  }
+
+  private getCellDiamond(x: number, y: number): { centerX: number; centerY: number; halfWidth: number; halfHeight: number } {
+    const { isoX, isoY } = gridToIsometric(x, y, this.miniTileSize);
+    return { centerX: this.originX + isoX, centerY: this.originY + isoY, halfWidth: this.miniTileSize / 2, halfHeight: this.miniTileSize / 4 };
+  }
+
+  /**
+   * Frame and label around the map image, in the bottom-right corner of the canvas
+   */
+  private layoutWidget(): void {
+    if (!this.mapTexture || !this.engine) return;
+    const { width: containerWidth, height: containerHeight } = this.engine.containerSize;
+    const width = this.mapTexture.width + MINIMAP_PADDING * 2;
+    const height = this.mapTexture.height + MINIMAP_PADDING * 2;
+
+    this.container.position.set(containerWidth - width - MINIMAP_MARGIN, containerHeight - height - MINIMAP_MARGIN);
+    this.container.hitArea = new Rectangle(0, 0, width, height);
+
+    this.frameGraphics
+      .clear()
+      .roundRect(0, 0, width, height, 6)
+      .fill({ color: 0x000000, alpha: 0.6 })
+      .stroke({ color: 0xFFFFFF, width: 1, alpha: 0.3 });
+    this.label.position.set(MINIMAP_PADDING, -this.label.height - 2);
+  }
+
+  /**
+   * What the camera shows of the map area (right of the entity panel), clipped to the image
+   */
+  private drawViewport(): void {
+    this.viewportGraphics.clear();
+    if (!this.mapTexture || !this.engine) return;
+
+    const { width: containerWidth, height: containerHeight } = this.engine.containerSize;
+    const offset = IsometricRenderingUtils.calculateIsometricGridOffset(this.engine);
+    const scale = this.miniTileSize / offset.tileSize;
+    const toMiniX = (screenX: number) => this.originX + (screenX - offset.offsetX) * scale;
+    const toMiniY = (screenY: number) => this.originY + (screenY - offset.offsetY) * scale;
+
+    const left = Math.max(0, toMiniX(ENTITY_PANEL_WIDTH));
+    const right = Math.min(this.mapTexture.width, toMiniX(containerWidth));
+    const top = Math.max(0, toMiniY(0));
+    const bottom = Math.min(this.mapTexture.height, toMiniY(containerHeight));
+    if (right <= left || bottom <= top) return;
+
+    this.viewportGraphics
+      .rect(left, top, right - left, bottom - top)
+      .fill({ color: VIEWPORT_COLOR, alpha: 0.1 })
+      .stroke({ color: VIEWPORT_COLOR, width: 1.5, alpha: 0.9 });
+  }
+
+  /**
+   * Centre the camera on the map point under the pointer
+   * @param animate Glide there (clicks) rather than jump (dragging follows the pointer directly)
+   */
+  private recenterOn(event: FederatedPointerEvent, animate: boolean): void {
+    const local = this.mapSprite.toLocal(event.global);
+    const gridDiamondWidth = battlemapStore.view.gridDiamondWidth;
+    const scale = gridDiamondWidth / this.miniTileSize;
+    const { gridX, gridY } = isometricToGridPoint(
+      (local.x - this.originX) * scale,
+      (local.y - this.originY) * scale,
+      gridDiamondWidth
+    );
+    cameraController.focusCamera(gridX, gridY, 0, { animate });
+  }
+
+  private handlePointerDown(event: FederatedPointerEvent): void {
+    event.stopPropagation();
+    if (event.button !== 0) return;
+    this.isDragging = true;
+    this.recenterOn(event, true);
+  }
+
+  private handlePointerMove(event: FederatedPointerEvent): void {
+    if (this.isDragging) this.recenterOn(event, false);
+  }
+
+  private stopDragging(): void {
+    this.isDragging = false;
+  }
+
+  destroy(): void {
+    this.container.removeAllListeners();
+    this.mapTexture?.destroy(true);
+    this.mapTexture = null;
+    this.destroyGraphics(this.drawGraphics);
+    this.drawContainer.destroy();
+    this.destroyGraphics(this.frameGraphics);
+    this.destroyGraphics(this.viewportGraphics);
+    this.label.destroy();
+    super.destroy();
+  }
+}
@@ -0,0 +1,110 @@
+import { Graphics } from 'pixi.js';
+import { battlemapStore } from '../../store';
+import { AbstractRenderer } from './BaseRenderer';
+import { subscribe } from 'valtio';
+import { LayerName } from '../BattlemapEngine';
+import { GRID_STROKE_WIDTH } from '../../constants/layout';
+import { IsometricRenderingUtils } from './utils/IsometricRenderingUtils';
+import { GridCell, WallEdge } from '../../utils/paintToolUtils';
+
+// Preview colors per operation
+const PREVIEW_COLORS = {
+  paint: 0x2196F3,
+  erase: 0xF44336
+} as const;
+
+// Wall edges are drawn as thick lines so they read differently from cell ghosts
+const EDGE_PREVIEW_WIDTH = 4;
+
+/**
+ * PaintPreviewRenderer - Ghost preview of the cells a paint tool is about to change
+ * Cells are pushed in by IsometricInteractionsManager; nothing is committed to the store here
+ */
+export class PaintPreviewRenderer extends AbstractRenderer {
+  get layerName(): LayerName { return 'ui'; }
+
+  private previewGraphics = new Graphics();
+
+  // Current preview state
+  private previewCells: GridCell[] = [];
+  private previewZLevel: number = 0;
+  private previewMode: 'paint' | 'erase' = 'paint';
+  private previewEdges: WallEdge[] = [];
+
+  initialize(engine: any): void {
+    super.initialize(engine);
+
+    // Preview must never swallow pointer events meant for the interaction hit area
+    this.container.eventMode = 'none';
+    this.container.addChild(this.previewGraphics);
+
+    this.setupSubscriptions();
+  }
+
+  private setupSubscriptions(): void {
+    // Redraw on view changes (pan, zoom, layer heights) so the ghost stays on its cells
+    this.addSubscription(subscribe(battlemapStore.view, () => {
+      if (this.previewCells.length > 0 || this.previewEdges.length > 0) {
+        this.render();
+      }
+    }));
+  }
+
+  /**
+   * Show a ghost preview for the given cells (and optionally wall edges)
+   */
+  setPreview(cells: GridCell[], zLevel: number, mode: 'paint' | 'erase', edges: WallEdge[] = []): void {
+    this.previewCells = cells;
+    this.previewEdges = edges;
+    this.previewZLevel = zLevel;
+    this.previewMode = mode;
+    this.render();
+  }
+
+  /**
+   * Remove the ghost preview
+   */
+  clearPreview(): void {
+    this.previewCells = [];
+    this.previewEdges = [];
+    this.previewGraphics.clear();
+  }
+
+  render(): void {
+    this.incrementRenderCount();
+    this.previewGraphics.clear();
+
+    if (!this.isEngineReady() || (this.previewCells.length === 0 && this.previewEdges.length === 0)) return;
+
+    const layerConfig = battlemapStore.view.zLayerHeights[this.previewZLevel];
+    const zOffset = layerConfig?.verticalOffset ?? 0;
+
+    const positions = this.previewCells
+      .filter(({ x, y }) => IsometricRenderingUtils.isValidGridPosition(x, y))
+      .map(({ x, y }) => ({ x, y, zOffset }));
+
+    const color = PREVIEW_COLORS[this.previewMode];
+
+    IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+      this.previewGraphics,
+      positions,
+      this.engine,
+      { color, alpha: 0.35 },
+      { color, width: GRID_STROKE_WIDTH, alpha: 0.9 }
+    );
+
+    IsometricRenderingUtils.renderWallEdgeBatchWithZOffset(
+      this.previewGraphics,
+      this.previewEdges.map(edge => ({ ...edge, zOffset })),
+      this.engine,
+      { color, width: EDGE_PREVIEW_WIDTH, alpha: 0.9 }
+    );
+
+    this.logRenderSummary(`${positions.length} preview cells, ${this.previewEdges.length} preview edges`);
+  }
+
+  destroy(): void {
+    this.destroyGraphics(this.previewGraphics);
+    super.destroy();
+  }
+}
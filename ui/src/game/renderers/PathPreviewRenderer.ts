@@ -0,0 +1,159 @@
+import { Graphics, Text } from 'pixi.js';
+import { subscribe, getVersion, snapshot } from 'valtio';
+import { battlemapStore, battlemapActions, entityStore } from '../../store';
+import { AbstractRenderer } from './BaseRenderer';
+import { LayerName } from '../BattlemapEngine';
+import { GRID_STROKE_WIDTH } from '../../constants/layout';
+import { gridToIsometric } from '../../utils/isometricUtils';
+import { IsometricRenderingUtils } from './utils/IsometricRenderingUtils';
+import { findPath, PathResult } from '../../utils/pathfindingUtils';
+
+// Path preview colors
+const REACHABLE_COLOR = 0x4CAF50;
+const OUT_OF_REACH_COLOR = 0xF44336;
+
+/**
+ * PathPreviewRenderer - Path from the selected entity to the hovered cell, with the movement left
+ * Steps within the movement budget are green, the rest red
+ */
+export class PathPreviewRenderer extends AbstractRenderer {
+  get layerName(): LayerName { return 'ui'; }
+
+  private pathGraphics = new Graphics();
+  private costLabel = new Text({
+    text: '',
+    style: { fontFamily: 'Arial', fontSize: 13, fontWeight: 'bold', fill: 0xFFFFFF, stroke: { color: 0x000000, width: 3 } }
+  });
+
+  // The search only reruns when its inputs change (not on pan/zoom)
+  private cachedKey = '';
+  private cachedPath: PathResult | null = null;
+
+  initialize(engine: any): void {
+    super.initialize(engine);
+
+    // Overlay must never swallow pointer events meant for the interaction hit area
+    this.container.eventMode = 'none';
+    this.container.addChild(this.pathGraphics);
+    this.costLabel.anchor.set(0.5, 1);
+    this.container.addChild(this.costLabel);
+
+    // Hover, pan, zoom and the preview settings
+    this.addSubscription(subscribe(battlemapStore.view, () => {
+      this.render();
+    }));
+
+    this.addSubscription(subscribe(battlemapStore.grid, () => {
+      if (battlemapStore.view.isPathPreviewEnabled) this.render();
+    }));
+
+    // Selection and entity positions
+    this.addSubscription(subscribe(entityStore, () => {
+      if (battlemapStore.view.isPathPreviewEnabled) this.render();
+    }));
+  }
+
+  render(): void {
+    this.pathGraphics.clear();
+    this.costLabel.visible = false;
+
+    const view = battlemapStore.view;
+    const mover = entityStore.selectedEntityId ? entityStore.entities[entityStore.selectedEntityId] : undefined;
+    if (!this.isEngineReady() || !view.isPathPreviewEnabled || !mover) return;
+
+    const { width, height } = battlemapStore.grid;
+    const goal = view.hoveredCell;
+    if (goal.x < 0 || goal.y < 0 || goal.x >= width || goal.y >= height) return;
+
+    this.incrementRenderCount();
+    const result = this.getPath(mover.uuid, mover.position, [goal.x, goal.y]);
+    const zLayerConfigs = battlemapActions.getAllZLayerConfigs();
+    const zOffsetOf = (x: number, y: number) => zLayerConfigs[IsometricRenderingUtils.getStandingZLevel(x, y)]?.verticalOffset ?? 0;
+
+    if (!result) {
+      IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+        this.pathGraphics,
+        [{ x: goal.x, y: goal.y, zOffset: zOffsetOf(goal.x, goal.y) }],
+        this.engine,
+        { color: OUT_OF_REACH_COLOR, alpha: 0.15 },
+        { color: OUT_OF_REACH_COLOR, width: GRID_STROKE_WIDTH * 2, alpha: 1.0 }
+      );
+      this.showLabel(goal.x, goal.y, zOffsetOf(goal.x, goal.y), 'No path', OUT_OF_REACH_COLOR);
+      return;
+    }
+
+    const budget = view.movementBudgetFeet;
+    const cells = result.path.map(([x, y], index) => ({ x, y, zOffset: zOffsetOf(x, y), isReachable: result.costs[index] <= budget }));
+
+    // Step cells (the start is where the entity stands, so it is skipped)
+    IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+      this.pathGraphics, cells.slice(1).filter(cell => cell.isReachable), this.engine, { color: REACHABLE_COLOR, alpha: 0.2 }
+    );
+    IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+      this.pathGraphics, cells.slice(1).filter(cell => !cell.isReachable), this.engine, { color: OUT_OF_REACH_COLOR, alpha: 0.2 }
+    );
+
+    // Line through the cell centres, colored per segment
+    const offset = IsometricRenderingUtils.calculateIsometricGridOffset(this.engine);
+    const toScreen = (cell: { x: number; y: number; zOffset: number }) => {
+      const { isoX, isoY } = gridToIsometric(cell.x, cell.y, offset.tileSize);
+      return { x: offset.offsetX + isoX, y: offset.offsetY + isoY - cell.zOffset * view.zoomLevel };
+    };
+    for (let i = 1; i < cells.length; i++) {
+      const from = toScreen(cells[i - 1]);
+      const to = toScreen(cells[i]);
+      this.pathGraphics
+        .moveTo(from.x, from.y)
+        .lineTo(to.x, to.y)
+        .stroke({ color: cells[i].isReachable ? REACHABLE_COLOR : OUT_OF_REACH_COLOR, width: 3, alpha: 0.9 });
+    }
+
+    const last = cells[cells.length - 1];
+    const remaining = budget - result.cost;
+    const text = remaining >= 0 ? `${result.cost} ft · ${remaining} ft left` : `${result.cost} ft · ${-remaining} ft over`;
+    this.showLabel(last.x, last.y, last.zOffset, text, remaining >= 0 ? REACHABLE_COLOR : OUT_OF_REACH_COLOR);
+  }
+
+  private showLabel(x: number, y: number, zOffset: number, text: string, color: number): void {
+    const offset = IsometricRenderingUtils.calculateIsometricGridOffset(this.engine);
+    const { isoX, isoY } = gridToIsometric(x, y, offset.tileSize);
+    this.costLabel.text = text;
+    this.costLabel.style.fill = color;
+    this.costLabel.x = offset.offsetX + isoX;
+    this.costLabel.y = offset.offsetY + isoY - zOffset * battlemapStore.view.zoomLevel - offset.tileSize / 4;
+    this.costLabel.visible = true;
+  }
+
+  private getPath(moverId: string, start: readonly [number, number], goal: [number, number]): PathResult | null {
+    const grid = battlemapStore.grid;
+    const view = battlemapStore.view;
+
+    // Other entities can't be walked through
+    const blockedCells = new Set<string>();
+    Object.values(entityStore.entities).forEach(entity => {
+      if (entity.uuid !== moverId) blockedCells.add(`${entity.position[0]},${entity.position[1]}`);
+    });
+
+    const key = [
+      start.join(','), goal.join(','), view.diagonalMovementRule,
+      grid.width, grid.height, getVersion(grid.tiles), getVersion(grid.walls),
+      Array.from(blockedCells).sort().join(';')
+    ].join('|');
+    if (key !== this.cachedKey) {
+      this.cachedKey = key;
+      // Snapshots are cached per version, so repeated hovers don't walk the proxied records
+      this.cachedPath = findPath(snapshot(grid), start, goal, {
+        diagonalRule: view.diagonalMovementRule,
+        blockedCells,
+        getWallsAtEdge: battlemapActions.getWallsAtEdge // Store wall index instead of indexing every wall per hover
+      });
+    }
+    return this.cachedPath;
+  }
+
+  destroy(): void {
+    this.costLabel.destroy();
+    this.destroyGraphics(this.pathGraphics);
+    super.destroy();
+  }
+}
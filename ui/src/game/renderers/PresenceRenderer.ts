@@ -0,0 +1,144 @@
+import { Graphics, Text } from 'pixi.js';
+import { subscribe } from 'valtio';
+import { battlemapStore, battlemapActions, collabStore } from '../../store';
+import { AbstractRenderer } from './BaseRenderer';
+import { LayerName } from '../BattlemapEngine';
+import { GRID_STROKE_WIDTH } from '../../constants/layout';
+import { gridToIsometric } from '../../utils/isometricUtils';
+import { IsometricRenderingUtils } from './utils/IsometricRenderingUtils';
+import { getRectangleCells } from '../../utils/paintToolUtils';
+
+/**
+ * PresenceRenderer - Other users' cursors (hovered cell on their active Z layer) and soft-locked regions
+ * Reads everything from collabStore; never writes to the grid
+ */
+export class PresenceRenderer extends AbstractRenderer {
+  get layerName(): LayerName { return 'ui'; }
+
+  private lockGraphics = new Graphics();
+  private cursorGraphics = new Graphics();
+  private nameLabels: Map<string, Text> = new Map();
+
+  initialize(engine: any): void {
+    super.initialize(engine);
+
+    // Overlay must never swallow pointer events meant for the interaction hit area
+    this.container.eventMode = 'none';
+    this.container.addChild(this.lockGraphics);
+    this.container.addChild(this.cursorGraphics);
+
+    this.addSubscription(subscribe(collabStore, () => {
+      this.render();
+    }));
+
+    // Redraw on view changes (pan, zoom, layer heights)
+    this.addSubscription(subscribe(battlemapStore.view, () => {
+      if (collabStore.status !== 'disconnected') {
+        this.render();
+      }
+    }));
+  }
+
+  render(): void {
+    this.incrementRenderCount();
+    this.lockGraphics.clear();
+    this.cursorGraphics.clear();
+
+    if (!this.isEngineReady() || collabStore.status === 'disconnected') {
+      this.nameLabels.forEach(label => { label.visible = false; });
+      return;
+    }
+
+    this.renderLocks();
+    this.renderCursors();
+  }
+
+  /**
+   * Tint every locked region with its owner's color (our own locks too, so we can see what we hold)
+   */
+  private renderLocks(): void {
+    const zLayerConfigs = battlemapActions.getAllZLayerConfigs();
+    const now = Date.now();
+
+    Object.values(collabStore.locks).forEach(lock => {
+      if (lock.expiresAt <= now) return;
+
+      const isOwn = lock.clientId === collabStore.clientId;
+      const color = isOwn ? collabStore.userColor : collabStore.users[lock.clientId]?.color ?? 0xFFFFFF;
+      const zLevel = lock.region.zLevel ?? battlemapStore.view.activeZLayer;
+      const zOffset = zLayerConfigs[zLevel]?.verticalOffset ?? 0;
+      const positions = getRectangleCells(lock.region.minX, lock.region.minY, lock.region.maxX, lock.region.maxY, true)
+        .map(({ x, y }) => ({ x, y, zOffset }));
+
+      IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+        this.lockGraphics,
+        positions,
+        this.engine,
+        { color, alpha: isOwn ? 0.06 : 0.15 },
+        { color, width: GRID_STROKE_WIDTH, alpha: 0.5 }
+      );
+    });
+  }
+
+  /**
+   * Outline each user's hovered cell and label it with their name and layer
+   */
+  private renderCursors(): void {
+    const zLayerConfigs = battlemapActions.getAllZLayerConfigs();
+    const offset = IsometricRenderingUtils.calculateIsometricGridOffset(this.engine);
+    const activeIds = new Set<string>();
+
+    Object.entries(collabStore.presences).forEach(([clientId, presence]) => {
+      const user = collabStore.users[clientId];
+      if (!user || !presence.hoveredCell) return;
+      activeIds.add(clientId);
+
+      const zOffset = zLayerConfigs[presence.activeZLayer]?.verticalOffset ?? 0;
+      const { x, y } = presence.hoveredCell;
+      IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+        this.cursorGraphics,
+        [{ x, y, zOffset }],
+        this.engine,
+        { color: user.color, alpha: 0.2 },
+        { color: user.color, width: GRID_STROKE_WIDTH * 2, alpha: 1.0 }
+      );
+
+      let label = this.nameLabels.get(clientId);
+      if (!label) {
+        label = new Text({
+          text: '',
+          style: { fontFamily: 'Arial', fontSize: 12, fontWeight: 'bold', fill: 0xFFFFFF, stroke: { color: 0x000000, width: 3 } }
+        });
+        label.anchor.set(0.5, 1);
+        this.nameLabels.set(clientId, label);
+        this.container.addChild(label);
+      }
+
+      const { isoX, isoY } = gridToIsometric(x, y, offset.tileSize);
+      label.text = `${user.name} · Z${presence.activeZLayer}`;
+      label.style.fill = user.color;
+      label.x = offset.offsetX + isoX;
+      label.y = offset.offsetY + isoY - zOffset * battlemapStore.view.zoomLevel - offset.tileSize / 4;
+      label.visible = true;
+    });
+
+    // Users who left or moved off the map
+    this.nameLabels.forEach((label, clientId) => {
+      if (activeIds.has(clientId)) return;
+      if (!collabStore.users[clientId]) {
+        label.destroy();
+        this.nameLabels.delete(clientId);
+      } else {
+        label.visible = false;
+      }
+    });
+  }
+
+  destroy(): void {
+    this.nameLabels.forEach(label => label.destroy());
+    this.nameLabels.clear();
+    this.destroyGraphics(this.lockGraphics);
+    this.destroyGraphics(this.cursorGraphics);
+    super.destroy();
+  }
+}
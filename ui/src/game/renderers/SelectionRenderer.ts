@@ -0,0 +1,118 @@
+import { Graphics } from 'pixi.js';
+import { battlemapStore, battlemapActions, selectionStore, selectionActions } from '../../store';
+import { AbstractRenderer } from './BaseRenderer';
+import { subscribe } from 'valtio';
+import { LayerName } from '../BattlemapEngine';
+import { GRID_STROKE_WIDTH } from '../../constants/layout';
+import { IsometricRenderingUtils } from './utils/IsometricRenderingUtils';
+import { getRectangleCells } from '../../utils/paintToolUtils';
+
+// Selection overlay colors
+const SELECTION_COLOR = 0xFFEB3B;
+const PASTE_GHOST_COLOR = 0x4CAF50;
+
+/**
+ * SelectionRenderer - Marquee selection outline and the paste/move ghost
+ * Reads everything from selectionStore; never writes to the grid
+ */
+export class SelectionRenderer extends AbstractRenderer {
+  get layerName(): LayerName { return 'ui'; }
+
+  private selectionGraphics = new Graphics();
+  private ghostGraphics = new Graphics();
+
+  initialize(engine: any): void {
+    super.initialize(engine);
+
+    // Overlay must never swallow pointer events meant for the interaction hit area
+    this.container.eventMode = 'none';
+    this.container.addChild(this.selectionGraphics);
+    this.container.addChild(this.ghostGraphics);
+
+    this.setupSubscriptions();
+  }
+
+  private setupSubscriptions(): void {
+    this.addSubscription(subscribe(selectionStore, () => {
+      this.render();
+    }));
+
+    // Redraw on view changes (pan, zoom, layer heights) and layer switches
+    this.addSubscription(subscribe(battlemapStore.view, () => {
+      if (selectionStore.selection || selectionStore.paste.active) {
+        this.render();
+      }
+    }));
+
+    this.addSubscription(subscribe(battlemapStore.controls.isometricEditor, () => {
+      if (selectionStore.selection || selectionStore.paste.active) {
+        this.render();
+      }
+    }));
+  }
+
+  render(): void {
+    this.incrementRenderCount();
+    this.selectionGraphics.clear();
+    this.ghostGraphics.clear();
+
+    if (!this.isEngineReady()) return;
+
+    this.renderSelection();
+    this.renderPasteGhost();
+  }
+
+  /**
+   * Draw the selected region on the active layer
+   */
+  private renderSelection(): void {
+    const bounds = selectionActions.getSelectionBounds();
+    if (!bounds) return;
+
+    const zOffset = battlemapActions.getActiveZLayerConfig().verticalOffset;
+    const positions = getRectangleCells(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY, true)
+      .map(({ x, y }) => ({ x, y, zOffset }));
+
+    IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+      this.selectionGraphics,
+      positions,
+      this.engine,
+      { color: SELECTION_COLOR, alpha: 0.15 },
+      { color: SELECTION_COLOR, width: GRID_STROKE_WIDTH, alpha: 0.6 }
+    );
+  }
+
+  /**
+   * Draw where the clipboard (or moved selection) will land
+   */
+  private renderPasteGhost(): void {
+    const placement = selectionActions.getPastePlacement();
+    if (!placement) return;
+
+    const zLayerConfigs = battlemapActions.getAllZLayerConfigs();
+    const getZOffset = (zLevel: number) => zLayerConfigs[zLevel]?.verticalOffset ?? 0;
+
+    IsometricRenderingUtils.renderIsometricDiamondBatchWithZOffset(
+      this.ghostGraphics,
+      placement.tiles.map(tile => ({ x: tile.position[0], y: tile.position[1], zOffset: getZOffset(tile.z_level) })),
+      this.engine,
+      { color: PASTE_GHOST_COLOR, alpha: 0.35 },
+      { color: PASTE_GHOST_COLOR, width: GRID_STROKE_WIDTH, alpha: 0.9 }
+    );
+
+    IsometricRenderingUtils.renderWallEdgeBatchWithZOffset(
+      this.ghostGraphics,
+      placement.walls.map(wall => ({ x: wall.position[0], y: wall.position[1], direction: wall.wall_direction, zOffset: getZOffset(wall.z_level) })),
+      this.engine,
+      { color: PASTE_GHOST_COLOR, width: 4, alpha: 0.9 }
+    );
+
+    this.logRenderSummary(`paste ghost: ${placement.tiles.length} tiles, ${placement.walls.length} walls`);
+  }
+
+  destroy(): void {
+    this.destroyGraphics(this.selectionGraphics);
+    this.destroyGraphics(this.ghostGraphics);
+    super.destroy();
+  }
+}
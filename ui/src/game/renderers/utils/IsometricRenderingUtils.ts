@@ -1,12 +1,16 @@
 import { Graphics } from 'pixi.js';
-import { battlemapStore, battlemapActions } from '../../../store';
+import { battlemapStore, battlemapActions, Z_LAYER_CONFIG } from '../../../store';
 import { LayerName } from '../../BattlemapEngine';
 import { ENTITY_PANEL_WIDTH, GRID_STROKE_WIDTH } from '../../../constants/layout';
+import { IsometricDirection } from '../../managers/IsometricSpriteManager';
+import { TileSummary } from '../../../types/battlemap_types';
 import { 
   gridToIsometric, 
   calculateIsometricGridOffset,
   calculateIsometricDiamondCorners,
-  screenToGrid
+  screenToGrid,
+  screenToGridVertex,
+  toViewDirection
 } from '../../../utils/isometricUtils';
 
 /**
@@ -78,6 +82,34 @@ export class IsometricRenderingUtils {
     );
   }
   
+  /**
+   * Convert screen pixel coordinates to the nearest grid vertex (for edge-based wall tools)
+   * Z-layer aware in the same way as screenToGrid
+   */
+  static screenToGridVertex(
+    screenX: number,
+    screenY: number,
+    engine: any
+  ): { vertexX: number; vertexY: number; inBounds: boolean } {
+    const snap = battlemapStore;
+    const { offsetX, offsetY, gridWidth, gridHeight } = 
+      this.calculateIsometricGridOffset(engine);
+    
+    const activeLayerConfig = battlemapActions.getActiveZLayerConfig();
+    const zLayerOffset = activeLayerConfig.verticalOffset * snap.view.zoomLevel;
+    
+    return screenToGridVertex(
+      screenX,
+      screenY + zLayerOffset,
+      offsetX,
+      offsetY,
+      snap.view.zoomLevel,
+      gridWidth,
+      gridHeight,
+      snap.view.gridDiamondWidth
+    );
+  }
+  
   /**
    * Render an isometric diamond at grid coordinates
    * Common pattern used by grid and tile renderers
@@ -193,6 +225,68 @@ export class IsometricRenderingUtils {
     });
   }
   
+  /**
+   * Render cell edges (wall positions) as lines along the diamond sides, with Z-offset support
+   * Sides match the wall renderer: NORTH = top-left, EAST = top-right, SOUTH = bottom-right, WEST = bottom-left
+   * (before camera rotation - edges are given in grid terms and drawn on the side they show as)
+   */
+  static renderWallEdgeBatchWithZOffset(
+    graphics: Graphics,
+    edges: Array<{ x: number; y: number; direction: IsometricDirection; zOffset: number }>,
+    engine: any,
+    strokeOptions: { color: number; width: number; alpha?: number }
+  ): void {
+    if (edges.length === 0) return;
+    
+    const snap = battlemapStore;
+    const { offsetX, offsetY, tileSize } = this.calculateIsometricGridOffset(engine);
+    const halfWidth = tileSize / 2;
+    const halfHeight = tileSize / 4;
+    
+    edges.forEach(({ x, y, direction, zOffset }) => {
+      const { isoX, isoY } = gridToIsometric(x, y, tileSize);
+      const centerX = offsetX + isoX;
+      const centerY = offsetY + isoY - (zOffset * snap.view.zoomLevel); // Apply Z offset with zoom scaling
+      
+      const top = { x: centerX, y: centerY - halfHeight };
+      const right = { x: centerX + halfWidth, y: centerY };
+      const bottom = { x: centerX, y: centerY + halfHeight };
+      const left = { x: centerX - halfWidth, y: centerY };
+      
+      const viewDirection = toViewDirection(direction);
+      const [from, to] = viewDirection === IsometricDirection.NORTH ? [left, top]
+        : viewDirection === IsometricDirection.EAST ? [top, right]
+        : viewDirection === IsometricDirection.SOUTH ? [right, bottom]
+        : [bottom, left];
+      
+      graphics.moveTo(from.x, from.y).lineTo(to.x, to.y);
+    });
+    
+    graphics.stroke({ 
+      color: strokeOptions.color, 
+      width: strokeOptions.width,
+      alpha: strokeOptions.alpha || 1.0
+    });
+  }
+  
+  /**
+   * Get color for tile based on type - simplified for local editor
+   * Used for tiles without sprites and for the minimap
+   */
+  static getTileColor(tile: TileSummary): number {
+    // Color based on tile type
+    switch (tile.tile_type) {
+      case 'floor':
+        return 0xD4A574; // Light brown
+      case 'wall':
+        return 0x666666; // Gray
+      case 'decoration':
+        return 0x7ED321; // Green
+      default:
+        return tile.walkable ? 0x7ED321 : 0x666666;
+    }
+  }
+  
   /**
    * Check if a grid position is valid within bounds
    */
@@ -200,4 +294,19 @@ export class IsometricRenderingUtils {
     const snap = battlemapStore;
     return gridX >= 0 && gridY >= 0 && gridX < snap.grid.width && gridY < snap.grid.height;
   }
+  
+  /**
+   * Z level something at a (possibly fractional) grid position stands on:
+   * the highest tile of its cell, or Z0 when the cell is empty
+   */
+  static getStandingZLevel(gridX: number, gridY: number): number {
+    const cellX = Math.round(gridX);
+    const cellY = Math.round(gridY);
+    for (let z = Z_LAYER_CONFIG.maxLayers - 1; z > 0; z--) {
+      if (battlemapStore.grid.tiles[`${cellX},${cellY},${z}`]) {
+        return z;
+      }
+    }
+    return 0;
+  }
 } 
\ No newline at end of file
@@ -66,6 +66,7 @@ export class StoreChangeDetectionUtils {
       
       const mappingHash = JSON.stringify({
         spriteFolder: mapping.spriteFolder,
+        idleAnimation: mapping.idleAnimation,
         currentAnimation: mapping.currentAnimation,
         // Only include direction when NOT moving to prevent feedback loops
         currentDirection: isMoving ? 'MOVING' : mapping.currentDirection,
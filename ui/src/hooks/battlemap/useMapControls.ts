@@ -1,10 +1,9 @@
 import { useCallback } from 'react';
 import { useSnapshot } from 'valtio';
-import { battlemapStore, battlemapActions } from '../../store/battlemapStore';
+import { battlemapStore, battlemapActions, MIN_ZOOM, MAX_ZOOM } from '../../store/battlemapStore';
+import { cameraController } from '../../game/CameraController';
 
-// Constants for zoom
-const MIN_ZOOM = 0.1;
-const MAX_ZOOM = 5.0;
+// Zoom button step
 const ZOOM_STEP = 0.2;
 
 /**
@@ -37,28 +36,28 @@ export const useMapControls = () => {
    * Zoom in (increase zoom level)
    */
   const zoomIn = useCallback(() => {
-    const currentZoom = zoomLevel;
+    // Step from where an ongoing zoom is heading so quick clicks add up
+    const currentZoom = cameraController.getTargetZoom();
     const newZoom = Math.min(currentZoom + ZOOM_STEP, MAX_ZOOM);
-    battlemapActions.setZoomLevel(newZoom);
-  }, [zoomLevel]);
+    cameraController.zoomTo(newZoom);
+  }, []);
   
   /**
    * Zoom out (decrease zoom level)
    */
   const zoomOut = useCallback(() => {
-    const currentZoom = zoomLevel;
+    const currentZoom = cameraController.getTargetZoom();
     const newZoom = Math.max(currentZoom - ZOOM_STEP, MIN_ZOOM);
-    battlemapActions.setZoomLevel(newZoom);
-  }, [zoomLevel]);
+    cameraController.zoomTo(newZoom);
+  }, []);
   
   /**
    * Reset view to default (reset zoom and offset)
    */
   const resetView = useCallback(() => {
-    battlemapActions.setZoomLevel(1.0); // Reset to 1x zoom
-    battlemapActions.setOffset(0, 0);
     battlemapActions.setGridDiamondWidth(400); // Updated to match default value
     battlemapActions.setSpriteScale(1.0); // Updated to match default value
+    cameraController.resetCamera(); // Eases back to 1x zoom and no offset
   }, []);
   
   /**
@@ -0,0 +1,192 @@
+import { entityStore, entityActions, effectActions } from '../store';
+import { soundActions } from '../store/soundStore';
+import { AnimationState, AttackResponse, EffectType, toVisualPosition } from '../types/battlemap_types';
+import { UUID } from '../types/common';
+import { getDirectionFromDelta } from '../utils/entityMovementUtils';
+import { cameraController } from '../game/CameraController';
+import { IsometricRenderingUtils } from '../game/renderers/utils/IsometricRenderingUtils';
+
+// The weapon connects this far into the attacker's animation
+const IMPACT_FRACTION = 0.5;
+const DEFAULT_ANIMATION_DURATION_SECONDS = 1.0;
+
+// Floating text colors
+const DAMAGE_COLOR = 0xFF4444;
+const CRIT_COLOR = 0xFF9800;
+const MISS_COLOR = 0xB0B0B0;
+const TOOLTIP_COLOR = 0xFFFFFF;
+
+type AttackOutcome = 'Hit' | 'Miss' | 'Crit';
+
+// Optional overrides when the response alone doesn't identify the combatants
+export interface PlayAttackOptions {
+  attackerId?: UUID;
+  targetId?: UUID;
+  defenderHpBefore?: number; // Defender's HP when the attack was made (default: when it was queued)
+  defenderHpAfter?: number; // Defaults to event.target_hp_after, else defenderHpBefore minus total_damage
+}
+
+/**
+ * Service that plays an AttackResponse on the battlemap:
+ * both combatants face each other, the attacker swings, and at the impact frame the
+ * sound plays, the defender reacts (TAKE_DAMAGE or DIE, with blood) or sparks fly on a miss,
+ * and a damage number plus a roll breakdown float over the defender.
+ * Attacks are queued so rapid responses play one after another
+ */
+class AttackSequencerImpl {
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Queue an attack for playback
+   * @returns Resolves once the attacker's animation has finished
+   */
+  playAttack(response: AttackResponse, options: PlayAttackOptions = {}): Promise<void> {
+    // Entity refreshes may land before playback gets to this attack, so note the HP it started from now
+    const { targetId } = this.resolveCombatants(response, options);
+    const defenderHpBefore = options.defenderHpBefore ?? (targetId ? entityStore.entities[targetId]?.current_hp : undefined);
+
+    this.queue = this.queue
+      .then(() => this.runAttack(response, { ...options, defenderHpBefore }))
+      .catch(error => console.error('[AttackSequencer] Attack playback failed:', error));
+    return this.queue;
+  }
+
+  private resolveCombatants(response: AttackResponse, options: PlayAttackOptions): { attackerId?: UUID; targetId?: UUID } {
+    const attackerId: UUID | undefined = options.attackerId ?? response.event?.source_entity_uuid;
+    const attacker = attackerId ? entityStore.entities[attackerId] : undefined;
+    const targetId: UUID | undefined = options.targetId ?? response.event?.target_entity_uuid ?? attacker?.target_entity_uuid;
+    return { attackerId, targetId };
+  }
+
+  private async runAttack(response: AttackResponse, options: PlayAttackOptions): Promise<void> {
+    const { attackerId, targetId } = this.resolveCombatants(response, options);
+    const attacker = attackerId ? entityStore.entities[attackerId] : undefined;
+    const defender = targetId ? entityStore.entities[targetId] : undefined;
+
+    if (!attacker || !defender) {
+      console.warn(`[AttackSequencer] Unknown attacker or target (${attackerId} -> ${targetId}), skipping playback`);
+      return;
+    }
+
+    const metadata = response.metadata;
+    const outcome = this.normalizeOutcome(metadata.attack_outcome);
+
+    // Bring the fight into view if it's off screen
+    const midX = (attacker.position[0] + defender.position[0]) / 2;
+    const midY = (attacker.position[1] + defender.position[1]) / 2;
+    const defenderZ = IsometricRenderingUtils.getStandingZLevel(defender.position[0], defender.position[1]);
+    cameraController.focusCamera(midX, midY, defenderZ, { onlyIfOffscreen: true });
+
+    // Face each other
+    const dx = defender.position[0] - attacker.position[0];
+    const dy = defender.position[1] - attacker.position[1];
+    const attackerFacing = getDirectionFromDelta(dx, dy);
+    const defenderFacing = getDirectionFromDelta(-dx, -dy);
+    if (attackerFacing) entityActions.setEntityDirection(attacker.uuid, attackerFacing);
+    if (defenderFacing) entityActions.setEntityDirection(defender.uuid, defenderFacing);
+
+    const attackAnimation = outcome === 'Crit'
+      ? AnimationState.ATTACK3
+      : (Math.random() < 0.5 ? AnimationState.ATTACK1 : AnimationState.ATTACK2);
+    entityActions.setEntityAnimation(attacker.uuid, attackAnimation);
+    console.log(`[AttackSequencer] ${attacker.name} -> ${defender.name}: ${outcome}`);
+
+    const durationMs = (entityStore.spriteMappings[attacker.uuid]?.animationDurationSeconds ?? DEFAULT_ANIMATION_DURATION_SECONDS) * 1000;
+    await this.wait(durationMs * IMPACT_FRACTION);
+
+    this.playImpact(response, outcome, attacker.position, defender.uuid, this.getDefenderHpAfter(response, options));
+
+    await this.wait(durationMs * (1 - IMPACT_FRACTION));
+  }
+
+  /**
+   * Sound, defender reaction, effects and floating text at the moment the weapon connects
+   */
+  private playImpact(
+    response: AttackResponse,
+    outcome: AttackOutcome,
+    attackerPosition: readonly [number, number],
+    defenderId: UUID,
+    defenderHpAfter?: number
+  ): void {
+    const metadata = response.metadata;
+    // The defender may have moved or left while the attacker was swinging
+    const defender = entityStore.entities[defenderId];
+    if (!defender) return;
+    const defenderPosition = toVisualPosition(defender.position);
+
+    soundActions.playAttackSound(outcome);
+
+    if (outcome === 'Miss') {
+      effectActions.spawnTemporaryEffect(EffectType.SPARKS, defenderPosition, { layerHint: 'above' });
+      effectActions.spawnFloatingText('Miss', defenderPosition, { color: MISS_COLOR, entityId: defenderId });
+    } else {
+      const damage = metadata.total_damage ?? 0;
+      // current_hp may or may not include this hit yet, so it is only a last resort
+      const hpAfter = defenderHpAfter ?? defender.current_hp;
+
+      effectActions.spawnBloodSplat(attackerPosition, defender.position);
+      entityActions.setEntityAnimation(defenderId, hpAfter <= 0 ? AnimationState.DIE : AnimationState.TAKE_DAMAGE);
+      effectActions.spawnFloatingText(outcome === 'Crit' ? `${damage}!` : `${damage}`, defenderPosition, {
+        color: outcome === 'Crit' ? CRIT_COLOR : DAMAGE_COLOR,
+        scale: outcome === 'Crit' ? 1.5 : 1.0,
+        entityId: defenderId
+      });
+    }
+
+    const breakdown = this.formatRollBreakdown(response, outcome);
+    if (breakdown) {
+      effectActions.spawnFloatingText(breakdown, defenderPosition, { kind: 'tooltip', color: TOOLTIP_COLOR, entityId: defenderId });
+    }
+  }
+
+  /**
+   * Defender's HP once this attack has landed: from the options or the event, else worked out from the HP it started with
+   */
+  private getDefenderHpAfter(response: AttackResponse, options: PlayAttackOptions): number | undefined {
+    if (options.defenderHpAfter !== undefined) return options.defenderHpAfter;
+    if (typeof response.event?.target_hp_after === 'number') return response.event.target_hp_after;
+    if (options.defenderHpBefore === undefined) return undefined;
+    return Math.max(0, options.defenderHpBefore - (response.metadata.total_damage ?? 0));
+  }
+
+  /**
+   * e.g. "d20 14 → 19 vs AC 15 · HIT" and "6 + 3 = 9 slashing" on a second line
+   */
+  private formatRollBreakdown(response: AttackResponse, outcome: AttackOutcome): string | null {
+    const metadata = response.metadata;
+    const lines: string[] = [];
+
+    if (metadata.attack_roll !== undefined) {
+      let line = `d20 ${metadata.attack_roll}`;
+      if (metadata.attack_total !== undefined) line += ` → ${metadata.attack_total}`;
+      if (metadata.target_ac !== undefined) line += ` vs AC ${metadata.target_ac}`;
+      lines.push(`${line} · ${outcome.toUpperCase()}`);
+    }
+
+    if (outcome !== 'Miss' && metadata.total_damage !== undefined) {
+      const rolls = metadata.damage_rolls ?? [];
+      const types = metadata.damage_types?.length ? ` ${metadata.damage_types.join('/')}` : '';
+      lines.push(rolls.length > 1
+        ? `${rolls.join(' + ')} = ${metadata.total_damage}${types}`
+        : `${metadata.total_damage}${types}`);
+    }
+
+    return lines.length > 0 ? lines.join('\n') : null;
+  }
+
+  // Backend outcomes vary in case and wording ("Critical Hit", "MISS", ...)
+  private normalizeOutcome(attackOutcome?: string): AttackOutcome {
+    const normalized = (attackOutcome ?? '').toLowerCase();
+    if (normalized.includes('crit')) return 'Crit';
+    if (normalized.includes('miss')) return 'Miss';
+    return 'Hit';
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+// Export singleton instance
+export const attackSequencer = new AttackSequencerImpl();
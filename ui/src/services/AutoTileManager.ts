@@ -0,0 +1,127 @@
+import { AutoTileRule, AutoTileRuleSet, TileSummary } from '../types/battlemap_types';
+import { battlemapStore, battlemapActions } from '../store';
+import { expandAutoTileRules, getAutoTileNeighbors, evaluateAutoTile, AUTO_TILE_NEIGHBOR_OFFSETS } from '../utils/autoTileUtils';
+import { GridCell } from '../utils/paintToolUtils';
+
+interface LoadedRuleSet {
+  ruleSet: AutoTileRuleSet;
+  rules: AutoTileRule[]; // Expanded (rotations flattened)
+  members: Set<string>;
+}
+
+/**
+ * Service that applies per-family auto-tiling rules after tiles are painted or erased
+ * Rule sets live next to the sprite configs in /public/isometric_tiles/configs/autotile
+ */
+class AutoTileManagerImpl {
+  private ruleSets: LoadedRuleSet[] = [];
+  private ruleSetBySprite = new Map<string, LoadedRuleSet>();
+  private loaded = false;
+
+  /**
+   * Load (or reload) every auto-tile rule set from the dev server
+   */
+  async loadRules(): Promise<number> {
+    try {
+      const response = await fetch('/api/sprite-config/autotile-rules');
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      this.setRuleSets(result.ruleSets as AutoTileRuleSet[]);
+      console.log(`[AutoTileManager] Loaded ${this.ruleSets.length} rule sets`);
+      return this.ruleSets.length;
+    } catch (error) {
+      console.error('[AutoTileManager] Failed to load auto-tile rules:', error);
+      battlemapActions.setError('Failed to load auto-tile rules');
+      return 0;
+    }
+  }
+
+  /**
+   * Replace the active rule sets (a sprite belongs to the first family that lists it)
+   */
+  setRuleSets(ruleSets: AutoTileRuleSet[]): void {
+    this.ruleSets = ruleSets
+      .filter(ruleSet => Array.isArray(ruleSet.members) && Array.isArray(ruleSet.rules))
+      .map(ruleSet => ({ ruleSet, rules: expandAutoTileRules(ruleSet), members: new Set(ruleSet.members) }));
+
+    this.ruleSetBySprite.clear();
+    this.ruleSets.forEach(loaded => {
+      loaded.members.forEach(sprite => {
+        if (!this.ruleSetBySprite.has(sprite)) {
+          this.ruleSetBySprite.set(sprite, loaded);
+        }
+      });
+    });
+    this.loaded = true;
+  }
+
+  async ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      await this.loadRules();
+    }
+  }
+
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  getRuleSetForSprite(spriteName: string | null): AutoTileRuleSet | null {
+    if (!spriteName) return null;
+    return this.ruleSetBySprite.get(spriteName)?.ruleSet ?? null;
+  }
+
+  /**
+   * Re-evaluate the changed cells and their 8 neighbours on one Z level
+   * Writes through battlemapActions, so the updates join the caller's history transaction
+   * @returns Number of tiles that changed sprite or direction
+   */
+  applyAround(cells: GridCell[], z: number): number {
+    if (this.ruleSets.length === 0 || cells.length === 0) return 0;
+
+    const tiles = battlemapStore.grid.tiles;
+    const getTile = (x: number, y: number): TileSummary | undefined => tiles[`${x},${y},${z}`];
+
+    // Changed cells plus every neighbour (erasing a tile changes its neighbours' masks too)
+    const affected = new Map<string, GridCell>();
+    cells.forEach(cell => {
+      affected.set(`${cell.x},${cell.y}`, cell);
+      Object.values(AUTO_TILE_NEIGHBOR_OFFSETS).forEach(offset => {
+        const x = cell.x + offset.x;
+        const y = cell.y + offset.y;
+        affected.set(`${x},${y}`, { x, y });
+      });
+    });
+
+    // Evaluate against the grid as it is now, then write all updates in one batch
+    const updates: TileSummary[] = [];
+    affected.forEach(({ x, y }) => {
+      const tile = getTile(x, y);
+      const loaded = tile?.sprite_name ? this.ruleSetBySprite.get(tile.sprite_name) : undefined;
+      if (!tile || !loaded) return;
+
+      const isFamilyMember = (nx: number, ny: number) => {
+        const neighbor = getTile(nx, ny);
+        return !!neighbor?.sprite_name && loaded.members.has(neighbor.sprite_name);
+      };
+      const neighbors = getAutoTileNeighbors(x, y, loaded.ruleSet.neighborMode, isFamilyMember);
+      const result = evaluateAutoTile(loaded.ruleSet, loaded.rules, neighbors);
+
+      if (result && (result.sprite !== tile.sprite_name || result.direction !== tile.sprite_direction)) {
+        updates.push({ ...tile, sprite_name: result.sprite, sprite_direction: result.direction });
+      }
+    });
+
+    if (updates.length > 0) {
+      console.log(`[AutoTileManager] Updated ${updates.length} tiles on Z${z}`);
+      battlemapActions.addIsometricTiles(updates, 'Auto-tile');
+    }
+    return updates.length;
+  }
+}
+
+// Export singleton instance
+export const autoTileManager = new AutoTileManagerImpl();
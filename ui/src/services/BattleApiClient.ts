@@ -0,0 +1,148 @@
+import axios, { AxiosInstance } from 'axios';
+import { battlemapActions, entityStore, entityActions } from '../store';
+import { attackSequencer } from './AttackSequencer';
+import { AttackResponse, GridSnapshot, MovementResponse } from '../types/battlemap_types';
+import { EntitySummary, Position, SensesSnapshot, UUID } from '../types/common';
+
+// Requests go to /api and reach the backend through the dev server proxy (localhost:8000)
+const API_BASE_URL = '/api';
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Typed client for the battle backend
+ *
+ * Contract (also implemented by mock-server/battleMockServer.js):
+ *   GET  /api/grid                      -> GridSnapshot
+ *   GET  /api/entities                  -> EntitySummary[]
+ *   GET  /api/entities/{uuid}           -> EntitySummary
+ *   GET  /api/entities/{uuid}/senses    -> SensesSnapshot
+ *   POST /api/entities/{uuid}/move      { position: [x, y], include_path_senses } -> MovementResponse
+ *   POST /api/entities/{uuid}/attack    { target_uuid, weapon_slot }             -> AttackResponse
+ * Errors come back as { detail: string } (or a list of validation errors with msg fields)
+ *
+ * The loading flag stays set while any call is in flight; every call reports failures through battlemapActions.setError,
+ * resolving to null instead of throwing
+ */
+class BattleApiClientImpl {
+  private http: AxiosInstance = axios.create({
+    baseURL: API_BASE_URL,
+    timeout: REQUEST_TIMEOUT_MS,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+  // Requests in flight (loading is cleared only when the last one settles)
+  private pendingRequests = 0;
+
+  async getGrid(): Promise<GridSnapshot | null> {
+    return this.request('fetch grid', () => this.http.get<GridSnapshot>('/grid'));
+  }
+
+  async getEntities(): Promise<EntitySummary[] | null> {
+    return this.request('fetch entities', () => this.http.get<EntitySummary[]>('/entities'));
+  }
+
+  async getEntity(entityId: UUID): Promise<EntitySummary | null> {
+    return this.request(`fetch entity ${entityId}`, () => this.http.get<EntitySummary>(`/entities/${encodeURIComponent(entityId)}`));
+  }
+
+  async getSenses(entityId: UUID): Promise<SensesSnapshot | null> {
+    return this.request(`fetch senses of ${entityId}`, () => this.http.get<SensesSnapshot>(`/entities/${encodeURIComponent(entityId)}/senses`));
+  }
+
+  /**
+   * Ask the backend to move an entity; path_senses holds the senses at every step of the path
+   */
+  async moveEntity(entityId: UUID, position: Position, includePathSenses: boolean = true): Promise<MovementResponse | null> {
+    return this.request(`move ${entityId}`, () => this.http.post<MovementResponse>(
+      `/entities/${encodeURIComponent(entityId)}/move`,
+      { position, include_path_senses: includePathSenses }
+    ));
+  }
+
+  /**
+   * Make an attack and queue its playback (the returned promise doesn't wait for the animation)
+   */
+  async attack(attackerId: UUID, targetId: UUID, weaponSlot: string = 'MAIN_HAND'): Promise<AttackResponse | null> {
+    // The backend may push the defender's lowered HP before the response arrives
+    const defenderHpBefore = entityStore.entities[targetId]?.current_hp;
+
+    const response = await this.request(`attack with ${attackerId}`, () => this.http.post<AttackResponse>(
+      `/entities/${encodeURIComponent(attackerId)}/attack`,
+      { target_uuid: targetId, weapon_slot: weaponSlot }
+    ));
+    if (response) {
+      attackSequencer.playAttack(response, { attackerId, targetId, defenderHpBefore });
+    }
+    return response;
+  }
+
+  /**
+   * Fetch the grid and replace the battlemap with it
+   */
+  async loadGrid(): Promise<boolean> {
+    const grid = await this.getGrid();
+    if (!grid) return false;
+    battlemapActions.applyGridSnapshot(grid);
+    return true;
+  }
+
+  /**
+   * Fetch every entity and replace the entity store contents
+   */
+  async loadEntities(): Promise<boolean> {
+    const entities = await this.getEntities();
+    if (!entities) return false;
+    entityActions.setEntities(entities);
+    return true;
+  }
+
+  /**
+   * Run a request with loading/error reporting; resolves to the response body or null on failure
+   */
+  private async request<T>(label: string, send: () => Promise<{ data: T }>): Promise<T | null> {
+    this.pendingRequests++;
+    battlemapActions.setLoading(true);
+    try {
+      const response = await send();
+      battlemapActions.setError(null);
+      return response.data;
+    } catch (error) {
+      const message = this.describeError(error);
+      console.error(`[BattleApiClient] Failed to ${label}: ${message}`, error);
+      battlemapActions.setError(`Failed to ${label}: ${message}`);
+      return null;
+    } finally {
+      this.pendingRequests--;
+      if (this.pendingRequests === 0) {
+        battlemapActions.setLoading(false);
+      }
+    }
+  }
+
+  /**
+   * Human readable reason for a failed request
+   */
+  private describeError(error: unknown): string {
+    if (!axios.isAxiosError(error)) {
+      return error instanceof Error ? error.message : String(error);
+    }
+    if (error.code === 'ECONNABORTED') {
+      return 'request timed out';
+    }
+    if (!error.response) {
+      return 'battle server unreachable';
+    }
+
+    const detail = (error.response.data as { detail?: unknown } | undefined)?.detail;
+    if (typeof detail === 'string') {
+      return detail;
+    }
+    if (Array.isArray(detail)) {
+      return detail.map(item => item?.msg ?? String(item)).join('; ');
+    }
+    return `HTTP ${error.response.status}`;
+  }
+}
+
+// Export singleton instance
+export const battleApiClient = new BattleApiClientImpl();
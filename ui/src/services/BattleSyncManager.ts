@@ -0,0 +1,334 @@
+import { subscribe } from 'valtio';
+import {
+  battlemapStore,
+  battlemapActions,
+  entityStore,
+  entityActions,
+  syncStore,
+  syncActions
+} from '../store';
+import { SyncClientMessage, SyncDiff, SyncServerMessage } from '../types/battlemap_types';
+
+type SyncCollection = 'tiles' | 'walls' | 'entities';
+
+const SYNC_COLLECTIONS: SyncCollection[] = ['tiles', 'walls', 'entities'];
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 10000;
+
+// Valtio subscribe operations: [op, path, ...values]
+type StoreOp = [string, (string | symbol)[], ...unknown[]];
+
+/**
+ * Service that keeps grid tiles/walls and entity summaries in sync with other clients over a WebSocket
+ *
+ * Every connect (including reconnects) starts with a full snapshot from the server, so edits made
+ * while disconnected are replaced by the server state. After that the server streams numbered diffs:
+ * stale ones (seq <= last applied) are dropped and a gap triggers a resync. Resyncs and reconnects keep
+ * the undo history, minus the steps whose keys the snapshot overwrote.
+ * Local changes are picked up from the stores and sent as edits; the last value exchanged with the
+ * server is remembered per key so remote changes are never echoed back.
+ * Every diff is applied in seq order, the echoes of our own edits included, so all clients end up
+ * with the server's order of concurrent edits to a key. Only the keys that differ from the stores are
+ * written, and an echo is skipped for keys we have edited again since (the newer echo follows).
+ */
+class BattleSyncManagerImpl {
+  private socket: WebSocket | null = null;
+  private clientId = `client_${Math.random().toString(36).slice(2, 10)}`;
+  private lastSeq = 0;
+  private hasSnapshot = false;
+  private hasSessionSnapshot = false; // Set by the first snapshot after connect(); later ones are resyncs
+
+  private shouldReconnect = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: number | null = null;
+
+  // JSON of the last value known to match the server, per collection and key
+  private synced: Record<SyncCollection, Map<string, string>> = {
+    tiles: new Map(),
+    walls: new Map(),
+    entities: new Map()
+  };
+  // Our edits per collection and key that the server hasn't echoed back yet
+  private pendingEdits: Record<SyncCollection, Map<string, number>> = {
+    tiles: new Map(),
+    walls: new Map(),
+    entities: new Map()
+  };
+  private unsubscribers: Array<() => void> = [];
+
+  /**
+   * Connect (or reconnect to a different server); keeps retrying until disconnect() is called
+   */
+  connect(url: string = syncStore.url): void {
+    this.disconnect();
+    syncActions.setUrl(url);
+    this.shouldReconnect = true;
+    this.watchLocalChanges();
+    this.openSocket();
+  }
+
+  disconnect(): void {
+    this.shouldReconnect = false;
+    if (this.reconnectTimer !== null) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.onclose = null;
+      socket.close();
+      console.log('[BattleSyncManager] Disconnected');
+    }
+    this.hasSnapshot = false;
+    this.hasSessionSnapshot = false;
+    syncActions.setStatus('disconnected');
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN && this.hasSnapshot;
+  }
+
+  private openSocket(): void {
+    const url = syncStore.url;
+    syncActions.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      console.error(`[BattleSyncManager] Invalid sync URL ${url}:`, error);
+      syncActions.setLastError(`Invalid sync URL ${url}`);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      console.log(`[BattleSyncManager] Connected to ${url}, requesting snapshot`);
+      this.reconnectAttempts = 0;
+      syncActions.setLastError(null);
+      this.send({ type: 'hello', clientId: this.clientId, lastSeq: this.lastSeq });
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      try {
+        this.handleMessage(JSON.parse(event.data) as SyncServerMessage);
+      } catch (error) {
+        console.error('[BattleSyncManager] Bad message from server:', error);
+      }
+    };
+
+    socket.onerror = () => {
+      syncActions.setLastError(`Cannot reach ${url}`);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.hasSnapshot = false;
+      console.warn('[BattleSyncManager] Connection closed');
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.shouldReconnect) {
+      syncActions.setStatus('disconnected');
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    syncActions.setStatus('reconnecting');
+    console.log(`[BattleSyncManager] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  private handleMessage(message: SyncServerMessage): void {
+    if (message.type === 'snapshot') {
+      this.applySnapshot(message);
+      return;
+    }
+
+    // Diffs only make sense on top of a snapshot
+    if (!this.hasSnapshot) return;
+
+    if (message.seq <= this.lastSeq) {
+      console.log(`[BattleSyncManager] Dropping stale diff #${message.seq} (at #${this.lastSeq})`);
+      return;
+    }
+    if (message.seq > this.lastSeq + 1) {
+      console.warn(`[BattleSyncManager] Missed diffs #${this.lastSeq + 1}-${message.seq - 1}, requesting resync`);
+      this.hasSnapshot = false;
+      this.send({ type: 'resync', clientId: this.clientId });
+      return;
+    }
+
+    // Our own edits come back too: by now the server may have ordered someone else's edit of a key before ours
+    this.applyDiff(message.diff, message.origin === this.clientId);
+    this.setLastSeq(message.seq);
+  }
+
+  private applySnapshot(message: Extract<SyncServerMessage, { type: 'snapshot' }>): void {
+    SYNC_COLLECTIONS.forEach(collection => {
+      this.synced[collection].clear();
+      this.pendingEdits[collection].clear();
+    });
+    Object.entries(message.grid.tiles).forEach(([key, tile]) => this.synced.tiles.set(key, JSON.stringify(tile)));
+    Object.entries(message.grid.walls ?? {}).forEach(([key, wall]) => this.synced.walls.set(key, JSON.stringify(wall)));
+    message.entities.forEach(entity => this.synced.entities.set(entity.uuid, JSON.stringify(entity)));
+
+    // A resync of the same map keeps the user's undo history (minus the steps the snapshot overwrote)
+    const isResync = this.hasSessionSnapshot &&
+      message.grid.width === battlemapStore.grid.width && message.grid.height === battlemapStore.grid.height;
+    battlemapActions.applyGridSnapshot(message.grid, isResync);
+    this.hasSessionSnapshot = true;
+    entityActions.setEntities([...message.entities]);
+
+    this.hasSnapshot = true;
+    this.setLastSeq(message.seq);
+    syncActions.setStatus('connected');
+    console.log(`[BattleSyncManager] Applied snapshot #${message.seq}: ${Object.keys(message.grid.tiles).length} tiles, ${message.entities.length} entities`);
+  }
+
+  private applyDiff(diff: SyncDiff, isOwnEdit: boolean): void {
+    const current: Record<SyncCollection, Record<string, unknown>> = {
+      tiles: battlemapStore.grid.tiles,
+      walls: battlemapStore.grid.walls,
+      entities: entityStore.entities
+    };
+
+    // Keep only the keys whose value differs from the stores
+    const changes: Record<string, Record<string, unknown>> = {};
+    SYNC_COLLECTIONS.forEach(collection => {
+      Object.entries(diff[collection] ?? {}).forEach(([key, value]) => {
+        if (isOwnEdit && this.settlePendingEdit(collection, key)) return;
+
+        const json = value ? JSON.stringify(value) : null;
+        if (json) {
+          this.synced[collection].set(key, json);
+        } else {
+          this.synced[collection].delete(key);
+        }
+
+        const currentValue = current[collection][key];
+        if (json === (currentValue ? JSON.stringify(currentValue) : null)) return;
+        changes[collection] = changes[collection] ?? {};
+        changes[collection][key] = value;
+      });
+    });
+
+    if (isOwnEdit && SYNC_COLLECTIONS.some(collection => changes[collection])) {
+      console.log('[BattleSyncManager] Echo of our edit differs from the stores, taking the server order');
+    }
+
+    const changedDiff = changes as SyncDiff;
+    if (changedDiff.tiles || changedDiff.walls) {
+      battlemapActions.applyGridDiff(changedDiff);
+    }
+    Object.entries(changedDiff.entities ?? {}).forEach(([entityId, entity]) => {
+      if (entity) {
+        entityActions.upsertEntity(entity);
+      } else {
+        entityActions.removeEntity(entityId);
+      }
+    });
+  }
+
+  /**
+   * Count off the echo of one of our edits
+   * @returns Whether a newer edit of ours to the key is still on its way (so this echo is already outdated)
+   */
+  private settlePendingEdit(collection: SyncCollection, key: string): boolean {
+    const pending = this.pendingEdits[collection];
+    const remaining = (pending.get(key) ?? 0) - 1;
+    if (remaining > 0) {
+      pending.set(key, remaining);
+      return true;
+    }
+    pending.delete(key);
+    return false;
+  }
+
+  /**
+   * Subscribe to the stores; changes are collected per key and sent as one edit per notification
+   */
+  private watchLocalChanges(): void {
+    this.unsubscribers.push(subscribe(battlemapStore.grid, (ops) => {
+      this.sendLocalChanges(ops as StoreOp[], {
+        tiles: battlemapStore.grid.tiles,
+        walls: battlemapStore.grid.walls
+      });
+    }));
+    this.unsubscribers.push(subscribe(entityStore, (ops) => {
+      this.sendLocalChanges(ops as StoreOp[], { entities: entityStore.entities });
+    }));
+  }
+
+  private sendLocalChanges(ops: StoreOp[], collections: Partial<Record<SyncCollection, Record<string, unknown>>>): void {
+    if (!this.isConnected()) return;
+
+    // Keys touched per collection; null = the whole collection was replaced
+    const touched = new Map<SyncCollection, Set<string> | null>();
+    ops.forEach(([, path]) => {
+      const collection = path[0] as SyncCollection;
+      if (!collections[collection]) return;
+      if (path.length < 2) {
+        touched.set(collection, null);
+      } else if (touched.get(collection) !== null) {
+        const keys = touched.get(collection) ?? new Set<string>();
+        keys.add(String(path[1]));
+        touched.set(collection, keys);
+      }
+    });
+
+    const diff: Record<string, Record<string, unknown>> = {};
+    let changeCount = 0;
+    touched.forEach((keys, collection) => {
+      const values = collections[collection]!;
+      const synced = this.synced[collection];
+      const candidates = keys ?? new Set([...Object.keys(values), ...Array.from(synced.keys())]);
+
+      candidates.forEach(key => {
+        const value = values[key];
+        const json = value ? JSON.stringify(value) : null;
+        if (json === (synced.get(key) ?? null)) return;
+
+        if (json) {
+          synced.set(key, json);
+        } else {
+          synced.delete(key);
+        }
+        diff[collection] = diff[collection] ?? {};
+        diff[collection][key] = value ? JSON.parse(json!) : null;
+        this.pendingEdits[collection].set(key, (this.pendingEdits[collection].get(key) ?? 0) + 1);
+        changeCount++;
+      });
+    });
+
+    if (changeCount > 0) {
+      this.send({ type: 'edit', clientId: this.clientId, diff: diff as SyncDiff });
+    }
+  }
+
+  private setLastSeq(seq: number): void {
+    this.lastSeq = seq;
+    syncActions.setLastSeq(seq);
+  }
+
+  private send(message: SyncClientMessage): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify(message));
+  }
+}
+
+// Export singleton instance
+export const battleSyncManager = new BattleSyncManagerImpl();
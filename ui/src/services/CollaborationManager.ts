@@ -0,0 +1,584 @@
+import { subscribe } from 'valtio';
+import {
+  battlemapStore,
+  battlemapActions,
+  historyActions,
+  selectionStore,
+  selectionActions,
+  collabStore,
+  collabActions
+} from '../store';
+import {
+  CollabClientMessage,
+  CollabOp,
+  CollabPresence,
+  CollabRegion,
+  CollabServerMessage,
+  CollabStamp,
+  SyncDiff,
+  TileSummary,
+  WallSummary
+} from '../types/battlemap_types';
+import {
+  MultiValueRegister,
+  applyOpToRegister,
+  createRegister,
+  getConflictingValues,
+  getOpCell,
+  getRegisterWinner,
+  getStampId,
+  isCellInRegion,
+  regionsEqual
+} from '../utils/crdtUtils';
+
+type CollabCollection = CollabOp['collection'];
+
+const COLLAB_COLLECTIONS: CollabCollection[] = ['tiles', 'walls'];
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 10000;
+const PRESENCE_THROTTLE_MS = 100;
+const LOCK_TTL_MS = 30000;
+const LOCK_RENEW_MS = 10000;
+
+// Valtio subscribe operations: [op, path, ...values]
+type StoreOp = [string, (string | symbol)[], ...unknown[]];
+
+/**
+ * Service for editing one map together with other DMs through a relay
+ *
+ * Every tile and wall key is a multi-value register of ops stamped with (lamport, clientId): an edit
+ * replaces the values we had seen, so all replicas converge whatever order edits arrive in. Edits of
+ * the same key made without seeing each other all survive as a conflict; the newest is shown and the
+ * conflict is listed until a user picks a value. The first user to join seeds the session with their
+ * map; later users adopt it. Edits made while the relay is unreachable are merged on reconnect.
+ *
+ * Selecting a region takes a soft lock on it: other clients refuse (revert, and drop from history)
+ * local edits inside it until the selection is cleared or the lease runs out. Cursors (hovered cell + active Z layer)
+ * are shared as presence.
+ */
+class CollaborationManagerImpl {
+  private socket: WebSocket | null = null;
+  private clientId = `dm_${Math.random().toString(36).slice(2, 10)}`;
+  private lamport = 0;
+
+  // Valid once we've joined a session (kept across reconnects, cleared by disconnect())
+  private hasSession = false;
+  private registers: Record<CollabCollection, Map<string, MultiValueRegister>> = {
+    tiles: new Map(),
+    walls: new Map()
+  };
+  private pendingOps: CollabOp[] = []; // Local edits made while the relay was unreachable
+
+  private shouldReconnect = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: number | null = null;
+  private lockTimer: number | null = null;
+  private presenceTimer: number | null = null;
+  private lastPresenceJson = '';
+  private selectionLock: CollabRegion | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  /**
+   * Join the session on a relay; keeps retrying until disconnect() is called
+   */
+  connect(url: string = collabStore.url): void {
+    this.disconnect();
+    collabActions.setUrl(url);
+    this.shouldReconnect = true;
+    this.watchLocalChanges();
+    this.openSocket();
+  }
+
+  disconnect(): void {
+    this.shouldReconnect = false;
+    if (this.reconnectTimer !== null) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.lockTimer !== null) {
+      window.clearInterval(this.lockTimer);
+      this.lockTimer = null;
+    }
+    if (this.presenceTimer !== null) {
+      window.clearTimeout(this.presenceTimer);
+      this.presenceTimer = null;
+    }
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.onclose = null;
+      socket.close();
+      console.log('[CollaborationManager] Left the session');
+    }
+
+    this.hasSession = false;
+    COLLAB_COLLECTIONS.forEach(collection => this.registers[collection].clear());
+    this.pendingOps = [];
+    this.selectionLock = null;
+    this.lastPresenceJson = '';
+    collabActions.resetSession();
+    collabActions.clearConflicts();
+    collabActions.setClientId(null);
+    collabActions.setStatus('disconnected');
+  }
+
+  private isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  private openSocket(): void {
+    const url = collabStore.url;
+    collabActions.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      console.error(`[CollaborationManager] Invalid relay URL ${url}:`, error);
+      collabActions.setWarning(`Invalid relay URL ${url}`);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      console.log(`[CollaborationManager] Connected to ${url}, joining as ${collabStore.userName}`);
+      this.reconnectAttempts = 0;
+      this.send({
+        type: 'join',
+        user: { clientId: this.clientId, name: collabStore.userName, color: collabStore.userColor },
+        gridSize: { width: battlemapStore.grid.width, height: battlemapStore.grid.height }
+      });
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      try {
+        this.handleMessage(JSON.parse(event.data) as CollabServerMessage);
+      } catch (error) {
+        console.error('[CollaborationManager] Bad message from relay:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      console.warn('[CollaborationManager] Connection to relay closed');
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.shouldReconnect) {
+      collabActions.setStatus('disconnected');
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    collabActions.setStatus('reconnecting');
+
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  private handleMessage(message: CollabServerMessage): void {
+    switch (message.type) {
+      case 'welcome':
+        this.applyWelcome(message);
+        break;
+      case 'ops':
+        this.applyRemoteOps(message.ops);
+        break;
+      case 'join':
+        collabActions.upsertUser(message.user);
+        console.log(`[CollaborationManager] ${message.user.name} joined`);
+        break;
+      case 'leave':
+        collabActions.removeUser(message.clientId);
+        break;
+      case 'presence':
+        if (message.clientId !== this.clientId) {
+          collabActions.setPresence(message.clientId, message.presence);
+        }
+        break;
+      case 'lock':
+        collabActions.upsertLock(message.lock);
+        break;
+      case 'unlock':
+        collabActions.removeLock(message.lockId);
+        break;
+    }
+  }
+
+  /**
+   * First join: seed an empty session with our map, or adopt the session's map.
+   * Rejoin: merge the session with what we edited while away
+   */
+  private applyWelcome(message: Extract<CollabServerMessage, { type: 'welcome' }>): void {
+    const isFirstJoin = !this.hasSession;
+
+    if (isFirstJoin && message.ops.length === 0) {
+      const seedOps: CollabOp[] = [];
+      COLLAB_COLLECTIONS.forEach(collection => {
+        Object.entries(battlemapStore.grid[collection]).forEach(([key, value]) => {
+          seedOps.push(this.stampLocalOp(collection, key, JSON.stringify(value)));
+        });
+      });
+      this.pendingOps = seedOps;
+      console.log(`[CollaborationManager] Seeding the session with ${seedOps.length} tiles/walls`);
+    } else {
+      if (isFirstJoin) {
+        // Adopt: anything we have that the session doesn't is dropped
+        const diff: Record<CollabCollection, Record<string, TileSummary | WallSummary | null>> = { tiles: {}, walls: {} };
+        COLLAB_COLLECTIONS.forEach(collection => {
+          Object.keys(battlemapStore.grid[collection]).forEach(key => { diff[collection][key] = null; });
+        });
+        const changed: Record<CollabCollection, Set<string>> = { tiles: new Set(), walls: new Set() };
+        message.ops.forEach(op => {
+          this.lamport = Math.max(this.lamport, op.stamp.lamport);
+          if (this.applyOp(op)) changed[op.collection].add(op.key);
+        });
+        COLLAB_COLLECTIONS.forEach(collection => changed[collection].forEach(key => {
+          diff[collection][key] = getRegisterWinner(this.registers[collection].get(key))?.value ?? null;
+        }));
+
+        battlemapActions.setGridDimensions(message.gridSize.width, message.gridSize.height);
+        battlemapActions.applyGridDiff(diff as SyncDiff);
+        historyActions.clear();
+        this.refreshConflicts(changed);
+        console.log(`[CollaborationManager] Adopted the session map (${message.ops.length} values)`);
+      } else {
+        this.applyRemoteOps(message.ops);
+      }
+
+      // Offline edits nobody has replaced go out now
+      this.pendingOps = this.pendingOps.filter(op => {
+        const id = getStampId(op.stamp);
+        return this.registers[op.collection].get(op.key)?.values.some(value => getStampId(value.stamp) === id) ?? false;
+      });
+    }
+
+    this.hasSession = true;
+    collabActions.resetSession(
+      message.users.filter(user => user.clientId !== this.clientId),
+      message.presences,
+      [...message.locks]
+    );
+    collabActions.setClientId(this.clientId);
+    collabActions.setStatus('connected');
+
+    if (this.pendingOps.length > 0) {
+      this.send({ type: 'ops', ops: this.pendingOps });
+      this.pendingOps = [];
+    }
+    this.lastPresenceJson = '';
+    this.sendPresence();
+    this.selectionLock = null;
+    this.updateSelectionLock();
+  }
+
+  /**
+   * Merge remote ops into their registers and show each changed key's newest value
+   */
+  private applyRemoteOps(ops: ReadonlyArray<CollabOp>): void {
+    const changed: Record<CollabCollection, Set<string>> = { tiles: new Set(), walls: new Set() };
+    ops.forEach(op => {
+      this.lamport = Math.max(this.lamport, op.stamp.lamport);
+      if (this.applyOp(op)) changed[op.collection].add(op.key);
+    });
+
+    const diff: Partial<Record<CollabCollection, Record<string, TileSummary | WallSummary | null>>> = {};
+    COLLAB_COLLECTIONS.forEach(collection => {
+      const values = battlemapStore.grid[collection] as Record<string, TileSummary | WallSummary>;
+      changed[collection].forEach(key => {
+        const json = this.getRegisterJson(collection, key);
+        if (json === (values[key] ? JSON.stringify(values[key]) : null)) return;
+        diff[collection] = diff[collection] ?? {};
+        diff[collection]![key] = json ? JSON.parse(json) : null;
+      });
+    });
+
+    if (diff.tiles || diff.walls) {
+      battlemapActions.applyGridDiff(diff as SyncDiff);
+    }
+    this.refreshConflicts(changed);
+  }
+
+  /**
+   * Merge an op into its register (creating it)
+   * @returns Whether the register changed
+   */
+  private applyOp(op: CollabOp): boolean {
+    const registers = this.registers[op.collection];
+    if (!registers) return false;
+    const register = registers.get(op.key) ?? createRegister();
+    registers.set(op.key, register);
+    return applyOpToRegister(register, op);
+  }
+
+  /**
+   * JSON of the value a key shows (null = deleted or never written)
+   */
+  private getRegisterJson(collection: CollabCollection, key: string): string | null {
+    const winner = getRegisterWinner(this.registers[collection].get(key));
+    return winner?.value ? JSON.stringify(winner.value) : null;
+  }
+
+  /**
+   * A local edit replaces every value of the key we have, conflicting ones included
+   */
+  private stampLocalOp(collection: CollabCollection, key: string, json: string | null): CollabOp {
+    this.lamport++;
+    const stamp: CollabStamp = { lamport: this.lamport, clientId: this.clientId };
+    const supersedes = (this.registers[collection].get(key)?.values ?? []).map(value => value.stamp);
+    const op: CollabOp = { collection, key, value: json ? JSON.parse(json) : null, stamp, supersedes };
+    this.applyOp(op);
+    return op;
+  }
+
+  /**
+   * List the changed keys that hold several values, and drop the ones that no longer do
+   */
+  private refreshConflicts(keys: Record<CollabCollection, Set<string>>): void {
+    const cells: string[] = [];
+    COLLAB_COLLECTIONS.forEach(collection => keys[collection].forEach(key => {
+      const id = `${collection}:${key}`;
+      const values = getConflictingValues(this.registers[collection].get(key));
+      if (values.length === 0) {
+        if (collabStore.conflicts[id]) collabActions.removeConflict(id);
+        return;
+      }
+
+      const cell = values.map(op => getOpCell(op)).find(opCell => opCell !== null) ?? null;
+      const isNew = !collabStore.conflicts[id];
+      collabActions.setConflict({
+        id,
+        collection,
+        key,
+        cell,
+        options: values.map(op => ({
+          stampId: getStampId(op.stamp),
+          clientId: op.stamp.clientId,
+          userName: op.stamp.clientId === this.clientId ? collabStore.userName : collabStore.users[op.stamp.clientId]?.name ?? 'another user',
+          value: op.value
+        }))
+      });
+      if (isNew) cells.push(cell ? `(${cell.x}, ${cell.y})` : key);
+    }));
+
+    if (cells.length > 0) {
+      console.warn(`[CollaborationManager] Concurrent edits conflict at ${cells.join(', ')}`);
+      collabActions.setWarning(`Conflicting edits at ${cells.slice(0, 3).join(', ')}${cells.length > 3 ? ` and ${cells.length - 3} more` : ''}`);
+    }
+  }
+
+  /**
+   * Settle a conflict by keeping one of its values: written as a new edit that replaces all of them
+   */
+  resolveConflict(conflictId: string, stampId: string): void {
+    const conflict = collabStore.conflicts[conflictId];
+    const option = conflict?.options.find(candidate => candidate.stampId === stampId);
+    if (!conflict || !option) return;
+
+    const lockOwner = this.findForeignLockOwner([conflict.cell]);
+    if (lockOwner) {
+      collabActions.setWarning(`Region locked by ${lockOwner}`);
+      return;
+    }
+
+    const op = this.stampLocalOp(conflict.collection, conflict.key, option.value ? JSON.stringify(option.value) : null);
+    battlemapActions.applyGridDiff({ [conflict.collection]: { [conflict.key]: op.value } } as SyncDiff);
+    collabActions.removeConflict(conflictId);
+    this.sendOps([op]);
+    console.log(`[CollaborationManager] Kept ${option.userName}'s value for ${conflictId}`);
+  }
+
+  private watchLocalChanges(): void {
+    this.unsubscribers.push(subscribe(battlemapStore.grid, (ops) => {
+      this.handleLocalChanges(ops as StoreOp[]);
+    }));
+
+    // Cursor: hovered cell and active layer
+    this.unsubscribers.push(subscribe(battlemapStore.view, () => {
+      this.schedulePresence();
+    }));
+
+    this.unsubscribers.push(subscribe(selectionStore, () => {
+      this.updateSelectionLock();
+    }));
+
+    // Renew our lease and forget leases nobody renewed
+    this.lockTimer = window.setInterval(() => {
+      if (this.selectionLock) {
+        this.sendSelectionLock(this.selectionLock);
+      }
+      collabActions.pruneExpiredLocks();
+    }, LOCK_RENEW_MS);
+  }
+
+  /**
+   * Stamp and send local edits; edits inside another user's lock are reverted instead
+   */
+  private handleLocalChanges(storeOps: StoreOp[]): void {
+    if (!this.hasSession) return;
+
+    // Keys touched per collection; null = the whole collection was replaced
+    const touched = new Map<CollabCollection, Set<string> | null>();
+    storeOps.forEach(([, path]) => {
+      const collection = path[0] as CollabCollection;
+      if (!COLLAB_COLLECTIONS.includes(collection)) return;
+      if (path.length < 2) {
+        touched.set(collection, null);
+      } else if (touched.get(collection) !== null) {
+        const keys = touched.get(collection) ?? new Set<string>();
+        keys.add(String(path[1]));
+        touched.set(collection, keys);
+      }
+    });
+
+    const ops: CollabOp[] = [];
+    const revert: Partial<Record<CollabCollection, Record<string, TileSummary | WallSummary | null>>> = {};
+    const blockedBy = new Set<string>();
+
+    touched.forEach((keys, collection) => {
+      const values = battlemapStore.grid[collection] as Record<string, TileSummary | WallSummary>;
+      const registers = this.registers[collection];
+      const candidates = keys ?? new Set([...Object.keys(values), ...Array.from(registers.keys())]);
+
+      candidates.forEach(key => {
+        const value = values[key];
+        const json = value ? JSON.stringify(value) : null;
+        const registerJson = this.getRegisterJson(collection, key);
+        if (json === registerJson) return;
+
+        const previous = registerJson ? JSON.parse(registerJson) : null;
+        const lockOwner = this.findForeignLockOwner([
+          getOpCell({ collection, key, value: value ?? null }),
+          getOpCell({ collection, key, value: previous })
+        ]);
+        if (lockOwner) {
+          blockedBy.add(lockOwner);
+          revert[collection] = revert[collection] ?? {};
+          revert[collection]![key] = previous;
+          // The revert isn't recorded, so the edit must leave history too or redo would bring it back
+          historyActions.discardChange(collection === 'tiles' ? 'tile' : 'wall', key, previous, value ?? null);
+          return;
+        }
+
+        ops.push(this.stampLocalOp(collection, key, json));
+        // Editing a conflicted key settles it
+        if (collabStore.conflicts[`${collection}:${key}`]) collabActions.removeConflict(`${collection}:${key}`);
+      });
+    });
+
+    if (revert.tiles || revert.walls) {
+      battlemapActions.applyGridDiff(revert as SyncDiff);
+      collabActions.setWarning(`Region locked by ${Array.from(blockedBy).join(', ')}`);
+    }
+
+    this.sendOps(ops);
+  }
+
+  private sendOps(ops: CollabOp[]): void {
+    if (ops.length === 0) return;
+    if (this.isOpen()) {
+      this.send({ type: 'ops', ops });
+    } else {
+      this.pendingOps.push(...ops);
+    }
+  }
+
+  /**
+   * Name of the user whose active lock covers any of the cells (our own locks don't count)
+   */
+  private findForeignLockOwner(cells: Array<{ x: number; y: number; z: number } | null>): string | null {
+    const now = Date.now();
+    for (const lock of Object.values(collabStore.locks)) {
+      if (lock.clientId === this.clientId || lock.expiresAt <= now) continue;
+      if (cells.some(cell => cell && isCellInRegion(cell.x, cell.y, cell.z, lock.region))) {
+        return collabStore.users[lock.clientId]?.name ?? 'another user';
+      }
+    }
+    return null;
+  }
+
+  private schedulePresence(): void {
+    if (this.presenceTimer !== null) return;
+    this.presenceTimer = window.setTimeout(() => {
+      this.presenceTimer = null;
+      this.sendPresence();
+    }, PRESENCE_THROTTLE_MS);
+  }
+
+  private sendPresence(): void {
+    if (!this.isOpen() || !this.hasSession) return;
+
+    const hovered = battlemapStore.view.hoveredCell;
+    const presence: CollabPresence = {
+      hoveredCell: hovered.x >= 0 && hovered.y >= 0 ? { x: hovered.x, y: hovered.y } : null,
+      activeZLayer: battlemapStore.view.activeZLayer
+    };
+    const json = JSON.stringify(presence);
+    if (json === this.lastPresenceJson) return;
+
+    this.lastPresenceJson = json;
+    this.send({ type: 'presence', presence });
+  }
+
+  /**
+   * Lock the current selection (released when it is cleared); overlapping someone else's lock is refused
+   */
+  private updateSelectionLock(): void {
+    if (!this.hasSession) return;
+
+    const bounds = selectionActions.getSelectionBounds();
+    const region: CollabRegion | null = bounds
+      ? { ...bounds, zLevel: selectionStore.allLayers ? null : battlemapStore.controls.isometricEditor.selectedZLevel }
+      : null;
+    if (regionsEqual(region, this.selectionLock)) return;
+
+    const lockId = `${this.clientId}:selection`;
+    if (region) {
+      const overlapping = Object.values(collabStore.locks).find(lock =>
+        lock.clientId !== this.clientId && lock.expiresAt > Date.now() &&
+        lock.region.minX <= region.maxX && lock.region.maxX >= region.minX &&
+        lock.region.minY <= region.maxY && lock.region.maxY >= region.minY &&
+        (lock.region.zLevel === null || region.zLevel === null || lock.region.zLevel === region.zLevel));
+      if (overlapping) {
+        collabActions.setWarning(`Selection overlaps ${collabStore.users[overlapping.clientId]?.name ?? 'another user'}'s lock - not locked`);
+        if (this.selectionLock) this.releaseSelectionLock(lockId);
+        return;
+      }
+
+      this.selectionLock = region;
+      this.sendSelectionLock(region);
+    } else {
+      this.releaseSelectionLock(lockId);
+    }
+  }
+
+  private sendSelectionLock(region: CollabRegion): void {
+    const lock = { lockId: `${this.clientId}:selection`, clientId: this.clientId, region, ttlMs: LOCK_TTL_MS };
+    collabActions.upsertLock(lock);
+    this.send({ type: 'lock', lock });
+  }
+
+  private releaseSelectionLock(lockId: string): void {
+    this.selectionLock = null;
+    collabActions.removeLock(lockId);
+    this.send({ type: 'unlock', lockId });
+  }
+
+  private send(message: CollabClientMessage): void {
+    if (!this.isOpen()) return;
+    this.socket!.send(JSON.stringify(message));
+  }
+}
+
+// Export singleton instance
+export const collaborationManager = new CollaborationManagerImpl();
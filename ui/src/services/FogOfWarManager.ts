@@ -0,0 +1,82 @@
+import { subscribe } from 'valtio';
+import { entityStore, fogStore, fogActions, lightingStore, lightingActions } from '../store';
+import { EntitySummary, SensesSnapshot, SensesType, UUID } from '../types/common';
+import { computeFogCells } from '../utils/fogUtils';
+
+/**
+ * Service that keeps fogStore's visible/explored cells in step with the viewers' senses
+ *
+ * Viewers are the selected entity, or every party member in 'party' mode. Their SensesSnapshot
+ * (refreshed by the backend on every move) is unioned into the visible set; explored cells
+ * accumulate in the store until cleared. Renderers only read the result from fogStore.
+ * While lighting is active, dark cells only count for viewers with darkvision in range.
+ */
+class FogOfWarManagerImpl {
+  private unsubscribers: Array<() => void> = [];
+
+  // What the last computation was based on (senses snapshots are replaced, never mutated)
+  private lastViewerIds: UUID[] = [];
+  private lastSenses: SensesSnapshot[] = [];
+
+  initialize(): void {
+    this.destroy();
+
+    this.unsubscribers.push(subscribe(entityStore, () => this.recompute()));
+    this.unsubscribers.push(subscribe(fogStore, ops => {
+      // Our own visibility writes land here too; only viewer settings need a recompute
+      const isSettingChange = ops.some(op => ['viewerMode', 'partyIds', 'isEnabled'].includes(String(op[1][0])));
+      if (isSettingChange) this.recompute(true);
+    }));
+    this.unsubscribers.push(subscribe(lightingStore, ops => {
+      // New light levels (or daylight) change what the viewers can make out
+      const isLevelChange = ops.some(op => ['cellLevels', 'ambientLight'].includes(String(op[1][0])));
+      if (isLevelChange) this.recompute(true);
+    }));
+
+    this.recompute(true);
+    console.log('[FogOfWarManager] Initialized');
+  }
+
+  destroy(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.lastViewerIds = [];
+    this.lastSenses = [];
+  }
+
+  /**
+   * Entities whose senses drive the fog right now
+   */
+  getViewers(): EntitySummary[] {
+    const ids = fogStore.viewerMode === 'party'
+      ? fogStore.partyIds
+      : (entityStore.selectedEntityId ? [entityStore.selectedEntityId] : []);
+    return ids.map(id => entityStore.entities[id]).filter((entity): entity is EntitySummary => !!entity);
+  }
+
+  /**
+   * Recompute visibility if a viewer or one of their senses snapshots changed
+   */
+  private recompute(force: boolean = false): void {
+    if (!fogStore.isEnabled) return;
+
+    const viewers = this.getViewers();
+    const viewerIds = viewers.map(viewer => viewer.uuid);
+    const senses = viewers.map(viewer => viewer.senses);
+
+    const isUnchanged = viewerIds.length === this.lastViewerIds.length &&
+      viewerIds.every((id, index) => id === this.lastViewerIds[index] && senses[index] === this.lastSenses[index]);
+    if (isUnchanged && !force) return;
+
+    this.lastViewerIds = viewerIds;
+    this.lastSenses = senses;
+
+    const getLightLevel = lightingActions.isLightingActive() ? lightingActions.getCellLightLevel : undefined;
+    const { visible, seen } = computeFogCells(viewers, getLightLevel);
+    const extraSenses = Array.from(new Set<SensesType>(viewers.flatMap(viewer => [...(viewer.senses?.extra_senses ?? [])])));
+    fogActions.setVisibility(viewerIds, visible, seen, extraSenses);
+  }
+}
+
+// Export singleton instance
+export const fogOfWarManager = new FogOfWarManagerImpl();
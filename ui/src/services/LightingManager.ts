@@ -0,0 +1,161 @@
+import { subscribe, snapshot } from 'valtio';
+import type { INTERNAL_Op as StoreOp } from 'valtio/vanilla';
+import { battlemapStore, lightingStore, lightingActions, historyActions } from '../store';
+import { WallSummary } from '../types/battlemap_types';
+import { LitCell, combineLighting, computeLightCells, isInLightReach } from '../utils/lightingUtils';
+
+/**
+ * Service that keeps lightingStore's per-cell levels and tints in step with the lights and the map
+ *
+ * Lighting is recomputed when a light, the ambient level, the grid size or the tiles/walls change
+ * (walls and raised blocks cast shadows). Changes are gathered until the next frame, and until the end
+ * of an edit transaction (e.g. a brush stroke); then only the lights that were changed or whose reach
+ * covers a changed cell are lit again. Renderers and the fog of war only read the result.
+ */
+class LightingManagerImpl {
+  private unsubscribers: Array<() => void> = [];
+
+  // Cells each light lit last time (light uuid -> cells)
+  private lightCells = new Map<string, LitCell[]>();
+
+  // What changed since the last computation
+  private needsFullRecompute = true;
+  private needsCombine = false;
+  private dirtyLights = new Set<string>();
+  private changedCells: Array<[number, number]> = [];
+
+  private frameHandle: number | null = null;
+
+  initialize(): void {
+    this.destroy();
+
+    this.unsubscribers.push(subscribe(battlemapStore.grid, ops => {
+      this.collectGridChanges(ops);
+      this.scheduleRecompute();
+    }));
+    this.unsubscribers.push(subscribe(lightingStore, ops => {
+      this.collectLightingChanges(ops);
+      this.scheduleRecompute();
+    }));
+
+    this.recompute();
+    console.log('[LightingManager] Initialized');
+  }
+
+  destroy(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    if (this.frameHandle !== null) {
+      cancelAnimationFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+    this.lightCells.clear();
+    this.resetChanges();
+    this.needsFullRecompute = true;
+  }
+
+  /**
+   * Note which cells a grid change touches; anything wider (grid size, whole records replaced) relights everything
+   */
+  private collectGridChanges(ops: StoreOp[]): void {
+    ops.forEach(op => {
+      const [, path] = op;
+      const [field, itemKey] = path;
+      if (field === 'width' || field === 'height') {
+        this.needsFullRecompute = true;
+      } else if (field === 'tiles' || field === 'walls') {
+        if (typeof itemKey !== 'string' || path.length > 2) {
+          // Replaced record, or a field changed in place where the old position isn't known
+          this.needsFullRecompute = true;
+        } else if (field === 'tiles') {
+          const [x, y] = itemKey.split(',').map(Number);
+          this.changedCells.push([x, y]);
+        } else {
+          // A wall is lit from both sides; isInLightReach allows a cell for the far one
+          const walls = op[0] === 'set' ? [op[2], op[3]] : [op[2]]; // delete ops only carry the old value
+          walls.forEach(wall => {
+            if (wall) this.changedCells.push([(wall as WallSummary).position[0], (wall as WallSummary).position[1]]);
+          });
+        }
+      }
+    });
+  }
+
+  /**
+   * Note changed lights and ambient level; our own result writes and placement settings don't count
+   */
+  private collectLightingChanges(ops: StoreOp[]): void {
+    ops.forEach(([, path]) => {
+      const [field, lightId] = path;
+      if (field === 'lights') {
+        if (typeof lightId === 'string') this.dirtyLights.add(lightId);
+        else this.needsFullRecompute = true;
+      } else if (field === 'ambientLight') {
+        this.needsCombine = true;
+      }
+    });
+  }
+
+  private hasChanges(): boolean {
+    return this.needsFullRecompute || this.needsCombine || this.dirtyLights.size > 0 || this.changedCells.length > 0;
+  }
+
+  private resetChanges(): void {
+    this.needsFullRecompute = false;
+    this.needsCombine = false;
+    this.dirtyLights.clear();
+    this.changedCells = [];
+  }
+
+  /**
+   * Recompute on the next frame, so several changes in a row cost one pass
+   */
+  private scheduleRecompute(): void {
+    if (this.frameHandle !== null || !this.hasChanges()) return;
+    this.frameHandle = requestAnimationFrame(() => {
+      this.frameHandle = null;
+      // Wait for the stroke (or other grouped edit) to finish
+      if (historyActions.isInTransaction()) {
+        this.scheduleRecompute();
+        return;
+      }
+      this.recompute();
+    });
+  }
+
+  /**
+   * Relight the lights affected by the collected changes and combine every light's cells
+   */
+  private recompute(): void {
+    // Nothing is shown in daylight; light everything once it gets dark
+    if (!lightingActions.isLightingActive()) {
+      this.needsFullRecompute = this.needsFullRecompute || this.hasChanges();
+      return;
+    }
+    if (!this.hasChanges()) return;
+
+    const start = performance.now();
+    const grid = snapshot(battlemapStore.grid);
+    const lights = snapshot(lightingStore.lights);
+    let relit = 0;
+
+    Array.from(this.lightCells.keys()).forEach(uuid => {
+      if (!lights[uuid]) this.lightCells.delete(uuid);
+    });
+    Object.values(lights).forEach(light => {
+      const isAffected = this.needsFullRecompute || !this.lightCells.has(light.uuid) || this.dirtyLights.has(light.uuid) ||
+        this.changedCells.some(([x, y]) => isInLightReach(light, x, y));
+      if (!isAffected) return;
+      this.lightCells.set(light.uuid, computeLightCells(grid, light));
+      relit++;
+    });
+    this.resetChanges();
+
+    const { levels, tints, litCells } = combineLighting(lights, this.lightCells, lightingStore.ambientLight);
+    lightingActions.setComputedLighting(levels, tints, litCells);
+    console.log(`[LightingManager] Lit ${tints.size} cells from ${litCells.size} lights (${relit} recomputed) in ${(performance.now() - start).toFixed(1)}ms`);
+  }
+}
+
+// Export singleton instance
+export const lightingManager = new LightingManagerImpl();
@@ -0,0 +1,163 @@
+import { MapDocument, MapListEntry, MAP_DOCUMENT_VERSION } from '../types/battlemap_types';
+import { battlemapActions } from '../store';
+import { normalizeWallRecord } from '../utils/wallIndexUtils';
+
+/**
+ * Service for saving and loading whole battlemaps as versioned JSON documents
+ * Documents are stored by the dev server under /public/maps
+ */
+class MapPersistenceManagerImpl {
+  /**
+   * Serialize the current store contents and save them under the given name
+   */
+  async saveMap(name: string): Promise<boolean> {
+    const document = battlemapActions.createMapDocument(name);
+
+    try {
+      battlemapActions.setLoading(true);
+
+      const response = await fetch('/api/maps/save', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(document)
+      });
+
+      // Another map already uses the file this name maps to
+      if (response.status === 409) {
+        const { error } = await response.json();
+        console.warn(`[MapPersistenceManager] Not saving "${name}": ${error}`);
+        battlemapActions.setError(error);
+        return false;
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      console.log(`[MapPersistenceManager] Saved map "${name}":`, result);
+
+      battlemapActions.setError(null);
+      return true;
+    } catch (error) {
+      console.error(`[MapPersistenceManager] Failed to save map "${name}":`, error);
+      battlemapActions.setError(`Failed to save map "${name}"`);
+      return false;
+    } finally {
+      battlemapActions.setLoading(false);
+    }
+  }
+
+  /**
+   * Load a saved map by name and replace the current store contents with it
+   */
+  async loadMap(name: string): Promise<boolean> {
+    try {
+      battlemapActions.setLoading(true);
+
+      const response = await fetch(`/api/maps/load?name=${encodeURIComponent(name)}`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const rawDocument = await response.json();
+      const document = this.migrateDocument(rawDocument);
+
+      battlemapActions.applyMapDocument(document);
+      console.log(`[MapPersistenceManager] Loaded map "${name}"`);
+
+      battlemapActions.setError(null);
+      return true;
+    } catch (error) {
+      console.error(`[MapPersistenceManager] Failed to load map "${name}":`, error);
+      battlemapActions.setError(`Failed to load map "${name}"`);
+      return false;
+    } finally {
+      battlemapActions.setLoading(false);
+    }
+  }
+
+  /**
+   * List all maps saved on the dev server
+   */
+  async listMaps(): Promise<MapListEntry[]> {
+    try {
+      const response = await fetch('/api/maps/list');
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.maps as MapListEntry[];
+    } catch (error) {
+      console.error('[MapPersistenceManager] Failed to list maps:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Bring an older document up to the current schema version
+   */
+  migrateDocument(rawDocument: any): MapDocument {
+    const version: number = typeof rawDocument.version === 'number' ? rawDocument.version : 0;
+
+    if (version > MAP_DOCUMENT_VERSION) {
+      throw new Error(`Map document version ${version} is newer than supported version ${MAP_DOCUMENT_VERSION}`);
+    }
+
+    let document = rawDocument;
+
+    // v0 -> v1: unversioned documents could be saved without walls or view settings
+    if (version < 1) {
+      const defaults = battlemapActions.createMapDocument(document.name ?? 'untitled');
+      document = {
+        ...document,
+        grid: { walls: {}, maxZLevel: 0, ...document.grid },
+        view: { ...defaults.view, ...document.view },
+        version: 1
+      };
+      console.log(`[MapPersistenceManager] Migrated map "${document.name}" from v0 to v1`);
+    }
+
+    // v1 -> v2: walls are looked up by canonical edge, so identical walls drawn from both sides of
+    // an edge collapse into one (records keyed by "x,y,z,direction" are re-keyed)
+    if (version < 2) {
+      const { walls, dropped } = normalizeWallRecord(document.grid.walls);
+      document = {
+        ...document,
+        grid: { ...document.grid, walls },
+        version: 2
+      };
+      console.log(`[MapPersistenceManager] Migrated map "${document.name}" from v1 to v2 (${dropped} duplicate walls merged)`);
+    }
+
+    // v2 -> v3: maps carry light sources and an ambient light level (daylight keeps old maps looking the same)
+    if (version < 3) {
+      document = {
+        ...document,
+        lighting: { lights: {}, ambientLight: 'bright' },
+        version: 3
+      };
+      console.log(`[MapPersistenceManager] Migrated map "${document.name}" from v2 to v3`);
+    }
+
+    // v3 -> v4: walls are stored on the canonical side of their edge and keyed by it (v2/v3 kept the
+    // side they were drawn on, keyed by uuid)
+    if (version < 4) {
+      const { walls, dropped } = normalizeWallRecord(document.grid.walls);
+      document = {
+        ...document,
+        grid: { ...document.grid, walls },
+        version: 4
+      };
+      console.log(`[MapPersistenceManager] Migrated map "${document.name}" from v3 to v4 (${dropped} duplicate walls merged)`);
+    }
+
+    return document as MapDocument;
+  }
+}
+
+// Export singleton instance
+export const mapPersistenceManager = new MapPersistenceManagerImpl();
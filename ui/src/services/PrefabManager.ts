@@ -0,0 +1,165 @@
+import { PrefabDocument, PrefabListEntry, PREFAB_DOCUMENT_VERSION, TileSummary, WallSummary } from '../types/battlemap_types';
+import { battlemapActions, selectionActions } from '../store';
+
+/**
+ * Service for saving the current selection as a reusable prefab and stamping prefabs back onto the map
+ * Prefabs are stored by the dev server under /public/prefabs
+ */
+class PrefabManagerImpl {
+  /**
+   * Save the current selection as a prefab
+   * @param name Prefab name (also the file name)
+   * @param anchor Cell inside the selection that lands under the cursor when stamping
+   */
+  async savePrefab(name: string, anchor: { x: number; y: number } = { x: 0, y: 0 }): Promise<boolean> {
+    const contents = selectionActions.captureSelection();
+    if (!contents) {
+      battlemapActions.setError('Select a region before saving a prefab');
+      return false;
+    }
+
+    // Store Z levels relative to the lowest layer used, so the prefab can be stamped on any layer
+    const zLevels = [...contents.tiles.map(tile => tile.z_level), ...contents.walls.map(wall => wall.z_level)];
+    const baseZ = zLevels.length > 0 ? Math.min(...zLevels) : 0;
+    const toRelativeZ = <T extends TileSummary | WallSummary>(item: T): T => ({ ...item, z_level: item.z_level - baseZ });
+
+    const prefab: PrefabDocument = {
+      version: PREFAB_DOCUMENT_VERSION,
+      name,
+      lastModified: new Date().toISOString(),
+      width: contents.width,
+      height: contents.height,
+      anchor: {
+        x: Math.max(0, Math.min(contents.width - 1, anchor.x)),
+        y: Math.max(0, Math.min(contents.height - 1, anchor.y))
+      },
+      tiles: contents.tiles.map(toRelativeZ),
+      walls: contents.walls.map(toRelativeZ)
+    };
+
+    try {
+      battlemapActions.setLoading(true);
+
+      const response = await fetch('/api/prefabs/save', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(prefab)
+      });
+
+      // Another prefab already uses the file this name maps to
+      if (response.status === 409) {
+        const { error } = await response.json();
+        console.warn(`[PrefabManager] Not saving "${name}": ${error}`);
+        battlemapActions.setError(error);
+        return false;
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      console.log(`[PrefabManager] Saved prefab "${name}" (${prefab.tiles.length} tiles, ${prefab.walls.length} walls):`, result);
+
+      battlemapActions.setError(null);
+      return true;
+    } catch (error) {
+      console.error(`[PrefabManager] Failed to save prefab "${name}":`, error);
+      battlemapActions.setError(`Failed to save prefab "${name}"`);
+      return false;
+    } finally {
+      battlemapActions.setLoading(false);
+    }
+  }
+
+  /**
+   * Load a prefab document by name
+   */
+  async loadPrefab(name: string): Promise<PrefabDocument | null> {
+    try {
+      battlemapActions.setLoading(true);
+
+      const response = await fetch(`/api/prefabs/load?name=${encodeURIComponent(name)}`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const rawPrefab = await response.json();
+      const version: number = typeof rawPrefab.version === 'number' ? rawPrefab.version : 0;
+      if (version > PREFAB_DOCUMENT_VERSION) {
+        throw new Error(`Prefab version ${version} is newer than supported version ${PREFAB_DOCUMENT_VERSION}`);
+      }
+
+      battlemapActions.setError(null);
+      return rawPrefab as PrefabDocument;
+    } catch (error) {
+      console.error(`[PrefabManager] Failed to load prefab "${name}":`, error);
+      battlemapActions.setError(`Failed to load prefab "${name}"`);
+      return null;
+    } finally {
+      battlemapActions.setLoading(false);
+    }
+  }
+
+  /**
+   * Load a prefab and attach it to the cursor as a paste ghost (Z/X rotate, click places on the active layer)
+   */
+  async stampPrefab(name: string): Promise<boolean> {
+    const prefab = await this.loadPrefab(name);
+    if (!prefab) return false;
+
+    selectionActions.startStamp({
+      width: prefab.width,
+      height: prefab.height,
+      allLayers: false, // Z levels are relative to the active layer
+      tiles: prefab.tiles.map(tile => ({ ...tile })),
+      walls: prefab.walls.map(wall => ({ ...wall })),
+      anchor: { ...prefab.anchor },
+      name: prefab.name
+    });
+    return true;
+  }
+
+  /**
+   * List all prefabs saved on the dev server
+   */
+  async listPrefabs(): Promise<PrefabListEntry[]> {
+    try {
+      const response = await fetch('/api/prefabs/list');
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.prefabs as PrefabListEntry[];
+    } catch (error) {
+      console.error('[PrefabManager] Failed to list prefabs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete a saved prefab
+   */
+  async deletePrefab(name: string): Promise<boolean> {
+    try {
+      const response = await fetch(`/api/prefabs/delete?name=${encodeURIComponent(name)}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      console.log(`[PrefabManager] Deleted prefab "${name}"`);
+      return true;
+    } catch (error) {
+      console.error(`[PrefabManager] Failed to delete prefab "${name}":`, error);
+      battlemapActions.setError(`Failed to delete prefab "${name}"`);
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const prefabManager = new PrefabManagerImpl();
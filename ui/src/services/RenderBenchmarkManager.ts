@@ -0,0 +1,80 @@
+import { battlemapStore, battlemapActions } from '../store';
+import type { TileChunkStats } from '../game/renderers/IsometricTileRenderer';
+
+export interface PanBenchmarkResult {
+  frames: number;
+  averageFrameMs: number;
+  maxFrameMs: number;
+  slowFrames: number; // Frames slower than 1/30 s
+  chunkStats: TileChunkStats | null;
+}
+
+/**
+ * Service that measures tile rendering while panning, for comparing map sizes and culling on/off
+ */
+class RenderBenchmarkManagerImpl {
+  private isRunning = false;
+
+  /**
+   * Pan the camera along a square path (like holding WASD) and time every frame
+   * The original view offset is restored afterwards
+   */
+  async runPanBenchmark(frames: number = 240, distance: number = 1500): Promise<PanBenchmarkResult | null> {
+    if (this.isRunning) return null;
+    this.isRunning = true;
+
+    const startOffset = { x: battlemapStore.view.offset.x, y: battlemapStore.view.offset.y };
+    const frameTimes: number[] = [];
+    console.log(`[RenderBenchmarkManager] Starting pan benchmark: ${frames} frames over ${distance}px`);
+
+    try {
+      battlemapActions.setWasdMoving(true);
+
+      let lastTime = await this.nextFrame();
+      for (let frame = 0; frame < frames; frame++) {
+        // Square path: right, down, left, up
+        const progress = frame / frames;
+        const side = Math.floor(progress * 4);
+        const along = (progress * 4 - side) * distance;
+        const pathOffset = [
+          { x: -along, y: 0 },
+          { x: -distance, y: -along },
+          { x: -distance + along, y: -distance },
+          { x: 0, y: -distance + along }
+        ][side];
+        battlemapActions.setOffset(startOffset.x + pathOffset.x, startOffset.y + pathOffset.y);
+
+        const now = await this.nextFrame();
+        frameTimes.push(now - lastTime);
+        lastTime = now;
+      }
+    } finally {
+      battlemapActions.setWasdMoving(false);
+      battlemapActions.setOffset(startOffset.x, startOffset.y);
+      this.isRunning = false;
+    }
+
+    const statsHook = (window as any).__tileRenderStats;
+    const result: PanBenchmarkResult = {
+      frames: frameTimes.length,
+      averageFrameMs: frameTimes.reduce((sum, time) => sum + time, 0) / Math.max(1, frameTimes.length),
+      maxFrameMs: Math.max(0, ...frameTimes),
+      slowFrames: frameTimes.filter(time => time > 1000 / 30).length,
+      chunkStats: statsHook ? statsHook() : null
+    };
+
+    console.log(`[RenderBenchmarkManager] Pan benchmark: avg ${result.averageFrameMs.toFixed(2)}ms, max ${result.maxFrameMs.toFixed(2)}ms, ${result.slowFrames} slow frames`, result.chunkStats);
+    return result;
+  }
+
+  isBenchmarkRunning(): boolean {
+    return this.isRunning;
+  }
+
+  private nextFrame(): Promise<number> {
+    return new Promise(resolve => requestAnimationFrame(resolve));
+  }
+}
+
+// Export singleton instance
+export const renderBenchmarkManager = new RenderBenchmarkManagerImpl();
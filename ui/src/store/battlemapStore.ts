@@ -1,15 +1,23 @@
-import { proxy } from 'valtio';
-import { TileSummary, WallSummary } from '../types/battlemap_types';
+import { proxy, getVersion } from 'valtio';
+import { TileSummary, WallSummary, GridSnapshot, SyncDiff, MapDocument, MAP_DOCUMENT_VERSION, DiagonalMovementRule, CameraRotation, OcclusionMode } from '../types/battlemap_types';
 import type { DeepReadonly } from '../types/common';
 import { TileType } from '../hooks/battlemap';
 import { IsometricDirection, SpriteCategory } from '../game/managers/IsometricSpriteManager';
 import { isometricSpriteManager } from '../game/managers/IsometricSpriteManager';
+import { historyActions, GridChange } from './historyStore';
+import { generateBenchmarkGrid } from '../utils/benchmarkMapUtils';
+import { WallSpatialIndex, getWallKey, toCanonicalWall } from '../utils/wallIndexUtils';
+import { lightingStore, lightingActions } from './lightingStore';
 
 // Z-layer configuration - NOW MUTABLE for user control
 export const Z_LAYER_CONFIG = {
   maxLayers: 3
 } as const;
 
+// NEW: Zoom limits (buttons, wheel, pinch and camera animations all clamp to these)
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 5.0;
+
 // Layer visibility modes
 export enum LayerVisibilityMode {
   SHADOW = 'shadow',     // All tiles visible, inactive layers dimmed/tinted
@@ -24,6 +32,21 @@ export enum VerticalBiasComputationMode {
   SNAP_TO_NEAREST = 'snap_to_nearest' // Compute then snap to nearest value between 36-196
 }
 
+// NEW: Paint tools for block placement
+export enum PaintTool {
+  BRUSH = 'brush',                         // Cell-by-cell painting with brush size (original)
+  RECTANGLE = 'rectangle',                 // Drag a filled rectangle
+  RECTANGLE_OUTLINE = 'rectangle_outline', // Drag a rectangle outline
+  LINE = 'line',                           // Drag a straight (Bresenham) line
+  FLOOD_FILL = 'flood_fill'                // Fill contiguous same-sprite cells on the active Z layer
+}
+
+// NEW: Tools for wall placement
+export enum WallTool {
+  SINGLE = 'single', // One edge per click (original)
+  RUN = 'run'        // Drag from grid vertex to grid vertex to lay a continuous wall
+}
+
 // Default Z-layer settings (moved to store for user control)
 export const DEFAULT_Z_LAYER_SETTINGS = [
   { z: 0, verticalOffset: 0, name: 'Ground', color: 0x444444 },
@@ -38,6 +61,7 @@ export interface IsometricEditorState {
   selectedZLevel: number;
   selectedSpriteCategory: SpriteCategory;
   brushSize: number; // For painting multiple tiles at once
+  paintTool: PaintTool; // Which tool block placement uses
   isDirectionalMode: boolean; // Whether to auto-select direction based on neighbors
   // EXACT USER SPECIFICATION: Per-sprite-type positioning settings
   spriteTypeSettings: Record<string, {
@@ -138,6 +162,8 @@ export interface IsometricEditorState {
   selectedWallType: 'brick' | 'stone' | 'wood' | 'custom';
   wallPlacementDirection: IsometricDirection; // Which edge to place wall on
   wallSpriteDirection: IsometricDirection; // Which direction the wall sprite faces
+  wallTool: WallTool; // Which tool wall placement uses
+  wallRunAutoClose: boolean; // Wall runs close into a rectangular room with a floor fill
   // NEW: Remember last selected sprites for each mode
   lastSelectedBlockSprite: string | null; // Last selected sprite in block mode
   lastSelectedWallSprite: string | null; // Last selected sprite in wall mode
@@ -302,7 +328,7 @@ export interface GridState {
   width: number;
   height: number;
   tiles: Record<string, TileSummary>;
-  // NEW: Wall storage with 4D keys: x,y,z,direction
+  // NEW: Canonical walls keyed by edge + sprite + facing (getWallKey); edge/cell lookups go through the wall index
   walls: Record<string, WallSummary>;
   maxZLevel: number; // Track the highest Z level in use
 }
@@ -338,6 +364,23 @@ export interface ViewState {
   zLayerHeights: Array<{ z: number; verticalOffset: number; name: string; color: number }>;
   // NEW: Vertical bias computation method
   verticalBiasComputationMode: VerticalBiasComputationMode; // How to round/snap computed values
+  // NEW: Skip drawing tile chunks that are outside the camera rect
+  isChunkCullingEnabled: boolean;
+  // NEW: Debug overlay of what the hovered cell can see (client-side line of sight)
+  isLineOfSightPreviewEnabled: boolean;
+  lineOfSightRadius: number; // In cells
+  // NEW: Path preview from the selected entity to the hovered cell (client-side A*)
+  isPathPreviewEnabled: boolean;
+  movementBudgetFeet: number;
+  diagonalMovementRule: DiagonalMovementRule;
+  // NEW: Camera rotation applied to the isometric projection (not saved with the map)
+  cameraRotation: CameraRotation;
+  // NEW: Fade (or cut away) sprites that cover the hovered cell or the selected entity
+  occlusionMode: OcclusionMode;
+  occlusionAlpha: number; // Alpha of faded sprites
+  occlusionRadius: number; // In cells around the hovered cell / selected entity
+  // NEW: Minimap overview in the bottom-right corner (M toggles)
+  isMinimapVisible: boolean;
 }
 
 export interface ControlState {
@@ -365,6 +408,43 @@ export interface BattlemapStoreState {
 // Read-only type for consuming components
 export type ReadonlyBattlemapStore = DeepReadonly<BattlemapStoreState>;
 
+// Plain (non-proxy) copy of a tile or wall for the undo history
+const toHistoryValue = <T>(value: T | undefined): T | null => {
+  return value ? JSON.parse(JSON.stringify(value)) : null;
+};
+
+// Edge and cell index over grid.walls - rebuilt on the next lookup whenever the record
+// changed outside the wall helpers below (loads, sync diffs, undo/redo)
+const wallIndex = new WallSpatialIndex();
+
+const getWallIndex = (): WallSpatialIndex => {
+  wallIndex.sync(battlemapStore.grid.walls, getVersion(battlemapStore.grid.walls));
+  return wallIndex;
+};
+
+// Write a wall record and update the index in place
+const setWallRecord = (wallKey: string, wall: WallSummary) => {
+  const index = getWallIndex();
+  battlemapStore.grid.walls[wallKey] = wall;
+  index.set(wallKey, wall);
+  index.markSynced(getVersion(battlemapStore.grid.walls));
+};
+
+// Delete a wall record and update the index in place
+const deleteWallRecord = (wallKey: string) => {
+  const index = getWallIndex();
+  delete battlemapStore.grid.walls[wallKey];
+  index.delete(wallKey);
+  index.markSynced(getVersion(battlemapStore.grid.walls));
+};
+
+// Canonical form of a wall being placed and its key (an identical wall - same sprite and sprite_direction
+// on the same edge and z_level, drawn from either side - has the same key and is overwritten)
+const toWallRecord = (wall: WallSummary): { wallKey: string; wall: WallSummary } => {
+  const canonicalWall = toCanonicalWall(wall);
+  return { wallKey: getWallKey(canonicalWall), wall: canonicalWall };
+};
+
 // Initialize the store with default values for local editing
 const battlemapStore = proxy<BattlemapStoreState>({
   grid: {
@@ -399,6 +479,17 @@ const battlemapStore = proxy<BattlemapStoreState>({
     },
     zLayerHeights: DEFAULT_Z_LAYER_SETTINGS,
     verticalBiasComputationMode: VerticalBiasComputationMode.SNAP_TO_NEAREST,
+    isChunkCullingEnabled: true,
+    isLineOfSightPreviewEnabled: false,
+    lineOfSightRadius: 12,
+    isPathPreviewEnabled: false,
+    movementBudgetFeet: 30,
+    diagonalMovementRule: 'five',
+    cameraRotation: 0,
+    occlusionMode: 'fade',
+    occlusionAlpha: 0.3,
+    occlusionRadius: 3,
+    isMinimapVisible: true,
   },
   controls: {
     isLocked: false,
@@ -414,12 +505,15 @@ const battlemapStore = proxy<BattlemapStoreState>({
       selectedZLevel: 0,
       selectedSpriteCategory: SpriteCategory.BLOCKS,
       brushSize: 1,
+      paintTool: PaintTool.BRUSH,
       isDirectionalMode: false,
       spriteTypeSettings: {},
       wallMode: false,
       selectedWallType: 'brick',
       wallPlacementDirection: IsometricDirection.SOUTH,
       wallSpriteDirection: IsometricDirection.SOUTH,
+      wallTool: WallTool.SINGLE,
+      wallRunAutoClose: false,
       wallPositioningSettings: {},
       lastSelectedBlockSprite: null,
       lastSelectedWallSprite: null,
@@ -438,6 +532,19 @@ const battlemapActions = {
   },
   
   setTiles: (tiles: Record<string, TileSummary>) => {
+    // Record every key that changes as one undoable step
+    historyActions.beginTransaction('Replace tiles');
+    const allKeys = new Set([...Object.keys(battlemapStore.grid.tiles), ...Object.keys(tiles)]);
+    allKeys.forEach(key => {
+      historyActions.recordChange({
+        kind: 'tile',
+        key,
+        before: toHistoryValue(battlemapStore.grid.tiles[key]),
+        after: toHistoryValue(tiles[key])
+      }, 'Replace tiles');
+    });
+    historyActions.endTransaction();
+    
     battlemapStore.grid.tiles = tiles;
     // Update max Z level
     const maxZ = Math.max(0, ...Object.values(tiles).map(tile => tile.z_level));
@@ -447,6 +554,12 @@ const battlemapActions = {
   // Enhanced tile operations with isometric support
   addIsometricTile: (tile: TileSummary) => {
     const posKey = `${tile.position[0]},${tile.position[1]},${tile.z_level}`;
+    historyActions.recordChange({
+      kind: 'tile',
+      key: posKey,
+      before: toHistoryValue(battlemapStore.grid.tiles[posKey]),
+      after: toHistoryValue(tile)
+    }, 'Place tile');
     battlemapStore.grid.tiles[posKey] = tile;
     
     // Update max Z level if necessary
@@ -469,6 +582,12 @@ const battlemapActions = {
   removeIsometricTile: (x: number, y: number, z: number) => {
     const posKey = `${x},${y},${z}`;
     if (battlemapStore.grid.tiles[posKey]) {
+      historyActions.recordChange({
+        kind: 'tile',
+        key: posKey,
+        before: toHistoryValue(battlemapStore.grid.tiles[posKey]),
+        after: null
+      }, 'Remove tile');
       delete battlemapStore.grid.tiles[posKey];
       console.log('[battlemapStore] Removed isometric tile at:', [x, y, z], '- FORCING RENDER');
       
@@ -487,7 +606,14 @@ const battlemapActions = {
     const posKey = `${x},${y},${z}`;
     const existingTile = battlemapStore.grid.tiles[posKey];
     if (existingTile) {
-      battlemapStore.grid.tiles[posKey] = { ...existingTile, ...updates };
+      const updatedTile = { ...existingTile, ...updates };
+      historyActions.recordChange({
+        kind: 'tile',
+        key: posKey,
+        before: toHistoryValue(existingTile),
+        after: toHistoryValue(updatedTile)
+      }, 'Update tile');
+      battlemapStore.grid.tiles[posKey] = updatedTile;
       console.log('[battlemapStore] Updated isometric tile at:', [x, y, z], '- FORCING RENDER');
       
       // Force immediate re-render by triggering a dummy change
@@ -501,7 +627,81 @@ const battlemapActions = {
     }
   },
 
+  // NEW: Batch tile operations - one undoable step and one render for the whole set
+  addIsometricTiles: (tiles: TileSummary[], label: string = 'Place tiles') => {
+    if (tiles.length === 0) return;
+    
+    historyActions.beginTransaction(label);
+    tiles.forEach(tile => {
+      const posKey = `${tile.position[0]},${tile.position[1]},${tile.z_level}`;
+      historyActions.recordChange({
+        kind: 'tile',
+        key: posKey,
+        before: toHistoryValue(battlemapStore.grid.tiles[posKey]),
+        after: toHistoryValue(tile)
+      }, label);
+      battlemapStore.grid.tiles[posKey] = tile;
+      
+      if (tile.z_level > battlemapStore.grid.maxZLevel) {
+        battlemapStore.grid.maxZLevel = tile.z_level;
+      }
+    });
+    historyActions.endTransaction();
+    
+    console.log(`[battlemapStore] Added ${tiles.length} isometric tiles in one batch - FORCING RENDER`);
+    
+    // Force immediate re-render by triggering a dummy change
+    const currentOffset = battlemapStore.view.offset;
+    battlemapStore.view.offset = { ...currentOffset };
+    
+    // Also trigger manual renders if available
+    setTimeout(() => {
+      if ((window as any).__forceTileRender) (window as any).__forceTileRender();
+    }, 0);
+  },
+  
+  removeIsometricTiles: (positions: Array<{ x: number; y: number; z: number }>, label: string = 'Remove tiles') => {
+    const existingKeys = positions
+      .map(({ x, y, z }) => `${x},${y},${z}`)
+      .filter(posKey => battlemapStore.grid.tiles[posKey]);
+    if (existingKeys.length === 0) return;
+    
+    historyActions.beginTransaction(label);
+    existingKeys.forEach(posKey => {
+      historyActions.recordChange({
+        kind: 'tile',
+        key: posKey,
+        before: toHistoryValue(battlemapStore.grid.tiles[posKey]),
+        after: null
+      }, label);
+      delete battlemapStore.grid.tiles[posKey];
+    });
+    historyActions.endTransaction();
+    
+    console.log(`[battlemapStore] Removed ${existingKeys.length} isometric tiles in one batch - FORCING RENDER`);
+    
+    // Force immediate re-render by triggering a dummy change
+    const currentOffset = battlemapStore.view.offset;
+    battlemapStore.view.offset = { ...currentOffset };
+    
+    // Also trigger manual renders if available
+    setTimeout(() => {
+      if ((window as any).__forceTileRender) (window as any).__forceTileRender();
+    }, 0);
+  },
+
   clearAllTiles: () => {
+    historyActions.beginTransaction('Clear all tiles');
+    Object.keys(battlemapStore.grid.tiles).forEach(key => {
+      historyActions.recordChange({
+        kind: 'tile',
+        key,
+        before: toHistoryValue(battlemapStore.grid.tiles[key]),
+        after: null
+      }, 'Clear all tiles');
+    });
+    historyActions.endTransaction();
+    
     battlemapStore.grid.tiles = {};
     battlemapStore.grid.maxZLevel = 0;
     console.log('[battlemapStore] Cleared all tiles locally');
@@ -522,6 +722,57 @@ const battlemapActions = {
     battlemapStore.view.wasd_moving = moving;
   },
   
+  setChunkCullingEnabled: (enabled: boolean) => {
+    battlemapStore.view.isChunkCullingEnabled = enabled;
+    console.log(`[battlemapStore] Chunk culling ${enabled ? 'enabled' : 'disabled'}`);
+  },
+  
+  setLineOfSightPreviewEnabled: (enabled: boolean) => {
+    battlemapStore.view.isLineOfSightPreviewEnabled = enabled;
+  },
+  
+  setLineOfSightRadius: (radius: number) => {
+    battlemapStore.view.lineOfSightRadius = Math.max(1, Math.round(radius));
+  },
+  
+  setPathPreviewEnabled: (enabled: boolean) => {
+    battlemapStore.view.isPathPreviewEnabled = enabled;
+  },
+  
+  setMovementBudgetFeet: (feet: number) => {
+    battlemapStore.view.movementBudgetFeet = Math.max(0, Math.round(feet));
+  },
+  
+  setDiagonalMovementRule: (rule: DiagonalMovementRule) => {
+    battlemapStore.view.diagonalMovementRule = rule;
+  },
+  
+  setOcclusionMode: (mode: OcclusionMode) => {
+    battlemapStore.view.occlusionMode = mode;
+  },
+  
+  setOcclusionAlpha: (alpha: number) => {
+    battlemapStore.view.occlusionAlpha = Math.min(1, Math.max(0, alpha));
+  },
+  
+  setOcclusionRadius: (radius: number) => {
+    battlemapStore.view.occlusionRadius = Math.max(1, Math.round(radius));
+  },
+  
+  toggleMinimap: () => {
+    battlemapStore.view.isMinimapVisible = !battlemapStore.view.isMinimapVisible;
+  },
+  
+  // NEW: Turn the camera by quarter turns (+1 = map turns clockwise on screen)
+  rotateCamera: (steps: number) => {
+    battlemapStore.view.cameraRotation = ((((battlemapStore.view.cameraRotation + steps) % 4) + 4) % 4) as CameraRotation;
+    console.log(`[battlemapStore] Camera rotation: ${battlemapStore.view.cameraRotation * 90}° - FORCING RENDER`);
+    
+    setTimeout(() => {
+      if ((window as any).__forceTileRender) (window as any).__forceTileRender();
+    }, 0);
+  },
+  
   // Enhanced view controls
   setShowZLevel: (zLevel: number) => {
     battlemapStore.view.showZLevel = zLevel;
@@ -553,7 +804,7 @@ const battlemapActions = {
   },
   
   setZoomLevel: (zoom: number) => {
-    battlemapStore.view.zoomLevel = Math.max(0.1, Math.min(5.0, zoom));
+    battlemapStore.view.zoomLevel = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
   },
   
   setGridDiamondWidth: (width: number) => {
@@ -760,6 +1011,11 @@ const battlemapActions = {
     battlemapStore.controls.isometricEditor.brushSize = Math.max(1, Math.min(10, size));
   },
   
+  setPaintTool: (tool: PaintTool) => {
+    battlemapStore.controls.isometricEditor.paintTool = tool;
+    console.log(`[battlemapStore] Paint tool set to: ${tool}`);
+  },
+  
   setDirectionalMode: (enabled: boolean) => {
     battlemapStore.controls.isometricEditor.isDirectionalMode = enabled;
   },
@@ -1202,11 +1458,129 @@ const battlemapActions = {
       }
     }
     
-    battlemapStore.grid.tiles = sampleTiles;
+    battlemapActions.setTiles(sampleTiles);
     battlemapStore.grid.maxZLevel = 0; // Only floor level now
     console.log('[battlemapStore] Generated sample isometric tiles:', Object.keys(sampleTiles).length);
   },
 
+  // NEW: Large generated map for measuring render performance (replaces the current map, clears undo history)
+  generateBenchmarkMap: (size: number = 128) => {
+    const editor = battlemapStore.controls.isometricEditor;
+    const { tiles, walls } = generateBenchmarkGrid(size, size, {
+      floorSprite: editor.lastSelectedBlockSprite ?? 'Floor_01',
+      wallSprite: editor.lastSelectedWallSprite,
+    });
+    
+    battlemapActions.setGridDimensions(size, size);
+    battlemapStore.grid.tiles = tiles;
+    battlemapStore.grid.walls = walls;
+    battlemapStore.grid.maxZLevel = 1;
+    historyActions.clear();
+    
+    console.log(`[battlemapStore] Generated ${size}x${size} benchmark map: ${Object.keys(tiles).length} tiles, ${Object.keys(walls).length} walls - FORCING RENDER`);
+    
+    // Force immediate re-render by triggering a dummy change
+    const currentOffset = battlemapStore.view.offset;
+    battlemapStore.view.offset = { ...currentOffset };
+    
+    setTimeout(() => {
+      if ((window as any).__forceGridRender) (window as any).__forceGridRender();
+      if ((window as any).__forceTileRender) (window as any).__forceTileRender();
+    }, 0);
+  },
+
+  // NEW: Map document serialization (persistence itself lives in MapPersistenceManager)
+  createMapDocument: (name: string): MapDocument => {
+    const { grid, view } = battlemapStore;
+    
+    // Plain copies so the document doesn't hold on to the Valtio proxies
+    return {
+      version: MAP_DOCUMENT_VERSION,
+      name,
+      lastModified: new Date().toISOString(),
+      grid: {
+        width: grid.width,
+        height: grid.height,
+        tiles: JSON.parse(JSON.stringify(grid.tiles)),
+        walls: JSON.parse(JSON.stringify(grid.walls)),
+        maxZLevel: grid.maxZLevel,
+      },
+      view: {
+        zLayerHeights: view.zLayerHeights.map(layer => ({ ...layer })),
+        gridDiamondWidth: view.gridDiamondWidth,
+        spriteScale: view.spriteScale,
+      },
+      lighting: {
+        lights: JSON.parse(JSON.stringify(lightingStore.lights)),
+        ambientLight: lightingStore.ambientLight,
+      },
+    };
+  },
+  
+  applyMapDocument: (document: MapDocument) => {
+    battlemapActions.setGridDimensions(document.grid.width, document.grid.height);
+    battlemapStore.grid.tiles = JSON.parse(JSON.stringify(document.grid.tiles));
+    battlemapStore.grid.walls = JSON.parse(JSON.stringify(document.grid.walls));
+    battlemapStore.grid.maxZLevel = document.grid.maxZLevel;
+    
+    // Restore view settings and treat them as the new ratio lock base values
+    battlemapStore.view.zLayerHeights = document.view.zLayerHeights.map(layer => ({ ...layer }));
+    battlemapStore.view.gridDiamondWidth = document.view.gridDiamondWidth;
+    battlemapStore.view.spriteScale = document.view.spriteScale;
+    battlemapActions.setBaseValues();
+    
+    lightingActions.setLighting(document.lighting.lights, document.lighting.ambientLight);
+    
+    // A freshly loaded map starts with an empty undo history
+    historyActions.clear();
+    
+    console.log(`[battlemapStore] Applied map document "${document.name}" (v${document.version}): ${Object.keys(document.grid.tiles).length} tiles, ${Object.keys(document.grid.walls).length} walls - FORCING RENDER`);
+    
+    // Force immediate re-render by triggering a dummy change
+    const currentOffset = battlemapStore.view.offset;
+    battlemapStore.view.offset = { ...currentOffset };
+    
+    // Also trigger manual renders if available
+    setTimeout(() => {
+      if ((window as any).__forceGridRender) (window as any).__forceGridRender();
+      if ((window as any).__forceTileRender) (window as any).__forceTileRender();
+    }, 0);
+  },
+
+  // NEW: Replace the grid with a snapshot from the battle backend (view settings are kept). Undo history is
+  // cleared, or with keepHistory (a resync of the same map) only the steps touching overwritten keys are dropped
+  applyGridSnapshot: (snapshot: GridSnapshot, keepHistory: boolean = false) => {
+    if (keepHistory) {
+      const overwritten: Array<{ kind: 'tile' | 'wall'; key: string }> = [];
+      const collectOverwritten = (kind: 'tile' | 'wall', current: Record<string, unknown>, next: Readonly<Record<string, unknown>>) => {
+        new Set([...Object.keys(current), ...Object.keys(next)]).forEach(key => {
+          if (JSON.stringify(current[key] ?? null) !== JSON.stringify(next[key] ?? null)) overwritten.push({ kind, key });
+        });
+      };
+      collectOverwritten('tile', battlemapStore.grid.tiles, snapshot.tiles);
+      collectOverwritten('wall', battlemapStore.grid.walls, snapshot.walls ?? {});
+      historyActions.discardKeys(overwritten);
+    } else {
+      historyActions.clear();
+    }
+
+    battlemapActions.setGridDimensions(snapshot.width, snapshot.height);
+    battlemapStore.grid.tiles = JSON.parse(JSON.stringify(snapshot.tiles));
+    battlemapStore.grid.walls = JSON.parse(JSON.stringify(snapshot.walls ?? {}));
+    battlemapStore.grid.maxZLevel = Math.max(0, ...Object.values(snapshot.tiles).map(tile => tile.z_level));
+    
+    console.log(`[battlemapStore] Applied grid snapshot ${snapshot.width}x${snapshot.height}: ${Object.keys(snapshot.tiles).length} tiles, ${Object.keys(snapshot.walls ?? {}).length} walls - FORCING RENDER`);
+    
+    // Force immediate re-render by triggering a dummy change
+    const currentOffset = battlemapStore.view.offset;
+    battlemapStore.view.offset = { ...currentOffset };
+    
+    setTimeout(() => {
+      if ((window as any).__forceGridRender) (window as any).__forceGridRender();
+      if ((window as any).__forceTileRender) (window as any).__forceTileRender();
+    }, 0);
+  },
+
   // NEW: Individual grid layer visibility controls
   setGridLayerVisibility: (zLayer: number, visible: boolean) => {
     battlemapStore.view.gridLayerVisibility[zLayer] = visible;
@@ -1364,30 +1738,18 @@ const battlemapActions = {
   },
 
   // NEW: Wall management actions
-  addWall: (wall: WallSummary) => {
-    // Check for existing identical wall (same sprite, position, z_level, wall_direction, sprite_direction)
-    const existingWallKey = Object.keys(battlemapStore.grid.walls).find(wallKey => {
-      const existingWall = battlemapStore.grid.walls[wallKey];
-      return (
-        existingWall.sprite_name === wall.sprite_name &&
-        existingWall.position[0] === wall.position[0] &&
-        existingWall.position[1] === wall.position[1] &&
-        existingWall.z_level === wall.z_level &&
-        existingWall.wall_direction === wall.wall_direction &&
-        existingWall.sprite_direction === wall.sprite_direction
-      );
-    });
-
-    if (existingWallKey) {
-      // Overwrite existing identical wall instead of creating duplicate
-      battlemapStore.grid.walls[existingWallKey] = wall;
-      console.log('[battlemapStore] Overwriting identical wall:', wall, '- FORCING RENDER');
-    } else {
-      // Use the wall's UUID as the key to allow multiple different walls per edge
-      const wallKey = wall.uuid;
-      battlemapStore.grid.walls[wallKey] = wall;
-      console.log('[battlemapStore] Added new wall:', wall, '- FORCING RENDER');
-    }
+  addWall: (placedWall: WallSummary) => {
+    // Keyed by edge, sprite and facing: different walls can share an edge, an identical one is overwritten
+    const { wallKey, wall } = toWallRecord(placedWall);
+    const isOverwrite = !!battlemapStore.grid.walls[wallKey];
+    historyActions.recordChange({
+      kind: 'wall',
+      key: wallKey,
+      before: toHistoryValue(battlemapStore.grid.walls[wallKey]),
+      after: toHistoryValue(wall)
+    }, 'Place wall');
+    setWallRecord(wallKey, wall);
+    console.log(`[battlemapStore] ${isOverwrite ? 'Overwriting identical' : 'Added new'} wall:`, wall, '- FORCING RENDER');
     
     // Update max Z level if necessary
     if (wall.z_level > battlemapStore.grid.maxZLevel) {
@@ -1404,25 +1766,131 @@ const battlemapActions = {
     }, 0);
   },
 
-  removeWall: (x: number, y: number, z: number, direction: IsometricDirection) => {
-    // Remove ALL walls at the specified edge (not just one)
-    const wallsToRemove: string[] = [];
-    
-    // Find all walls at this edge
-    Object.keys(battlemapStore.grid.walls).forEach(wallKey => {
-      const wall = battlemapStore.grid.walls[wallKey];
-      if (wall.position[0] === x && 
-          wall.position[1] === y && 
-          wall.z_level === z && 
-          wall.wall_direction === direction) {
-        wallsToRemove.push(wallKey);
+  // NEW: Batch wall placement - one undoable step and one render for the whole set
+  addWalls: (walls: WallSummary[], label: string = 'Place walls') => {
+    if (walls.length === 0) return;
+    
+    historyActions.beginTransaction(label);
+    walls.forEach(placedWall => {
+      // Overwrite identical walls instead of creating duplicates (same rule as addWall)
+      const { wallKey, wall } = toWallRecord(placedWall);
+      historyActions.recordChange({
+        kind: 'wall',
+        key: wallKey,
+        before: toHistoryValue(battlemapStore.grid.walls[wallKey]),
+        after: toHistoryValue(wall)
+      }, label);
+      setWallRecord(wallKey, wall);
+      
+      if (wall.z_level > battlemapStore.grid.maxZLevel) {
+        battlemapStore.grid.maxZLevel = wall.z_level;
       }
     });
+    historyActions.endTransaction();
+    
+    console.log(`[battlemapStore] Added ${walls.length} walls in one batch - FORCING RENDER`);
+    
+    // Force immediate re-render
+    const currentOffset = battlemapStore.view.offset;
+    battlemapStore.view.offset = { ...currentOffset };
+    
+    setTimeout(() => {
+      if ((window as any).__forceTileRender) (window as any).__forceTileRender();
+    }, 0);
+  },
+
+  removeWalls: (edges: Array<{ x: number; y: number; direction: IsometricDirection }>, z: number, label: string = 'Remove walls') => {
+    // Edges are matched from either side (a SOUTH edge also removes the neighbour's NORTH wall)
+    const index = getWallIndex();
+    const wallsToRemove = Array.from(new Set(
+      edges.reduce<string[]>((keys, edge) => keys.concat(index.getKeysAtEdge(edge.x, edge.y, z, edge.direction)), [])
+    ));
+    if (wallsToRemove.length === 0) return;
+    
+    historyActions.beginTransaction(label);
+    wallsToRemove.forEach(wallKey => {
+      historyActions.recordChange({
+        kind: 'wall',
+        key: wallKey,
+        before: toHistoryValue(battlemapStore.grid.walls[wallKey]),
+        after: null
+      }, label);
+      deleteWallRecord(wallKey);
+    });
+    historyActions.endTransaction();
+    
+    console.log(`[battlemapStore] Removed ${wallsToRemove.length} walls in one batch - FORCING RENDER`);
+    
+    // Force immediate re-render
+    const currentOffset = battlemapStore.view.offset;
+    battlemapStore.view.offset = { ...currentOffset };
+    
+    setTimeout(() => {
+      if ((window as any).__forceTileRender) (window as any).__forceTileRender();
+    }, 0);
+  },
+
+  // NEW: Mixed tile/wall batch edit (selection cut, paste and move) - removals run before additions
+  applyGridEdit: (edit: {
+    removeTileKeys?: string[];
+    removeWallKeys?: string[];
+    tiles?: TileSummary[];
+    walls?: WallSummary[];
+  }, label: string) => {
+    const { removeTileKeys = [], removeWallKeys = [], tiles = [], walls = [] } = edit;
+    
+    historyActions.beginTransaction(label);
+    removeTileKeys.filter(posKey => battlemapStore.grid.tiles[posKey]).forEach(posKey => {
+      historyActions.recordChange({ kind: 'tile', key: posKey, before: toHistoryValue(battlemapStore.grid.tiles[posKey]), after: null }, label);
+      delete battlemapStore.grid.tiles[posKey];
+    });
+    removeWallKeys.filter(wallKey => battlemapStore.grid.walls[wallKey]).forEach(wallKey => {
+      historyActions.recordChange({ kind: 'wall', key: wallKey, before: toHistoryValue(battlemapStore.grid.walls[wallKey]), after: null }, label);
+      deleteWallRecord(wallKey);
+    });
+    tiles.forEach(tile => {
+      const posKey = `${tile.position[0]},${tile.position[1]},${tile.z_level}`;
+      historyActions.recordChange({ kind: 'tile', key: posKey, before: toHistoryValue(battlemapStore.grid.tiles[posKey]), after: toHistoryValue(tile) }, label);
+      battlemapStore.grid.tiles[posKey] = tile;
+    });
+    walls.forEach(placedWall => {
+      const { wallKey, wall } = toWallRecord(placedWall);
+      historyActions.recordChange({ kind: 'wall', key: wallKey, before: toHistoryValue(battlemapStore.grid.walls[wallKey]), after: toHistoryValue(wall) }, label);
+      setWallRecord(wallKey, wall);
+    });
+    historyActions.endTransaction();
+    
+    // Keep max Z level in sync with whatever was added
+    const addedZLevels = [...tiles.map(tile => tile.z_level), ...walls.map(wall => wall.z_level)];
+    battlemapStore.grid.maxZLevel = Math.max(battlemapStore.grid.maxZLevel, ...addedZLevels);
+    
+    console.log(`[battlemapStore] ${label}: -${removeTileKeys.length} tiles, -${removeWallKeys.length} walls, +${tiles.length} tiles, +${walls.length} walls - FORCING RENDER`);
+    
+    // Force immediate re-render
+    const currentOffset = battlemapStore.view.offset;
+    battlemapStore.view.offset = { ...currentOffset };
+    
+    setTimeout(() => {
+      if ((window as any).__forceTileRender) (window as any).__forceTileRender();
+    }, 0);
+  },
+
+  removeWall: (x: number, y: number, z: number, direction: IsometricDirection) => {
+    // Remove ALL walls at the specified edge (not just one), including those drawn from the neighbouring cell
+    const wallsToRemove = getWallIndex().getKeysAtEdge(x, y, z, direction);
     
-    // Remove all found walls
+    // Remove all found walls (as one undoable step)
+    historyActions.beginTransaction('Remove wall');
     wallsToRemove.forEach(wallKey => {
-      delete battlemapStore.grid.walls[wallKey];
+      historyActions.recordChange({
+        kind: 'wall',
+        key: wallKey,
+        before: toHistoryValue(battlemapStore.grid.walls[wallKey]),
+        after: null
+      }, 'Remove wall');
+      deleteWallRecord(wallKey);
     });
+    historyActions.endTransaction();
     
     console.log(`[battlemapStore] Removed ${wallsToRemove.length} wall(s) at (${x}, ${y}, Z:${z}, Edge:${direction}) - FORCING RENDER`);
     
@@ -1436,12 +1904,25 @@ const battlemapActions = {
     }, 0);
   },
 
-  updateWall: (wallUuid: string, updates: Partial<WallSummary>) => {
-    // Update wall by UUID instead of position+direction
-    const existingWall = battlemapStore.grid.walls[wallUuid];
+  updateWall: (wallKey: string, updates: Partial<WallSummary>) => {
+    // Update wall by key instead of position+direction (moves it to a new key if its edge, sprite or facing changed)
+    const existingWall = battlemapStore.grid.walls[wallKey];
     if (existingWall) {
-      battlemapStore.grid.walls[wallUuid] = { ...existingWall, ...updates };
-      console.log('[battlemapStore] Updated wall:', wallUuid, '- FORCING RENDER');
+      const { wallKey: updatedKey, wall: updatedWall } = toWallRecord({ ...existingWall, ...updates });
+      historyActions.beginTransaction('Update wall');
+      if (updatedKey !== wallKey) {
+        historyActions.recordChange({ kind: 'wall', key: wallKey, before: toHistoryValue(existingWall), after: null }, 'Update wall');
+        deleteWallRecord(wallKey);
+      }
+      historyActions.recordChange({
+        kind: 'wall',
+        key: updatedKey,
+        before: toHistoryValue(battlemapStore.grid.walls[updatedKey]),
+        after: toHistoryValue(updatedWall)
+      }, 'Update wall');
+      setWallRecord(updatedKey, updatedWall);
+      historyActions.endTransaction();
+      console.log('[battlemapStore] Updated wall:', updatedKey, '- FORCING RENDER');
       
       // Force immediate re-render
       const currentOffset = battlemapStore.view.offset;
@@ -1454,34 +1935,110 @@ const battlemapActions = {
     }
   },
 
+  // Walls on any of the cell's four edges, whichever cell they were drawn from
   getWallsAtPosition: (x: number, y: number, z: number): WallSummary[] => {
-    const walls: WallSummary[] = [];
-    Object.values(battlemapStore.grid.walls).forEach(wall => {
-      if (wall.position[0] === x && wall.position[1] === y && wall.z_level === z) {
-        walls.push(wall);
-      }
-    });
-    return walls;
+    return getWallIndex().getKeysAtCell(x, y, z).map(wallKey => battlemapStore.grid.walls[wallKey]);
   },
 
+  // Walls on an edge, given from either of its cells
   getWallsAtEdge: (x: number, y: number, z: number, direction: IsometricDirection): WallSummary[] => {
-    const walls: WallSummary[] = [];
-    Object.values(battlemapStore.grid.walls).forEach(wall => {
-      if (wall.position[0] === x && 
-          wall.position[1] === y && 
-          wall.z_level === z && 
-          wall.wall_direction === direction) {
-        walls.push(wall);
-      }
-    });
-    return walls;
+    return getWallIndex().getKeysAtEdge(x, y, z, direction).map(wallKey => battlemapStore.grid.walls[wallKey]);
   },
 
   clearAllWalls: () => {
+    historyActions.beginTransaction('Clear all walls');
+    Object.keys(battlemapStore.grid.walls).forEach(key => {
+      historyActions.recordChange({
+        kind: 'wall',
+        key,
+        before: toHistoryValue(battlemapStore.grid.walls[key]),
+        after: null
+      }, 'Clear all walls');
+    });
+    historyActions.endTransaction();
+    
     battlemapStore.grid.walls = {};
     console.log('[battlemapStore] Cleared all walls locally');
   },
 
+  // NEW: Undo/redo (history bookkeeping lives in historyStore)
+  applyGridChanges: (changes: GridChange[], direction: 'undo' | 'redo') => {
+    // Undo walks the changes backwards and restores "before"; redo replays forwards to "after"
+    const orderedChanges = direction === 'undo' ? [...changes].reverse() : changes;
+    
+    orderedChanges.forEach(change => {
+      const value = direction === 'undo' ? change.before : change.after;
+      const collection: Record<string, TileSummary | WallSummary> = change.kind === 'tile'
+        ? battlemapStore.grid.tiles
+        : battlemapStore.grid.walls;
+      
+      if (value) {
+        collection[change.key] = JSON.parse(JSON.stringify(value));
+      } else {
+        delete collection[change.key];
+      }
+    });
+    
+    // Recompute max Z level since entries may have appeared or disappeared
+    const zLevels = [
+      ...Object.values(battlemapStore.grid.tiles).map(tile => tile.z_level),
+      ...Object.values(battlemapStore.grid.walls).map(wall => wall.z_level)
+    ];
+    battlemapStore.grid.maxZLevel = Math.max(0, ...zLevels);
+    
+    // Force immediate re-render
+    const currentOffset = battlemapStore.view.offset;
+    battlemapStore.view.offset = { ...currentOffset };
+    
+    setTimeout(() => {
+      if ((window as any).__forceTileRender) (window as any).__forceTileRender();
+    }, 0);
+  },
+  
+  // NEW: Apply tile/wall changes received from other clients (not recorded in the undo history)
+  applyGridDiff: (diff: SyncDiff) => {
+    const apply = <T>(collection: Record<string, T>, changes: Readonly<Record<string, T | null>> | undefined) => {
+      Object.entries(changes ?? {}).forEach(([key, value]) => {
+        if (value) {
+          collection[key] = JSON.parse(JSON.stringify(value));
+        } else {
+          delete collection[key];
+        }
+      });
+    };
+    apply(battlemapStore.grid.tiles, diff.tiles);
+    apply(battlemapStore.grid.walls, diff.walls);
+    
+    const zLevels = [
+      ...Object.values(battlemapStore.grid.tiles).map(tile => tile.z_level),
+      ...Object.values(battlemapStore.grid.walls).map(wall => wall.z_level)
+    ];
+    battlemapStore.grid.maxZLevel = Math.max(0, ...zLevels);
+  },
+  
+  undo: (): boolean => {
+    // Close any half-finished drag so it becomes the step being undone
+    while (historyActions.isInTransaction()) {
+      historyActions.endTransaction();
+    }
+    
+    const entry = historyActions.takeUndo();
+    if (!entry) return false;
+    
+    battlemapActions.applyGridChanges(entry.changes, 'undo');
+    console.log(`[battlemapStore] Undo: "${entry.label}" (${entry.changes.length} changes)`);
+    return true;
+  },
+  
+  redo: (): boolean => {
+    const entry = historyActions.takeRedo();
+    if (!entry) return false;
+    
+    battlemapActions.applyGridChanges(entry.changes, 'redo');
+    console.log(`[battlemapStore] Redo: "${entry.label}" (${entry.changes.length} changes)`);
+    return true;
+  },
+
   // NEW: Wall editor controls
   setWallMode: (enabled: boolean) => {
     const wasWallMode = battlemapStore.controls.isometricEditor.wallMode;
@@ -1544,6 +2101,15 @@ const battlemapActions = {
     battlemapStore.controls.isometricEditor.wallSpriteDirection = direction;
   },
 
+  setWallTool: (tool: WallTool) => {
+    battlemapStore.controls.isometricEditor.wallTool = tool;
+    console.log(`[battlemapStore] Wall tool set to: ${tool}`);
+  },
+
+  setWallRunAutoClose: (enabled: boolean) => {
+    battlemapStore.controls.isometricEditor.wallRunAutoClose = enabled;
+  },
+
   // Wall positioning settings (SAME SYSTEM AS BLOCKS - wall sprites are just positioned relative to edges instead of centers)
   setWallPositioningSettings: (spriteName: string, settings: {
     invisibleMarginUp: number;
@@ -0,0 +1,150 @@
+import { proxy } from 'valtio';
+import { CollabLock, CollabOp, CollabPresence, CollabUser, SyncConnectionStatus } from '../types/battlemap_types';
+
+// A soft lock as seen locally (expiry on our clock, so relay and client clocks never need to agree)
+export interface ActiveCollabLock extends CollabLock {
+  expiresAt: number; // Date.now() based
+}
+
+// One of the values concurrent edits left on a key
+export interface CollabConflictOption {
+  stampId: string;
+  clientId: string;
+  userName: string;
+  value: CollabOp['value'];
+}
+
+// A key that concurrent edits left with several values (the newest is shown until one is picked)
+export interface CollabConflict {
+  id: string; // collection:key
+  collection: CollabOp['collection'];
+  key: string;
+  cell: { x: number; y: number; z: number } | null;
+  options: CollabConflictOption[]; // Newest first
+}
+
+// Collaboration store state (merge bookkeeping lives in CollaborationManager)
+export interface CollabStoreState {
+  url: string;
+  userName: string;
+  userColor: number;
+  status: SyncConnectionStatus;
+  clientId: string | null; // Our id while connected
+  users: Record<string, CollabUser>; // Other users in the session
+  presences: Record<string, CollabPresence>;
+  locks: Record<string, ActiveCollabLock>; // Every active lock, ours included
+  warning: string | null; // Last rejected edit
+  conflicts: Record<string, CollabConflict>; // Unresolved conflicts by id
+}
+
+// Cursor colors handed out to users
+export const COLLAB_USER_COLORS = [0xE91E63, 0x03A9F4, 0x8BC34A, 0xFF9800, 0x9C27B0, 0x00BCD4, 0xFFEB3B, 0xF44336];
+
+const getDefaultCollabUrl = (): string => {
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${protocol}://${window.location.hostname}:8001/collab`;
+};
+
+// Create the collaboration store
+export const collabStore = proxy<CollabStoreState>({
+  url: localStorage.getItem('collabRelayUrl') ?? getDefaultCollabUrl(),
+  userName: localStorage.getItem('collabUserName') ?? 'DM',
+  userColor: Number(localStorage.getItem('collabUserColor')) || COLLAB_USER_COLORS[Math.floor(Math.random() * COLLAB_USER_COLORS.length)],
+  status: 'disconnected',
+  clientId: null,
+  users: {},
+  presences: {},
+  locks: {},
+  warning: null,
+  conflicts: {}
+});
+
+// Collaboration actions
+export const collabActions = {
+  setUrl: (url: string) => {
+    collabStore.url = url;
+    localStorage.setItem('collabRelayUrl', url);
+  },
+
+  resetUrl: () => {
+    collabStore.url = getDefaultCollabUrl();
+    localStorage.removeItem('collabRelayUrl');
+  },
+
+  setUserName: (name: string) => {
+    collabStore.userName = name;
+    localStorage.setItem('collabUserName', name);
+  },
+
+  setUserColor: (color: number) => {
+    collabStore.userColor = color;
+    localStorage.setItem('collabUserColor', String(color));
+  },
+
+  setStatus: (status: SyncConnectionStatus) => {
+    collabStore.status = status;
+  },
+
+  setClientId: (clientId: string | null) => {
+    collabStore.clientId = clientId;
+  },
+
+  // Replace everything we know about the session (on welcome / disconnect)
+  resetSession: (users: CollabUser[] = [], presences: Record<string, CollabPresence> = {}, locks: CollabLock[] = []) => {
+    collabStore.users = {};
+    users.forEach(user => { collabStore.users[user.clientId] = user; });
+    collabStore.presences = { ...presences };
+    collabStore.locks = {};
+    locks.forEach(lock => collabActions.upsertLock(lock));
+    collabStore.warning = null;
+  },
+
+  upsertUser: (user: CollabUser) => {
+    collabStore.users[user.clientId] = user;
+  },
+
+  // A user left: drop their cursor and locks too
+  removeUser: (clientId: string) => {
+    delete collabStore.users[clientId];
+    delete collabStore.presences[clientId];
+    Object.values(collabStore.locks)
+      .filter(lock => lock.clientId === clientId)
+      .forEach(lock => { delete collabStore.locks[lock.lockId]; });
+  },
+
+  setPresence: (clientId: string, presence: CollabPresence) => {
+    collabStore.presences[clientId] = presence;
+  },
+
+  upsertLock: (lock: CollabLock) => {
+    collabStore.locks[lock.lockId] = { ...lock, expiresAt: Date.now() + lock.ttlMs };
+  },
+
+  removeLock: (lockId: string) => {
+    delete collabStore.locks[lockId];
+  },
+
+  // Drop leases that ran out without being renewed
+  pruneExpiredLocks: () => {
+    const now = Date.now();
+    Object.values(collabStore.locks)
+      .filter(lock => lock.expiresAt <= now)
+      .forEach(lock => { delete collabStore.locks[lock.lockId]; });
+  },
+
+  setWarning: (warning: string | null) => {
+    collabStore.warning = warning;
+  },
+
+  setConflict: (conflict: CollabConflict) => {
+    collabStore.conflicts[conflict.id] = conflict;
+  },
+
+  removeConflict: (conflictId: string) => {
+    delete collabStore.conflicts[conflictId];
+  },
+
+  clearConflicts: () => {
+    collabStore.conflicts = {};
+  }
+};
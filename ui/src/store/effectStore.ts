@@ -0,0 +1,241 @@
+import { proxy } from 'valtio';
+import {
+  BloodSplatConfig,
+  BloodSplatDirection,
+  BloodSplatSettings,
+  DEFAULT_BLOOD_SPLAT_CONFIG,
+  EffectAnimation,
+  EffectCategory,
+  EffectType,
+  VisualPosition,
+  getEffectCategory,
+  getDefaultEffectDuration
+} from '../types/battlemap_types';
+import { entityStore } from './entityStore';
+import { battlemapStore } from './battlemapStore';
+import { computeBloodSplatDroplets } from '../utils/bloodSplatUtils';
+
+// Optional settings when spawning an effect
+export interface SpawnEffectOptions {
+  duration?: number; // ms, temporary effects only (defaults to getDefaultEffectDuration)
+  scale?: number;
+  alpha?: number;
+  offsetX?: number; // Screen px at zoom 1
+  offsetY?: number;
+  layerHint?: 'below' | 'above';
+  attackerPosition?: readonly [number, number];
+  defenderPosition?: readonly [number, number];
+  triggerCallback?: () => void; // Called once when a temporary effect completes (or any effect is removed)
+}
+
+// Floating combat text (damage numbers, roll breakdowns) anchored to a grid position
+export interface FloatingText {
+  id: string;
+  kind: 'damage' | 'tooltip';
+  text: string;
+  color: number;
+  position: VisualPosition;
+  entityId?: string; // Follows this entity when set
+  startTime: number;
+  duration: number; // ms
+  scale: number;
+}
+
+// Options for spawning floating text
+export interface SpawnFloatingTextOptions {
+  kind?: FloatingText['kind'];
+  color?: number;
+  entityId?: string;
+  duration?: number;
+  scale?: number;
+}
+
+// Effect store state
+export interface EffectStoreState {
+  effects: Record<string, EffectAnimation>;
+  floatingTexts: Record<string, FloatingText>;
+  bloodSplatConfig: BloodSplatConfig;
+}
+
+// Config key for each spray direction
+const BLOOD_SPLAT_CONFIG_KEYS: Record<BloodSplatDirection, keyof BloodSplatConfig> = {
+  [BloodSplatDirection.TOWARD_ATTACKER]: 'towardAttacker',
+  [BloodSplatDirection.AWAY_FROM_ATTACKER]: 'awayFromAttacker'
+};
+
+// Load the tuned blood splat config from localStorage
+const loadBloodSplatConfigFromStorage = (): BloodSplatConfig => {
+  try {
+    const savedConfig = localStorage.getItem('bloodSplatConfig');
+    if (savedConfig) {
+      const parsed = JSON.parse(savedConfig);
+      return {
+        towardAttacker: { ...DEFAULT_BLOOD_SPLAT_CONFIG.towardAttacker, ...parsed.towardAttacker },
+        awayFromAttacker: { ...DEFAULT_BLOOD_SPLAT_CONFIG.awayFromAttacker, ...parsed.awayFromAttacker }
+      };
+    }
+  } catch (e) {
+    console.error('Failed to parse saved blood splat config:', e);
+  }
+  return JSON.parse(JSON.stringify(DEFAULT_BLOOD_SPLAT_CONFIG));
+};
+
+// Create the effect store
+export const effectStore = proxy<EffectStoreState>({
+  effects: {},
+  floatingTexts: {},
+  bloodSplatConfig: loadBloodSplatConfigFromStorage()
+});
+
+let nextEffectId = 1;
+let nextFloatingTextId = 1;
+
+const createEffect = (
+  effectType: EffectType,
+  category: EffectCategory,
+  position: VisualPosition,
+  options: SpawnEffectOptions,
+  attachedToEntityId?: string
+): string => {
+  const effectId = `effect_${nextEffectId++}_${effectType}`;
+  const effect: EffectAnimation = {
+    effectId,
+    effectType,
+    category,
+    position: { x: position.x, y: position.y },
+    startTime: performance.now(),
+    duration: category === EffectCategory.TEMPORARY ? (options.duration ?? getDefaultEffectDuration(effectType)) : options.duration,
+    scale: options.scale,
+    alpha: options.alpha,
+    attachedToEntityId,
+    offsetX: options.offsetX,
+    offsetY: options.offsetY,
+    triggerCallback: options.triggerCallback,
+    attackerPosition: options.attackerPosition,
+    defenderPosition: options.defenderPosition,
+    layerHint: options.layerHint
+  };
+  effectStore.effects[effectId] = effect;
+  return effectId;
+};
+
+// Effect actions
+export const effectActions = {
+  /**
+   * Spawn an effect with the category implied by its type (looping types stay until removed)
+   * @returns The effect id
+   */
+  spawnEffect: (effectType: EffectType, position: VisualPosition, options: SpawnEffectOptions = {}): string => {
+    return createEffect(effectType, getEffectCategory(effectType), position, options);
+  },
+
+  // Play once, removed automatically after its duration
+  spawnTemporaryEffect: (effectType: EffectType, position: VisualPosition, options: SpawnEffectOptions = {}): string => {
+    return createEffect(effectType, EffectCategory.TEMPORARY, position, options);
+  },
+
+  // Loop at a grid position until removed
+  spawnLoopingEffect: (effectType: EffectType, position: VisualPosition, options: SpawnEffectOptions = {}): string => {
+    return createEffect(effectType, EffectCategory.PERMANENT, position, options);
+  },
+
+  /**
+   * Loop on an entity and follow it, until removed (or the entity leaves)
+   * Pass a duration to make it expire like a temporary effect
+   */
+  attachEffectToEntity: (effectType: EffectType, entityId: string, options: SpawnEffectOptions = {}): string | null => {
+    const entity = entityStore.entities[entityId];
+    if (!entity) return null;
+    const position = { x: entity.position[0], y: entity.position[1] };
+    return createEffect(effectType, EffectCategory.ATTACHED, position, options, entityId);
+  },
+
+  // Remove an effect, firing its callback if it has one
+  removeEffect: (effectId: string) => {
+    const effect = effectStore.effects[effectId];
+    if (!effect) return;
+    delete effectStore.effects[effectId];
+    effect.triggerCallback?.();
+  },
+
+  removeEffectsForEntity: (entityId: string) => {
+    Object.values(effectStore.effects)
+      .filter(effect => effect.attachedToEntityId === entityId)
+      .forEach(effect => effectActions.removeEffect(effect.effectId));
+  },
+
+  clearEffects: () => {
+    Object.keys(effectStore.effects).forEach(effectId => effectActions.removeEffect(effectId));
+    effectStore.floatingTexts = {};
+  },
+
+  // Floating text (removed by the FloatingTextRenderer once its duration is over)
+  spawnFloatingText: (text: string, position: VisualPosition, options: SpawnFloatingTextOptions = {}): string => {
+    const id = `text_${nextFloatingTextId++}`;
+    const kind = options.kind ?? 'damage';
+    effectStore.floatingTexts[id] = {
+      id,
+      kind,
+      text,
+      color: options.color ?? 0xFFFFFF,
+      position: { x: position.x, y: position.y },
+      entityId: options.entityId,
+      startTime: performance.now(),
+      duration: options.duration ?? (kind === 'tooltip' ? 3000 : 1200),
+      scale: options.scale ?? 1.0
+    };
+    return id;
+  },
+
+  removeFloatingText: (id: string) => {
+    delete effectStore.floatingTexts[id];
+  },
+
+  // Blood splats
+
+  /**
+   * Spray blood droplets for a hit, in both configured directions
+   * Each droplet is a temporary BLOOD_SPLAT effect on the layer its depth calls for
+   * @returns Total number of droplets scheduled
+   */
+  spawnBloodSplat: (attackerPosition: readonly [number, number], defenderPosition: readonly [number, number]): number => {
+    const config = effectStore.bloodSplatConfig;
+    let dropletCount = 0;
+
+    (Object.keys(BLOOD_SPLAT_CONFIG_KEYS) as BloodSplatDirection[]).forEach(direction => {
+      const settings = config[BLOOD_SPLAT_CONFIG_KEYS[direction]];
+      const droplets = computeBloodSplatDroplets(settings, direction, attackerPosition, defenderPosition);
+
+      droplets.forEach(droplet => {
+        const spawn = () => effectActions.spawnTemporaryEffect(EffectType.BLOOD_SPLAT, droplet.position, {
+          scale: settings.scale,
+          alpha: settings.alpha,
+          // Height is in diamond widths; effect offsets are screen px at zoom 1
+          offsetY: -droplet.upOffset * battlemapStore.view.gridDiamondWidth,
+          layerHint: droplet.layer,
+          attackerPosition,
+          defenderPosition
+        });
+        if (droplet.delayMs > 0) {
+          setTimeout(spawn, droplet.delayMs);
+        } else {
+          spawn();
+        }
+      });
+      dropletCount += droplets.length;
+    });
+
+    return dropletCount;
+  },
+
+  updateBloodSplatSettings: (direction: BloodSplatDirection, updates: Partial<BloodSplatSettings>) => {
+    const key = BLOOD_SPLAT_CONFIG_KEYS[direction];
+    effectStore.bloodSplatConfig[key] = { ...effectStore.bloodSplatConfig[key], ...updates };
+    localStorage.setItem('bloodSplatConfig', JSON.stringify(effectStore.bloodSplatConfig));
+  },
+
+  resetBloodSplatConfig: () => {
+    effectStore.bloodSplatConfig = JSON.parse(JSON.stringify(DEFAULT_BLOOD_SPLAT_CONFIG));
+    localStorage.removeItem('bloodSplatConfig');
+  }
+};
@@ -0,0 +1,247 @@
+import { proxy } from 'valtio';
+import { EntitySummary, Position, UUID } from '../types/common';
+import {
+  AnimationState,
+  Direction,
+  EntitySpriteMapping,
+  MovementAnimation,
+  MovementState,
+  positionsEqual,
+  VisualPosition,
+  toVisualPosition,
+  isVisualPositionSynced
+} from '../types/battlemap_types';
+import { getSegmentDirection, getDirectionFromDelta } from '../utils/entityMovementUtils';
+
+// Default path movement speed (cells per second) and the speed from which RUN replaces WALK
+export const DEFAULT_MOVEMENT_SPEED = 3;
+export const RUN_SPEED_THRESHOLD = 5;
+
+// Entity store state
+export interface EntityStoreState {
+  entities: Record<UUID, EntitySummary>;
+  spriteMappings: Record<UUID, EntitySpriteMapping>; // Keyed by entity uuid
+  movements: Record<UUID, MovementAnimation>; // Active path movements, keyed by entity uuid
+  selectedEntityId: UUID | null;
+}
+
+// Options for starting a path movement
+export interface StartMovementOptions {
+  movementSpeed?: number; // Cells per second
+  isServerApproved?: boolean; // Leave undefined while the server hasn't answered yet
+  animation?: AnimationState; // Defaults to WALK, or RUN at RUN_SPEED_THRESHOLD and above
+}
+
+// Create the entity store
+export const entityStore = proxy<EntityStoreState>({
+  entities: {},
+  spriteMappings: {},
+  movements: {},
+  selectedEntityId: null
+});
+
+// Default mapping for an entity whose summary names a sprite folder
+const createDefaultSpriteMapping = (entity: EntitySummary): EntitySpriteMapping | null => {
+  if (!entity.sprite_name) return null;
+  return {
+    entityId: entity.uuid,
+    spriteFolder: entity.sprite_name,
+    idleAnimation: AnimationState.IDLE,
+    currentAnimation: AnimationState.IDLE,
+    currentDirection: Direction.S,
+    movementState: MovementState.IDLE,
+    isPositionSynced: true
+  };
+};
+
+// Entity actions
+export const entityActions = {
+  // Replace every entity (e.g. after loading an encounter); mappings of removed entities are dropped
+  setEntities: (entities: EntitySummary[]) => {
+    const next: Record<UUID, EntitySummary> = {};
+    entities.forEach(entity => { next[entity.uuid] = entity; });
+    entityStore.entities = next;
+
+    Object.keys(entityStore.spriteMappings).forEach(entityId => {
+      if (!next[entityId]) delete entityStore.spriteMappings[entityId];
+    });
+    Object.keys(entityStore.movements).forEach(entityId => {
+      if (!next[entityId]) delete entityStore.movements[entityId];
+    });
+    entities.forEach(entity => entityActions.ensureSpriteMapping(entity));
+
+    if (entityStore.selectedEntityId && !next[entityStore.selectedEntityId]) {
+      entityStore.selectedEntityId = null;
+    }
+    console.log(`[EntityStore] Set ${entities.length} entities`);
+  },
+
+  upsertEntity: (entity: EntitySummary) => {
+    entityStore.entities[entity.uuid] = entity;
+    entityActions.ensureSpriteMapping(entity);
+
+    // An idle entity whose visual position the server has now caught up with is back in sync
+    const mapping = entityStore.spriteMappings[entity.uuid];
+    if (mapping?.movementState === MovementState.IDLE && mapping.visualPosition &&
+        isVisualPositionSynced(mapping.visualPosition, entity.position)) {
+      entityActions.updateSpriteMapping(entity.uuid, { visualPosition: undefined, isPositionSynced: true });
+    }
+  },
+
+  removeEntity: (entityId: UUID) => {
+    delete entityStore.entities[entityId];
+    delete entityStore.spriteMappings[entityId];
+    delete entityStore.movements[entityId];
+    if (entityStore.selectedEntityId === entityId) {
+      entityStore.selectedEntityId = null;
+    }
+  },
+
+  // Create the default mapping when an entity with a sprite_name has none yet
+  ensureSpriteMapping: (entity: EntitySummary) => {
+    if (entityStore.spriteMappings[entity.uuid]) return;
+    const mapping = createDefaultSpriteMapping(entity);
+    if (mapping) {
+      entityStore.spriteMappings[entity.uuid] = mapping;
+    }
+  },
+
+  setSpriteMapping: (mapping: EntitySpriteMapping) => {
+    entityStore.spriteMappings[mapping.entityId] = mapping;
+  },
+
+  updateSpriteMapping: (entityId: UUID, updates: Partial<Omit<EntitySpriteMapping, 'entityId'>>) => {
+    const mapping = entityStore.spriteMappings[entityId];
+    if (!mapping) return;
+    entityStore.spriteMappings[entityId] = { ...mapping, ...updates };
+  },
+
+  // Play an animation (non-looping animations return to the idle animation when they finish)
+  setEntityAnimation: (entityId: UUID, animation: AnimationState) => {
+    entityActions.updateSpriteMapping(entityId, { currentAnimation: animation });
+  },
+
+  setEntityDirection: (entityId: UUID, direction: Direction) => {
+    entityActions.updateSpriteMapping(entityId, { currentDirection: direction });
+  },
+
+  // Movement (driven every frame by EntityMovementController)
+
+  /**
+   * Walk an entity along a path, one cell per step
+   * The path may or may not start with the entity's current cell
+   */
+  startMovement: (entityId: UUID, path: readonly Position[], options: StartMovementOptions = {}): boolean => {
+    const entity = entityStore.entities[entityId];
+    const mapping = entityStore.spriteMappings[entityId];
+    if (!entity || !mapping || path.length === 0) return false;
+
+    // Start from wherever the entity is drawn right now
+    const from = mapping.visualPosition ?? toVisualPosition(entity.position);
+    const fromCell: Position = [Math.round(from.x), Math.round(from.y)];
+    const fullPath = positionsEqual(path[0], fromCell) ? [...path] : [fromCell, ...path];
+    if (fullPath.length < 2) return false;
+
+    const movementSpeed = options.movementSpeed ?? DEFAULT_MOVEMENT_SPEED;
+    const animation = options.animation ??
+      (movementSpeed >= RUN_SPEED_THRESHOLD ? AnimationState.RUN : AnimationState.WALK);
+
+    entityStore.movements[entityId] = {
+      entityId,
+      path: fullPath,
+      currentPathIndex: 0,
+      startTime: performance.now(),
+      movementSpeed,
+      targetPosition: fullPath[fullPath.length - 1],
+      isServerApproved: options.isServerApproved
+    };
+    entityActions.updateSpriteMapping(entityId, {
+      currentAnimation: animation,
+      currentDirection: getSegmentDirection(fullPath, 0) ?? mapping.currentDirection,
+      movementState: MovementState.MOVING,
+      visualPosition: toVisualPosition(fullPath[0]),
+      isPositionSynced: false
+    });
+    console.log(`[EntityStore] ${entityId} moving ${fullPath.length - 1} cells at ${movementSpeed} cells/s`);
+    return true;
+  },
+
+  // The entity passed path[pathIndex]: face the next segment
+  advanceMovement: (entityId: UUID, pathIndex: number) => {
+    const movement = entityStore.movements[entityId];
+    if (!movement || movement.currentPathIndex === pathIndex) return;
+
+    entityStore.movements[entityId] = { ...movement, currentPathIndex: pathIndex };
+    const direction = getSegmentDirection(movement.path, pathIndex);
+    entityActions.updateSpriteMapping(entityId, {
+      visualPosition: toVisualPosition(movement.path[pathIndex]),
+      ...(direction ? { currentDirection: direction } : {})
+    });
+  },
+
+  // Server verdict for a movement (false makes the controller resync to the server position)
+  setMovementApproval: (entityId: UUID, approved: boolean) => {
+    const movement = entityStore.movements[entityId];
+    if (movement) {
+      entityStore.movements[entityId] = { ...movement, isServerApproved: approved };
+      return;
+    }
+
+    // The path already ended: resync from where the entity was left
+    const mapping = entityStore.spriteMappings[entityId];
+    if (!approved && mapping?.visualPosition && !mapping.isPositionSynced) {
+      entityActions.startResync(entityId, mapping.visualPosition);
+    }
+  },
+
+  // Path walked to the end: idle at the target (in sync once the server position matches)
+  finishMovement: (entityId: UUID) => {
+    const movement = entityStore.movements[entityId];
+    const entity = entityStore.entities[entityId];
+    const mapping = entityStore.spriteMappings[entityId];
+    delete entityStore.movements[entityId];
+    if (!movement || !entity || !mapping) return;
+
+    const target = toVisualPosition(movement.targetPosition);
+    const isSynced = isVisualPositionSynced(target, entity.position);
+    entityActions.updateSpriteMapping(entityId, {
+      currentAnimation: mapping.idleAnimation,
+      movementState: MovementState.IDLE,
+      visualPosition: isSynced ? undefined : target,
+      isPositionSynced: isSynced
+    });
+  },
+
+  // Stop any path and head back to the server position (the controller tweens or snaps)
+  startResync: (entityId: UUID, from: VisualPosition) => {
+    const entity = entityStore.entities[entityId];
+    const mapping = entityStore.spriteMappings[entityId];
+    delete entityStore.movements[entityId];
+    if (!entity || !mapping) return;
+
+    const direction = getDirectionFromDelta(entity.position[0] - from.x, entity.position[1] - from.y);
+    entityActions.updateSpriteMapping(entityId, {
+      currentAnimation: AnimationState.WALK,
+      currentDirection: direction ?? mapping.currentDirection,
+      movementState: MovementState.RESYNCING,
+      visualPosition: { x: from.x, y: from.y },
+      isPositionSynced: false
+    });
+    console.log(`[EntityStore] ${entityId} resyncing to server position [${entity.position[0]}, ${entity.position[1]}]`);
+  },
+
+  finishResync: (entityId: UUID) => {
+    const mapping = entityStore.spriteMappings[entityId];
+    if (!mapping) return;
+    entityActions.updateSpriteMapping(entityId, {
+      currentAnimation: mapping.idleAnimation,
+      movementState: MovementState.IDLE,
+      visualPosition: undefined,
+      isPositionSynced: true
+    });
+  },
+
+  setSelectedEntity: (entityId: UUID | null) => {
+    entityStore.selectedEntityId = entityId;
+  }
+};
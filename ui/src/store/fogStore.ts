@@ -0,0 +1,81 @@
+import { proxy, ref } from 'valtio';
+import { SensesType, UUID } from '../types/common';
+import { FogCellState, FogViewerMode } from '../types/battlemap_types';
+import { getFogCellState } from '../utils/fogUtils';
+
+// Fog of war store state (recomputed by FogOfWarManager from the viewers' senses)
+export interface FogStoreState {
+  isEnabled: boolean;
+  revealAll: boolean; // DM view: fog is computed but not applied
+  viewerMode: FogViewerMode;
+  partyIds: UUID[]; // Viewers in 'party' mode
+  viewerIds: UUID[]; // Entities whose senses the fog currently comes from
+  visibleCells: ReadonlySet<string>; // "x,y" keys in sight now
+  exploredCells: ReadonlySet<string>; // "x,y" keys seen at some point (visible ones included)
+  extraSenses: SensesType[]; // Union of the viewers' extra senses
+}
+
+// Create the fog store
+export const fogStore = proxy<FogStoreState>({
+  isEnabled: false,
+  revealAll: false,
+  viewerMode: 'selected',
+  partyIds: [],
+  viewerIds: [],
+  // ref() keeps the cell sets out of Valtio's proxy tracking; they are replaced, never mutated
+  visibleCells: ref(new Set<string>()),
+  exploredCells: ref(new Set<string>()),
+  extraSenses: []
+});
+
+// Fog of war actions
+export const fogActions = {
+  setEnabled: (enabled: boolean) => {
+    fogStore.isEnabled = enabled;
+  },
+
+  setRevealAll: (revealAll: boolean) => {
+    fogStore.revealAll = revealAll;
+  },
+
+  setViewerMode: (mode: FogViewerMode) => {
+    fogStore.viewerMode = mode;
+  },
+
+  togglePartyMember: (entityId: UUID) => {
+    fogStore.partyIds = fogStore.partyIds.includes(entityId)
+      ? fogStore.partyIds.filter(id => id !== entityId)
+      : [...fogStore.partyIds, entityId];
+  },
+
+  setPartyIds: (entityIds: UUID[]) => {
+    fogStore.partyIds = [...entityIds];
+  },
+
+  // Replace the computed visibility; explored cells only ever grow until clearExplored()
+  setVisibility: (viewerIds: UUID[], visible: Set<string>, seen: Set<string>, extraSenses: SensesType[]) => {
+    const explored = new Set(fogStore.exploredCells);
+    seen.forEach(key => explored.add(key));
+
+    fogStore.viewerIds = viewerIds;
+    fogStore.visibleCells = ref(visible);
+    fogStore.exploredCells = ref(explored);
+    fogStore.extraSenses = extraSenses;
+  },
+
+  // Forget explored cells (e.g. a new map); currently visible ones stay explored
+  clearExplored: () => {
+    fogStore.exploredCells = ref(new Set(fogStore.visibleCells));
+  },
+
+  // Whether fog is applied to rendering right now
+  isFogActive: (): boolean => {
+    return fogStore.isEnabled && !fogStore.revealAll && fogStore.viewerIds.length > 0;
+  },
+
+  // Fog state of a cell, 'visible' whenever fog isn't active
+  getCellState: (x: number, y: number): FogCellState => {
+    if (!fogActions.isFogActive()) return 'visible';
+    return getFogCellState(x, y, fogStore.visibleCells, fogStore.exploredCells);
+  }
+};
@@ -0,0 +1,231 @@
+import { proxy, ref } from 'valtio';
+import { TileSummary, WallSummary } from '../types/battlemap_types';
+
+// A single reversible change to grid.tiles or grid.walls (null = entry absent)
+export type GridChange =
+  | { kind: 'tile'; key: string; before: TileSummary | null; after: TileSummary | null }
+  | { kind: 'wall'; key: string; before: WallSummary | null; after: WallSummary | null };
+
+// One undoable step (a single action or a whole grouped transaction)
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+  changes: GridChange[];
+}
+
+// History settings interface
+export interface HistorySettings {
+  maxDepth: number; // Maximum number of undoable steps kept
+}
+
+// History store state
+export interface HistoryStoreState {
+  settings: HistorySettings;
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+}
+
+// Allowed range for maxDepth
+export const MIN_HISTORY_DEPTH = 1;
+export const MAX_HISTORY_DEPTH = 1000;
+
+// Default settings
+const defaultSettings: HistorySettings = {
+  maxDepth: 100
+};
+
+// Load settings from localStorage
+const loadSettingsFromStorage = (): HistorySettings => {
+  try {
+    const savedSettings = localStorage.getItem('historySettings');
+    if (savedSettings) {
+      return { ...defaultSettings, ...JSON.parse(savedSettings) };
+    }
+  } catch (e) {
+    console.error('Failed to parse saved history settings:', e);
+  }
+  return defaultSettings;
+};
+
+// Create the history store
+export const historyStore = proxy<HistoryStoreState>({
+  settings: loadSettingsFromStorage(),
+  undoStack: [],
+  redoStack: []
+});
+
+// Open transaction state (module-private, never rendered)
+let transactionDepth = 0;
+let transactionId = 0; // Bumped whenever an outermost transaction opens
+let transactionLabel = '';
+let transactionChanges: GridChange[] = [];
+let nextEntryId = 1;
+
+// Push a finished entry onto the undo stack
+const commitEntry = (label: string, changes: GridChange[]) => {
+  // Drop changes that ended up where they started (e.g. painted over with the same tile)
+  const effectiveChanges = changes.filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+  if (effectiveChanges.length === 0) return;
+
+  historyStore.undoStack.push({
+    id: nextEntryId++,
+    label,
+    timestamp: Date.now(),
+    // ref() keeps the (potentially large) change list out of Valtio's proxy tracking
+    changes: ref(effectiveChanges)
+  });
+  historyStore.redoStack = [];
+
+  // Trim to configured depth
+  const overflow = historyStore.undoStack.length - historyStore.settings.maxDepth;
+  if (overflow > 0) {
+    historyStore.undoStack.splice(0, overflow);
+  }
+
+  console.log(`[HistoryStore] Recorded "${label}" (${effectiveChanges.length} changes, ${historyStore.undoStack.length} steps)`);
+};
+
+// History actions
+export const historyActions = {
+  // Settings management
+  updateSettings: (newSettings: Partial<HistorySettings>) => {
+    historyStore.settings = { ...historyStore.settings, ...newSettings };
+    localStorage.setItem('historySettings', JSON.stringify(historyStore.settings));
+  },
+
+  setMaxDepth: (depth: number) => {
+    const clampedDepth = Math.max(MIN_HISTORY_DEPTH, Math.min(MAX_HISTORY_DEPTH, Math.round(depth)));
+    historyActions.updateSettings({ maxDepth: clampedDepth });
+
+    // Trim immediately if the new depth is smaller
+    const overflow = historyStore.undoStack.length - clampedDepth;
+    if (overflow > 0) {
+      historyStore.undoStack.splice(0, overflow);
+    }
+  },
+
+  // Transactions group every change recorded between begin and end into one step
+  // Returns the id of the outermost transaction, for isTransactionOpen
+  beginTransaction: (label: string): number => {
+    if (transactionDepth === 0) {
+      transactionId++;
+      transactionLabel = label;
+      transactionChanges = [];
+    }
+    transactionDepth++;
+    return transactionId;
+  },
+
+  endTransaction: () => {
+    if (transactionDepth === 0) return;
+    transactionDepth--;
+
+    if (transactionDepth === 0) {
+      const changes = transactionChanges;
+      transactionChanges = [];
+      commitEntry(transactionLabel, changes);
+    }
+  },
+
+  isInTransaction: (): boolean => transactionDepth > 0,
+
+  // Whether the transaction a beginTransaction call returned is still open (undo and clear() close it early)
+  isTransactionOpen: (id: number): boolean => transactionDepth > 0 && transactionId === id,
+
+  // Record a change (called by battlemapActions for every grid mutation)
+  recordChange: (change: GridChange, label: string) => {
+    if (transactionDepth === 0) {
+      commitEntry(label, [change]);
+      return;
+    }
+
+    // Merge repeated edits of the same key: keep the first "before" and the latest "after"
+    const existing = transactionChanges.find(c => c.kind === change.kind && c.key === change.key);
+    if (existing) {
+      Object.assign(existing, { after: change.after });
+    } else {
+      transactionChanges.push(change);
+    }
+  },
+
+  // Forget the latest change of a key from "before" to "after" (an edit that was reverted outside history,
+  // e.g. one refused by a collaborator's lock), so undo/redo can't bring it back
+  discardChange: (kind: GridChange['kind'], key: string, before: GridChange['before'], after: GridChange['after']): boolean => {
+    const beforeJson = JSON.stringify(before);
+    const afterJson = JSON.stringify(after);
+    const matches = (change: GridChange, from: string, to: string) =>
+      change.kind === kind && change.key === key && JSON.stringify(change.before) === from && JSON.stringify(change.after) === to;
+    const removeFrom = (entry: HistoryEntry | undefined, stack: HistoryEntry[], from: string, to: string): boolean => {
+      const index = entry ? entry.changes.findIndex(change => matches(change, from, to)) : -1;
+      if (!entry || index < 0) return false;
+      const changes = entry.changes.filter((_, changeIndex) => changeIndex !== index);
+      if (changes.length === 0) {
+        stack.pop();
+      } else {
+        // Replaced rather than edited in place: the change list is a ref(), so only a new entry is noticed
+        stack[stack.length - 1] = { ...entry, changes: ref(changes) };
+      }
+      return true;
+    };
+
+    // Still being recorded: only the latest "after" is known
+    const transactionIndex = transactionChanges.findIndex(change =>
+      change.kind === kind && change.key === key && JSON.stringify(change.after) === afterJson);
+    if (transactionIndex >= 0) {
+      transactionChanges.splice(transactionIndex, 1);
+      return true;
+    }
+
+    // A new edit sits on top of the undo stack; an undone one on top of the redo stack (reversed)
+    const { undoStack, redoStack } = historyStore;
+    return removeFrom(undoStack[undoStack.length - 1], undoStack, beforeJson, afterJson) ||
+      removeFrom(redoStack[redoStack.length - 1], redoStack, afterJson, beforeJson);
+  },
+
+  // Forget every step that touches one of the keys (overwritten from outside, e.g. by a sync snapshot):
+  // undoing them would restore stale values. Other steps and an open transaction stay as they are
+  discardKeys: (keys: Array<Pick<GridChange, 'kind' | 'key'>>) => {
+    if (keys.length === 0) return;
+    const keySet = new Set(keys.map(({ kind, key }) => `${kind}:${key}`));
+    const touches = (change: GridChange) => keySet.has(`${change.kind}:${change.key}`);
+
+    transactionChanges = transactionChanges.filter(change => !touches(change));
+    const undoStack = historyStore.undoStack.filter(entry => !entry.changes.some(touches));
+    const redoStack = historyStore.redoStack.filter(entry => !entry.changes.some(touches));
+    const dropped = historyStore.undoStack.length + historyStore.redoStack.length - undoStack.length - redoStack.length;
+    if (dropped === 0) return;
+
+    historyStore.undoStack = undoStack;
+    historyStore.redoStack = redoStack;
+    console.log(`[HistoryStore] Dropped ${dropped} steps overwritten from outside`);
+  },
+
+  // Move the latest entry to the redo stack and return it (caller re-applies "before" values)
+  takeUndo: (): HistoryEntry | null => {
+    const entry = historyStore.undoStack.pop();
+    if (!entry) return null;
+    historyStore.redoStack.push(entry);
+    return entry;
+  },
+
+  // Move the latest undone entry back to the undo stack and return it (caller re-applies "after" values)
+  takeRedo: (): HistoryEntry | null => {
+    const entry = historyStore.redoStack.pop();
+    if (!entry) return null;
+    historyStore.undoStack.push(entry);
+    return entry;
+  },
+
+  canUndo: (): boolean => historyStore.undoStack.length > 0,
+
+  canRedo: (): boolean => historyStore.redoStack.length > 0,
+
+  clear: () => {
+    historyStore.undoStack = [];
+    historyStore.redoStack = [];
+    transactionDepth = 0;
+    transactionChanges = [];
+    console.log('[HistoryStore] History cleared');
+  }
+};
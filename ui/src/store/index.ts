@@ -1 +1,9 @@
-export * from './battlemapStore'; 
\ No newline at end of file
+export * from './battlemapStore';
+export * from './historyStore';
+export * from './selectionStore';
+export * from './entityStore';
+export * from './effectStore';
+export * from './syncStore';
+export * from './collabStore';
+export * from './fogStore';
+export * from './lightingStore';
@@ -0,0 +1,110 @@
+import { proxy, ref } from 'valtio';
+import { LightLevel, LightSource } from '../types/battlemap_types';
+import { getLightTint, LitCell } from '../utils/lightingUtils';
+
+// Settings used for newly placed lights
+export interface LightDraft {
+  name: string;
+  bright_radius: number;
+  dim_radius: number;
+  color: number;
+  flicker: number;
+}
+
+// Common light sources (radii in cells of 5 ft)
+export const LIGHT_PRESETS: Record<string, LightDraft> = {
+  torch: { name: 'Torch', bright_radius: 4, dim_radius: 4, color: 0xFFB347, flicker: 0.5 },
+  lantern: { name: 'Lantern', bright_radius: 6, dim_radius: 6, color: 0xFFD27F, flicker: 0.15 },
+  brazier: { name: 'Brazier', bright_radius: 3, dim_radius: 5, color: 0xFF7A33, flicker: 0.8 },
+  magic: { name: 'Magic light', bright_radius: 4, dim_radius: 4, color: 0x9FD8FF, flicker: 0 }
+};
+
+// Lighting store state (levels and tints are recomputed by LightingManager)
+export interface LightingStoreState {
+  lights: Record<string, LightSource>; // Saved with the map, keyed by uuid
+  ambientLight: LightLevel; // Level where no light reaches; 'bright' (daylight) turns lighting off
+  isPlacing: boolean; // Map clicks place (left) or remove (middle) lights while editing
+  draft: LightDraft;
+  cellLevels: ReadonlyMap<string, LightLevel>; // "x,y" -> level, only cells lit above ambient
+  cellTints: ReadonlyMap<string, number>; // "x,y" -> tint of lit cells
+  litCells: ReadonlyMap<string, LitCell[]>; // Light uuid -> cells it lights
+}
+
+// Create the lighting store
+export const lightingStore = proxy<LightingStoreState>({
+  lights: {},
+  ambientLight: 'bright',
+  isPlacing: false,
+  draft: { ...LIGHT_PRESETS.torch },
+  // ref() keeps the computed maps out of Valtio's proxy tracking; they are replaced, never mutated
+  cellLevels: ref(new Map<string, LightLevel>()),
+  cellTints: ref(new Map<string, number>()),
+  litCells: ref(new Map<string, LitCell[]>())
+});
+
+// Lighting actions
+export const lightingActions = {
+  addLight: (light: LightSource) => {
+    lightingStore.lights[light.uuid] = light;
+    console.log(`[lightingStore] Added light "${light.name}" at (${light.position[0]}, ${light.position[1]}, Z:${light.z_level})`);
+  },
+
+  updateLight: (uuid: string, updates: Partial<LightSource>) => {
+    const light = lightingStore.lights[uuid];
+    if (!light) return;
+    lightingStore.lights[uuid] = { ...light, ...updates };
+  },
+
+  removeLight: (uuid: string) => {
+    delete lightingStore.lights[uuid];
+  },
+
+  // Remove every light standing on a cell
+  removeLightsAt: (x: number, y: number) => {
+    Object.values(lightingStore.lights)
+      .filter(light => light.position[0] === x && light.position[1] === y)
+      .forEach(light => { delete lightingStore.lights[light.uuid]; });
+  },
+
+  setAmbientLight: (level: LightLevel) => {
+    lightingStore.ambientLight = level;
+  },
+
+  setPlacing: (isPlacing: boolean) => {
+    lightingStore.isPlacing = isPlacing;
+  },
+
+  setDraft: (updates: Partial<LightDraft>) => {
+    lightingStore.draft = { ...lightingStore.draft, ...updates };
+  },
+
+  // Replace the lights and ambient level (map load)
+  setLighting: (lights: Readonly<Record<string, LightSource>>, ambientLight: LightLevel) => {
+    lightingStore.lights = JSON.parse(JSON.stringify(lights));
+    lightingStore.ambientLight = ambientLight;
+  },
+
+  // Replace the computed levels and tints
+  setComputedLighting: (cellLevels: Map<string, LightLevel>, cellTints: Map<string, number>, litCells: Map<string, LitCell[]>) => {
+    lightingStore.cellLevels = ref(cellLevels);
+    lightingStore.cellTints = ref(cellTints);
+    lightingStore.litCells = ref(litCells);
+  },
+
+  // Whether lighting affects rendering and senses right now (not in daylight)
+  isLightingActive: (): boolean => {
+    return lightingStore.ambientLight !== 'bright';
+  },
+
+  // Light level of a cell, 'bright' whenever lighting isn't active
+  getCellLightLevel: (x: number, y: number): LightLevel => {
+    if (!lightingActions.isLightingActive()) return 'bright';
+    return lightingStore.cellLevels.get(`${x},${y}`) ?? lightingStore.ambientLight;
+  },
+
+  // Tint of a cell, white whenever lighting isn't active
+  getCellTint: (x: number, y: number): number => {
+    if (!lightingActions.isLightingActive()) return 0xFFFFFF;
+    return lightingStore.cellTints.get(`${x},${y}`) ?? getLightTint(lightingStore.ambientLight);
+  }
+};
@@ -0,0 +1,290 @@
+import { proxy, ref } from 'valtio';
+import { TileSummary, WallSummary } from '../types/battlemap_types';
+import { battlemapStore, battlemapActions } from './battlemapStore';
+import { transformGridContents, getTransformedSize, transformCell } from '../utils/selectionUtils';
+
+// Marquee selection in grid cells (corners in drag order, not normalized)
+export interface SelectionRect {
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+// Copied region: positions are relative to the block's top corner
+export interface ClipboardContents {
+  width: number;
+  height: number;
+  allLayers: boolean; // true: z_level is absolute, false: z_level is relative to the layer it was copied from
+  tiles: TileSummary[];
+  walls: WallSummary[];
+  anchor?: { x: number; y: number }; // Cell that lands under the cursor (defaults to the top corner)
+  name?: string; // Set when the contents come from a prefab
+}
+
+// Paste ghost state
+export interface PasteState {
+  active: boolean;
+  isMove: boolean; // Moving the current selection rather than pasting the clipboard
+  contents: ClipboardContents | null;
+  anchor: { x: number; y: number } | null; // Cell under the cursor = top corner of the pasted block
+  rotation: number; // Clockwise quarter turns (0-3)
+  mirrorX: boolean;
+  mirrorY: boolean;
+}
+
+// Selection store state
+export interface SelectionStoreState {
+  isSelectMode: boolean;
+  allLayers: boolean; // Select across every Z layer instead of only the active one
+  selection: SelectionRect | null;
+  clipboard: ClipboardContents | null;
+  paste: PasteState;
+}
+
+const defaultPasteState: PasteState = {
+  active: false,
+  isMove: false,
+  contents: null,
+  anchor: null,
+  rotation: 0,
+  mirrorX: false,
+  mirrorY: false
+};
+
+// Create the selection store
+export const selectionStore = proxy<SelectionStoreState>({
+  isSelectMode: false,
+  allLayers: false,
+  selection: null,
+  clipboard: null,
+  paste: { ...defaultPasteState }
+});
+
+// Grid keys lifted by an in-progress move (module-private, removed when the move is committed)
+let moveSourceTileKeys: string[] = [];
+let moveSourceWallKeys: string[] = [];
+
+// Tiles and walls inside the current selection, with their grid keys
+const collectSelectedContents = (): { contents: ClipboardContents; tileKeys: string[]; wallKeys: string[] } | null => {
+  const bounds = selectionActions.getSelectionBounds();
+  if (!bounds) return null;
+
+  const { minX, minY, maxX, maxY } = bounds;
+  const allLayers = selectionStore.allLayers;
+  const activeZ = battlemapStore.controls.isometricEditor.selectedZLevel;
+  const isInside = (position: readonly [number, number], z: number) =>
+    position[0] >= minX && position[0] <= maxX &&
+    position[1] >= minY && position[1] <= maxY &&
+    (allLayers || z === activeZ);
+
+  // Plain copies relative to the selection's top corner (and the active layer when single-layer)
+  const toRelative = <T extends TileSummary | WallSummary>(item: T): T => ({
+    ...JSON.parse(JSON.stringify(item)),
+    position: [item.position[0] - minX, item.position[1] - minY] as const,
+    z_level: allLayers ? item.z_level : 0
+  });
+
+  const tileKeys = Object.keys(battlemapStore.grid.tiles)
+    .filter(key => isInside(battlemapStore.grid.tiles[key].position, battlemapStore.grid.tiles[key].z_level));
+  const wallKeys = Object.keys(battlemapStore.grid.walls)
+    .filter(key => isInside(battlemapStore.grid.walls[key].position, battlemapStore.grid.walls[key].z_level));
+
+  return {
+    contents: {
+      width: maxX - minX + 1,
+      height: maxY - minY + 1,
+      allLayers,
+      tiles: tileKeys.map(key => toRelative(battlemapStore.grid.tiles[key])),
+      walls: wallKeys.map(key => toRelative(battlemapStore.grid.walls[key]))
+    },
+    tileKeys,
+    wallKeys
+  };
+};
+
+// Selection actions
+export const selectionActions = {
+  setSelectMode: (enabled: boolean) => {
+    selectionStore.isSelectMode = enabled;
+    if (!enabled) {
+      selectionActions.cancelPaste();
+    }
+    console.log(`[SelectionStore] Select mode ${enabled ? 'enabled' : 'disabled'}`);
+  },
+
+  setAllLayers: (allLayers: boolean) => {
+    selectionStore.allLayers = allLayers;
+  },
+
+  setSelection: (selection: SelectionRect) => {
+    selectionStore.selection = selection;
+  },
+
+  clearSelection: () => {
+    selectionStore.selection = null;
+  },
+
+  // Normalized selection bounds clamped to the grid
+  getSelectionBounds: (): { minX: number; minY: number; maxX: number; maxY: number } | null => {
+    const selection = selectionStore.selection;
+    if (!selection) return null;
+
+    const minX = Math.max(0, Math.min(selection.startX, selection.endX));
+    const minY = Math.max(0, Math.min(selection.startY, selection.endY));
+    const maxX = Math.min(battlemapStore.grid.width - 1, Math.max(selection.startX, selection.endX));
+    const maxY = Math.min(battlemapStore.grid.height - 1, Math.max(selection.startY, selection.endY));
+    if (minX > maxX || minY > maxY) return null;
+
+    return { minX, minY, maxX, maxY };
+  },
+
+  // Clipboard operations
+  copySelection: (): boolean => {
+    const selected = collectSelectedContents();
+    if (!selected) return false;
+
+    // ref() keeps the copied grid data out of Valtio's proxy tracking
+    selectionStore.clipboard = ref(selected.contents);
+    console.log(`[SelectionStore] Copied ${selected.tileKeys.length} tiles and ${selected.wallKeys.length} walls (${selected.contents.width}x${selected.contents.height})`);
+    return true;
+  },
+
+  cutSelection: (): boolean => {
+    const selected = collectSelectedContents();
+    if (!selected) return false;
+
+    selectionStore.clipboard = ref(selected.contents);
+    battlemapActions.applyGridEdit({ removeTileKeys: selected.tileKeys, removeWallKeys: selected.wallKeys }, 'Cut selection');
+    return true;
+  },
+
+  deleteSelection: (): boolean => {
+    const selected = collectSelectedContents();
+    if (!selected) return false;
+
+    battlemapActions.applyGridEdit({ removeTileKeys: selected.tileKeys, removeWallKeys: selected.wallKeys }, 'Delete selection');
+    return true;
+  },
+
+  // Copy of the current selection without touching the clipboard (used to save prefabs)
+  captureSelection: (): ClipboardContents | null => {
+    return collectSelectedContents()?.contents ?? null;
+  },
+
+  // Paste ghost
+  startPaste: (): boolean => {
+    if (!selectionStore.clipboard) return false;
+
+    moveSourceTileKeys = [];
+    moveSourceWallKeys = [];
+    selectionStore.paste = { ...defaultPasteState, active: true, contents: selectionStore.clipboard };
+    console.log('[SelectionStore] Started paste');
+    return true;
+  },
+
+  // Paste arbitrary contents (prefab stamps) without replacing the clipboard
+  startStamp: (contents: ClipboardContents) => {
+    moveSourceTileKeys = [];
+    moveSourceWallKeys = [];
+    selectionStore.paste = { ...defaultPasteState, active: true, contents: ref(contents) };
+    console.log(`[SelectionStore] Started stamp${contents.name ? ` "${contents.name}"` : ''}`);
+  },
+
+  // Move = paste of the selection that removes the originals in the same undoable step
+  startMove: (): boolean => {
+    const selected = collectSelectedContents();
+    if (!selected) return false;
+
+    moveSourceTileKeys = selected.tileKeys;
+    moveSourceWallKeys = selected.wallKeys;
+    selectionStore.paste = { ...defaultPasteState, active: true, isMove: true, contents: ref(selected.contents) };
+    console.log('[SelectionStore] Started move');
+    return true;
+  },
+
+  rotatePaste: (quarterTurns: number) => {
+    if (!selectionStore.paste.active) return;
+    selectionStore.paste.rotation = (((selectionStore.paste.rotation + quarterTurns) % 4) + 4) % 4;
+  },
+
+  setPasteMirrorX: (mirrorX: boolean) => {
+    selectionStore.paste.mirrorX = mirrorX;
+  },
+
+  setPasteMirrorY: (mirrorY: boolean) => {
+    selectionStore.paste.mirrorY = mirrorY;
+  },
+
+  setPasteAnchor: (x: number, y: number) => {
+    selectionStore.paste.anchor = { x, y };
+  },
+
+  // Transformed paste contents at absolute grid positions (out-of-bounds entries dropped)
+  getPastePlacement: (): { tiles: TileSummary[]; walls: WallSummary[]; originX: number; originY: number; width: number; height: number } | null => {
+    const { active, contents, anchor, rotation, mirrorX, mirrorY } = selectionStore.paste;
+    if (!active || !contents || !anchor) return null;
+
+    const transform = { rotation, mirrorX, mirrorY };
+    const transformed = transformGridContents(contents.tiles, contents.walls, contents.width, contents.height, transform);
+    const activeZ = battlemapStore.controls.isometricEditor.selectedZLevel;
+    const isInBounds = (x: number, y: number) => x >= 0 && y >= 0 && x < battlemapStore.grid.width && y < battlemapStore.grid.height;
+    const timestamp = Date.now();
+
+    // The (transformed) anchor cell lands under the cursor
+    const contentsAnchor = contents.anchor
+      ? transformCell(contents.anchor.x, contents.anchor.y, contents.width, contents.height, transform)
+      : { x: 0, y: 0 };
+    const originX = anchor.x - contentsAnchor.x;
+    const originY = anchor.y - contentsAnchor.y;
+
+    const place = <T extends TileSummary | WallSummary>(item: T, prefix: string, index: number): T => {
+      const x = item.position[0] + originX;
+      const y = item.position[1] + originY;
+      const z = contents.allLayers ? item.z_level : activeZ + item.z_level;
+      return { ...item, uuid: `${prefix}_${x}_${y}_${z}_${timestamp}_${index}`, position: [x, y] as const, z_level: z };
+    };
+
+    return {
+      tiles: transformed.tiles.map((tile, index) => place(tile, 'tile', index)).filter(tile => isInBounds(tile.position[0], tile.position[1])),
+      walls: transformed.walls.map((wall, index) => place(wall, 'wall', index)).filter(wall => isInBounds(wall.position[0], wall.position[1])),
+      originX,
+      originY,
+      ...getTransformedSize(contents.width, contents.height, transform)
+    };
+  },
+
+  commitPaste: (): boolean => {
+    const placement = selectionActions.getPastePlacement();
+    if (!placement) return false;
+
+    const { isMove, contents } = selectionStore.paste;
+    const label = isMove ? 'Move selection' : contents?.name ? `Stamp "${contents.name}"` : 'Paste';
+    battlemapActions.applyGridEdit({
+      removeTileKeys: isMove ? moveSourceTileKeys : [],
+      removeWallKeys: isMove ? moveSourceWallKeys : [],
+      tiles: placement.tiles,
+      walls: placement.walls
+    }, label);
+
+    // The placed block becomes the new selection
+    selectionStore.selection = {
+      startX: placement.originX,
+      startY: placement.originY,
+      endX: placement.originX + placement.width - 1,
+      endY: placement.originY + placement.height - 1
+    };
+
+    selectionActions.cancelPaste();
+    return true;
+  },
+
+  cancelPaste: () => {
+    moveSourceTileKeys = [];
+    moveSourceWallKeys = [];
+    if (selectionStore.paste.active) {
+      selectionStore.paste = { ...defaultPasteState };
+      console.log('[SelectionStore] Paste ghost cleared');
+    }
+  }
+};
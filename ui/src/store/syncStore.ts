@@ -0,0 +1,49 @@
+import { proxy } from 'valtio';
+import { SyncConnectionStatus } from '../types/battlemap_types';
+
+// Sync store state (connection bookkeeping lives in BattleSyncManager)
+export interface SyncStoreState {
+  url: string;
+  status: SyncConnectionStatus;
+  lastSeq: number; // Last sequence number applied from the server
+  lastError: string | null;
+}
+
+// Default: the dev server proxies /ws to the battle backend
+const getDefaultSyncUrl = (): string => {
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${protocol}://${window.location.host}/ws/battle`;
+};
+
+// Create the sync store
+export const syncStore = proxy<SyncStoreState>({
+  url: localStorage.getItem('syncServerUrl') ?? getDefaultSyncUrl(),
+  status: 'disconnected',
+  lastSeq: 0,
+  lastError: null
+});
+
+// Sync actions
+export const syncActions = {
+  setUrl: (url: string) => {
+    syncStore.url = url;
+    localStorage.setItem('syncServerUrl', url);
+  },
+
+  resetUrl: () => {
+    syncStore.url = getDefaultSyncUrl();
+    localStorage.removeItem('syncServerUrl');
+  },
+
+  setStatus: (status: SyncConnectionStatus) => {
+    syncStore.status = status;
+  },
+
+  setLastSeq: (seq: number) => {
+    syncStore.lastSeq = seq;
+  },
+
+  setLastError: (error: string | null) => {
+    syncStore.lastError = error;
+  }
+};
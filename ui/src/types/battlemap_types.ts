@@ -511,4 +511,204 @@ export interface SpriteConfigurationManager {
   // Utility methods
   createDefaultConfig(spriteName: string, spriteType: 'block' | 'wall'): SpriteConfiguration;
   getConfigPath(spriteName: string, spriteType: 'block' | 'wall'): string;
-} 
\ No newline at end of file
+} 
+// NEW: Map document types for whole-map JSON persistence
+export const MAP_DOCUMENT_VERSION = 4;
+
+export interface MapDocument {
+  readonly version: number; // Schema version, bumped whenever the document layout changes
+  readonly name: string;
+  readonly lastModified: string; // ISO timestamp
+  
+  // Grid contents (tiles keyed "x,y,z", walls keyed by uuid)
+  readonly grid: {
+    readonly width: number;
+    readonly height: number;
+    readonly tiles: Readonly<Record<string, TileSummary>>;
+    readonly walls: Readonly<Record<string, WallSummary>>;
+    readonly maxZLevel: number;
+  };
+  
+  // View settings the map was authored with
+  readonly view: {
+    readonly zLayerHeights: ReadonlyArray<{ z: number; verticalOffset: number; name: string; color: number }>;
+    readonly gridDiamondWidth: number;
+    readonly spriteScale: number;
+  };
+  
+  // Light sources (keyed by uuid) and the light level wherever they don't reach
+  readonly lighting: {
+    readonly lights: Readonly<Record<string, LightSource>>;
+    readonly ambientLight: LightLevel;
+  };
+}
+
+export interface MapListEntry {
+  readonly name: string;
+  readonly lastModified: string; // ISO timestamp of the file on disk
+}
+
+// NEW: Prefab (stamp) documents for reusable map chunks
+export const PREFAB_DOCUMENT_VERSION = 1;
+
+export interface PrefabDocument {
+  readonly version: number; // Schema version, bumped whenever the document layout changes
+  readonly name: string;
+  readonly lastModified: string; // ISO timestamp
+  
+  // Footprint in cells; tile/wall positions are relative to its top corner
+  readonly width: number;
+  readonly height: number;
+  
+  // Cell inside the footprint that lands under the cursor when stamping
+  readonly anchor: { readonly x: number; readonly y: number };
+  
+  // Contents; z_level is relative to the layer the prefab is stamped on
+  readonly tiles: ReadonlyArray<TileSummary>;
+  readonly walls: ReadonlyArray<WallSummary>;
+}
+
+export interface PrefabListEntry {
+  readonly name: string;
+  readonly lastModified: string; // ISO timestamp of the file on disk
+}
+
+// NEW: Auto-tiling rules, stored per sprite family in /public/isometric_tiles/configs/autotile/{family}.json
+// Neighbour keys follow the wall edges: N = top-left (x-1), E = top-right (y-1), S = bottom-right (x+1), W = bottom-left (y+1)
+export type AutoTileNeighbor = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+
+export interface AutoTileRule {
+  // Required neighbour state: true = same-family tile present, false = absent, omitted = don't care
+  readonly neighbors: Partial<Record<AutoTileNeighbor, boolean>>;
+  readonly sprite: string; // Variant to use (edge, corner, inner, ...)
+  readonly direction: IsometricDirection;
+  readonly rotate?: boolean; // Also match the 3 other quarter-turns of this pattern (direction turns with it)
+}
+
+export interface AutoTileRuleSet {
+  readonly family: string;
+  readonly neighborMode: 4 | 8; // Whether diagonal neighbours are inspected
+  readonly members: ReadonlyArray<string>; // Sprites that belong to the family (and count as neighbours)
+  readonly rules: ReadonlyArray<AutoTileRule>; // First match wins
+  readonly fallback?: { readonly sprite: string; readonly direction: IsometricDirection };
+}
+
+// NEW: Real-time sync protocol (WebSocket, JSON messages)
+// Diffs map keys to the new value, null = removed. Tiles are keyed "x,y,z", walls by uuid, entities by uuid
+export interface SyncDiff {
+  readonly tiles?: Readonly<Record<string, TileSummary | null>>;
+  readonly walls?: Readonly<Record<string, WallSummary | null>>;
+  readonly entities?: Readonly<Record<UUID, EntitySummary | null>>;
+}
+
+// Server -> client. seq increases by one per accepted change; a snapshot resets it
+export type SyncServerMessage =
+  | { readonly type: 'snapshot'; readonly seq: number; readonly grid: GridSnapshot; readonly entities: ReadonlyArray<EntitySummary> }
+  | { readonly type: 'diff'; readonly seq: number; readonly origin: string | null; readonly diff: SyncDiff };
+
+// Client -> server. hello (on every connect) and resync are answered with a snapshot
+export type SyncClientMessage =
+  | { readonly type: 'hello'; readonly clientId: string; readonly lastSeq: number }
+  | { readonly type: 'edit'; readonly clientId: string; readonly diff: SyncDiff }
+  | { readonly type: 'resync'; readonly clientId: string };
+
+export type SyncConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+// NEW: Collaborative editing protocol (relay WebSocket, JSON messages)
+// Tiles and walls are multi-value registers per key: an op replaces the values its writer had seen, and
+// values written without seeing each other all survive as a conflict until someone picks one. Replicas
+// converge whatever order ops arrive in. value null = deleted (kept as a tombstone)
+export interface CollabStamp {
+  readonly lamport: number;
+  readonly clientId: string; // Tie-breaker for equal lamport values
+}
+
+export interface CollabOp {
+  readonly collection: 'tiles' | 'walls';
+  readonly key: string;
+  readonly value: TileSummary | WallSummary | null;
+  readonly stamp: CollabStamp;
+  readonly supersedes: ReadonlyArray<CollabStamp>; // Values of the key the writer had when writing
+}
+
+export interface CollabUser {
+  readonly clientId: string;
+  readonly name: string;
+  readonly color: number;
+}
+
+export interface CollabPresence {
+  readonly hoveredCell: { readonly x: number; readonly y: number } | null;
+  readonly activeZLayer: number;
+}
+
+// Inclusive cell bounds; zLevel null = every layer
+export interface CollabRegion {
+  readonly minX: number;
+  readonly minY: number;
+  readonly maxX: number;
+  readonly maxY: number;
+  readonly zLevel: number | null;
+}
+
+// Soft lock: advisory lease on a region, honoured by clients (the relay does not enforce it)
+export interface CollabLock {
+  readonly lockId: string;
+  readonly clientId: string;
+  readonly region: CollabRegion;
+  readonly ttlMs: number; // Lease length; the owner renews it while the region stays selected
+}
+
+export type CollabClientMessage =
+  | { readonly type: 'join'; readonly user: CollabUser; readonly gridSize: { readonly width: number; readonly height: number } }
+  | { readonly type: 'ops'; readonly ops: ReadonlyArray<CollabOp> }
+  | { readonly type: 'presence'; readonly presence: CollabPresence }
+  | { readonly type: 'lock'; readonly lock: CollabLock }
+  | { readonly type: 'unlock'; readonly lockId: string };
+
+export type CollabServerMessage =
+  | {
+      readonly type: 'welcome';
+      readonly ops: ReadonlyArray<CollabOp>; // Every surviving value of every key (tombstones included)
+      readonly gridSize: { readonly width: number; readonly height: number };
+      readonly users: ReadonlyArray<CollabUser>;
+      readonly presences: Readonly<Record<string, CollabPresence>>;
+      readonly locks: ReadonlyArray<CollabLock>;
+    }
+  | { readonly type: 'ops'; readonly clientId: string; readonly ops: ReadonlyArray<CollabOp> }
+  | { readonly type: 'join'; readonly user: CollabUser }
+  | { readonly type: 'leave'; readonly clientId: string }
+  | { readonly type: 'presence'; readonly clientId: string; readonly presence: CollabPresence }
+  | { readonly type: 'lock'; readonly lock: CollabLock }
+  | { readonly type: 'unlock'; readonly lockId: string };
+
+// NEW: Fog of war (computed from the viewers' SensesSnapshot)
+// visible = in sight now, seen = explored earlier (dimmed, entities hidden), hidden = never seen
+export type FogCellState = 'visible' | 'seen' | 'hidden';
+
+// Whose senses drive the fog: the selected entity only, or every party member combined
+export type FogViewerMode = 'selected' | 'party';
+
+// NEW: Client pathfinding - 'five': every step costs one cell, 'alternating': every second diagonal costs two (5-10-5 ft)
+export type DiagonalMovementRule = 'five' | 'alternating';
+
+// NEW: Camera rotation in clockwise quarter turns of the map on screen
+export type CameraRotation = 0 | 1 | 2 | 3;
+
+// NEW: What happens to sprites in front of the hovered cell or selected entity - 'fade': x-ray, 'cutaway': walls drop to stubs
+export type OcclusionMode = 'off' | 'fade' | 'cutaway';
+
+// NEW: Dynamic lighting - light level of a cell
+export type LightLevel = 'bright' | 'dim' | 'dark';
+
+// NEW: Placeable light source (torch, brazier, ...), saved with the map
+export interface LightSource {
+  readonly uuid: string;
+  readonly name: string;
+  readonly position: Position; // Grid cell (x, y)
+  readonly z_level: number; // Level the light sits on (walls on or above it cast shadows)
+  readonly bright_radius: number; // Cells of bright light
+  readonly dim_radius: number; // Cells of dim light beyond the bright radius
+  readonly color: number; // 0xRRGGBB
+  readonly flicker: number; // 0 = steady, 1 = strong flicker
+}
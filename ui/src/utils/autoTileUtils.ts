@@ -0,0 +1,113 @@
+import { AutoTileNeighbor, AutoTileRule, AutoTileRuleSet } from '../types/battlemap_types';
+import { IsometricDirection } from '../game/managers/IsometricSpriteManager';
+import { rotateDirection } from './selectionUtils';
+import { GridCell } from './paintToolUtils';
+
+/**
+ * Grid offsets of each neighbour, matching the wall edge sides
+ * (N = top-left, E = top-right, S = bottom-right, W = bottom-left on screen)
+ */
+export const AUTO_TILE_NEIGHBOR_OFFSETS: Record<AutoTileNeighbor, GridCell> = {
+  N: { x: -1, y: 0 },
+  NE: { x: -1, y: -1 },
+  E: { x: 0, y: -1 },
+  SE: { x: 1, y: -1 },
+  S: { x: 1, y: 0 },
+  SW: { x: 1, y: 1 },
+  W: { x: 0, y: 1 },
+  NW: { x: -1, y: 1 }
+};
+
+// Neighbours in clockwise order: a quarter turn moves every key two steps along this ring
+const NEIGHBOR_RING: AutoTileNeighbor[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+const DIAGONAL_NEIGHBORS: ReadonlySet<AutoTileNeighbor> = new Set<AutoTileNeighbor>(['NE', 'SE', 'SW', 'NW']);
+
+export interface AutoTileResult {
+  sprite: string;
+  direction: IsometricDirection;
+}
+
+/**
+ * Rotate a neighbour pattern by clockwise quarter turns
+ */
+export function rotateNeighborPattern(
+  neighbors: Partial<Record<AutoTileNeighbor, boolean>>,
+  quarterTurns: number
+): Partial<Record<AutoTileNeighbor, boolean>> {
+  const rotated: Partial<Record<AutoTileNeighbor, boolean>> = {};
+  (Object.keys(neighbors) as AutoTileNeighbor[]).forEach(key => {
+    const index = NEIGHBOR_RING.indexOf(key);
+    if (index === -1) return;
+    const rotatedKey = NEIGHBOR_RING[(((index + quarterTurns * 2) % 8) + 8) % 8];
+    rotated[rotatedKey] = neighbors[key];
+  });
+  return rotated;
+}
+
+/**
+ * Flatten a rule set: rules marked `rotate` become 4 rules (0, 90, 180, 270 degrees), in that order
+ */
+export function expandAutoTileRules(ruleSet: AutoTileRuleSet): AutoTileRule[] {
+  const expanded: AutoTileRule[] = [];
+
+  ruleSet.rules.forEach(rule => {
+    if (!rule.rotate) {
+      expanded.push(rule);
+      return;
+    }
+
+    for (let quarterTurns = 0; quarterTurns < 4; quarterTurns++) {
+      expanded.push({
+        neighbors: rotateNeighborPattern(rule.neighbors, quarterTurns),
+        sprite: rule.sprite,
+        direction: rotateDirection(rule.direction, quarterTurns)
+      });
+    }
+  });
+
+  return expanded;
+}
+
+/**
+ * Which neighbours of a cell hold a tile of the same family
+ * Diagonals are only inspected in 8-neighbour mode
+ */
+export function getAutoTileNeighbors(
+  x: number,
+  y: number,
+  neighborMode: 4 | 8,
+  isFamilyMember: (x: number, y: number) => boolean
+): Partial<Record<AutoTileNeighbor, boolean>> {
+  const neighbors: Partial<Record<AutoTileNeighbor, boolean>> = {};
+
+  NEIGHBOR_RING.forEach(key => {
+    if (neighborMode === 4 && DIAGONAL_NEIGHBORS.has(key)) return;
+    const offset = AUTO_TILE_NEIGHBOR_OFFSETS[key];
+    neighbors[key] = isFamilyMember(x + offset.x, y + offset.y);
+  });
+
+  return neighbors;
+}
+
+/**
+ * Pick the variant and direction for a cell: first matching rule wins, then the fallback
+ * @param rules Rules already expanded with expandAutoTileRules
+ */
+export function evaluateAutoTile(
+  ruleSet: AutoTileRuleSet,
+  rules: ReadonlyArray<AutoTileRule>,
+  neighbors: Partial<Record<AutoTileNeighbor, boolean>>
+): AutoTileResult | null {
+  const match = rules.find(rule =>
+    (Object.keys(rule.neighbors) as AutoTileNeighbor[]).every(key => {
+      // Diagonal requirements are ignored when the rule set only looks at 4 neighbours
+      if (neighbors[key] === undefined) return true;
+      return neighbors[key] === rule.neighbors[key];
+    })
+  );
+
+  if (match) {
+    return { sprite: match.sprite, direction: match.direction };
+  }
+  return ruleSet.fallback ? { sprite: ruleSet.fallback.sprite, direction: ruleSet.fallback.direction } : null;
+}
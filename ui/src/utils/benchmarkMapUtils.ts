@@ -0,0 +1,108 @@
+import { TileSummary, WallSummary } from '../types/battlemap_types';
+import { IsometricDirection } from '../game/managers/IsometricSpriteManager';
+import { getWallKey, toCanonicalWall } from './wallIndexUtils';
+
+// Rooms are laid out on a fixed pitch so every chunk gets a similar amount of content
+const BENCHMARK_ROOM_PITCH = 8;
+
+export interface BenchmarkGridOptions {
+  floorSprite: string;
+  wallSprite: string | null; // No walls are generated without a wall sprite
+  seed?: number;
+}
+
+/**
+ * Small seeded PRNG so the same size always produces the same map
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a large, deterministic map for render benchmarks
+ * Z0 is fully floored, rooms are walled off on an 8-cell pitch (with doorways),
+ * and roughly a quarter of the rooms get a raised Z1 platform
+ */
+export function generateBenchmarkGrid(
+  width: number,
+  height: number,
+  options: BenchmarkGridOptions
+): { tiles: Record<string, TileSummary>; walls: Record<string, WallSummary> } {
+  const random = createRandom(options.seed ?? 1337);
+  const tiles: Record<string, TileSummary> = {};
+  const walls: Record<string, WallSummary> = {};
+
+  const addTile = (x: number, y: number, z: number) => {
+    tiles[`${x},${y},${z}`] = {
+      uuid: `tile_${x}_${y}_${z}_bench`,
+      name: options.floorSprite,
+      position: [x, y] as const,
+      walkable: true,
+      visible: true,
+      sprite_name: options.floorSprite,
+      z_level: z,
+      sprite_direction: IsometricDirection.SOUTH,
+      tile_type: 'floor',
+      snap_position: 'above',
+    };
+  };
+
+  const addWall = (x: number, y: number, direction: IsometricDirection) => {
+    if (!options.wallSprite) return;
+    const uuid = `wall_${x}_${y}_0_${direction}_bench`;
+    const wall = toCanonicalWall({
+      uuid,
+      name: options.wallSprite,
+      position: [x, y] as const,
+      z_level: 0,
+      wall_direction: direction,
+      sprite_name: options.wallSprite,
+      sprite_direction: direction,
+      wall_type: 'stone',
+      blocks_movement: true,
+      visible: true,
+      snap_position: 'above',
+    });
+    walls[getWallKey(wall)] = wall;
+  };
+
+  // Floor everywhere on Z0
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      addTile(x, y, 0);
+    }
+  }
+
+  // Room walls on the NORTH (x-1) and EAST (y-1) sides of every pitch line, leaving a doorway in each room side
+  for (let x = BENCHMARK_ROOM_PITCH; x < width; x += BENCHMARK_ROOM_PITCH) {
+    for (let y = 0; y < height; y++) {
+      if (y % BENCHMARK_ROOM_PITCH !== BENCHMARK_ROOM_PITCH / 2) addWall(x, y, IsometricDirection.NORTH);
+    }
+  }
+  for (let y = BENCHMARK_ROOM_PITCH; y < height; y += BENCHMARK_ROOM_PITCH) {
+    for (let x = 0; x < width; x++) {
+      if (x % BENCHMARK_ROOM_PITCH !== BENCHMARK_ROOM_PITCH / 2) addWall(x, y, IsometricDirection.EAST);
+    }
+  }
+
+  // Raised platforms in some rooms
+  for (let roomX = 0; roomX < width; roomX += BENCHMARK_ROOM_PITCH) {
+    for (let roomY = 0; roomY < height; roomY += BENCHMARK_ROOM_PITCH) {
+      if (random() > 0.25) continue;
+      for (let x = roomX + 2; x < Math.min(roomX + BENCHMARK_ROOM_PITCH - 2, width); x++) {
+        for (let y = roomY + 2; y < Math.min(roomY + BENCHMARK_ROOM_PITCH - 2, height); y++) {
+          addTile(x, y, 1);
+        }
+      }
+    }
+  }
+
+  return { tiles, walls };
+}
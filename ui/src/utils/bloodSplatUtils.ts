@@ -0,0 +1,100 @@
+import { BloodSplatDirection, BloodSplatSettings, VisualPosition } from '../types/battlemap_types';
+import { rotateGridPoint } from './isometricUtils';
+
+// Cone width (radians) per unit of sprayIntensity * spreadMultiplier
+const SPRAY_CONE_RADIANS_PER_UNIT = 0.1;
+
+/**
+ * One droplet of a spray, ready to spawn as a BLOOD_SPLAT effect
+ */
+export interface BloodDroplet {
+  position: VisualPosition; // Grid position where the droplet lands
+  upOffset: number; // Height above the ground, in diamond widths (positive = up on screen)
+  delayMs: number; // From the hit
+  stage: number;
+  layer: 'below' | 'above';
+}
+
+/**
+ * Isometric depth of a grid position with the current camera rotation (larger = nearer the camera)
+ */
+export function getIsometricDepth(position: readonly [number, number] | VisualPosition): number {
+  const view = 'x' in position ? rotateGridPoint(position.x, position.y) : rotateGridPoint(position[0], position[1]);
+  return view.x + view.y;
+}
+
+/**
+ * Defenders turn toward their attacker, so the camera sees their front when the attacker is nearer the camera
+ */
+export function isDefenderFrontFacing(attacker: readonly [number, number], defender: readonly [number, number]): boolean {
+  return getIsometricDepth(attacker) > getIsometricDepth(defender);
+}
+
+/**
+ * Lay out a staged spray along the attacker -> defender axis
+ * Stage N travels (N+1)/stageCount of maxTravelDistance; droplets of a stage fan out over a cone
+ * of sprayIntensity * spreadMultiplier * 0.1 radians, jittered by sprayRandomness.
+ * Droplets landing behind the defender (lower depth) go on the below layer, the rest above
+ */
+export function computeBloodSplatDroplets(
+  settings: BloodSplatSettings,
+  direction: BloodSplatDirection,
+  attacker: readonly [number, number],
+  defender: readonly [number, number],
+  random: () => number = Math.random
+): BloodDroplet[] {
+  if (!settings.enabled) return [];
+
+  // Unit axis pointing from the defender toward the attacker (toward the camera if they share a cell)
+  let axisX = attacker[0] - defender[0];
+  let axisY = attacker[1] - defender[1];
+  const axisLength = Math.hypot(axisX, axisY);
+  if (axisLength < 1e-6) {
+    axisX = Math.SQRT1_2;
+    axisY = Math.SQRT1_2;
+  } else {
+    axisX /= axisLength;
+    axisY /= axisLength;
+  }
+
+  const isFrontFacing = isDefenderFrontFacing(attacker, defender);
+  const forwardOffset = settings.forwardBackwardOffset +
+    (isFrontFacing ? settings.frontFacingForwardBackwardOffset : settings.backFacingForwardBackwardOffset);
+  const upOffset = settings.upDownOffset +
+    (isFrontFacing ? settings.frontFacingUpDownOffset : settings.backFacingUpDownOffset);
+
+  // Where the spray starts (forward offsets are always measured toward the attacker)
+  const originX = defender[0] + axisX * forwardOffset;
+  const originY = defender[1] + axisY * forwardOffset;
+  const sprayDirection = direction === BloodSplatDirection.TOWARD_ATTACKER ? 1 : -1;
+  const sprayAngle = Math.atan2(axisY * sprayDirection, axisX * sprayDirection);
+  const coneWidth = settings.sprayIntensity * settings.spreadMultiplier * SPRAY_CONE_RADIANS_PER_UNIT;
+  const defenderDepth = getIsometricDepth(defender);
+
+  const droplets: BloodDroplet[] = [];
+  const stageCount = Math.max(1, settings.stageCount);
+  for (let stage = 0; stage < stageCount; stage++) {
+    const dropletCount = Math.max(0, settings.dropletsPerStage[stage] ?? 0);
+    const travel = settings.maxTravelDistance * (stage + 1) / stageCount;
+
+    for (let index = 0; index < dropletCount; index++) {
+      // Evenly fanned across the cone, plus jitter in angle and distance
+      const fan = dropletCount > 1 ? index / (dropletCount - 1) - 0.5 : 0;
+      const angle = sprayAngle + (fan + (random() - 0.5) * settings.sprayRandomness) * coneWidth;
+      const along = travel * (1 + (random() - 0.5) * settings.sprayRandomness);
+
+      const x = originX + Math.cos(angle) * along;
+      const y = originY + Math.sin(angle) * along;
+
+      droplets.push({
+        position: { x, y },
+        upOffset,
+        delayMs: stage * settings.stageDelayMs + index * settings.dropletDelayMs,
+        stage,
+        layer: getIsometricDepth({ x, y }) < defenderDepth ? 'below' : 'above'
+      });
+    }
+  }
+
+  return droplets;
+}
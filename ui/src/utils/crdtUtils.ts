@@ -0,0 +1,102 @@
+import { CollabOp, CollabRegion, CollabStamp, TileSummary, WallSummary } from '../types/battlemap_types';
+
+/**
+ * Order stamps by lamport time, then client id, so every replica shows the same value of a conflict
+ * @returns > 0 if a is newer, < 0 if b is newer, 0 if equal
+ */
+export function compareStamps(a: CollabStamp, b: CollabStamp): number {
+  if (a.lamport !== b.lamport) return a.lamport - b.lamport;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+/**
+ * Unique id of a stamp (one op per stamp)
+ */
+export function getStampId(stamp: CollabStamp): string {
+  return `${stamp.lamport}:${stamp.clientId}`;
+}
+
+/**
+ * Multi-value register for one key
+ *
+ * An op removes the values it supersedes (the ones its writer had seen) and joins the rest, so two
+ * edits made without seeing each other both survive. Ops commute and apply once, so every replica
+ * ends up with the same values whatever order they arrive in.
+ */
+export interface MultiValueRegister {
+  values: CollabOp[]; // Surviving values; more than one distinct value = conflict
+  superseded: Set<string>; // Stamp ids of replaced values (so late copies of them stay out)
+}
+
+export function createRegister(): MultiValueRegister {
+  return { values: [], superseded: new Set() };
+}
+
+/**
+ * Merge an op into a register
+ * @returns Whether the register's values changed (false for duplicates)
+ */
+export function applyOpToRegister(register: MultiValueRegister, op: CollabOp): boolean {
+  // What an op replaced stays replaced even when the op itself has been replaced by now
+  (op.supersedes ?? []).forEach(stamp => register.superseded.add(getStampId(stamp)));
+  const survivors = register.values.filter(value => !register.superseded.has(getStampId(value.stamp)));
+  let changed = survivors.length !== register.values.length;
+  register.values = survivors;
+
+  const id = getStampId(op.stamp);
+  if (!register.superseded.has(id) && !survivors.some(value => getStampId(value.stamp) === id)) {
+    register.values.push(op);
+    changed = true;
+  }
+  return changed;
+}
+
+/**
+ * Value shown while the register holds several: the newest stamp, so every replica shows the same one
+ */
+export function getRegisterWinner(register: MultiValueRegister | undefined): CollabOp | null {
+  if (!register || register.values.length === 0) return null;
+  return register.values.reduce((best, value) => compareStamps(value.stamp, best.stamp) > 0 ? value : best);
+}
+
+/**
+ * Distinct concurrent values of a register, newest first (empty unless they really differ:
+ * two users placing the same tile or wall is no conflict, whatever uuid each one got)
+ */
+export function getConflictingValues(register: MultiValueRegister | undefined): CollabOp[] {
+  if (!register || register.values.length < 2) return [];
+  const byValue = new Map<string, CollabOp>();
+  [...register.values]
+    .sort((a, b) => compareStamps(b.stamp, a.stamp))
+    .forEach(op => {
+      const json = op.value ? JSON.stringify({ ...op.value, uuid: null }) : 'null';
+      if (!byValue.has(json)) byValue.set(json, op);
+    });
+  return byValue.size > 1 ? Array.from(byValue.values()) : [];
+}
+
+/**
+ * Cell a tile or wall occupies (tiles are keyed "x,y,z"; walls carry their position)
+ */
+export function getOpCell(op: Pick<CollabOp, 'collection' | 'key' | 'value'>): { x: number; y: number; z: number } | null {
+  if (op.value) {
+    const value = op.value as TileSummary | WallSummary;
+    return { x: value.position[0], y: value.position[1], z: value.z_level };
+  }
+  if (op.collection === 'tiles') {
+    const [x, y, z] = op.key.split(',').map(Number);
+    return Number.isFinite(x) && Number.isFinite(y) ? { x, y, z: z || 0 } : null;
+  }
+  return null;
+}
+
+export function isCellInRegion(x: number, y: number, z: number, region: CollabRegion): boolean {
+  return x >= region.minX && x <= region.maxX &&
+    y >= region.minY && y <= region.maxY &&
+    (region.zLevel === null || region.zLevel === z);
+}
+
+export function regionsEqual(a: CollabRegion | null, b: CollabRegion | null): boolean {
+  if (!a || !b) return a === b;
+  return a.minX === b.minX && a.minY === b.minY && a.maxX === b.maxX && a.maxY === b.maxY && a.zLevel === b.zLevel;
+}
@@ -0,0 +1,85 @@
+import { Direction, VisualPosition } from '../types/battlemap_types';
+import { Position } from '../types/common';
+import { convertToIsometricDirection } from './isometricUtils';
+
+/**
+ * Absolute (top-down) compass direction of a grid step: N = y-1, E = x+1, S = y+1, W = x-1
+ * convertToIsometricDirection turns these into the screen directions the sprite sheets are keyed by
+ */
+const DIRECTION_BY_STEP: Record<string, Direction> = {
+  '0,-1': Direction.N,
+  '1,-1': Direction.NE,
+  '1,0': Direction.E,
+  '1,1': Direction.SE,
+  '0,1': Direction.S,
+  '-1,1': Direction.SW,
+  '-1,0': Direction.W,
+  '-1,-1': Direction.NW
+};
+
+export interface PathProgress {
+  segmentIndex: number; // Index of the path point the entity last passed
+  position: VisualPosition;
+  finished: boolean;
+}
+
+/**
+ * Direction to face when moving by (dx, dy); null when not moving
+ * Returned as drawn on screen at camera rotation 0 (the sprite sheet key), e.g. a step to x+1 faces SE
+ * Longer or uneven deltas snap to the nearest of the 8 directions
+ */
+export function getDirectionFromDelta(dx: number, dy: number): Direction | null {
+  if (Math.abs(dx) < 1e-6 && Math.abs(dy) < 1e-6) return null;
+
+  // Round the angle to the nearest 45 degrees, then look up the unit step
+  const angle = Math.atan2(dy, dx);
+  const octant = Math.round(angle / (Math.PI / 4));
+  const stepX = Math.round(Math.cos(octant * Math.PI / 4));
+  const stepY = Math.round(Math.sin(octant * Math.PI / 4));
+  const absoluteDirection = DIRECTION_BY_STEP[`${stepX},${stepY}`];
+  return absoluteDirection ? convertToIsometricDirection(absoluteDirection) : null;
+}
+
+export function interpolatePosition(from: VisualPosition, to: VisualPosition, t: number): VisualPosition {
+  const clamped = Math.min(1, Math.max(0, t));
+  return {
+    x: from.x + (to.x - from.x) * clamped,
+    y: from.y + (to.y - from.y) * clamped
+  };
+}
+
+/**
+ * Where an entity is along a path after elapsedMs, moving one cell per step at `speed` cells per second
+ * (diagonal steps take as long as straight ones, like the 5 ft grid rule)
+ */
+export function getPathProgress(path: readonly Position[], elapsedMs: number, speed: number): PathProgress {
+  const last = path.length - 1;
+  if (last <= 0 || speed <= 0) {
+    const end = path[Math.max(0, last)] ?? [0, 0];
+    return { segmentIndex: Math.max(0, last), position: { x: end[0], y: end[1] }, finished: true };
+  }
+
+  const stepsTaken = Math.max(0, (elapsedMs / 1000) * speed);
+  if (stepsTaken >= last) {
+    return { segmentIndex: last, position: { x: path[last][0], y: path[last][1] }, finished: true };
+  }
+
+  const segmentIndex = Math.floor(stepsTaken);
+  const from = path[segmentIndex];
+  const to = path[segmentIndex + 1];
+  return {
+    segmentIndex,
+    position: interpolatePosition({ x: from[0], y: from[1] }, { x: to[0], y: to[1] }, stepsTaken - segmentIndex),
+    finished: false
+  };
+}
+
+/**
+ * Facing for the segment that starts at path[segmentIndex]
+ */
+export function getSegmentDirection(path: readonly Position[], segmentIndex: number): Direction | null {
+  const from = path[segmentIndex];
+  const to = path[segmentIndex + 1];
+  if (!from || !to) return null;
+  return getDirectionFromDelta(to[0] - from[0], to[1] - from[1]);
+}
@@ -0,0 +1,95 @@
+import { EntitySummary } from '../types/common';
+import { FogCellState, LightLevel, WallSummary } from '../types/battlemap_types';
+import { IsometricDirection } from '../game/managers/IsometricSpriteManager';
+import { canSeeAtLightLevel } from './lightingUtils';
+
+// Cell on the other side of each wall edge (NORTH of (x, y) is SOUTH of (x - 1, y), EAST is WEST of (x, y - 1))
+const WALL_FACING_OFFSETS: Record<IsometricDirection, readonly [number, number]> = {
+  [IsometricDirection.NORTH]: [-1, 0],
+  [IsometricDirection.EAST]: [0, -1],
+  [IsometricDirection.SOUTH]: [1, 0],
+  [IsometricDirection.WEST]: [0, 1]
+};
+
+// Higher = better seen; used to pick the best state of a wall's two sides
+const FOG_STATE_RANK: Record<FogCellState, number> = { hidden: 0, seen: 1, visible: 2 };
+
+/**
+ * Senses key of a cell (same "x,y" format as SensesSnapshot.visible)
+ */
+export function getFogCellKey(x: number, y: number): string {
+  return `${x},${y}`;
+}
+
+/**
+ * Union the senses of every viewer
+ * @param viewers Entities whose senses count
+ * @param getLightLevel Light level of a cell when lighting is active; dark cells then need darkvision
+ * @returns Cells visible right now, and cells the viewers report as seen (visible ones included)
+ */
+export function computeFogCells(
+  viewers: readonly EntitySummary[],
+  getLightLevel?: (x: number, y: number) => LightLevel
+): { visible: Set<string>; seen: Set<string> } {
+  const visible = new Set<string>();
+  const seen = new Set<string>();
+
+  viewers.forEach(viewer => {
+    const senses = viewer.senses;
+    if (!senses) return;
+
+    Object.keys(senses.visible).forEach(key => {
+      if (!senses.visible[key]) return;
+      if (getLightLevel) {
+        const [x, y] = key.split(',').map(Number);
+        if (!canSeeAtLightLevel(viewer, x, y, getLightLevel(x, y))) return;
+      }
+      visible.add(key);
+      seen.add(key);
+    });
+    senses.seen.forEach(([x, y]) => seen.add(getFogCellKey(x, y)));
+
+    // A viewer always sees its own cell
+    const ownKey = getFogCellKey(viewer.position[0], viewer.position[1]);
+    visible.add(ownKey);
+    seen.add(ownKey);
+  });
+
+  return { visible, seen };
+}
+
+/**
+ * Fog state of one cell
+ */
+export function getFogCellState(x: number, y: number, visible: ReadonlySet<string>, explored: ReadonlySet<string>): FogCellState {
+  const key = getFogCellKey(x, y);
+  if (visible.has(key)) return 'visible';
+  return explored.has(key) ? 'seen' : 'hidden';
+}
+
+/**
+ * Fog cells a wall belongs to: its own cell and the cell across its edge
+ * A wall shows as well as the better-seen of its two sides
+ */
+export function getWallFogCells(wall: Pick<WallSummary, 'position' | 'wall_direction'>): [number, number][] {
+  const [x, y] = wall.position;
+  const [dx, dy] = WALL_FACING_OFFSETS[wall.wall_direction];
+  return [[x, y], [x + dx, y + dy]];
+}
+
+/**
+ * Best state among several cells
+ */
+export function getBestFogState(states: FogCellState[]): FogCellState {
+  return states.reduce<FogCellState>((best, state) => FOG_STATE_RANK[state] > FOG_STATE_RANK[best] ? state : best, 'hidden');
+}
+
+/**
+ * Multiply two 0xRRGGBB colors channel by channel (stacks the fog dimming on top of layer tints)
+ */
+export function multiplyTint(a: number, b: number): number {
+  const r = Math.round(((a >> 16) & 0xFF) * ((b >> 16) & 0xFF) / 255);
+  const g = Math.round(((a >> 8) & 0xFF) * ((b >> 8) & 0xFF) / 255);
+  const bl = Math.round((a & 0xFF) * (b & 0xFF) / 255);
+  return (r << 16) | (g << 8) | bl;
+}
@@ -4,21 +4,83 @@ import { GRID_STROKE_WIDTH, ISOMETRIC_TILE_WIDTH, ISOMETRIC_TILE_HEIGHT } from '
 import { battlemapStore } from '../store';
 import { ENTITY_PANEL_WIDTH } from '../constants/layout';
 
+/**
+ * NEW: Rotate grid coordinates into the camera's view frame
+ * Rotation is about the grid origin; calculateIsometricGridOffset re-centres the rotated grid
+ * @param x Grid X coordinate (may be fractional)
+ * @param y Grid Y coordinate (may be fractional)
+ * @param rotation Clockwise quarter turns of the map on screen
+ * @returns Coordinates that project with the unrotated isometric formulas
+ */
+export function rotateGridPoint(x: number, y: number, rotation: number = battlemapStore.view.cameraRotation): { x: number; y: number } {
+  switch (((rotation % 4) + 4) % 4) {
+    case 1: return { x: -y, y: x };
+    case 2: return { x: -x, y: -y };
+    case 3: return { x: y, y: -x };
+    default: return { x, y };
+  }
+}
+
+/**
+ * NEW: Inverse of rotateGridPoint - view frame back to grid coordinates
+ */
+export function unrotateGridPoint(x: number, y: number, rotation: number = battlemapStore.view.cameraRotation): { x: number; y: number } {
+  return rotateGridPoint(x, y, -rotation);
+}
+
+/**
+ * NEW: Cell side or sprite facing as seen on screen under the camera rotation
+ * With rotation 0 the two are the same (NORTH = top-left side, EAST = top-right, ...)
+ * @param direction Direction in grid terms (as stored on tiles and walls)
+ * @param rotation Clockwise quarter turns of the map on screen
+ * @returns Direction relative to the view
+ */
+export function toViewDirection(direction: IsometricDirection, rotation: number = battlemapStore.view.cameraRotation): IsometricDirection {
+  return ((((direction + rotation) % 4) + 4) % 4) as IsometricDirection;
+}
+
+/**
+ * NEW: Inverse of toViewDirection - a direction picked on screen back to grid terms
+ */
+export function fromViewDirection(direction: IsometricDirection, rotation: number = battlemapStore.view.cameraRotation): IsometricDirection {
+  return toViewDirection(direction, -rotation);
+}
+
+// 8-way facings in clockwise order (a quarter turn is two steps)
+const ENTITY_DIRECTION_ORDER: Direction[] = [
+  Direction.N, Direction.NE, Direction.E, Direction.SE, Direction.S, Direction.SW, Direction.W, Direction.NW
+];
+
+/**
+ * NEW: Entity facing as seen on screen under the camera rotation
+ */
+export function toViewEntityDirection(direction: Direction, rotation: number = battlemapStore.view.cameraRotation): Direction {
+  const index = ENTITY_DIRECTION_ORDER.indexOf(direction);
+  return ENTITY_DIRECTION_ORDER[(((index + rotation * 2) % 8) + 8) % 8];
+}
+
 /**
  * Convert grid coordinates to isometric screen coordinates
  * @param gridX Grid X coordinate
  * @param gridY Grid Y coordinate
  * @param gridDiamondWidth Width of the diamond grid in pixels
+ * @param rotation Camera rotation (defaults to the current view)
  * @returns Screen coordinates in isometric perspective
  */
-export function gridToIsometric(gridX: number, gridY: number, gridDiamondWidth: number = 64): { isoX: number; isoY: number } {
-  // Precise isometric transformation
+export function gridToIsometric(
+  gridX: number,
+  gridY: number,
+  gridDiamondWidth: number = 64,
+  rotation: number = battlemapStore.view.cameraRotation
+): { isoX: number; isoY: number } {
+  // Precise isometric transformation of the camera-rotated coordinates
   // In isometric view: X goes right-down diagonal, Y goes left-down diagonal
   const tileWidth = gridDiamondWidth;
   const tileHeight = gridDiamondWidth / 2; // 2:1 aspect ratio for isometric diamonds
+  const { x, y } = rotateGridPoint(gridX, gridY, rotation);
   
-  const isoX = (gridX - gridY) * (tileWidth / 2);
-  const isoY = (gridX + gridY) * (tileHeight / 2);
+  const isoX = (x - y) * (tileWidth / 2);
+  const isoY = (x + y) * (tileHeight / 2);
   
   return { isoX, isoY };
 }
@@ -44,14 +106,8 @@ export function isometricToGrid(isoX: number, isoY: number, gridDiamondWidth: nu
   // Adding: isoX/A + isoY/B = 2*gridX  =>  gridX = (isoX/A + isoY/B) / 2
   // Subtracting: isoY/B - isoX/A = 2*gridY  =>  gridY = (isoY/B - isoX/A) / 2
   
-  const tileWidth = gridDiamondWidth;
-  const tileHeight = gridDiamondWidth / 2; // 2:1 aspect ratio
-  
-  const A = tileWidth / 2;
-  const B = tileHeight / 2;
-  
-  const gridX = (isoX / A + isoY / B) / 2;
-  const gridY = (isoY / B - isoX / A) / 2;
+  // NEW: Undo the camera rotation before rounding
+  const { gridX, gridY } = isometricToGridPoint(isoX, isoY, gridDiamondWidth);
   
   return { 
     gridX: Math.floor(gridX + 0.5), // Round to nearest integer instead of just floor
@@ -59,6 +115,19 @@ export function isometricToGrid(isoX: number, isoY: number, gridDiamondWidth: nu
   };
 }
 
+/**
+ * NEW: Exact inverse of gridToIsometric (fractional grid position, camera rotation undone)
+ * @param isoX Isometric X relative to the grid origin
+ * @param isoY Isometric Y relative to the grid origin
+ * @param gridDiamondWidth Width of the diamond grid in pixels
+ */
+export function isometricToGridPoint(isoX: number, isoY: number, gridDiamondWidth: number = 64): { gridX: number; gridY: number } {
+  const A = gridDiamondWidth / 2; // Half tile width
+  const B = gridDiamondWidth / 4; // Half tile height (2:1 aspect ratio)
+  const { x, y } = unrotateGridPoint((isoX / A + isoY / B) / 2, (isoY / B - isoX / A) / 2);
+  return { gridX: x, gridY: y };
+}
+
 /**
  * Convert screen pixel coordinates to grid coordinates (for mouse interaction)
  * This is the critical function for mouse highlighting to work correctly
@@ -103,8 +172,8 @@ export function screenToGrid(
   // Adding: isoX/A + isoY/B = 2*gridX  =>  gridX = (isoX/A + isoY/B) / 2
   // Subtracting: isoY/B - isoX/A = 2*gridY  =>  gridY = (isoY/B - isoX/A) / 2
   
-  const gridXFloat = (isoX / A + isoY / B) / 2;
-  const gridYFloat = (isoY / B - isoX / A) / 2;
+  // NEW: Undo the camera rotation before rounding
+  const { x: gridXFloat, y: gridYFloat } = unrotateGridPoint((isoX / A + isoY / B) / 2, (isoY / B - isoX / A) / 2);
   
   // Round to nearest integer for grid coordinates
   const gridX = Math.round(gridXFloat);
@@ -122,6 +191,50 @@ export function screenToGrid(
   };
 }
 
+/**
+ * Convert screen pixel coordinates to the nearest grid vertex (cell corner)
+ * Vertex (x, y) is the top corner of cell (x, y); vertices run from 0 to gridWidth/gridHeight inclusive
+ * @param screenX Screen X coordinate
+ * @param screenY Screen Y coordinate
+ * @param offsetX Grid origin X offset in screen coordinates
+ * @param offsetY Grid origin Y offset in screen coordinates
+ * @param scaleFactor Scale factor applied to the isometric grid
+ * @param gridWidth Width of the grid in tiles
+ * @param gridHeight Height of the grid in tiles
+ * @param gridDiamondWidth Width of the diamond grid in pixels
+ * @returns Vertex coordinates (clamped to the grid) and bounds check
+ */
+export function screenToGridVertex(
+  screenX: number,
+  screenY: number,
+  offsetX: number,
+  offsetY: number,
+  scaleFactor: number,
+  gridWidth: number,
+  gridHeight: number,
+  gridDiamondWidth: number = 64
+): { vertexX: number; vertexY: number; inBounds: boolean } {
+  const isoX = (screenX - offsetX) / scaleFactor;
+  const isoY = (screenY - offsetY) / scaleFactor;
+  
+  const A = gridDiamondWidth / 2;
+  const B = gridDiamondWidth / 4;
+  
+  // Same inverse transform as screenToGrid, but cell corners sit half a cell before cell centers
+  const { x: gridXFloat, y: gridYFloat } = unrotateGridPoint((isoX / A + isoY / B) / 2, (isoY / B - isoX / A) / 2);
+  
+  const vertexX = Math.round(gridXFloat + 0.5);
+  const vertexY = Math.round(gridYFloat + 0.5);
+  
+  const inBounds = vertexX >= 0 && vertexX <= gridWidth && vertexY >= 0 && vertexY <= gridHeight;
+  
+  return {
+    vertexX: Math.max(0, Math.min(gridWidth, vertexX)),
+    vertexY: Math.max(0, Math.min(gridHeight, vertexY)),
+    inBounds
+  };
+}
+
 /**
  * Calculate isometric grid offset with proper centering
  * @param containerWidth Width of the container
@@ -161,6 +274,7 @@ export function calculateIsometricGridOffset(
 
   // Calculate the bounds of the isometric grid
   // The grid extends from top-left corner to bottom-right corner in isometric space
+  // (gridToIsometric applies the camera rotation, so any corner may end up on top)
   const topLeft = gridToIsometric(0, 0, zoomedGridDiamondWidth);
   const topRight = gridToIsometric(gridWidth - 1, 0, zoomedGridDiamondWidth);
   const bottomLeft = gridToIsometric(0, gridHeight - 1, zoomedGridDiamondWidth);
@@ -243,6 +357,8 @@ export function calculateIsometricDiamondCorners(
  * Convert absolute direction to isometric direction
  * In isometric view, absolute North appears as NE, East as SE, etc.
  * This accounts for the 45-degree rotation of the isometric perspective
+ * Absolute directions are top-down grid ones (N = y-1, E = x+1); the result is the screen direction
+ * at camera rotation 0, which is what entity sprite sheets are keyed by
  */
 export function convertToIsometricDirection(absoluteDirection: Direction): Direction {
   const directionMap: Record<Direction, Direction> = {
@@ -266,6 +382,7 @@ export function convertToIsometricDirection(absoluteDirection: Direction): Direc
 
 /**
  * Calculate the screen coordinates for a specific edge of a grid cell
+ * The edge is given in grid terms and placed on the diamond side it shows as under the camera rotation
  */
 export function getGridEdgePosition(
   gridX: number, 
@@ -295,7 +412,7 @@ export function getGridEdgePosition(
   const halfTile = gridOffset.tileSize / 2;
   const quarterTile = gridOffset.tileSize / 4;
 
-  switch (edge) {
+  switch (toViewDirection(edge)) {
     case IsometricDirection.NORTH:
       // Top edge of diamond
       return { x: centerX, y: centerY - quarterTile };
@@ -463,6 +580,7 @@ export function getIsometricDiamondCorners(
 
 /**
  * Get the edge position for wall placement based on wall direction
+ * wallDirection is the side as seen on screen (see toViewDirection)
  */
 export function getWallEdgePosition(
   gridX: number,
@@ -492,6 +610,7 @@ export function getWallEdgePosition(
 
 /**
  * Get the correct sprite anchor point for a wall based on its direction
+ * wallDirection is the side as seen on screen (see toViewDirection)
  * Returns anchor values for PIXI sprite (0-1 range)
  */
 export function getWallSpriteAnchor(wallDirection: IsometricDirection): { x: number; y: number } {
@@ -0,0 +1,172 @@
+import { EntitySummary, SensesType } from '../types/common';
+import { LightLevel, LightSource } from '../types/battlemap_types';
+import { computeLineOfSight, LineOfSightGrid } from './lineOfSightUtils';
+
+/**
+ * Client-side dynamic lighting
+ *
+ * A light lights the cells it can see from its own level (the same shadowcasting as line of
+ * sight, so blocking walls and raised blocks cast shadows): bright within bright_radius, dim for
+ * dim_radius further. Every other cell gets the ambient level. A cell's tint is its light level
+ * as a grey scale, coloured by the strongest light reaching it.
+ */
+
+// Higher = more light
+export const LIGHT_LEVEL_RANK: Record<LightLevel, number> = { dark: 0, dim: 1, bright: 2 };
+
+// Darkvision (and blindsight/truesight) see through darkness this far: 60 ft
+export const DARKVISION_RANGE_CELLS = 12;
+
+// Senses that don't need light within DARKVISION_RANGE_CELLS
+const DARK_SENSES: ReadonlySet<SensesType> = new Set([SensesType.DARKVISION, SensesType.BLINDSIGHT, SensesType.TRUESIGHT]);
+
+// Tint brightness of each light level
+const LIGHT_LEVEL_BRIGHTNESS: Record<LightLevel, number> = { bright: 1, dim: 0.6, dark: 0.25 };
+
+// How much a light's colour shows in the cells it lights (0 = white light)
+const LIGHT_COLOR_STRENGTH = 0.35;
+
+/**
+ * One cell lit by a light
+ */
+export interface LitCell {
+  x: number;
+  y: number;
+  level: 'bright' | 'dim';
+  strength: number; // 1 at the light, falling towards 0 at the edge of its reach
+}
+
+export interface LightingResult {
+  levels: Map<string, LightLevel>; // "x,y" -> level, only for cells lit above the ambient level
+  tints: Map<string, number>; // "x,y" -> tint of every lit cell (others use getLightTint(ambient))
+  litCells: Map<string, LitCell[]>; // Light uuid -> the cells it lights
+}
+
+/**
+ * Distance a light reaches in cells (bright plus dim)
+ */
+export function getLightReach(light: LightSource): number {
+  return light.bright_radius + light.dim_radius;
+}
+
+/**
+ * Cells a single light reaches, with walls and raised blocks casting shadows
+ */
+export function computeLightCells(grid: LineOfSightGrid, light: LightSource): LitCell[] {
+  const reach = getLightReach(light);
+  if (reach <= 0) return [];
+
+  const [lightX, lightY] = light.position;
+  const visible = computeLineOfSight(grid, [lightX, lightY], { radius: reach, zLevel: light.z_level });
+  const cells: LitCell[] = [];
+  Object.keys(visible).forEach(key => {
+    if (!visible[key]) return;
+    const [x, y] = key.split(',').map(Number);
+    const distance = Math.hypot(x - lightX, y - lightY);
+    cells.push({
+      x,
+      y,
+      level: distance <= light.bright_radius ? 'bright' : 'dim',
+      strength: 1 - distance / (reach + 1)
+    });
+  });
+  return cells;
+}
+
+/**
+ * Tint for a light level, optionally coloured by a light
+ * @param level Light level of the cell
+ * @param color Colour of the light reaching it (none for ambient light)
+ */
+export function getLightTint(level: LightLevel, color: number = 0xFFFFFF): number {
+  const brightness = LIGHT_LEVEL_BRIGHTNESS[level];
+  const channel = (shift: number) => {
+    const lightChannel = (color >> shift) & 0xFF;
+    const mixed = 255 + (lightChannel - 255) * LIGHT_COLOR_STRENGTH;
+    return Math.round(mixed * brightness) << shift;
+  };
+  return channel(16) | channel(8) | channel(0);
+}
+
+/**
+ * Brightest of several tints (e.g. a wall lit on one side shows its lit face)
+ */
+export function getBrightestTint(tints: number[]): number {
+  const brightness = (tint: number) => ((tint >> 16) & 0xFF) + ((tint >> 8) & 0xFF) + (tint & 0xFF);
+  return tints.reduce((best, tint) => brightness(tint) > brightness(best) ? tint : best, 0x000000);
+}
+
+/**
+ * Whether a cell is within a light's reach, plus one cell so walls on the edge of its reach count too
+ * (changes outside it can't alter what the light lights)
+ */
+export function isInLightReach(light: LightSource, x: number, y: number): boolean {
+  return Math.hypot(x - light.position[0], y - light.position[1]) <= getLightReach(light) + 1;
+}
+
+/**
+ * Light levels and tints of the whole grid
+ * @param grid Tiles, walls and grid size
+ * @param lights Light sources
+ * @param ambientLight Level of cells no light reaches
+ */
+export function computeLighting(
+  grid: LineOfSightGrid,
+  lights: Readonly<Record<string, LightSource>>,
+  ambientLight: LightLevel
+): LightingResult {
+  const litCells = new Map<string, LitCell[]>();
+  Object.values(lights).forEach(light => litCells.set(light.uuid, computeLightCells(grid, light)));
+  return combineLighting(lights, litCells, ambientLight);
+}
+
+/**
+ * Light levels and tints from the cells each light lights (computeLightCells), so only the lights
+ * affected by a change need computing again
+ * @param lights Light sources
+ * @param litCells Light uuid -> the cells it lights
+ * @param ambientLight Level of cells no light reaches
+ */
+export function combineLighting(
+  lights: Readonly<Record<string, LightSource>>,
+  litCells: ReadonlyMap<string, LitCell[]>,
+  ambientLight: LightLevel
+): LightingResult {
+  const levels = new Map<string, LightLevel>();
+  const tints = new Map<string, number>();
+  const lightCells = new Map<string, LitCell[]>();
+
+  // Strongest light per cell: higher level first, then the nearer light
+  const strongest = new Map<string, { cell: LitCell; color: number }>();
+  Object.values(lights).forEach(light => {
+    const cells = litCells.get(light.uuid) ?? [];
+    lightCells.set(light.uuid, cells);
+    cells.forEach(cell => {
+      const key = `${cell.x},${cell.y}`;
+      const current = strongest.get(key);
+      const isStronger = !current ||
+        LIGHT_LEVEL_RANK[cell.level] > LIGHT_LEVEL_RANK[current.cell.level] ||
+        (cell.level === current.cell.level && cell.strength > current.cell.strength);
+      if (isStronger) strongest.set(key, { cell, color: light.color });
+    });
+  });
+
+  strongest.forEach(({ cell, color }, key) => {
+    const level = LIGHT_LEVEL_RANK[cell.level] > LIGHT_LEVEL_RANK[ambientLight] ? cell.level : ambientLight;
+    if (level !== ambientLight) levels.set(key, level);
+    tints.set(key, getLightTint(level, color));
+  });
+
+  return { levels, tints, litCells: lightCells };
+}
+
+/**
+ * Whether a viewer can make out a cell at a light level
+ * Dark cells need darkvision (or blindsight/truesight) within DARKVISION_RANGE_CELLS
+ */
+export function canSeeAtLightLevel(viewer: EntitySummary, x: number, y: number, level: LightLevel): boolean {
+  if (level !== 'dark') return true;
+  const senses = viewer.senses?.extra_senses ?? [];
+  if (!senses.some(sense => DARK_SENSES.has(sense))) return false;
+  return Math.hypot(x - viewer.position[0], y - viewer.position[1]) <= DARKVISION_RANGE_CELLS;
+}
@@ -0,0 +1,232 @@
+import { TileSummary, WallSummary } from '../types/battlemap_types';
+import { IsometricDirection } from '../game/managers/IsometricSpriteManager';
+
+/**
+ * Client-side line of sight (symmetric shadowcasting)
+ *
+ * Walls sit on cell edges, so the scan runs on a lattice at twice the grid resolution:
+ * cell (x, y) is lattice point (2x + 1, 2y + 1), the edges between cells are the points in
+ * between and the cell corners are the even/even points. Blocking walls fill their edge point
+ * (and the corners they touch, so nothing leaks through wall joints); opaque cells fill their
+ * centre, edges and corners. A cell is visible when its centre point is, or, for an opaque
+ * cell, when any of its points is (you see the face of a raised block or pillar).
+ */
+
+// Grid data the calculation needs (GridState satisfies it)
+export interface LineOfSightGrid {
+  width: number;
+  height: number;
+  tiles: Readonly<Record<string, TileSummary>>;
+  walls: Readonly<Record<string, WallSummary>>;
+}
+
+export interface LineOfSightOptions {
+  radius?: number; // In cells (Euclidean), defaults to DEFAULT_SIGHT_RADIUS
+  zLevel?: number; // Eye level, defaults to the level the origin cell's top tile is on
+}
+
+export const DEFAULT_SIGHT_RADIUS = 12;
+
+// Lattice offset of the edge point of each wall direction, relative to the cell's centre point
+// NORTH = towards x - 1, EAST = towards y - 1, SOUTH = towards x + 1, WEST = towards y + 1
+const WALL_LATTICE_OFFSETS: Record<IsometricDirection, readonly [number, number]> = {
+  [IsometricDirection.NORTH]: [-1, 0],
+  [IsometricDirection.EAST]: [0, -1],
+  [IsometricDirection.SOUTH]: [1, 0],
+  [IsometricDirection.WEST]: [0, 1]
+};
+
+// Exact slope numerator / denominator (denominator always > 0)
+interface Slope {
+  num: number;
+  den: number;
+}
+
+interface Row {
+  depth: number;
+  start: Slope;
+  end: Slope;
+}
+
+// Quadrant transforms from (depth, col) to lattice (x, y)
+const QUADRANTS: Array<(ox: number, oy: number, depth: number, col: number) => [number, number]> = [
+  (ox, oy, depth, col) => [ox + col, oy - depth],
+  (ox, oy, depth, col) => [ox + depth, oy + col],
+  (ox, oy, depth, col) => [ox + col, oy + depth],
+  (ox, oy, depth, col) => [ox - depth, oy + col]
+];
+
+/**
+ * Highest tile of every cell: its Z level and whether it can be walked on
+ */
+function getTopTiles(grid: LineOfSightGrid): Map<string, { z: number; walkable: boolean }> {
+  const top = new Map<string, { z: number; walkable: boolean }>();
+  Object.values(grid.tiles).forEach(tile => {
+    const key = `${tile.position[0]},${tile.position[1]}`;
+    const current = top.get(key);
+    if (!current || tile.z_level > current.z) {
+      top.set(key, { z: tile.z_level, walkable: tile.walkable });
+    }
+  });
+  return top;
+}
+
+/**
+ * Level an entity standing on a cell sees from (its highest tile, 0 on empty cells)
+ */
+export function getEyeZLevel(grid: LineOfSightGrid, x: number, y: number): number {
+  return getTopTiles(grid).get(`${x},${y}`)?.z ?? 0;
+}
+
+/**
+ * Build the lattice occlusion mask for an eye level
+ * Cells occlude when their top tile is above eye level or can't be walked on;
+ * walls occlude when they block movement and stand at or above eye level
+ */
+function buildOcclusionLattice(
+  grid: LineOfSightGrid,
+  topTiles: Map<string, { z: number; walkable: boolean }>,
+  eyeZ: number,
+  originKey: string
+): { opaque: Uint8Array; width: number; height: number; opaqueCells: Set<string> } {
+  const width = grid.width * 2 + 1;
+  const height = grid.height * 2 + 1;
+  const opaque = new Uint8Array(width * height);
+  const opaqueCells = new Set<string>();
+  const fill = (lx: number, ly: number) => {
+    if (lx >= 0 && lx < width && ly >= 0 && ly < height) opaque[ly * width + lx] = 1;
+  };
+
+  topTiles.forEach((top, key) => {
+    // The viewer's own cell never blocks its view
+    if ((top.z <= eyeZ && top.walkable) || key === originKey) return;
+    opaqueCells.add(key);
+    const [x, y] = key.split(',').map(Number);
+    for (let dx = 0; dx <= 2; dx++) {
+      for (let dy = 0; dy <= 2; dy++) {
+        fill(2 * x + dx, 2 * y + dy);
+      }
+    }
+  });
+
+  Object.values(grid.walls).forEach(wall => {
+    if (!wall.blocks_movement || wall.z_level < eyeZ) return;
+    const [dx, dy] = WALL_LATTICE_OFFSETS[wall.wall_direction];
+    const ex = 2 * wall.position[0] + 1 + dx;
+    const ey = 2 * wall.position[1] + 1 + dy;
+    fill(ex, ey);
+    // The two corners at the ends of the edge
+    fill(ex + Math.abs(dy), ey + Math.abs(dx));
+    fill(ex - Math.abs(dy), ey - Math.abs(dx));
+  });
+
+  return { opaque, width, height, opaqueCells };
+}
+
+/**
+ * Symmetric shadowcasting over the lattice from (ox, oy)
+ * @returns Lattice visibility mask
+ */
+function castShadows(opaque: Uint8Array, width: number, height: number, ox: number, oy: number, maxDepth: number): Uint8Array {
+  const visible = new Uint8Array(width * height);
+  const inBounds = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height;
+  visible[oy * width + ox] = 1;
+
+  QUADRANTS.forEach(transform => {
+    // Outside the lattice counts as a wall that is never revealed
+    const isWall = (depth: number, col: number): boolean => {
+      const [x, y] = transform(ox, oy, depth, col);
+      return !inBounds(x, y) || opaque[y * width + x] === 1;
+    };
+    const reveal = (depth: number, col: number) => {
+      const [x, y] = transform(ox, oy, depth, col);
+      if (inBounds(x, y)) visible[y * width + x] = 1;
+    };
+
+    const scan = (row: Row): void => {
+      if (row.depth > maxDepth) return;
+
+      // Columns whose centre lies within the row's slopes (ties towards the row's middle)
+      const minCol = Math.floor((2 * row.depth * row.start.num + row.start.den) / (2 * row.start.den));
+      const maxCol = Math.ceil((2 * row.depth * row.end.num - row.end.den) / (2 * row.end.den));
+      let start = row.start;
+      let prevIsWall: boolean | null = null;
+
+      for (let col = minCol; col <= maxCol; col++) {
+        const wall = isWall(row.depth, col);
+        const isSymmetric = col * start.den >= row.depth * start.num && col * row.end.den <= row.depth * row.end.num;
+        if (wall || isSymmetric) {
+          reveal(row.depth, col);
+        }
+        if (prevIsWall === true && !wall) {
+          start = { num: 2 * col - 1, den: 2 * row.depth };
+        }
+        if (prevIsWall === false && wall) {
+          scan({ depth: row.depth + 1, start, end: { num: 2 * col - 1, den: 2 * row.depth } });
+        }
+        prevIsWall = wall;
+      }
+
+      if (prevIsWall === false) {
+        scan({ depth: row.depth + 1, start, end: row.end });
+      }
+    };
+
+    scan({ depth: 1, start: { num: -1, den: 1 }, end: { num: 1, den: 1 } });
+  });
+
+  return visible;
+}
+
+/**
+ * Cells visible from a cell, in SensesSnapshot.visible format ("x,y" -> boolean for every grid cell)
+ * @param grid Tiles, walls and grid size
+ * @param origin Viewer cell
+ * @param options Sight radius and eye level
+ */
+export function computeLineOfSight(
+  grid: LineOfSightGrid,
+  origin: readonly [number, number],
+  options: LineOfSightOptions = {}
+): Record<string, boolean> {
+  const radius = options.radius ?? DEFAULT_SIGHT_RADIUS;
+  const [originX, originY] = origin;
+  const result: Record<string, boolean> = {};
+
+  const isOriginInGrid = originX >= 0 && originX < grid.width && originY >= 0 && originY < grid.height;
+  if (!isOriginInGrid) {
+    for (let x = 0; x < grid.width; x++) {
+      for (let y = 0; y < grid.height; y++) result[`${x},${y}`] = false;
+    }
+    return result;
+  }
+
+  const topTiles = getTopTiles(grid);
+  const originKey = `${originX},${originY}`;
+  const eyeZ = options.zLevel ?? topTiles.get(originKey)?.z ?? 0;
+  const { opaque, width, opaqueCells, height } = buildOcclusionLattice(grid, topTiles, eyeZ, originKey);
+  const visible = castShadows(opaque, width, height, 2 * originX + 1, 2 * originY + 1, 2 * radius + 1);
+  const isLatticeVisible = (lx: number, ly: number) => visible[ly * width + lx] === 1;
+
+  for (let x = 0; x < grid.width; x++) {
+    for (let y = 0; y < grid.height; y++) {
+      const key = `${x},${y}`;
+      if (Math.hypot(x - originX, y - originY) > radius) {
+        result[key] = false;
+        continue;
+      }
+
+      let isVisible = isLatticeVisible(2 * x + 1, 2 * y + 1);
+      if (!isVisible && opaqueCells.has(key)) {
+        for (let dx = 0; dx <= 2 && !isVisible; dx++) {
+          for (let dy = 0; dy <= 2 && !isVisible; dy++) {
+            isVisible = isLatticeVisible(2 * x + dx, 2 * y + dy);
+          }
+        }
+      }
+      result[key] = isVisible;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,276 @@
+import { TileSummary } from '../types/battlemap_types';
+import { IsometricDirection } from '../game/managers/IsometricSpriteManager';
+
+/**
+ * Grid cell coordinate used by the paint tools
+ */
+export interface GridCell {
+  x: number;
+  y: number;
+}
+
+/**
+ * Grid vertex (cell corner) used by the wall-run tool
+ * Vertex (x, y) is the top corner of cell (x, y)
+ */
+export interface GridVertex {
+  x: number;
+  y: number;
+}
+
+/**
+ * A cell edge expressed the way walls store it: owning cell plus wall_direction
+ */
+export interface WallEdge {
+  x: number;
+  y: number;
+  direction: IsometricDirection;
+}
+
+/**
+ * Get all cells of the rectangle spanned by two corner cells
+ * @param startX First corner X
+ * @param startY First corner Y
+ * @param endX Opposite corner X
+ * @param endY Opposite corner Y
+ * @param filled Whether to include interior cells or only the outline
+ * @returns Cells inside (or on the border of) the rectangle
+ */
+export function getRectangleCells(startX: number, startY: number, endX: number, endY: number, filled: boolean = true): GridCell[] {
+  const minX = Math.min(startX, endX);
+  const maxX = Math.max(startX, endX);
+  const minY = Math.min(startY, endY);
+  const maxY = Math.max(startY, endY);
+
+  const cells: GridCell[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      const isBorder = x === minX || x === maxX || y === minY || y === maxY;
+      if (filled || isBorder) {
+        cells.push({ x, y });
+      }
+    }
+  }
+  return cells;
+}
+
+/**
+ * Get the cells along a straight line using Bresenham's algorithm
+ * @param startX Line start X
+ * @param startY Line start Y
+ * @param endX Line end X
+ * @param endY Line end Y
+ * @returns Cells on the line, ordered from start to end
+ */
+export function getLineCells(startX: number, startY: number, endX: number, endY: number): GridCell[] {
+  const cells: GridCell[] = [];
+
+  const dx = Math.abs(endX - startX);
+  const dy = -Math.abs(endY - startY);
+  const stepX = startX < endX ? 1 : -1;
+  const stepY = startY < endY ? 1 : -1;
+  let error = dx + dy;
+
+  let x = startX;
+  let y = startY;
+
+  while (true) {
+    cells.push({ x, y });
+    if (x === endX && y === endY) break;
+
+    const doubledError = 2 * error;
+    if (doubledError >= dy) {
+      error += dy;
+      x += stepX;
+    }
+    if (doubledError <= dx) {
+      error += dx;
+      y += stepY;
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Get the contiguous region of cells on one Z level that share the start cell's sprite
+ * Empty cells count as a region of their own, so filling into empty space works too
+ * @param startX Start cell X
+ * @param startY Start cell Y
+ * @param zLevel Z level to fill on
+ * @param tiles Tile map keyed "x,y,z"
+ * @param gridWidth Grid width in cells
+ * @param gridHeight Grid height in cells
+ * @returns Cells in the region (4-connected)
+ */
+export function getFloodFillCells(
+  startX: number,
+  startY: number,
+  zLevel: number,
+  tiles: Readonly<Record<string, TileSummary>>,
+  gridWidth: number,
+  gridHeight: number
+): GridCell[] {
+  if (startX < 0 || startY < 0 || startX >= gridWidth || startY >= gridHeight) return [];
+
+  const getSpriteAt = (x: number, y: number): string | null => {
+    return tiles[`${x},${y},${zLevel}`]?.sprite_name ?? null;
+  };
+
+  const targetSprite = getSpriteAt(startX, startY);
+  const visited = new Set<string>();
+  const cells: GridCell[] = [];
+  const stack: GridCell[] = [{ x: startX, y: startY }];
+
+  while (stack.length > 0) {
+    const { x, y } = stack.pop()!;
+    const key = `${x},${y}`;
+
+    if (visited.has(key)) continue;
+    if (x < 0 || y < 0 || x >= gridWidth || y >= gridHeight) continue;
+    visited.add(key);
+
+    if (getSpriteAt(x, y) !== targetSprite) continue;
+
+    cells.push({ x, y });
+    stack.push({ x: x + 1, y }, { x: x - 1, y }, { x, y: y + 1 }, { x, y: y - 1 });
+  }
+
+  return cells;
+}
+
+/**
+ * Get the wall edge between two neighbouring vertices
+ * Edges are attached to the cell below/right of them (EAST/NORTH side) and only fall back
+ * to the cell above/left (WEST/SOUTH side) on the far border of the grid.
+ * Sides follow the wall renderer: NORTH = top-left, EAST = top-right, SOUTH = bottom-right, WEST = bottom-left
+ * @param from First vertex
+ * @param to Second vertex (must differ from the first by exactly one step in X or Y)
+ * @param gridWidth Grid width in cells
+ * @param gridHeight Grid height in cells
+ * @returns The edge, or null if the vertices are not neighbours or the edge lies outside the grid
+ */
+export function getEdgeBetweenVertices(from: GridVertex, to: GridVertex, gridWidth: number, gridHeight: number): WallEdge | null {
+  const dx = Math.abs(to.x - from.x);
+  const dy = Math.abs(to.y - from.y);
+  if (dx + dy !== 1) return null;
+
+  if (dx === 1) {
+    // Edge along X: the top-right side of cell (x, y) / bottom-left side of cell (x, y - 1)
+    const x = Math.min(from.x, to.x);
+    const y = from.y;
+    if (x < 0 || x >= gridWidth) return null;
+    if (y < gridHeight) return { x, y, direction: IsometricDirection.EAST };
+    if (y - 1 >= 0) return { x, y: y - 1, direction: IsometricDirection.WEST };
+    return null;
+  }
+
+  // Edge along Y: the top-left side of cell (x, y) / bottom-right side of cell (x - 1, y)
+  const x = from.x;
+  const y = Math.min(from.y, to.y);
+  if (y < 0 || y >= gridHeight) return null;
+  if (x < gridWidth) return { x, y, direction: IsometricDirection.NORTH };
+  if (x - 1 >= 0) return { x: x - 1, y, direction: IsometricDirection.SOUTH };
+  return null;
+}
+
+/**
+ * Get the canonical form of a wall edge, shared by both cells it separates
+ * Every edge is expressed as the NORTH or EAST side of a cell: SOUTH of (x, y) is NORTH of (x + 1, y)
+ * and WEST of (x, y) is EAST of (x, y + 1). The canonical cell may lie just outside the grid.
+ * @param edge Edge as stored on a wall (owning cell plus side)
+ * @returns The same edge in canonical form
+ */
+export function getCanonicalWallEdge(edge: WallEdge): WallEdge {
+  switch (edge.direction) {
+    case IsometricDirection.SOUTH: return { x: edge.x + 1, y: edge.y, direction: IsometricDirection.NORTH };
+    case IsometricDirection.WEST: return { x: edge.x, y: edge.y + 1, direction: IsometricDirection.EAST };
+    default: return { x: edge.x, y: edge.y, direction: edge.direction };
+  }
+}
+
+/**
+ * Get the key of a wall edge on a Z level, identical from either side of the edge
+ * @param x Owning cell X
+ * @param y Owning cell Y
+ * @param z Z level
+ * @param direction Side of the owning cell
+ * @returns "x,y,z,direction" of the canonical edge
+ */
+export function getWallEdgeKey(x: number, y: number, z: number, direction: IsometricDirection): string {
+  const edge = getCanonicalWallEdge({ x, y, direction });
+  return `${edge.x},${edge.y},${z},${edge.direction}`;
+}
+
+/**
+ * Get the edges of a wall run between two vertices
+ * Straight drags follow the row/column; diagonal drags go along X first, then along Y (an L shape)
+ * @param start Run start vertex
+ * @param end Run end vertex
+ * @param gridWidth Grid width in cells
+ * @param gridHeight Grid height in cells
+ * @returns Edges ordered from start to end
+ */
+export function getWallRunEdges(start: GridVertex, end: GridVertex, gridWidth: number, gridHeight: number): WallEdge[] {
+  const edges: WallEdge[] = [];
+  const stepX = start.x < end.x ? 1 : -1;
+  const stepY = start.y < end.y ? 1 : -1;
+
+  let current: GridVertex = { x: start.x, y: start.y };
+
+  while (current.x !== end.x) {
+    const next = { x: current.x + stepX, y: current.y };
+    const edge = getEdgeBetweenVertices(current, next, gridWidth, gridHeight);
+    if (edge) edges.push(edge);
+    current = next;
+  }
+
+  while (current.y !== end.y) {
+    const next = { x: current.x, y: current.y + stepY };
+    const edge = getEdgeBetweenVertices(current, next, gridWidth, gridHeight);
+    if (edge) edges.push(edge);
+    current = next;
+  }
+
+  return edges;
+}
+
+/**
+ * Get the perimeter edges and floor cells of the room spanned by two opposite vertices
+ * Every perimeter edge is attached to the room cell inside it
+ * @param start First corner vertex
+ * @param end Opposite corner vertex
+ * @param gridWidth Grid width in cells
+ * @param gridHeight Grid height in cells
+ * @returns Perimeter edges and interior cells (both empty if the vertices don't span an area)
+ */
+export function getRoomEdges(
+  start: GridVertex,
+  end: GridVertex,
+  gridWidth: number,
+  gridHeight: number
+): { edges: WallEdge[]; cells: GridCell[] } {
+  const minX = Math.max(0, Math.min(start.x, end.x));
+  const maxX = Math.min(gridWidth, Math.max(start.x, end.x));
+  const minY = Math.max(0, Math.min(start.y, end.y));
+  const maxY = Math.min(gridHeight, Math.max(start.y, end.y));
+
+  if (maxX - minX < 1 || maxY - minY < 1) {
+    return { edges: [], cells: [] };
+  }
+
+  const edges: WallEdge[] = [];
+  for (let x = minX; x < maxX; x++) {
+    edges.push({ x, y: minY, direction: IsometricDirection.EAST });     // Top-right side
+    edges.push({ x, y: maxY - 1, direction: IsometricDirection.WEST }); // Bottom-left side
+  }
+  for (let y = minY; y < maxY; y++) {
+    edges.push({ x: minX, y, direction: IsometricDirection.NORTH });     // Top-left side
+    edges.push({ x: maxX - 1, y, direction: IsometricDirection.SOUTH }); // Bottom-right side
+  }
+
+  return {
+    edges,
+    cells: getRectangleCells(minX, minY, maxX - 1, maxY - 1, true)
+  };
+}
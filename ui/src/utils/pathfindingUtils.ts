@@ -0,0 +1,263 @@
+import { Position } from '../types/common';
+import { DiagonalMovementRule, TileSummary, WallSummary } from '../types/battlemap_types';
+import { IsometricDirection } from '../game/managers/IsometricSpriteManager';
+import { getWallEdgeKey } from './paintToolUtils';
+
+/**
+ * Client-side A* over grid cells
+ *
+ * Cells are walkable when their top tile is walkable. Steps go to the 8 neighbours, one Z level
+ * up or down at most; walls that block movement stop a step across their edge, and a diagonal
+ * step may not cut a corner: both orthogonal cells must be walkable and none of the four edges
+ * around the corner may be walled. Costs are in feet (5 ft per cell by default).
+ */
+
+// Grid data the search needs (GridState satisfies it)
+export interface PathfindingGrid {
+  width: number;
+  height: number;
+  tiles: Readonly<Record<string, TileSummary>>;
+  walls: Readonly<Record<string, WallSummary>>;
+}
+
+export interface PathfindingOptions {
+  feetPerCell?: number;
+  diagonalRule?: DiagonalMovementRule;
+  blockedCells?: ReadonlySet<string>; // "x,y" cells that can't be entered (e.g. other entities)
+  // Walls on an edge from either side (e.g. battlemapActions.getWallsAtEdge); without it the walls are indexed per search
+  getWallsAtEdge?: (x: number, y: number, z: number, direction: IsometricDirection) => readonly WallSummary[];
+}
+
+export interface PathResult {
+  path: Position[]; // Start and goal included
+  costs: number[]; // Feet spent when reaching each path cell (0 for the start)
+  cost: number; // Feet for the whole path
+}
+
+export const DEFAULT_FEET_PER_CELL = 5;
+
+const STEPS: ReadonlyArray<readonly [number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1]
+];
+
+/**
+ * Whether a movement-blocking wall stands on an edge
+ */
+type EdgeBlockedLookup = (x: number, y: number, z: number, direction: IsometricDirection) => boolean;
+
+/**
+ * Edge lookup over every wall, for callers without a wall index
+ */
+function buildBlockedEdgeLookup(walls: Readonly<Record<string, WallSummary>>): EdgeBlockedLookup {
+  const blockedEdges = new Set<string>();
+  Object.values(walls).forEach(wall => {
+    if (wall.blocks_movement) {
+      blockedEdges.add(getWallEdgeKey(wall.position[0], wall.position[1], wall.z_level, wall.wall_direction));
+    }
+  });
+  return (x, y, z, direction) => blockedEdges.has(getWallEdgeKey(x, y, z, direction));
+}
+
+/**
+ * Lookups the search needs, built once per search
+ */
+function buildPathfindingIndex(grid: PathfindingGrid, options: PathfindingOptions) {
+  const standingZ = new Map<string, number>();
+  const walkable = new Map<string, boolean>();
+  Object.values(grid.tiles).forEach(tile => {
+    const key = `${tile.position[0]},${tile.position[1]}`;
+    const current = standingZ.get(key);
+    if (current === undefined || tile.z_level > current) {
+      standingZ.set(key, tile.z_level);
+      walkable.set(key, tile.walkable);
+    }
+  });
+
+  const getWallsAtEdge = options.getWallsAtEdge;
+  const isEdgeBlocked: EdgeBlockedLookup = getWallsAtEdge
+    ? (x, y, z, direction) => getWallsAtEdge(x, y, z, direction).some(wall => wall.blocks_movement)
+    : buildBlockedEdgeLookup(grid.walls);
+
+  return { standingZ, walkable, isEdgeBlocked };
+}
+
+type PathfindingIndex = ReturnType<typeof buildPathfindingIndex>;
+
+/**
+ * Whether a wall blocks the orthogonal step between two neighbouring cells, on any level the step passes
+ */
+function isOrthogonalStepBlocked(index: PathfindingIndex, fromX: number, fromY: number, toX: number, toY: number): boolean {
+  const fromZ = index.standingZ.get(`${fromX},${fromY}`) ?? 0;
+  const toZ = index.standingZ.get(`${toX},${toY}`) ?? 0;
+
+  let edge: [number, number, IsometricDirection];
+  if (toX === fromX - 1) edge = [fromX, fromY, IsometricDirection.NORTH];
+  else if (toX === fromX + 1) edge = [fromX, fromY, IsometricDirection.SOUTH];
+  else if (toY === fromY - 1) edge = [fromX, fromY, IsometricDirection.EAST];
+  else edge = [fromX, fromY, IsometricDirection.WEST];
+
+  for (let z = Math.min(fromZ, toZ); z <= Math.max(fromZ, toZ); z++) {
+    if (index.isEdgeBlocked(edge[0], edge[1], z, edge[2])) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether a cell can be stood on
+ */
+function isCellEnterable(grid: PathfindingGrid, index: PathfindingIndex, x: number, y: number, blockedCells?: ReadonlySet<string>): boolean {
+  if (x < 0 || y < 0 || x >= grid.width || y >= grid.height) return false;
+  const key = `${x},${y}`;
+  return index.walkable.get(key) === true && !blockedCells?.has(key);
+}
+
+/**
+ * Whether a single step (orthogonal or diagonal) is allowed
+ */
+function canStep(
+  grid: PathfindingGrid,
+  index: PathfindingIndex,
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number,
+  blockedCells?: ReadonlySet<string>
+): boolean {
+  if (!isCellEnterable(grid, index, toX, toY, blockedCells)) return false;
+
+  const fromZ = index.standingZ.get(`${fromX},${fromY}`) ?? 0;
+  const toZ = index.standingZ.get(`${toX},${toY}`) ?? 0;
+  if (Math.abs(fromZ - toZ) > 1) return false;
+
+  if (fromX === toX || fromY === toY) {
+    return !isOrthogonalStepBlocked(index, fromX, fromY, toX, toY);
+  }
+
+  // No corner cutting: both cells beside the diagonal must be walkable and no wall may touch the corner
+  return isCellEnterable(grid, index, toX, fromY) && isCellEnterable(grid, index, fromX, toY) &&
+    !isOrthogonalStepBlocked(index, fromX, fromY, toX, fromY) && !isOrthogonalStepBlocked(index, toX, fromY, toX, toY) &&
+    !isOrthogonalStepBlocked(index, fromX, fromY, fromX, toY) && !isOrthogonalStepBlocked(index, fromX, toY, toX, toY);
+}
+
+/**
+ * Minimal binary heap keyed by priority
+ */
+class MinHeap<T> {
+  private items: Array<{ priority: number; value: T }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(value: T, priority: number): void {
+    const items = this.items;
+    items.push({ priority, value });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top.value;
+  }
+}
+
+/**
+ * Cheapest path between two cells
+ * @param grid Tiles, walls and grid size
+ * @param start Start cell (need not be walkable itself, e.g. an entity standing on a prop)
+ * @param goal Goal cell
+ * @param options Cell size in feet, diagonal rule, cells to avoid and wall lookup
+ * @returns The path with per-cell costs, or null if the goal can't be reached
+ */
+export function findPath(
+  grid: PathfindingGrid,
+  start: Position,
+  goal: Position,
+  options: PathfindingOptions = {}
+): PathResult | null {
+  const feetPerCell = options.feetPerCell ?? DEFAULT_FEET_PER_CELL;
+  const diagonalRule = options.diagonalRule ?? 'five';
+  const [startX, startY] = start;
+  const [goalX, goalY] = goal;
+
+  if (startX === goalX && startY === goalY) {
+    return { path: [[startX, startY]], costs: [0], cost: 0 };
+  }
+
+  const index = buildPathfindingIndex(grid, options);
+  if (!isCellEnterable(grid, index, goalX, goalY, options.blockedCells)) return null;
+
+  // Search state: cell plus (for the alternating rule) whether the next diagonal is the expensive one
+  const stateKey = (x: number, y: number, parity: number) => (y * grid.width + x) * 2 + parity;
+  const best = new Map<number, number>(); // state -> cost in cells
+  const cameFrom = new Map<number, number>();
+  const open = new MinHeap<{ x: number; y: number; parity: number; cost: number }>();
+  const heuristic = (x: number, y: number) => Math.max(Math.abs(goalX - x), Math.abs(goalY - y));
+
+  const startState = stateKey(startX, startY, 0);
+  best.set(startState, 0);
+  open.push({ x: startX, y: startY, parity: 0, cost: 0 }, heuristic(startX, startY));
+
+  while (open.size > 0) {
+    const node = open.pop()!;
+    const nodeState = stateKey(node.x, node.y, node.parity);
+    if (node.cost > (best.get(nodeState) ?? Infinity)) continue; // Stale entry
+
+    if (node.x === goalX && node.y === goalY) {
+      // Walk back through the states, collecting cells and costs
+      const path: Position[] = [];
+      const costs: number[] = [];
+      let state: number | undefined = nodeState;
+      while (state !== undefined) {
+        const cell = Math.floor(state / 2);
+        path.unshift([cell % grid.width, Math.floor(cell / grid.width)]);
+        costs.unshift((best.get(state) ?? 0) * feetPerCell);
+        state = cameFrom.get(state);
+      }
+      return { path, costs, cost: node.cost * feetPerCell };
+    }
+
+    STEPS.forEach(([dx, dy]) => {
+      const nx = node.x + dx;
+      const ny = node.y + dy;
+      if (!canStep(grid, index, node.x, node.y, nx, ny, options.blockedCells)) return;
+
+      const isDiagonal = dx !== 0 && dy !== 0;
+      const stepCost = isDiagonal && diagonalRule === 'alternating' && node.parity === 1 ? 2 : 1;
+      const parity = isDiagonal && diagonalRule === 'alternating' ? 1 - node.parity : node.parity;
+      const cost = node.cost + stepCost;
+      const nextState = stateKey(nx, ny, parity);
+      if (cost >= (best.get(nextState) ?? Infinity)) return;
+
+      best.set(nextState, cost);
+      cameFrom.set(nextState, nodeState);
+      open.push({ x: nx, y: ny, parity, cost }, cost + heuristic(nx, ny));
+    });
+  }
+
+  return null;
+}
@@ -0,0 +1,102 @@
+import { TileSummary, WallSummary } from '../types/battlemap_types';
+import { IsometricDirection } from '../game/managers/IsometricSpriteManager';
+import { GridCell } from './paintToolUtils';
+
+/**
+ * Rotation/mirror applied to clipboard contents before pasting
+ * Mirroring is applied first, then the clockwise rotation
+ */
+export interface ClipboardTransform {
+  rotation: number; // Clockwise quarter turns (0-3)
+  mirrorX: boolean; // Flip along the grid X axis
+  mirrorY: boolean; // Flip along the grid Y axis
+}
+
+/**
+ * Rotate a direction by clockwise quarter turns
+ * Directions (and wall edges N -> E -> S -> W) run clockwise on screen, so a quarter turn is +1
+ */
+export function rotateDirection(direction: IsometricDirection, quarterTurns: number): IsometricDirection {
+  return (((direction + quarterTurns) % 4) + 4) % 4 as IsometricDirection;
+}
+
+/**
+ * Mirror a direction along the grid axes
+ * NORTH/SOUTH face -X/+X and swap when mirroring X; EAST/WEST face -Y/+Y and swap when mirroring Y
+ */
+export function mirrorDirection(direction: IsometricDirection, mirrorX: boolean, mirrorY: boolean): IsometricDirection {
+  if (mirrorX && (direction === IsometricDirection.NORTH || direction === IsometricDirection.SOUTH)) {
+    return direction === IsometricDirection.NORTH ? IsometricDirection.SOUTH : IsometricDirection.NORTH;
+  }
+  if (mirrorY && (direction === IsometricDirection.EAST || direction === IsometricDirection.WEST)) {
+    return direction === IsometricDirection.EAST ? IsometricDirection.WEST : IsometricDirection.EAST;
+  }
+  return direction;
+}
+
+/**
+ * Apply a transform to a direction (mirror first, then rotate)
+ */
+export function transformDirection(direction: IsometricDirection, transform: ClipboardTransform): IsometricDirection {
+  return rotateDirection(mirrorDirection(direction, transform.mirrorX, transform.mirrorY), transform.rotation);
+}
+
+/**
+ * Apply a transform to a cell inside a width x height block
+ * A clockwise quarter turn maps +X to +Y, so (x, y) -> (height - 1 - y, x)
+ * @returns The transformed cell, relative to the transformed block's top corner
+ */
+export function transformCell(x: number, y: number, width: number, height: number, transform: ClipboardTransform): GridCell {
+  let cellX = transform.mirrorX ? width - 1 - x : x;
+  let cellY = transform.mirrorY ? height - 1 - y : y;
+  let blockWidth = width;
+  let blockHeight = height;
+
+  for (let turn = 0; turn < (((transform.rotation % 4) + 4) % 4); turn++) {
+    const rotatedX = blockHeight - 1 - cellY;
+    cellY = cellX;
+    cellX = rotatedX;
+    [blockWidth, blockHeight] = [blockHeight, blockWidth];
+  }
+
+  return { x: cellX, y: cellY };
+}
+
+/**
+ * Size of a width x height block after a transform
+ */
+export function getTransformedSize(width: number, height: number, transform: ClipboardTransform): { width: number; height: number } {
+  return transform.rotation % 2 === 0 ? { width, height } : { width: height, height: width };
+}
+
+/**
+ * Transform tiles and walls stored relative to their block's top corner
+ * @returns Copies with remapped positions, sprite_direction and wall_direction
+ */
+export function transformGridContents(
+  tiles: TileSummary[],
+  walls: WallSummary[],
+  width: number,
+  height: number,
+  transform: ClipboardTransform
+): { tiles: TileSummary[]; walls: WallSummary[] } {
+  return {
+    tiles: tiles.map(tile => {
+      const cell = transformCell(tile.position[0], tile.position[1], width, height, transform);
+      return {
+        ...tile,
+        position: [cell.x, cell.y] as const,
+        sprite_direction: transformDirection(tile.sprite_direction, transform)
+      };
+    }),
+    walls: walls.map(wall => {
+      const cell = transformCell(wall.position[0], wall.position[1], width, height, transform);
+      return {
+        ...wall,
+        position: [cell.x, cell.y] as const,
+        wall_direction: transformDirection(wall.wall_direction, transform),
+        sprite_direction: transformDirection(wall.sprite_direction, transform)
+      };
+    })
+  };
+}
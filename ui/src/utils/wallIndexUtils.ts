@@ -0,0 +1,159 @@
+import { WallSummary } from '../types/battlemap_types';
+import { IsometricDirection } from '../game/managers/IsometricSpriteManager';
+import { getCanonicalWallEdge, getWallEdgeKey } from './paintToolUtils';
+
+/**
+ * Spatial index over the wall records
+ *
+ * Walls are stored in canonical form (NORTH or EAST side of a cell, see getCanonicalWallEdge) and
+ * keyed by their canonical edge plus sprite and facing (getWallKey), so a wall drawn as SOUTH of
+ * (x, y) is the same record as one drawn as NORTH of (x + 1, y), and different walls can still share
+ * an edge. The index files every wall under its edge and under both cells it borders.
+ */
+
+interface IndexedWall {
+  edgeKey: string;
+  cellKeys: [string, string];
+}
+
+/**
+ * Cells on both sides of a wall, as "x,y,z" keys
+ */
+function getWallCellKeys(wall: WallSummary): [string, string] {
+  const edge = getCanonicalWallEdge({ x: wall.position[0], y: wall.position[1], direction: wall.wall_direction });
+  const [otherX, otherY] = edge.direction === IsometricDirection.NORTH ? [edge.x - 1, edge.y] : [edge.x, edge.y - 1];
+  return [`${edge.x},${edge.y},${wall.z_level}`, `${otherX},${otherY},${wall.z_level}`];
+}
+
+function addToBucket(buckets: Map<string, Set<string>>, bucketKey: string, wallKey: string): void {
+  const bucket = buckets.get(bucketKey);
+  if (bucket) bucket.add(wallKey);
+  else buckets.set(bucketKey, new Set([wallKey]));
+}
+
+function removeFromBucket(buckets: Map<string, Set<string>>, bucketKey: string, wallKey: string): void {
+  const bucket = buckets.get(bucketKey);
+  if (!bucket) return;
+  bucket.delete(wallKey);
+  if (bucket.size === 0) buckets.delete(bucketKey);
+}
+
+/**
+ * Edge and cell lookups over a wall record, kept in step with it by the caller
+ * The index remembers which record and version it was built from; sync() rebuilds it
+ * whenever either changed behind its back
+ */
+export class WallSpatialIndex {
+  private byEdge = new Map<string, Set<string>>();
+  private byCell = new Map<string, Set<string>>();
+  private indexed = new Map<string, IndexedWall>();
+  private source: object | null = null;
+  private version: number | undefined;
+
+  /**
+   * Rebuild from the record unless it is the one (and version) the index already reflects
+   */
+  sync(walls: Readonly<Record<string, WallSummary>>, version: number | undefined): void {
+    if (walls === this.source && version === this.version) return;
+
+    this.byEdge.clear();
+    this.byCell.clear();
+    this.indexed.clear();
+    Object.keys(walls).forEach(wallKey => this.set(wallKey, walls[wallKey]));
+    this.source = walls;
+    this.version = version;
+  }
+
+  /**
+   * Record that the index matches this version after incremental set/delete calls
+   */
+  markSynced(version: number | undefined): void {
+    this.version = version;
+  }
+
+  set(wallKey: string, wall: WallSummary): void {
+    this.delete(wallKey);
+    const entry: IndexedWall = {
+      edgeKey: getWallEdgeKey(wall.position[0], wall.position[1], wall.z_level, wall.wall_direction),
+      cellKeys: getWallCellKeys(wall)
+    };
+    this.indexed.set(wallKey, entry);
+    addToBucket(this.byEdge, entry.edgeKey, wallKey);
+    entry.cellKeys.forEach(cellKey => addToBucket(this.byCell, cellKey, wallKey));
+  }
+
+  delete(wallKey: string): void {
+    const entry = this.indexed.get(wallKey);
+    if (!entry) return;
+    this.indexed.delete(wallKey);
+    removeFromBucket(this.byEdge, entry.edgeKey, wallKey);
+    entry.cellKeys.forEach(cellKey => removeFromBucket(this.byCell, cellKey, wallKey));
+  }
+
+  /**
+   * Keys of the walls on an edge, given from either cell
+   */
+  getKeysAtEdge(x: number, y: number, z: number, direction: IsometricDirection): string[] {
+    return Array.from(this.byEdge.get(getWallEdgeKey(x, y, z, direction)) ?? []);
+  }
+
+  /**
+   * Keys of the walls on any of a cell's four edges
+   */
+  getKeysAtCell(x: number, y: number, z: number): string[] {
+    return Array.from(this.byCell.get(`${x},${y},${z}`) ?? []);
+  }
+}
+
+/**
+ * The same wall stored on the canonical side of its edge (sprite, facing and the rest unchanged)
+ */
+export function toCanonicalWall(wall: WallSummary): WallSummary {
+  const edge = getCanonicalWallEdge({ x: wall.position[0], y: wall.position[1], direction: wall.wall_direction });
+  if (edge.x === wall.position[0] && edge.y === wall.position[1] && edge.direction === wall.wall_direction) return wall;
+  return { ...wall, position: [edge.x, edge.y], wall_direction: edge.direction };
+}
+
+/**
+ * Key of a wall in grid.walls: "x,y,z,direction" of its canonical edge, then sprite and facing
+ * Identical walls get the same key whichever side they were drawn from
+ */
+export function getWallKey(wall: WallSummary): string {
+  const edgeKey = getWallEdgeKey(wall.position[0], wall.position[1], wall.z_level, wall.wall_direction);
+  return `${edgeKey}|${wall.sprite_name ?? ''}|${wall.sprite_direction}`;
+}
+
+/**
+ * Whether two walls are the same wall: same sprite and facing on the same edge and level,
+ * whichever side either was drawn from
+ */
+export function isSameWall(a: WallSummary, b: WallSummary): boolean {
+  return (
+    a.sprite_name === b.sprite_name &&
+    a.sprite_direction === b.sprite_direction &&
+    getWallEdgeKey(a.position[0], a.position[1], a.z_level, a.wall_direction) ===
+      getWallEdgeKey(b.position[0], b.position[1], b.z_level, b.wall_direction)
+  );
+}
+
+/**
+ * Bring a wall record to the current form: canonical walls under getWallKey, one record per identical wall
+ * @param walls Walls as stored (older maps keyed them by "x,y,z,direction" or by uuid, on the side they were drawn)
+ * @returns The canonical record, and how many duplicates were dropped
+ */
+export function normalizeWallRecord(walls: Readonly<Record<string, WallSummary>>): { walls: Record<string, WallSummary>; dropped: number } {
+  const normalized: Record<string, WallSummary> = {};
+  let dropped = 0;
+
+  Object.values(walls).forEach(wall => {
+    const canonicalWall = toCanonicalWall(wall);
+    const wallKey = getWallKey(canonicalWall);
+    if (normalized[wallKey]) {
+      dropped++;
+      return;
+    }
+    normalized[wallKey] = canonicalWall;
+  });
+
+  return { walls: normalized, dropped };
+}
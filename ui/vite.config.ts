@@ -174,6 +174,352 @@ function spriteConfigPlugin() {
           res.end(JSON.stringify({ error: error.message }));
         }
       });
+
+      // API endpoint to load every auto-tile rule set (one JSON file per sprite family)
+      server.middlewares.use('/api/sprite-config/autotile-rules', async (req, res, next) => {
+        if (req.method !== 'GET') {
+          return next();
+        }
+
+        try {
+          const rulesDir = path.join(process.cwd(), 'public', 'isometric_tiles', 'configs', 'autotile');
+
+          if (!fs.existsSync(rulesDir)) {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ ruleSets: [] }));
+            return;
+          }
+
+          const ruleSets = [];
+          for (const file of fs.readdirSync(rulesDir).filter(file => file.endsWith('.json'))) {
+            try {
+              ruleSets.push(JSON.parse(fs.readFileSync(path.join(rulesDir, file), 'utf8')));
+            } catch (error) {
+              console.warn(`[SpriteConfig] Skipping invalid auto-tile rules ${file}:`, error.message);
+            }
+          }
+
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ ruleSets }));
+        } catch (error) {
+          console.error('[SpriteConfig] Auto-tile rules error:', error);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: error.message }));
+        }
+      });
+    }
+  };
+}
+
+// Name stored inside a saved document (file names are sanitized, so several names can share a file)
+function readDocumentName(filePath) {
+  try {
+    const { name } = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return typeof name === 'string' ? name : null;
+  } catch {
+    return null;
+  }
+}
+
+// Custom plugin for whole-map persistence (versioned map documents under public/maps)
+function mapStoragePlugin() {
+  const mapsDir = path.join(process.cwd(), 'public', 'maps');
+
+  // Map names become file names, so only allow a safe subset of characters
+  const toMapPath = (name) => path.join(mapsDir, `${String(name).replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+
+  return {
+    name: 'map-storage',
+    configureServer(server) {
+      // API endpoint to save a map document
+      server.middlewares.use('/api/maps/save', async (req, res, next) => {
+        if (req.method !== 'POST') {
+          return next();
+        }
+
+        let body = '';
+        req.on('data', chunk => {
+          body += chunk.toString();
+        });
+
+        req.on('end', async () => {
+          try {
+            const document = JSON.parse(body);
+
+            if (!document.name || typeof document.version !== 'number') {
+              res.writeHead(400, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ error: 'Missing map name or version' }));
+              return;
+            }
+
+            if (!fs.existsSync(mapsDir)) {
+              fs.mkdirSync(mapsDir, { recursive: true });
+            }
+
+            const mapPath = toMapPath(document.name);
+
+            // Refuse to overwrite a different map whose name sanitizes to the same file
+            const existingName = fs.existsSync(mapPath) ? readDocumentName(mapPath) : null;
+            if (existingName !== null && existingName !== document.name) {
+              res.writeHead(409, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ error: `"${document.name}" clashes with the saved map "${existingName}", choose another name` }));
+              return;
+            }
+
+            fs.writeFileSync(mapPath, JSON.stringify(document, null, 2));
+
+            console.log(`[MapStorage] Saved map: ${mapPath}`);
+
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: true, path: mapPath }));
+          } catch (error) {
+            console.error('[MapStorage] Save error:', error);
+            res.writeHead(500, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: error.message }));
+          }
+        });
+      });
+
+      // API endpoint to load a map document
+      server.middlewares.use('/api/maps/load', async (req, res, next) => {
+        if (req.method !== 'GET') {
+          return next();
+        }
+
+        try {
+          const url = new URL(req.url, `http://${req.headers.host}`);
+          const name = url.searchParams.get('name');
+
+          if (!name) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Missing name' }));
+            return;
+          }
+
+          const mapPath = toMapPath(name);
+
+          if (!fs.existsSync(mapPath)) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Map not found' }));
+            return;
+          }
+
+          const document = JSON.parse(fs.readFileSync(mapPath, 'utf8'));
+
+          if (document.name !== undefined && document.name !== name) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Map not found' }));
+            return;
+          }
+
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(document));
+        } catch (error) {
+          console.error('[MapStorage] Load error:', error);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: error.message }));
+        }
+      });
+
+      // API endpoint to list all saved maps
+      server.middlewares.use('/api/maps/list', async (req, res, next) => {
+        if (req.method !== 'GET') {
+          return next();
+        }
+
+        try {
+          if (!fs.existsSync(mapsDir)) {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ maps: [] }));
+            return;
+          }
+
+          const maps = fs.readdirSync(mapsDir)
+            .filter(file => file.endsWith('.json'))
+            .map(file => {
+              const filePath = path.join(mapsDir, file);
+              return {
+                // List the name the map was saved under, not the sanitized file name
+                name: readDocumentName(filePath) ?? file.replace('.json', ''),
+                lastModified: fs.statSync(filePath).mtime.toISOString()
+              };
+            });
+
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ maps }));
+        } catch (error) {
+          console.error('[MapStorage] List error:', error);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: error.message }));
+        }
+      });
+    }
+  };
+}
+
+// Custom plugin for prefab (stamp) storage under public/prefabs
+function prefabStoragePlugin() {
+  const prefabsDir = path.join(process.cwd(), 'public', 'prefabs');
+
+  // Prefab names become file names, so only allow a safe subset of characters
+  const toPrefabPath = (name) => path.join(prefabsDir, `${String(name).replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+
+  return {
+    name: 'prefab-storage',
+    configureServer(server) {
+      // API endpoint to save a prefab document
+      server.middlewares.use('/api/prefabs/save', async (req, res, next) => {
+        if (req.method !== 'POST') {
+          return next();
+        }
+
+        let body = '';
+        req.on('data', chunk => {
+          body += chunk.toString();
+        });
+
+        req.on('end', async () => {
+          try {
+            const prefab = JSON.parse(body);
+
+            if (!prefab.name || typeof prefab.version !== 'number') {
+              res.writeHead(400, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ error: 'Missing prefab name or version' }));
+              return;
+            }
+
+            if (!fs.existsSync(prefabsDir)) {
+              fs.mkdirSync(prefabsDir, { recursive: true });
+            }
+
+            const prefabPath = toPrefabPath(prefab.name);
+
+            // Refuse to overwrite a different prefab whose name sanitizes to the same file
+            const existingName = fs.existsSync(prefabPath) ? readDocumentName(prefabPath) : null;
+            if (existingName !== null && existingName !== prefab.name) {
+              res.writeHead(409, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ error: `"${prefab.name}" clashes with the saved prefab "${existingName}", choose another name` }));
+              return;
+            }
+
+            fs.writeFileSync(prefabPath, JSON.stringify(prefab, null, 2));
+
+            console.log(`[PrefabStorage] Saved prefab: ${prefabPath}`);
+
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ success: true, path: prefabPath }));
+          } catch (error) {
+            console.error('[PrefabStorage] Save error:', error);
+            res.writeHead(500, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: error.message }));
+          }
+        });
+      });
+
+      // API endpoint to load a prefab document
+      server.middlewares.use('/api/prefabs/load', async (req, res, next) => {
+        if (req.method !== 'GET') {
+          return next();
+        }
+
+        try {
+          const url = new URL(req.url, `http://${req.headers.host}`);
+          const name = url.searchParams.get('name');
+
+          if (!name) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Missing name' }));
+            return;
+          }
+
+          const prefabPath = toPrefabPath(name);
+
+          if (!fs.existsSync(prefabPath)) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Prefab not found' }));
+            return;
+          }
+
+          const prefab = JSON.parse(fs.readFileSync(prefabPath, 'utf8'));
+
+          if (prefab.name !== undefined && prefab.name !== name) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Prefab not found' }));
+            return;
+          }
+
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(prefab));
+        } catch (error) {
+          console.error('[PrefabStorage] Load error:', error);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: error.message }));
+        }
+      });
+
+      // API endpoint to list all saved prefabs
+      server.middlewares.use('/api/prefabs/list', async (req, res, next) => {
+        if (req.method !== 'GET') {
+          return next();
+        }
+
+        try {
+          if (!fs.existsSync(prefabsDir)) {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ prefabs: [] }));
+            return;
+          }
+
+          const prefabs = fs.readdirSync(prefabsDir)
+            .filter(file => file.endsWith('.json'))
+            .map(file => {
+              const filePath = path.join(prefabsDir, file);
+              return {
+                // List the name the prefab was saved under, not the sanitized file name
+                name: readDocumentName(filePath) ?? file.replace('.json', ''),
+                lastModified: fs.statSync(filePath).mtime.toISOString()
+              };
+            });
+
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ prefabs }));
+        } catch (error) {
+          console.error('[PrefabStorage] List error:', error);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: error.message }));
+        }
+      });
+
+      // API endpoint to delete a prefab
+      server.middlewares.use('/api/prefabs/delete', async (req, res, next) => {
+        if (req.method !== 'DELETE') {
+          return next();
+        }
+
+        try {
+          const url = new URL(req.url, `http://${req.headers.host}`);
+          const name = url.searchParams.get('name');
+
+          if (!name) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Missing name' }));
+            return;
+          }
+
+          const prefabPath = toPrefabPath(name);
+          if (fs.existsSync(prefabPath) && (readDocumentName(prefabPath) ?? name) === name) {
+            fs.unlinkSync(prefabPath);
+            console.log(`[PrefabStorage] Deleted prefab: ${prefabPath}`);
+          }
+
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: true }));
+        } catch (error) {
+          console.error('[PrefabStorage] Delete error:', error);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: error.message }));
+        }
+      });
     }
   };
 }
@@ -220,7 +566,7 @@ function createDefaultSpriteConfig(spriteName, spriteType) {
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react(), spriteConfigPlugin()],
+  plugins: [react(), spriteConfigPlugin(), mapStoragePlugin(), prefabStoragePlugin()],
   server: {
     port: 3000, // Match CRA's default port
     proxy: {
@@ -229,6 +575,12 @@ export default defineConfig({
         changeOrigin: true,
         secure: false,
         rewrite: (path) => path
+      },
+      // Real-time battle sync (BattleSyncManager)
+      '/ws': {
+        target: 'ws://localhost:8000',
+        ws: true,
+        changeOrigin: true
       }
     }
   }